@@ -0,0 +1,117 @@
+/**
+ * Print Bridge
+ *
+ * Forwards raw ZPL from the browser to a Zebra printer. Browsers cannot open
+ * the printer's raw TCP port (9100), so run this on a computer in the tool
+ * crib and set its URL under Settings > Thermal Labels.
+ *
+ *   PRINTER_HOST=10.0.4.20 PRINT_BRIDGE_ORIGIN=https://app.example.com npm run print-bridge
+ *
+ * Environment:
+ *   PRINTER_HOST         Printer IP address or host name (required)
+ *   PRINTER_PORT         Printer raw port, default 9100
+ *   PRINT_BRIDGE_ORIGIN  Comma-separated origins of the app allowed to print (required)
+ *   PRINT_BRIDGE_HOST    Interface to listen on, default 127.0.0.1 (this computer only)
+ *   PRINT_BRIDGE_PORT    Port to listen on, default 9101
+ *
+ * Endpoint: POST /print with the ZPL as a text/plain body.
+ */
+import http from 'node:http';
+import net from 'node:net';
+
+const printerHost = process.env.PRINTER_HOST;
+const printerPort = Number(process.env.PRINTER_PORT || 9100);
+const allowedOrigins = (process.env.PRINT_BRIDGE_ORIGIN || '')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
+const listenHost = process.env.PRINT_BRIDGE_HOST || '127.0.0.1';
+const listenPort = Number(process.env.PRINT_BRIDGE_PORT || 9101);
+
+// A generous cap; a label is well under 1 KB
+const MAX_BODY_BYTES = 1024 * 1024;
+const PRINTER_TIMEOUT_MS = 10000;
+
+if (!printerHost || allowedOrigins.length === 0) {
+  console.error('Set PRINTER_HOST and PRINT_BRIDGE_ORIGIN to start the print bridge.');
+  process.exit(1);
+}
+
+/**
+ * Writes ZPL to the printer's raw port
+ */
+const sendToPrinter = (zpl) => new Promise((resolve, reject) => {
+  const socket = net.createConnection({ host: printerHost, port: printerPort });
+  socket.setTimeout(PRINTER_TIMEOUT_MS);
+  socket.on('connect', () => socket.end(zpl, 'utf8'));
+  socket.on('timeout', () => socket.destroy(new Error(`Printer at ${printerHost}:${printerPort} did not respond`)));
+  socket.on('error', reject);
+  socket.on('close', hadError => {
+    if (!hadError) resolve();
+  });
+});
+
+const server = http.createServer((req, res) => {
+  const origin = req.headers.origin;
+  const send = (status, message) => {
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(message);
+  };
+
+  if (origin && allowedOrigins.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  } else {
+    send(403, 'Origin not allowed');
+    return;
+  }
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, {
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type',
+      // Lets a page served over the internet reach a bridge on the local network
+      'Access-Control-Allow-Private-Network': 'true',
+    });
+    res.end();
+    return;
+  }
+
+  if (req.method !== 'POST' || req.url !== '/print') {
+    send(404, 'Not found');
+    return;
+  }
+
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      send(413, 'Label data too large');
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', async () => {
+    if (res.writableEnded) return;
+
+    const zpl = Buffer.concat(chunks).toString('utf8');
+    if (!zpl.includes('^XA')) {
+      send(400, 'Body is not ZPL');
+      return;
+    }
+
+    try {
+      await sendToPrinter(zpl);
+      send(200, 'Printed');
+    } catch (error) {
+      console.error('Error printing:', error.message);
+      send(502, error.message);
+    }
+  });
+});
+
+server.listen(listenPort, listenHost, () => {
+  console.log(`Print bridge on http://${listenHost}:${listenPort}, printing to ${printerHost}:${printerPort}`);
+});
@@ -7,9 +7,17 @@ import ProtectedRoute from './pages/ProtectedRoute';
 import DashboardPage from './pages/DashboardPage';
 import AssetsPage from './pages/AssetsPage';
 import AssetDetailsPage from './pages/AssetDetailsPage';
+import DuplicateAssetsPage from './pages/DuplicateAssetsPage';
+import KitsPage from './pages/KitsPage';
+import KitDetailsPage from './pages/KitDetailsPage';
+import LocationsPage from './pages/LocationsPage';
+import LocationDetailsPage from './pages/LocationDetailsPage';
+import ScanPage from './pages/ScanPage';
 import ImportExportPage from './pages/ImportExportPage';
 import WalkthroughPage from './pages/WalkthroughPage';
 import UsersPage from './pages/UsersPage';
+import SettingsPage from './pages/SettingsPage';
+import RecallsPage from './pages/RecallsPage';
 
 function App() {
   return (
@@ -36,12 +44,20 @@ function App() {
             <Route path="/dashboard" element={<DashboardPage />} />
             <Route path="/assets" element={<AssetsPage />} />
             <Route path="/assets/:id" element={<AssetDetailsPage />} />
+            <Route path="/kits" element={<KitsPage />} />
+            <Route path="/kits/:id" element={<KitDetailsPage />} />
+            <Route path="/locations" element={<LocationsPage />} />
+            <Route path="/locations/:id" element={<LocationDetailsPage />} />
+            <Route path="/scan" element={<ScanPage />} />
           </Route>
           
           {/* Admin-only routes */}
           <Route element={<ProtectedRoute allowedRoles={['admin']} />}>
+            <Route path="/assets/duplicates" element={<DuplicateAssetsPage />} />
             <Route path="/import-export" element={<ImportExportPage />} />
+            <Route path="/recalls" element={<RecallsPage />} />
             <Route path="/users" element={<UsersPage />} />
+            <Route path="/settings" element={<SettingsPage />} />
           </Route>
           
           {/* Redirect to dashboard or sign in */}
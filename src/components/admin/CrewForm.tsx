@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { Crew, OrganizationMember } from '../../types';
+import { CrewDetails } from '../../services/crewService';
+import { getMemberCrew } from '../../utils/crewUtils';
+import Button from '../ui/Button';
+
+interface CrewFormProps {
+  crew?: Crew;
+  crews: Crew[];
+  members: OrganizationMember[];
+  onSubmit: (details: CrewDetails, memberIds: string[]) => void;
+  onCancel: () => void;
+  isSubmitting?: boolean;
+}
+
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+/**
+ * CrewForm Component
+ *
+ * Creates or edits a crew: its name, supervisor and technicians.
+ * Technicians already on another crew are moved to this one.
+ */
+const CrewForm: React.FC<CrewFormProps> = ({
+  crew,
+  crews,
+  members,
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+}) => {
+  const [details, setDetails] = useState<CrewDetails>({
+    name: crew?.name || '',
+    supervisorUserId: crew?.supervisorUserId || null,
+  });
+  const [memberIds, setMemberIds] = useState<string[]>(crew?.memberIds || []);
+
+  const handleToggleMember = (memberId: string, checked: boolean) => {
+    setMemberIds(prev => checked ? [...prev, memberId] : prev.filter(id => id !== memberId));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(details, memberIds);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="crewName" className="block text-sm font-medium text-gray-700">
+            Crew Name *
+          </label>
+          <input
+            type="text"
+            id="crewName"
+            required
+            className={fieldClassName}
+            value={details.name}
+            onChange={(e) => setDetails(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Line Crew 4"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="crewSupervisor" className="block text-sm font-medium text-gray-700">
+            Supervisor
+          </label>
+          <select
+            id="crewSupervisor"
+            className={fieldClassName}
+            value={details.supervisorUserId || ''}
+            onChange={(e) => setDetails(prev => ({ ...prev, supervisorUserId: e.target.value || null }))}
+            disabled={isSubmitting}
+          >
+            <option value="">No supervisor</option>
+            {members.map(member => (
+              <option key={member.id} value={member.id}>
+                {member.name} ({member.email})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-gray-700 mb-1">Technicians</p>
+        <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-200">
+          {members.map(member => {
+            const currentCrew = getMemberCrew(crews, member.id);
+            return (
+              <label key={member.id} className="flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50">
+                <span className="flex items-center">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                    checked={memberIds.includes(member.id)}
+                    onChange={(e) => handleToggleMember(member.id, e.target.checked)}
+                    disabled={isSubmitting}
+                  />
+                  <span className="ml-2 font-medium text-gray-900">{member.name}</span>
+                  <span className="ml-2 text-gray-500">{member.email}</span>
+                </span>
+                {currentCrew && currentCrew.id !== crew?.id && (
+                  <span className="text-xs text-gray-500">On {currentCrew.name}</span>
+                )}
+              </label>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          isLoading={isSubmitting}
+          disabled={isSubmitting || !details.name.trim()}
+        >
+          {crew ? 'Update Crew' : 'Create Crew'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default CrewForm;
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { Users, PlusCircle, Edit, Trash2 } from 'lucide-react';
+import { useAssets } from '../../context/AssetContext';
+import { CrewDetails } from '../../services/crewService';
+import { getCrewMembers } from '../../utils/crewUtils';
+import Button from '../ui/Button';
+import DeleteConfirm from '../assets/DeleteConfirm';
+import CrewForm from './CrewForm';
+
+/**
+ * CrewManagement Component
+ *
+ * Lets admins group technicians into crews under a supervisor. Supervisors
+ * can see and act on their crew's assets without full admin rights.
+ */
+const CrewManagement: React.FC = () => {
+  const { crews, organizationMembers, createCrew, updateCrew, deleteCrew } = useAssets();
+  const [editingCrewId, setEditingCrewId] = useState<string | null>(null);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [deletingCrewId, setDeletingCrewId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const editingCrew = crews.find(crew => crew.id === editingCrewId);
+
+  /**
+   * Resolves a supervisor ID to a display name
+   */
+  const getSupervisorName = (supervisorUserId: string | null): string => {
+    if (!supervisorUserId) return 'None';
+    const supervisor = organizationMembers.find(member => member.id === supervisorUserId);
+    return supervisor ? supervisor.name : 'Unknown User';
+  };
+
+  const closeForm = (): void => {
+    setShowCreateForm(false);
+    setEditingCrewId(null);
+  };
+
+  /**
+   * Creates or updates a crew with loading state management
+   */
+  const handleSubmit = async (details: CrewDetails, memberIds: string[]): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      if (editingCrewId) {
+        await updateCrew(editingCrewId, details, memberIds);
+      } else {
+        await createCrew(details, memberIds);
+      }
+      closeForm();
+    } catch (error) {
+      console.error('Error saving crew:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleDelete = async (): Promise<void> => {
+    if (!deletingCrewId) return;
+
+    setIsSubmitting(true);
+    try {
+      await deleteCrew(deletingCrewId);
+      setDeletingCrewId(null);
+    } catch (error) {
+      console.error('Error deleting crew:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-start">
+        <div>
+          <div className="flex items-center">
+            <Users className="h-5 w-5 text-gray-400 mr-2" />
+            <h3 className="text-lg font-medium text-gray-900">Crews</h3>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            Supervisors can view, inspect, send to testing and fail their crew's assets.
+          </p>
+        </div>
+        {!showCreateForm && !editingCrew && (
+          <Button
+            size="sm"
+            onClick={() => setShowCreateForm(true)}
+            leftIcon={<PlusCircle className="h-4 w-4" />}
+          >
+            Create Crew
+          </Button>
+        )}
+      </div>
+
+      {(showCreateForm || editingCrew) && (
+        <div className="px-6 py-4 border-b border-gray-200 bg-gray-50">
+          <CrewForm
+            key={editingCrew?.id || 'new'}
+            crew={editingCrew}
+            crews={crews}
+            members={organizationMembers}
+            onSubmit={handleSubmit}
+            onCancel={closeForm}
+            isSubmitting={isSubmitting}
+          />
+        </div>
+      )}
+
+      {crews.length === 0 ? (
+        <p className="p-6 text-center text-gray-500">No crews yet.</p>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {crews.map(crew => {
+            const crewMembers = getCrewMembers(crew, organizationMembers);
+            return (
+              <li key={crew.id} className="px-6 py-4">
+                <div className="flex justify-between items-start">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{crew.name}</p>
+                    <p className="text-sm text-gray-500">
+                      Supervisor: {getSupervisorName(crew.supervisorUserId)}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {crewMembers.length === 0
+                        ? 'No technicians'
+                        : crewMembers.map(member => member.name).join(', ')}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      leftIcon={<Edit className="h-4 w-4" />}
+                      onClick={() => {
+                        setShowCreateForm(false);
+                        setEditingCrewId(crew.id);
+                      }}
+                      disabled={isSubmitting}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      leftIcon={<Trash2 className="h-4 w-4" />}
+                      onClick={() => setDeletingCrewId(crew.id)}
+                      disabled={isSubmitting}
+                      className="text-danger-500 hover:bg-danger-50 hover:border-danger-300"
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+                <DeleteConfirm
+                  showDeleteConfirm={deletingCrewId === crew.id}
+                  isSubmitting={isSubmitting}
+                  onConfirm={handleDelete}
+                  onCancel={() => setDeletingCrewId(null)}
+                  itemName="crew"
+                />
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CrewManagement;
@@ -0,0 +1,173 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { History, Search } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { AssetCustody } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import Button from '../ui/Button';
+import Badge from '../ui/Badge';
+
+/**
+ * CustodyLookup Component
+ *
+ * Answers "who had which gear on this date" from the custody chain, e.g.
+ * after an incident. Optionally narrowed to one technician.
+ */
+const CustodyLookup: React.FC = () => {
+  const { organizationMembers, getAssetById, fetchCustodyOnDate } = useAssets();
+  const [date, setDate] = useState(new Date().toISOString().substring(0, 10));
+  const [memberId, setMemberId] = useState('');
+  const [results, setResults] = useState<AssetCustody[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const getMemberName = (userId?: string): string => {
+    if (!userId) return 'System';
+    const member = organizationMembers.find(m => m.id === userId);
+    return member ? member.name : 'Unknown User';
+  };
+
+  const formatTimestamp = (timestamp: string): string => format(parseISO(timestamp), 'MMM d, yyyy h:mm a');
+
+  const handleLookup = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      setResults(await fetchCustodyOnDate(date));
+    } catch (error) {
+      console.error('Error looking up custody:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const rows = (results || []).filter(record => !memberId || record.userId === memberId);
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center">
+          <History className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Custody Lookup</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          See who held which assets on a given date.
+        </p>
+        <form onSubmit={handleLookup} className="mt-4 flex flex-col space-y-3 sm:flex-row sm:space-y-0 sm:space-x-3 sm:items-end">
+          <div>
+            <label htmlFor="custodyDate" className="block text-sm font-medium text-gray-700">
+              Date
+            </label>
+            <input
+              type="date"
+              id="custodyDate"
+              required
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+            />
+          </div>
+          <div>
+            <label htmlFor="custodyMember" className="block text-sm font-medium text-gray-700">
+              Technician
+            </label>
+            <select
+              id="custodyMember"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={memberId}
+              onChange={(e) => setMemberId(e.target.value)}
+            >
+              <option value="">Everyone</option>
+              {organizationMembers.map(member => (
+                <option key={member.id} value={member.id}>
+                  {member.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <Button
+            type="submit"
+            isLoading={isLoading}
+            disabled={isLoading || !date}
+            leftIcon={<Search className="h-4 w-4" />}
+          >
+            Look Up
+          </Button>
+        </form>
+      </div>
+
+      {results !== null && (rows.length === 0 ? (
+        <p className="p-6 text-center text-gray-500">Nobody held any assets on that date.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Technician
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Asset
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Checked Out
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Checked In
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Receipt
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(record => {
+                const asset = getAssetById(record.assetId);
+
+                return (
+                  <tr key={record.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {getMemberName(record.userId)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {asset ? (
+                        <Link to={`/assets/${asset.id}`} className="text-primary-600 hover:text-primary-700">
+                          {asset.serialNumber}
+                        </Link>
+                      ) : (
+                        <span className="text-gray-500">Deleted asset</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {formatTimestamp(record.checkedOutAt)}
+                      <span className="block text-xs">by {getMemberName(record.checkedOutBy)}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {record.checkedInAt ? (
+                        <>
+                          {formatTimestamp(record.checkedInAt)}
+                          <span className="block text-xs">by {getMemberName(record.checkedInBy)}</span>
+                        </>
+                      ) : (
+                        'Still held'
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {record.acknowledgedAt ? (
+                        <Badge variant="success">Signed {format(parseISO(record.acknowledgedAt), 'MMM d')}</Badge>
+                      ) : (
+                        <Badge variant="warning">Not signed</Badge>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CustodyLookup;
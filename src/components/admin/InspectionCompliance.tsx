@@ -0,0 +1,98 @@
+import React, { useMemo } from 'react';
+import { ClipboardList } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useAssets } from '../../context/AssetContext';
+import { getInspectionCompliance, INSPECTION_COMPLIANCE_DAYS } from '../../utils/inspectionUtils';
+
+/**
+ * InspectionCompliance Component
+ *
+ * Shows, per technician, how many of their assigned in-service assets
+ * have a pre-use inspection in the compliance window, when they last inspected
+ * and how many of those inspections failed.
+ */
+const InspectionCompliance: React.FC = () => {
+  const { assets, inspections, organizationMembers } = useAssets();
+
+  const rows = useMemo(() => {
+    return getInspectionCompliance(organizationMembers, assets, inspections);
+  }, [organizationMembers, assets, inspections]);
+
+  /**
+   * Picks the colour for a compliance percentage
+   */
+  const getComplianceClassName = (percentage: number): string => {
+    if (percentage >= 100) return 'text-success-700';
+    if (percentage >= 50) return 'text-warning-700';
+    return 'text-danger-700';
+  };
+
+  return (
+    <div className="bg-white shadow-sm rounded-lg border border-gray-200">
+      <div className="px-6 py-4 border-b border-gray-200">
+        <div className="flex items-center">
+          <ClipboardList className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Inspection Compliance</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Assigned in-service assets inspected in the last {INSPECTION_COMPLIANCE_DAYS} days.
+        </p>
+      </div>
+      {rows.length === 0 ? (
+        <p className="p-6 text-center text-gray-500">No technicians have assets assigned.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Technician
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Inspected
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Last Inspection
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Failures
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.map(row => {
+                const percentage = row.assignedAssets
+                  ? Math.round((row.inspectedAssets / row.assignedAssets) * 100)
+                  : 100;
+
+                return (
+                  <tr key={row.member.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {row.member.name}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={`font-medium ${getComplianceClassName(percentage)}`}>
+                        {row.inspectedAssets} of {row.assignedAssets}
+                      </span>
+                      <span className="text-gray-500"> ({percentage}%)</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {row.lastInspectedAt
+                        ? format(parseISO(row.lastInspectedAt), 'MMM d, yyyy h:mm a')
+                        : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {row.failedInspections}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InspectionCompliance;
@@ -1,4 +1,8 @@
 export { default as UserList } from './UserList';
 export { default as InviteMemberForm } from './InviteMemberForm';
 export { default as MembersTable } from './MembersTable';
-export { default as PendingInvitesTable } from './PendingInvitesTable';
\ No newline at end of file
+export { default as PendingInvitesTable } from './PendingInvitesTable';
+export { default as InspectionCompliance } from './InspectionCompliance';
+export { default as CrewManagement } from './CrewManagement';
+export { default as CrewForm } from './CrewForm';
+export { default as CustodyLookup } from './CustodyLookup';
\ No newline at end of file
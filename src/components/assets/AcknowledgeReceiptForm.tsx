@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Asset } from '../../types';
+import Button from '../ui/Button';
+import SignaturePad from './SignaturePad';
+
+interface AcknowledgeReceiptFormProps {
+  asset: Asset;
+  isSubmitting: boolean;
+  onSubmit: (name: string, signatureFile?: File) => void;
+  onCancel: () => void;
+}
+
+/**
+ * AcknowledgeReceiptForm Component
+ *
+ * The holder signs for an asset handed to them. A typed name is always
+ * recorded so the receipt stays legible; a drawn signature is optional.
+ */
+const AcknowledgeReceiptForm: React.FC<AcknowledgeReceiptFormProps> = ({
+  asset,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const [name, setName] = useState('');
+  const [signatureFile, setSignatureFile] = useState<File | null>(null);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(name, signatureFile || undefined);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 bg-gray-50 border border-gray-200 rounded-md p-4 space-y-4">
+      <p className="text-xs text-gray-500">
+        I confirm I have received {asset.serialNumber} ({asset.assetClass}) and am responsible for it until it is checked in.
+      </p>
+
+      <div>
+        <label htmlFor={`receiptName-${asset.id}`} className="block text-sm font-medium text-gray-700">
+          Your Full Name *
+        </label>
+        <input
+          type="text"
+          id={`receiptName-${asset.id}`}
+          required
+          className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          disabled={isSubmitting}
+        />
+      </div>
+
+      <div>
+        <p className="block text-sm font-medium text-gray-700 mb-1">Signature</p>
+        <SignaturePad onChange={setSignatureFile} disabled={isSubmitting} />
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={onCancel}
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          size="sm"
+          isLoading={isSubmitting}
+          disabled={isSubmitting || !name.trim()}
+        >
+          Acknowledge Receipt
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default AcknowledgeReceiptForm;
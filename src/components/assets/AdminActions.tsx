@@ -1,6 +1,9 @@
 import React from 'react';
-import { Edit, Trash2, TestTube } from 'lucide-react';
+import { Edit, Trash2, TestTube, ClipboardCheck, PackageCheck, Archive, Link2 } from 'lucide-react';
 import { Asset } from '../../types';
+import { canTransitionAssetStatus, isDateDrivenStatus } from '../../utils/assetLifecycle';
+import { requiresDielectricTest } from '../../utils/assetTypes';
+import { canPairGlove } from '../../utils/pairUtils';
 import Button from '../ui/Button';
 
 interface AdminActionsProps {
@@ -8,7 +11,11 @@ interface AdminActionsProps {
   isEditing: boolean;
   isSubmitting: boolean;
   onMarkAsInTesting: () => void;
+  onShowCertificationForm: () => void;
+  onShowLabReturnForm: () => void;
   onShowFailureForm: () => void;
+  onShowRetirementForm: () => void;
+  onShowPairForm: () => void;
   onEdit: () => void;
   onDelete: () => void;
 }
@@ -24,17 +31,24 @@ const AdminActions: React.FC<AdminActionsProps> = ({
   isEditing,
   isSubmitting,
   onMarkAsInTesting,
+  onShowCertificationForm,
+  onShowLabReturnForm,
   onShowFailureForm,
+  onShowRetirementForm,
+  onShowPairForm,
   onEdit,
   onDelete,
 }) => {
-  // Don't render if in editing mode
-  if (isEditing) return null;
+  // Don't render if in editing mode; retired assets are kept read-only for audit
+  if (isEditing || asset.status === 'retired') return null;
+
+  // Leather protectors never go to the lab
+  const isTested = requiresDielectricTest(asset.assetType);
 
   return (
     <div className="flex space-x-2">
-      {/* Show testing button for non-failed, non-testing assets */}
-      {asset.status !== 'failed' && asset.status !== 'in-testing' && (
+      {/* Show testing button when the asset can be sent to the lab */}
+      {isTested && asset.status !== 'in-testing' && canTransitionAssetStatus(asset.status, 'in-testing') && (
         <Button
           size="sm"
           variant="outline"
@@ -47,8 +61,34 @@ const AdminActions: React.FC<AdminActionsProps> = ({
         </Button>
       )}
       
-      {/* Show failure button for non-failed assets */}
-      {asset.status !== 'failed' && (
+      {/* Show lab return button for assets out for testing */}
+      {asset.status === 'in-testing' && (
+        <Button
+          size="sm"
+          onClick={onShowLabReturnForm}
+          disabled={isSubmitting}
+          leftIcon={<PackageCheck className="h-4 w-4" />}
+        >
+          Return from Lab
+        </Button>
+      )}
+      
+      {/* Show test recording button for assets in service */}
+      {isTested && isDateDrivenStatus(asset.status) && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onShowCertificationForm}
+          disabled={isSubmitting}
+          className="text-primary-600 hover:bg-primary-50"
+          leftIcon={<ClipboardCheck className="h-4 w-4" />}
+        >
+          Record Test
+        </Button>
+      )}
+      
+      {/* Show failure button when the asset can still fail */}
+      {asset.status !== 'failed' && canTransitionAssetStatus(asset.status, 'failed') && (
         <Button
           size="sm"
           variant="outline"
@@ -60,6 +100,33 @@ const AdminActions: React.FC<AdminActionsProps> = ({
         </Button>
       )}
       
+      {/* Show retirement button once a failed asset has been destroyed */}
+      {canTransitionAssetStatus(asset.status, 'retired') && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onShowRetirementForm}
+          disabled={isSubmitting}
+          className="text-danger-500 hover:bg-danger-50 hover:border-danger-300"
+          leftIcon={<Archive className="h-4 w-4" />}
+        >
+          Retire
+        </Button>
+      )}
+      
+      {/* Show pairing button for gloves without a mate */}
+      {canPairGlove(asset) && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onShowPairForm}
+          disabled={isSubmitting}
+          leftIcon={<Link2 className="h-4 w-4" />}
+        >
+          Pair
+        </Button>
+      )}
+      
       <Button
         size="sm"
         variant="outline"
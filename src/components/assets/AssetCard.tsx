@@ -1,22 +1,56 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { Link } from 'react-router-dom';
-import { Calendar, User, FileText, Ruler, Palette } from 'lucide-react';
+import { Calendar, User, MapPin, FileText, Ruler, Palette, ClipboardList, Tag, ChevronDown, ChevronUp } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
+import { useUser } from '@clerk/clerk-react';
 import { Asset } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { isDateDrivenStatus } from '../../utils/assetLifecycle';
+import { ASSET_TYPES, getAssetAttributeEntries } from '../../utils/assetTypes';
+import { GLOVE_HAND_LABELS, getPairStatus } from '../../utils/pairUtils';
+import { isAssetInUserScope } from '../../utils/crewUtils';
+import { isAssetPastServiceLife } from '../../utils/serviceLifeUtils';
 import Card, { CardContent, CardFooter } from '../ui/Card';
 import StatusBadge from '../ui/StatusBadge';
 
 interface AssetCardProps {
   asset: Asset;
+  /** The other glove when `asset` is the left glove of a pair; the card then shows the pair */
+  mate?: Asset;
   userName?: string;
   showActions?: boolean;
 }
 
+/**
+ * AssetCard Component
+ *
+ * Summarizes an asset in lists. A glove pair is shown as one card whose
+ * gloves can be expanded to see each one's status and due date.
+ */
 const AssetCard: React.FC<AssetCardProps> = ({ 
   asset, 
+  mate,
   userName = 'Unassigned',
   showActions = true
 }) => {
+  const { user } = useUser();
+  const { crews, serviceLifeRules, getLocationById } = useAssets();
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  const gloves = mate ? [asset, mate] : [asset];
+  const location = asset.locationId ? getLocationById(asset.locationId) : undefined;
+  const status = mate ? getPairStatus(gloves) : asset.status;
+
+  // Technicians inspect their own assets before each use; supervisors can inspect their crew's
+  const canInspectAsset = (glove: Asset) =>
+    isAssetInUserScope(glove, user?.id, crews) && isDateDrivenStatus(glove.status);
+  const canInspect = !mate && canInspectAsset(asset);
+
+  // The pair is due when its first glove is due
+  const nextDueGlove = gloves
+    .filter(glove => glove.nextCertificationDate)
+    .sort((a, b) => a.nextCertificationDate!.localeCompare(b.nextCertificationDate!))[0];
+
   const formatDate = (dateString: string) => {
     try {
       return format(parseISO(dateString), 'MMM d, yyyy');
@@ -31,13 +65,20 @@ const AssetCard: React.FC<AssetCardProps> = ({
         <div className="flex justify-between items-start mb-4">
           <div>
             <h3 className="text-lg font-medium text-gray-900">
-              <Link to={`/assets/${asset.id}`} className="hover:text-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2">
-                {asset.serialNumber}
-              </Link>
+              {gloves.map((glove, index) => (
+                <React.Fragment key={glove.id}>
+                  {index > 0 && <span className="text-gray-400"> / </span>}
+                  <Link to={`/assets/${glove.id}`} className="hover:text-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2">
+                    {glove.serialNumber}
+                  </Link>
+                </React.Fragment>
+              ))}
             </h3>
-            <p className="text-sm text-gray-500">{asset.assetClass}</p>
+            <p className="text-sm text-gray-500">
+              {mate ? 'Glove Pair' : ASSET_TYPES[asset.assetType].label} &middot; {asset.assetClass}
+            </p>
           </div>
-          <StatusBadge status={asset.status} />
+          <StatusBadge status={status} endOfLife={gloves.some(glove => isAssetPastServiceLife(glove, serviceLifeRules))} />
         </div>
         
         <div className="space-y-3">
@@ -61,50 +102,150 @@ const AssetCard: React.FC<AssetCardProps> = ({
             </div>
           )}
           
-          <div className="flex items-center text-sm">
-            <Calendar className="h-4 w-4 text-gray-400 mr-2" />
-            <div>
-              <span className="text-gray-500">Last Certified: </span>
-              <span className="font-medium">{formatDate(asset.lastCertificationDate)}</span>
+          {getAssetAttributeEntries(asset.assetType, asset.attributes).map(({ label, value }) => (
+            <div key={label} className="flex items-center text-sm">
+              <Tag className="h-4 w-4 text-gray-400 mr-2" />
+              <div>
+                <span className="text-gray-500">{label}: </span>
+                <span className="font-medium">{value}</span>
+              </div>
             </div>
-          </div>
+          ))}
           
-          <div className="flex items-center text-sm">
-            <Calendar className="h-4 w-4 text-gray-400 mr-2" />
-            <div>
-              <span className="text-gray-500">Next Due: </span>
-              <span className={`font-medium ${asset.status === 'expired' ? 'text-danger-600' : asset.status === 'near-due' ? 'text-warning-600' : ''}`}>
-                {formatDate(asset.nextCertificationDate)}
-              </span>
+          {mate ? (
+            nextDueGlove?.nextCertificationDate && (
+              <div className="flex items-center text-sm">
+                <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+                <div>
+                  <span className="text-gray-500">Next Due: </span>
+                  <span className={`font-medium ${nextDueGlove.status === 'expired' ? 'text-danger-600' : nextDueGlove.status === 'near-due' ? 'text-warning-600' : ''}`}>
+                    {formatDate(nextDueGlove.nextCertificationDate)}
+                  </span>
+                </div>
+              </div>
+            )
+          ) : asset.lastCertificationDate && asset.nextCertificationDate ? (
+            <>
+              <div className="flex items-center text-sm">
+                <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+                <div>
+                  <span className="text-gray-500">Last Certified: </span>
+                  <span className="font-medium">{formatDate(asset.lastCertificationDate)}</span>
+                </div>
+              </div>
+              
+              <div className="flex items-center text-sm">
+                <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+                <div>
+                  <span className="text-gray-500">Next Due: </span>
+                  <span className={`font-medium ${asset.status === 'expired' ? 'text-danger-600' : asset.status === 'near-due' ? 'text-warning-600' : ''}`}>
+                    {formatDate(asset.nextCertificationDate)}
+                  </span>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="flex items-center text-sm">
+              <Calendar className="h-4 w-4 text-gray-400 mr-2" />
+              <span className="text-gray-500">No dielectric retest required</span>
             </div>
-          </div>
+          )}
           
-          <div className="flex items-center text-sm">
-            <User className="h-4 w-4 text-gray-400 mr-2" />
-            <div>
-              <span className="text-gray-500">Assigned to: </span>
-              <span className="font-medium">{userName}</span>
+          {location ? (
+            <div className="flex items-center text-sm">
+              <MapPin className="h-4 w-4 text-gray-400 mr-2" />
+              <div>
+                <span className="text-gray-500">Stored at: </span>
+                <span className="font-medium">{location.name}</span>
+              </div>
             </div>
-          </div>
+          ) : (
+            <div className="flex items-center text-sm">
+              <User className="h-4 w-4 text-gray-400 mr-2" />
+              <div>
+                <span className="text-gray-500">Assigned to: </span>
+                <span className="font-medium">{userName}</span>
+              </div>
+            </div>
+          )}
           
           <div className="flex items-center text-sm">
             <FileText className="h-4 w-4 text-gray-400 mr-2" />
             <div>
               <span className="text-gray-500">Documents: </span>
-              <span className="font-medium">{asset.certificationDocuments.length}</span>
+              <span className="font-medium">
+                {gloves.reduce((count, glove) => count + glove.certificationDocuments.length, 0)}
+              </span>
             </div>
           </div>
         </div>
+        
+        {mate && (
+          <div className="mt-4 border-t border-gray-100 pt-3">
+            <button
+              type="button"
+              className="flex items-center text-sm font-medium text-gray-600 hover:text-gray-900"
+              onClick={() => setIsExpanded(prev => !prev)}
+              aria-expanded={isExpanded}
+            >
+              {isExpanded ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+              {isExpanded ? 'Hide gloves' : 'Show gloves'}
+            </button>
+            
+            {isExpanded && (
+              <ul className="mt-3 space-y-3">
+                {gloves.map(glove => (
+                  <li key={glove.id} className="flex items-center justify-between text-sm">
+                    <div>
+                      <span className="text-gray-500">{glove.hand ? GLOVE_HAND_LABELS[glove.hand] : 'Glove'}: </span>
+                      <Link to={`/assets/${glove.id}`} className="font-medium text-primary-600 hover:text-primary-700">
+                        {glove.serialNumber}
+                      </Link>
+                      {glove.nextCertificationDate && (
+                        <span className="block text-xs text-gray-500">
+                          Due {formatDate(glove.nextCertificationDate)}
+                        </span>
+                      )}
+                    </div>
+                    <div className="flex items-center">
+                      {canInspectAsset(glove) && (
+                        <Link
+                          to={`/assets/${glove.id}?action=inspect`}
+                          className="inline-flex items-center min-h-[44px] px-3 text-sm font-medium text-primary-600 hover:text-primary-700"
+                        >
+                          <ClipboardList className="h-4 w-4 mr-1" />
+                          Inspect
+                        </Link>
+                      )}
+                      <StatusBadge status={glove.status} endOfLife={isAssetPastServiceLife(glove, serviceLifeRules)} />
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </CardContent>
       
-      {showActions && (
-        <CardFooter className="bg-gray-50 flex justify-between">
-          <Link
-            to={`/assets/${asset.id}`}
-            className="text-sm font-medium text-primary-600 hover:text-primary-700"
-          >
-            View Details
-          </Link>
+      {(showActions || canInspect) && (
+        <CardFooter className="bg-gray-50 flex justify-between items-center">
+          {showActions ? (
+            <Link
+              to={`/assets/${asset.id}`}
+              className="text-sm font-medium text-primary-600 hover:text-primary-700"
+            >
+              View Details
+            </Link>
+          ) : <span />}
+          {canInspect && (
+            <Link
+              to={`/assets/${asset.id}?action=inspect`}
+              className="inline-flex items-center min-h-[44px] px-3 text-sm font-medium text-primary-600 hover:text-primary-700"
+            >
+              <ClipboardList className="h-4 w-4 mr-1" />
+              Inspect
+            </Link>
+          )}
         </CardFooter>
       )}
     </Card>
@@ -28,8 +28,8 @@ const AssetDocuments: React.FC<AssetDocumentsProps> = ({
    * Renders the document upload interface or document list
    */
   const renderDocumentContent = (): React.ReactNode => {
-    // Show upload interface for admins on non-failed assets
-    if (isAdmin && asset.status !== 'failed') {
+    // Show upload interface for admins on assets still in service
+    if (isAdmin && asset.status !== 'failed' && asset.status !== 'retired') {
       return (
         <DocumentUpload
           assetId={asset.id}
@@ -56,6 +56,9 @@ const AssetDocuments: React.FC<AssetDocumentsProps> = ({
               <FileText className="h-5 w-5 text-primary-500 mr-2" />
               <div>
                 <p className="text-sm font-medium text-gray-900">{doc.fileName}</p>
+                {doc.id === asset.destructionDocumentId && (
+                  <p className="text-xs font-medium text-danger-600">Destruction certificate</p>
+                )}
                 <p className="text-xs text-gray-500">
                   Uploaded on {new Date(doc.uploadDate).toLocaleDateString()}
                 </p>
@@ -1,6 +1,11 @@
 import React, { useState } from 'react';
-import { Asset, AssetClass, GloveSize, GloveColor } from '../../types';
+import { Asset, AssetClass, AssetType, GloveSize, GloveColor } from '../../types';
 import { useAssets } from '../../context/AssetContext';
+import { ASSET_TYPES, ASSET_TYPE_OPTIONS, requiresDielectricTest } from '../../utils/assetTypes';
+import { mustRetestBeforeIssue } from '../../utils/assetUtils';
+import { formatDate } from '../../utils';
+import { LOCATION_TYPE_LABELS } from '../../utils/locationUtils';
+import { findSerialCollision, normalizeSerialNumber } from '../../utils/serialUtils';
 import Button from '../ui/Button';
 
 interface AssetFormProps {
@@ -16,18 +21,38 @@ const AssetForm: React.FC<AssetFormProps> = ({
   onCancel,
   isSubmitting = false,
 }) => {
-  const { organizationMembers } = useAssets();
+  const { assets, organizationMembers, locations, suppliers } = useAssets();
   const [formData, setFormData] = useState<Partial<Asset>>({
     serialNumber: '',
+    assetType: 'glove',
     assetClass: 'Class 1',
     assignedUserId: null,
     issueDate: new Date().toISOString().substring(0, 10),
     lastCertificationDate: new Date().toISOString().substring(0, 10),
     gloveSize: undefined,
     gloveColor: undefined,
+    attributes: {},
     ...initialData,
   });
 
+  const assetType = formData.assetType || 'glove';
+  const typeConfig = ASSET_TYPES[assetType];
+  const isTested = requiresDielectricTest(assetType);
+  // Serials are unique per organization, ignoring case and whitespace. A flagged
+  // duplicate may keep its serial until it is merged.
+  const isSerialChanged = !initialData.serialNumber ||
+    normalizeSerialNumber(initialData.serialNumber) !== normalizeSerialNumber(formData.serialNumber || '');
+  const serialCollision = isSerialChanged
+    ? findSerialCollision(formData.serialNumber || '', assets, initialData.id)
+    : undefined;
+  // Giving stock a holder issues it: a new asset on its issue date, a stored one today.
+  // Stock whose last test is more than 12 months old must be retested first.
+  const isIssuingStock = isTested && !!formData.assignedUserId && (!initialData.id || !!initialData.inStock);
+  const isStockTooOld = isIssuingStock && !!formData.lastCertificationDate && mustRetestBeforeIssue(
+    formData.lastCertificationDate.substring(0, 10),
+    initialData.id ? undefined : formData.issueDate?.substring(0, 10)
+  );
+
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
     setFormData(prev => ({
@@ -36,14 +61,68 @@ const AssetForm: React.FC<AssetFormProps> = ({
     }));
   };
 
+  /**
+   * Switches the asset type, clearing fields the new type does not use
+   */
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const nextType = e.target.value as AssetType;
+    setFormData(prev => ({
+      ...prev,
+      assetType: nextType,
+      gloveSize: ASSET_TYPES[nextType].hasGloveSize ? prev.gloveSize : undefined,
+      gloveColor: ASSET_TYPES[nextType].hasGloveColor ? prev.gloveColor : undefined,
+      attributes: {},
+    }));
+  };
+
+  /**
+   * An asset is either held by a person or stored at a location, so picking one clears the other
+   */
+  const handleAssigneeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const assignedUserId = e.target.value || null;
+    setFormData(prev => ({
+      ...prev,
+      assignedUserId,
+      locationId: assignedUserId ? undefined : prev.locationId,
+    }));
+  };
+
+  const handleLocationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const locationId = e.target.value || undefined;
+    setFormData(prev => ({
+      ...prev,
+      locationId,
+      assignedUserId: locationId ? null : prev.assignedUserId,
+    }));
+  };
+
+  const handleUnitCostChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      unitCost: value === '' ? undefined : Number(value),
+    }));
+  };
+
+  const handleAttributeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({
+      ...prev,
+      attributes: { ...prev.attributes, [name]: value },
+    }));
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    if (serialCollision || isStockTooOld) return;
+    onSubmit(isTested ? formData : { ...formData, lastCertificationDate: undefined });
   };
 
   const assetClasses: AssetClass[] = ['Class 0', 'Class 00', 'Class 1', 'Class 2', 'Class 3', 'Class 4'];
   const gloveSizes: GloveSize[] = ['7', '8', '9', '10', '11', '12'];
   const gloveColors: GloveColor[] = ['red', 'yellow', 'black', 'beige'];
+  const manufacturers = suppliers.filter(supplier => supplier.supplierType === 'manufacturer');
+  const vendors = suppliers.filter(supplier => supplier.supplierType === 'vendor');
 
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
@@ -61,6 +140,37 @@ const AssetForm: React.FC<AssetFormProps> = ({
             value={formData.serialNumber || ''}
             onChange={handleChange}
           />
+          {serialCollision && (
+            <p className="mt-1 text-sm text-danger-600">
+              Serial number is already used by asset {serialCollision.serialNumber}.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="assetType" className="block text-sm font-medium text-gray-700">
+            Asset Type *
+          </label>
+          <select
+            id="assetType"
+            name="assetType"
+            required
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm disabled:bg-gray-50 disabled:text-gray-500"
+            value={assetType}
+            onChange={handleTypeChange}
+            disabled={!!initialData.id}
+          >
+            {ASSET_TYPE_OPTIONS.map(type => (
+              <option key={type} value={type}>
+                {ASSET_TYPES[type].label}
+              </option>
+            ))}
+          </select>
+          {!isTested && (
+            <p className="mt-1 text-xs text-gray-500">
+              {typeConfig.pluralLabel} are not dielectric tested and have no certification dates.
+            </p>
+          )}
         </div>
 
         <div>
@@ -84,45 +194,71 @@ const AssetForm: React.FC<AssetFormProps> = ({
           </select>
         </div>
 
-        <div>
-          <label htmlFor="gloveSize" className="block text-sm font-medium text-gray-700">
-            Glove Size
-          </label>
-          <select
-            id="gloveSize"
-            name="gloveSize"
-            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-            value={formData.gloveSize || ''}
-            onChange={handleChange}
-          >
-            <option value="">Select Size</option>
-            {gloveSizes.map(size => (
-              <option key={size} value={size}>
-                Size {size}
-              </option>
-            ))}
-          </select>
-        </div>
+        {typeConfig.hasGloveSize && (
+          <div>
+            <label htmlFor="gloveSize" className="block text-sm font-medium text-gray-700">
+              {assetType === 'glove' ? 'Glove Size' : 'Size'}
+            </label>
+            <select
+              id="gloveSize"
+              name="gloveSize"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.gloveSize || ''}
+              onChange={handleChange}
+            >
+              <option value="">Select Size</option>
+              {gloveSizes.map(size => (
+                <option key={size} value={size}>
+                  Size {size}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
 
-        <div>
-          <label htmlFor="gloveColor" className="block text-sm font-medium text-gray-700">
-            Glove Color
-          </label>
-          <select
-            id="gloveColor"
-            name="gloveColor"
-            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-            value={formData.gloveColor || ''}
-            onChange={handleChange}
-          >
-            <option value="">Select Color</option>
-            {gloveColors.map(color => (
-              <option key={color} value={color} className="capitalize">
-                {color}
-              </option>
-            ))}
-          </select>
-        </div>
+        {typeConfig.hasGloveColor && (
+          <div>
+            <label htmlFor="gloveColor" className="block text-sm font-medium text-gray-700">
+              Glove Color
+            </label>
+            <select
+              id="gloveColor"
+              name="gloveColor"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.gloveColor || ''}
+              onChange={handleChange}
+            >
+              <option value="">Select Color</option>
+              {gloveColors.map(color => (
+                <option key={color} value={color} className="capitalize">
+                  {color}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {typeConfig.attributes.map(field => (
+          <div key={field.key}>
+            <label htmlFor={`attribute-${field.key}`} className="block text-sm font-medium text-gray-700">
+              {field.label}
+            </label>
+            <select
+              id={`attribute-${field.key}`}
+              name={field.key}
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.attributes?.[field.key] || ''}
+              onChange={handleAttributeChange}
+            >
+              <option value="">Select {field.label}</option>
+              {field.options.map(option => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+        ))}
 
         <div>
           <label htmlFor="assignedUserId" className="block text-sm font-medium text-gray-700">
@@ -133,7 +269,7 @@ const AssetForm: React.FC<AssetFormProps> = ({
             name="assignedUserId"
             className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
             value={formData.assignedUserId || ''}
-            onChange={handleChange}
+            onChange={handleAssigneeChange}
           >
             <option value="">Unassigned</option>
             {organizationMembers.map(member => (
@@ -142,6 +278,42 @@ const AssetForm: React.FC<AssetFormProps> = ({
               </option>
             ))}
           </select>
+          {initialData.id && (formData.assignedUserId || null) !== (initialData.assignedUserId || null) && (
+            <p className="mt-1 text-xs text-gray-500">
+              Saving checks the asset in from its current holder{formData.assignedUserId ? ' and out to the new one, who is asked to sign for it' : ''}.
+            </p>
+          )}
+          {isStockTooOld && formData.lastCertificationDate && (
+            <p className="mt-1 text-sm text-danger-600">
+              Last tested on {formatDate(formData.lastCertificationDate)}, more than 12 months ago: it must be
+              retested before it is issued.
+            </p>
+          )}
+          {initialData.inStock && !formData.assignedUserId && (
+            <p className="mt-1 text-xs text-gray-500">
+              In stock since its last test. Its retest interval starts when it is issued.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="locationId" className="block text-sm font-medium text-gray-700">
+            Stored At
+          </label>
+          <select
+            id="locationId"
+            name="locationId"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            value={formData.locationId || ''}
+            onChange={handleLocationChange}
+          >
+            <option value="">{formData.assignedUserId ? 'With assignee' : 'No location'}</option>
+            {locations.map(location => (
+              <option key={location.id} value={location.id}>
+                {location.name} ({LOCATION_TYPE_LABELS[location.locationType]})
+              </option>
+            ))}
+          </select>
         </div>
 
         <div>
@@ -159,38 +331,146 @@ const AssetForm: React.FC<AssetFormProps> = ({
           />
         </div>
 
+        {isTested && (
+          <div>
+            <label htmlFor="lastCertificationDate" className="block text-sm font-medium text-gray-700">
+              Last Certification Date *
+            </label>
+            <input
+              type="date"
+              id="lastCertificationDate"
+              name="lastCertificationDate"
+              required
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.lastCertificationDate?.substring(0, 10) || ''}
+              onChange={handleChange}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-4 pt-4 border-t border-gray-200">
         <div>
-          <label htmlFor="lastCertificationDate" className="block text-sm font-medium text-gray-700">
-            Last Certification Date *
-          </label>
-          <input
-            type="date"
-            id="lastCertificationDate"
-            name="lastCertificationDate"
-            required
-            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-            value={formData.lastCertificationDate?.substring(0, 10) || ''}
-            onChange={handleChange}
-          />
+          <h4 className="text-sm font-medium text-gray-900">Procurement</h4>
+          <p className="mt-1 text-xs text-gray-500">
+            Manufacturers and vendors are listed in Settings.
+          </p>
         </div>
 
-        {formData.status === 'failed' && (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
           <div>
-            <label htmlFor="failureReason" className="block text-sm font-medium text-gray-700">
-              Failure Reason *
+            <label htmlFor="manufacturerId" className="block text-sm font-medium text-gray-700">
+              Manufacturer
             </label>
-            <textarea
-              id="failureReason"
-              name="failureReason"
-              required
-              rows={3}
+            <select
+              id="manufacturerId"
+              name="manufacturerId"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.manufacturerId || ''}
+              onChange={handleChange}
+            >
+              <option value="">Not recorded</option>
+              {manufacturers.map(manufacturer => (
+                <option key={manufacturer.id} value={manufacturer.id}>
+                  {manufacturer.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="model" className="block text-sm font-medium text-gray-700">
+              Model
+            </label>
+            <input
+              type="text"
+              id="model"
+              name="model"
               className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-              value={formData.failureReason || ''}
+              value={formData.model || ''}
               onChange={handleChange}
-              placeholder="Describe the reason for failure..."
             />
           </div>
-        )}
+
+          <div>
+            <label htmlFor="lotNumber" className="block text-sm font-medium text-gray-700">
+              Lot / Batch Number
+            </label>
+            <input
+              type="text"
+              id="lotNumber"
+              name="lotNumber"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.lotNumber || ''}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="manufactureDate" className="block text-sm font-medium text-gray-700">
+              Manufacture Date
+            </label>
+            <input
+              type="date"
+              id="manufactureDate"
+              name="manufactureDate"
+              max={formData.issueDate?.substring(0, 10)}
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.manufactureDate?.substring(0, 10) || ''}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="vendorId" className="block text-sm font-medium text-gray-700">
+              Vendor
+            </label>
+            <select
+              id="vendorId"
+              name="vendorId"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.vendorId || ''}
+              onChange={handleChange}
+            >
+              <option value="">Not recorded</option>
+              {vendors.map(vendor => (
+                <option key={vendor.id} value={vendor.id}>
+                  {vendor.name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="purchaseOrder" className="block text-sm font-medium text-gray-700">
+              Purchase Order
+            </label>
+            <input
+              type="text"
+              id="purchaseOrder"
+              name="purchaseOrder"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.purchaseOrder || ''}
+              onChange={handleChange}
+            />
+          </div>
+
+          <div>
+            <label htmlFor="unitCost" className="block text-sm font-medium text-gray-700">
+              Unit Cost
+            </label>
+            <input
+              type="number"
+              id="unitCost"
+              name="unitCost"
+              min={0}
+              step="0.01"
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+              value={formData.unitCost ?? ''}
+              onChange={handleUnitCostChange}
+            />
+          </div>
+        </div>
       </div>
 
       <div className="flex justify-end space-x-3">
@@ -206,7 +486,7 @@ const AssetForm: React.FC<AssetFormProps> = ({
         <Button
           type="submit"
           isLoading={isSubmitting}
-          disabled={isSubmitting}
+          disabled={isSubmitting || !!serialCollision || isStockTooOld}
         >
           {initialData.id ? 'Update Asset' : 'Create Asset'}
         </Button>
@@ -1,43 +1,85 @@
 import React, { useState, useEffect } from 'react';
 import { useSearchParams } from 'react-router-dom';
-import { Search, Filter } from 'lucide-react';
-import { Asset, AssetStatus, AssetClass } from '../../types';
+import { Search, Filter, Printer } from 'lucide-react';
+import { Asset, AssetStatus, AssetClass, AssetType } from '../../types';
+import { ASSET_STATUS_LABELS } from '../../utils/assetLifecycle';
+import { ASSET_TYPES, ASSET_TYPE_OPTIONS } from '../../utils/assetTypes';
+import { groupPairs } from '../../utils/pairUtils';
+import { useAssets } from '../../context/AssetContext';
+import { useRole } from '../../hooks/useRole';
+import Button from '../ui/Button';
 import AssetCard from './AssetCard';
+import LabelPrinter from './LabelPrinter';
 
 interface AssetsListProps {
   assets: Asset[];
   userMap?: Record<string, string>;
 }
 
+/** Location filter: every asset, assets held by a person, or a location ID */
+type LocationFilter = 'all' | 'assigned' | string;
+
 const AssetsList: React.FC<AssetsListProps> = ({ assets, userMap = {} }) => {
+  const { locations } = useAssets();
+  const { isAdmin } = useRole();
+  const [showLabelPrinter, setShowLabelPrinter] = useState(false);
   const [searchParams, setSearchParams] = useSearchParams();
-  const [searchTerm, setSearchTerm] = useState('');
+  // Lot links from an asset's page open the list searched by lot number
+  const [searchTerm, setSearchTerm] = useState(searchParams.get('lot') || '');
   const [statusFilter, setStatusFilter] = useState<AssetStatus | 'all'>(
     (searchParams.get('status') as AssetStatus | 'all') || 'all'
   );
+  const [typeFilter, setTypeFilter] = useState<AssetType | 'all'>(
+    (searchParams.get('type') as AssetType | 'all') || 'all'
+  );
   const [classFilter, setClassFilter] = useState<AssetClass | 'all'>('all');
+  const [locationFilter, setLocationFilter] = useState<LocationFilter>(
+    searchParams.get('location') || 'all'
+  );
   
-  // Update status filter when URL parameter changes
+  // Update status, type and location filters when URL parameters change
   useEffect(() => {
     const statusParam = searchParams.get('status') as AssetStatus | null;
     if (statusParam) {
       setStatusFilter(statusParam);
     }
+    const typeParam = searchParams.get('type') as AssetType | null;
+    if (typeParam) {
+      setTypeFilter(typeParam);
+    }
+    const locationParam = searchParams.get('location');
+    if (locationParam) {
+      setLocationFilter(locationParam);
+    }
   }, [searchParams]);
   
   const filteredAssets = assets.filter(asset => {
     // Apply search filter
-    const matchesSearch = asset.serialNumber.toLowerCase().includes(searchTerm.toLowerCase());
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = asset.serialNumber.toLowerCase().includes(term) ||
+      (!!term && !!asset.lotNumber?.toLowerCase().includes(term));
     
-    // Apply status filter
-    const matchesStatus = statusFilter === 'all' || asset.status === statusFilter;
+    // Apply status filter; retired assets are only listed when asked for
+    const matchesStatus = statusFilter === 'all'
+      ? asset.status !== 'retired'
+      : asset.status === statusFilter;
+    
+    // Apply type filter
+    const matchesType = typeFilter === 'all' || asset.assetType === typeFilter;
     
     // Apply class filter
     const matchesClass = classFilter === 'all' || asset.assetClass === classFilter;
     
-    return matchesSearch && matchesStatus && matchesClass;
+    // Apply location filter
+    const matchesLocation = locationFilter === 'all' ||
+      (locationFilter === 'assigned' ? !!asset.assignedUserId : asset.locationId === locationFilter);
+    
+    return matchesSearch && matchesStatus && matchesType && matchesClass && matchesLocation;
   });
   
+  // A pair is listed once when either of its gloves matches
+  const listedAssets = groupPairs(filteredAssets, assets);
+  
   const handleStatusChange = (value: AssetStatus | 'all') => {
     setStatusFilter(value);
     if (value === 'all') {
@@ -48,6 +90,26 @@ const AssetsList: React.FC<AssetsListProps> = ({ assets, userMap = {} }) => {
     setSearchParams(searchParams);
   };
   
+  const handleTypeChange = (value: AssetType | 'all') => {
+    setTypeFilter(value);
+    if (value === 'all') {
+      searchParams.delete('type');
+    } else {
+      searchParams.set('type', value);
+    }
+    setSearchParams(searchParams);
+  };
+  
+  const handleLocationChange = (value: LocationFilter) => {
+    setLocationFilter(value);
+    if (value === 'all') {
+      searchParams.delete('location');
+    } else {
+      searchParams.set('location', value);
+    }
+    setSearchParams(searchParams);
+  };
+  
   const assetClasses: AssetClass[] = ['Class 0', 'Class 00', 'Class 1', 'Class 2', 'Class 3', 'Class 4'];
   
   return (
@@ -60,7 +122,7 @@ const AssetsList: React.FC<AssetsListProps> = ({ assets, userMap = {} }) => {
           <input
             type="text"
             className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-            placeholder="Search by serial number..."
+            placeholder="Search by serial or lot number..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
           />
@@ -77,12 +139,27 @@ const AssetsList: React.FC<AssetsListProps> = ({ assets, userMap = {} }) => {
               className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
             >
               <option value="all">All Statuses</option>
-              <option value="active">Active</option>
-              <option value="near-due">Due Soon</option>
-              <option value="expired">Expired</option>
+              {(Object.keys(ASSET_STATUS_LABELS) as AssetStatus[]).map((status) => (
+                <option key={status} value={status}>
+                  {ASSET_STATUS_LABELS[status]}
+                </option>
+              ))}
             </select>
           </div>
           
+          <select
+            value={typeFilter}
+            onChange={(e) => handleTypeChange(e.target.value as AssetType | 'all')}
+            className="block w-full pl-3 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+          >
+            <option value="all">All Types</option>
+            {ASSET_TYPE_OPTIONS.map((type) => (
+              <option key={type} value={type}>
+                {ASSET_TYPES[type].pluralLabel}
+              </option>
+            ))}
+          </select>
+          
           <select
             value={classFilter}
             onChange={(e) => setClassFilter(e.target.value as AssetClass | 'all')}
@@ -95,9 +172,37 @@ const AssetsList: React.FC<AssetsListProps> = ({ assets, userMap = {} }) => {
               </option>
             ))}
           </select>
+          
+          <select
+            value={locationFilter}
+            onChange={(e) => handleLocationChange(e.target.value)}
+            className="block w-full pl-3 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+          >
+            <option value="all">All Locations</option>
+            <option value="assigned">Assigned to a person</option>
+            {locations.map((location) => (
+              <option key={location.id} value={location.id}>
+                {location.name}
+              </option>
+            ))}
+          </select>
+          
+          {isAdmin && !showLabelPrinter && (
+            <Button
+              variant="outline"
+              onClick={() => setShowLabelPrinter(true)}
+              leftIcon={<Printer className="h-4 w-4" />}
+            >
+              Labels
+            </Button>
+          )}
         </div>
       </div>
       
+      {showLabelPrinter && (
+        <LabelPrinter assets={filteredAssets} onClose={() => setShowLabelPrinter(false)} />
+      )}
+      
       {filteredAssets.length === 0 ? (
         <div className="text-center py-12 bg-white rounded-lg shadow">
           <p className="text-lg text-gray-500">No assets found.</p>
@@ -105,10 +210,11 @@ const AssetsList: React.FC<AssetsListProps> = ({ assets, userMap = {} }) => {
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 animate-fade-in">
-          {filteredAssets.map((asset) => (
+          {listedAssets.map(({ asset, mate }) => (
             <AssetCard 
-              key={asset.id} 
+              key={asset.pairId || asset.id} 
               asset={asset} 
+              mate={mate}
               userName={asset.assignedUserId ? userMap[asset.assignedUserId] : 'Unassigned'} 
             />
           ))}
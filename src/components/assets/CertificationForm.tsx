@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Asset, CertificationResult } from '../../types';
+import { NewCertification } from '../../services/certificationService';
+import {
+  ASTM_D120_RATINGS,
+  checkDielectricTestValues,
+  parseMeasurement,
+} from '../../utils/dielectricTestUtils';
+import Button from '../ui/Button';
+import DielectricTestFields, { DielectricTestFieldValues } from './DielectricTestFields';
+
+export type CertificationFormData = Omit<NewCertification, 'nextCertificationDate'>;
+
+interface CertificationFormProps {
+  asset: Asset;
+  showCertificationForm: boolean;
+  isSubmitting: boolean;
+  onSubmit: (data: CertificationFormData) => void;
+  onCancel: () => void;
+}
+
+/**
+ * CertificationForm Component
+ *
+ * Records a dielectric test for an asset: test date, lab, proof-test voltage,
+ * leakage current and result. Measurements outside the ASTM D120 limits for the
+ * asset's class are flagged as they are typed. A failed result marks the asset as failed.
+ */
+const CertificationForm: React.FC<CertificationFormProps> = ({
+  asset,
+  showCertificationForm,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const [testValues, setTestValues] = useState<DielectricTestFieldValues>({
+    certificationDate: new Date().toISOString().substring(0, 10),
+    labName: '',
+    proofTestVoltage: String(ASTM_D120_RATINGS[asset.assetClass].proofTestVoltage),
+    leakageCurrentMa: '',
+  });
+  const [result, setResult] = useState<CertificationResult>('pass');
+
+  if (!showCertificationForm) return null;
+
+  const measurements = {
+    proofTestVoltage: parseMeasurement(testValues.proofTestVoltage),
+    leakageCurrentMa: parseMeasurement(testValues.leakageCurrentMa),
+  };
+  const isOutOfRange = checkDielectricTestValues(asset.assetClass, measurements).length > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit({
+      certificationDate: testValues.certificationDate,
+      labName: testValues.labName.trim() || undefined,
+      result,
+      ...measurements,
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 bg-gray-50 border border-gray-200 rounded-md p-4">
+      <div className="space-y-4">
+        <h4 className="text-sm font-medium text-gray-900">Record Dielectric Test</h4>
+
+        <DielectricTestFields
+          assetClass={asset.assetClass}
+          values={testValues}
+          onChange={(field, value) => setTestValues(prev => ({ ...prev, [field]: value }))}
+          disabled={isSubmitting}
+        />
+
+        <div>
+          <span className="block text-sm font-medium text-gray-700">Result *</span>
+          <div className="mt-2 flex space-x-6">
+            {(['pass', 'fail'] as CertificationResult[]).map(option => (
+              <label key={option} className="inline-flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  name="result"
+                  value={option}
+                  checked={result === option}
+                  onChange={() => setResult(option)}
+                  className="h-4 w-4 text-primary-600 border-gray-300 focus:ring-primary-500"
+                  disabled={isSubmitting}
+                />
+                <span className="ml-2">{option === 'pass' ? 'Pass' : 'Fail'}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {isOutOfRange && result === 'pass' && (
+          <div className="flex items-start bg-warning-50 border border-warning-200 rounded-md p-3">
+            <AlertTriangle className="h-5 w-5 text-warning-500 mr-2 flex-shrink-0" />
+            <p className="text-sm text-warning-800">
+              The measurements are outside the ASTM D120 limits for {asset.assetClass}. Check the
+              lab report before recording this test as a pass.
+            </p>
+          </div>
+        )}
+
+        {result === 'fail' && (
+          <p className="text-sm text-danger-600">
+            Recording a failed test takes this asset out of service.
+          </p>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            size="sm"
+            variant={result === 'fail' ? 'danger' : 'primary'}
+            isLoading={isSubmitting}
+            disabled={isSubmitting || !testValues.certificationDate}
+          >
+            {result === 'fail' ? 'Record Failed Test' : 'Record Test'}
+          </Button>
+        </div>
+      </div>
+    </form>
+  );
+};
+
+export default CertificationForm;
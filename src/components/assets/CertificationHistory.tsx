@@ -0,0 +1,106 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { Asset } from '../../types';
+import { formatDate } from '../../utils';
+import { checkDielectricTestValues, formatVoltage } from '../../utils/dielectricTestUtils';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Badge from '../ui/Badge';
+
+interface CertificationHistoryProps {
+  asset: Asset;
+}
+
+/**
+ * CertificationHistory Component
+ *
+ * Lists every certification test recorded for an asset, newest first,
+ * with the lab, proof-test measurements, result, due date computed at the time
+ * and the certificate if one was linked. Measurements outside ASTM D120 limits are highlighted.
+ */
+const CertificationHistory: React.FC<CertificationHistoryProps> = ({ asset }) => {
+  /**
+   * Finds the uploaded certificate linked to a certification
+   */
+  const getDocument = (documentId?: string) => {
+    if (!documentId) return undefined;
+    return asset.certificationDocuments.find(doc => doc.id === documentId);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <History className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Certification History</h3>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {asset.certifications.length === 0 ? (
+          <p className="text-gray-500 text-sm">No certifications recorded</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead>
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tested</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lab</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Proof Test</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Due</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Certificate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {asset.certifications.map(certification => {
+                  const document = getDocument(certification.documentId);
+                  const isOutOfRange = checkDielectricTestValues(asset.assetClass, certification).length > 0;
+
+                  return (
+                    <tr key={certification.id}>
+                      <td className="px-3 py-2 text-sm text-gray-900 whitespace-nowrap">
+                        {formatDate(certification.certificationDate)}
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-500">
+                        {certification.labName || '—'}
+                      </td>
+                      <td className={`px-3 py-2 text-sm whitespace-nowrap ${isOutOfRange ? 'text-warning-700' : 'text-gray-500'}`}>
+                        {certification.proofTestVoltage !== undefined
+                          ? formatVoltage(certification.proofTestVoltage)
+                          : '—'}
+                        {certification.leakageCurrentMa !== undefined && ` / ${certification.leakageCurrentMa} mA`}
+                      </td>
+                      <td className="px-3 py-2 text-sm">
+                        <Badge variant={certification.result === 'pass' ? 'success' : 'danger'}>
+                          {certification.result === 'pass' ? 'Pass' : 'Fail'}
+                        </Badge>
+                      </td>
+                      <td className="px-3 py-2 text-sm text-gray-500 whitespace-nowrap">
+                        {formatDate(certification.nextCertificationDate)}
+                      </td>
+                      <td className="px-3 py-2 text-sm">
+                        {document ? (
+                          <a
+                            href={document.fileUrl}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-medium text-primary-600 hover:text-primary-700"
+                          >
+                            {document.fileName}
+                          </a>
+                        ) : (
+                          <span className="text-gray-400">—</span>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CertificationHistory;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from 'react';
+import { PenLine } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useUser } from '@clerk/clerk-react';
+import { Asset, AssetCustody } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import AcknowledgeReceiptForm from './AcknowledgeReceiptForm';
+
+interface CustodyHistoryProps {
+  asset: Asset;
+}
+
+/**
+ * CustodyHistory Component
+ *
+ * The custody chain of an asset, newest first: who held it, who handed it
+ * over and took it back, and whether the holder signed for it. The current
+ * holder can acknowledge receipt from here.
+ */
+const CustodyHistory: React.FC<CustodyHistoryProps> = ({ asset }) => {
+  const { user } = useUser();
+  const { organizationMembers, fetchAssetCustody, acknowledgeCustody } = useAssets();
+  const [custody, setCustody] = useState<AssetCustody[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isAcknowledging, setIsAcknowledging] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    setIsLoading(true);
+    fetchAssetCustody(asset.id)
+      .then(data => {
+        if (isCurrent) setCustody(data);
+      })
+      .catch(error => {
+        console.error('Error loading custody:', error);
+        // Error handling is managed by the context/toast system
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [asset.id, asset.assignedUserId, fetchAssetCustody]);
+
+  const getMemberName = (userId?: string): string => {
+    if (!userId) return 'System';
+    const member = organizationMembers.find(m => m.id === userId);
+    return member ? member.name : 'Unknown User';
+  };
+
+  const formatTimestamp = (timestamp: string): string => format(parseISO(timestamp), 'MMM d, yyyy h:mm a');
+
+  /**
+   * Signs for the asset and swaps the acknowledged record into the list
+   */
+  const handleAcknowledge = async (record: AssetCustody, name: string, signatureFile?: File): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      const acknowledged = await acknowledgeCustody(record, name, signatureFile);
+      setCustody(prev => prev.map(entry => entry.id === acknowledged.id ? acknowledged : entry));
+      setIsAcknowledging(false);
+    } catch (error) {
+      console.error('Error acknowledging receipt:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <PenLine className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Custody</h3>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-500 text-sm">Loading custody...</p>
+        ) : custody.length === 0 ? (
+          <p className="text-gray-500 text-sm">This asset has never been checked out</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {custody.map(record => {
+              const canAcknowledge = record.userId === user?.id && !record.checkedInAt && !record.acknowledgedAt;
+
+              return (
+                <li key={record.id} className="py-3">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="text-sm font-medium text-gray-900">{getMemberName(record.userId)}</p>
+                      <p className="text-xs text-gray-500">
+                        Out {formatTimestamp(record.checkedOutAt)} by {getMemberName(record.checkedOutBy)}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {record.checkedInAt
+                          ? `In ${formatTimestamp(record.checkedInAt)} by ${getMemberName(record.checkedInBy)}`
+                          : 'Currently held'}
+                      </p>
+                      {record.acknowledgedAt && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Signed by {record.acknowledgedName} on {formatTimestamp(record.acknowledgedAt)}
+                          {record.signatureUrl && (
+                            <>
+                              {' · '}
+                              <a
+                                href={record.signatureUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="font-medium text-primary-600 hover:text-primary-700"
+                              >
+                                View signature
+                              </a>
+                            </>
+                          )}
+                        </p>
+                      )}
+                    </div>
+                    {record.acknowledgedAt ? (
+                      <Badge variant="success">Signed</Badge>
+                    ) : canAcknowledge && !isAcknowledging ? (
+                      <Button size="sm" onClick={() => setIsAcknowledging(true)}>
+                        Acknowledge
+                      </Button>
+                    ) : (
+                      <Badge variant="warning">Not signed</Badge>
+                    )}
+                  </div>
+                  {canAcknowledge && isAcknowledging && (
+                    <AcknowledgeReceiptForm
+                      asset={asset}
+                      isSubmitting={isSubmitting}
+                      onSubmit={(name, signatureFile) => handleAcknowledge(record, name, signatureFile)}
+                      onCancel={() => setIsAcknowledging(false)}
+                    />
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CustodyHistory;
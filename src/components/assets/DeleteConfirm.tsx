@@ -7,12 +7,14 @@ interface DeleteConfirmProps {
   isSubmitting: boolean;
   onConfirm: () => void;
   onCancel: () => void;
+  /** What is being deleted, e.g. "kit"; defaults to "asset" */
+  itemName?: string;
 }
 
 /**
  * DeleteConfirm Component
  * 
- * Renders a confirmation dialog for asset deletion
+ * Renders a confirmation dialog for deleting an asset (or another record)
  * Includes warning styling and clear action buttons
  */
 const DeleteConfirm: React.FC<DeleteConfirmProps> = ({
@@ -20,6 +22,7 @@ const DeleteConfirm: React.FC<DeleteConfirmProps> = ({
   isSubmitting,
   onConfirm,
   onCancel,
+  itemName = 'asset',
 }) => {
   if (!showDeleteConfirm) return null;
 
@@ -32,7 +35,7 @@ const DeleteConfirm: React.FC<DeleteConfirmProps> = ({
         <div className="ml-3">
           <h3 className="text-sm font-medium text-danger-800">Confirm Deletion</h3>
           <div className="mt-2 text-sm text-danger-700">
-            <p>Are you sure you want to delete this asset? This action cannot be undone.</p>
+            <p>Are you sure you want to delete this {itemName}? This action cannot be undone.</p>
           </div>
           <div className="mt-4 flex space-x-3">
             <Button
@@ -50,7 +53,7 @@ const DeleteConfirm: React.FC<DeleteConfirmProps> = ({
               isLoading={isSubmitting}
               disabled={isSubmitting}
             >
-              Delete Asset
+              Delete {itemName.charAt(0).toUpperCase() + itemName.slice(1)}
             </Button>
           </div>
         </div>
@@ -0,0 +1,132 @@
+import React from 'react';
+import { AssetClass } from '../../types';
+import {
+  ASTM_D120_RATINGS,
+  checkDielectricTestValues,
+  formatVoltage,
+  parseMeasurement,
+} from '../../utils/dielectricTestUtils';
+
+export interface DielectricTestFieldValues {
+  certificationDate: string;
+  labName: string;
+  proofTestVoltage: string;
+  leakageCurrentMa: string;
+}
+
+interface DielectricTestFieldsProps {
+  assetClass: AssetClass;
+  values: DielectricTestFieldValues;
+  onChange: (field: keyof DielectricTestFieldValues, value: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * DielectricTestFields Component
+ *
+ * Test date, lab and proof-test measurement inputs shared by the test recording forms.
+ * Shows the ASTM D120 ratings for the class and flags out-of-range values as they are typed.
+ */
+const DielectricTestFields: React.FC<DielectricTestFieldsProps> = ({
+  assetClass,
+  values,
+  onChange,
+  disabled = false,
+}) => {
+  const rating = ASTM_D120_RATINGS[assetClass];
+  const issues = checkDielectricTestValues(assetClass, {
+    proofTestVoltage: parseMeasurement(values.proofTestVoltage),
+    leakageCurrentMa: parseMeasurement(values.leakageCurrentMa),
+  });
+
+  const voltageIssue = issues.find(issue => issue.field === 'proofTestVoltage');
+  const leakageIssue = issues.find(issue => issue.field === 'leakageCurrentMa');
+
+  const inputClassName = (hasIssue: boolean) =>
+    `mt-1 block w-full border rounded-md shadow-sm py-2 px-3 focus:outline-none sm:text-sm ${
+      hasIssue
+        ? 'border-warning-400 focus:ring-warning-500 focus:border-warning-500'
+        : 'border-gray-300 focus:ring-primary-500 focus:border-primary-500'
+    }`;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500">
+        {assetClass}: max use {formatVoltage(rating.maxUseVoltage)}, proof test{' '}
+        {formatVoltage(rating.proofTestVoltage)}, leakage up to {rating.maxLeakageCurrentMa} mA
+      </p>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="certificationDate" className="block text-sm font-medium text-gray-700">
+            Test Date *
+          </label>
+          <input
+            type="date"
+            id="certificationDate"
+            required
+            className={inputClassName(false)}
+            value={values.certificationDate}
+            onChange={(e) => onChange('certificationDate', e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="labName" className="block text-sm font-medium text-gray-700">
+            Lab
+          </label>
+          <input
+            type="text"
+            id="labName"
+            className={inputClassName(false)}
+            value={values.labName}
+            onChange={(e) => onChange('labName', e.target.value)}
+            placeholder="Testing lab name"
+            disabled={disabled}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="proofTestVoltage" className="block text-sm font-medium text-gray-700">
+            Proof-Test Voltage (V)
+          </label>
+          <input
+            type="number"
+            id="proofTestVoltage"
+            min={0}
+            step={100}
+            className={inputClassName(!!voltageIssue)}
+            value={values.proofTestVoltage}
+            onChange={(e) => onChange('proofTestVoltage', e.target.value)}
+            disabled={disabled}
+          />
+          {voltageIssue && (
+            <p className="mt-1 text-xs text-warning-700">{voltageIssue.message}</p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="leakageCurrentMa" className="block text-sm font-medium text-gray-700">
+            Leakage Current (mA)
+          </label>
+          <input
+            type="number"
+            id="leakageCurrentMa"
+            min={0}
+            step={0.1}
+            className={inputClassName(!!leakageIssue)}
+            value={values.leakageCurrentMa}
+            onChange={(e) => onChange('leakageCurrentMa', e.target.value)}
+            disabled={disabled}
+          />
+          {leakageIssue && (
+            <p className="mt-1 text-xs text-warning-700">{leakageIssue.message}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DielectricTestFields;
@@ -1,48 +1,133 @@
 import React from 'react';
+import { Asset, FailureLocation, FailureReport, MateAction } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { FAILURE_LOCATION_LABELS } from '../../utils/failureUtils';
+import { GLOVE_HAND_LABELS, MATE_ACTION_LABELS, getMateActions } from '../../utils/pairUtils';
 import Button from '../ui/Button';
 
 interface FailureFormProps {
   showFailureForm: boolean;
-  failureReason: string;
+  report: FailureReport;
   isSubmitting: boolean;
-  onFailureReasonChange: (reason: string) => void;
+  onReportChange: (report: FailureReport) => void;
   onSubmit: () => void;
   onCancel: () => void;
+  mate?: Asset;
+  mateAction?: MateAction;
+  onMateActionChange?: (action: MateAction) => void;
 }
 
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
 /**
  * FailureForm Component
- * 
- * Renders a form for entering failure reasons when marking an asset as failed
- * Includes validation to ensure a reason is provided
+ *
+ * Renders a structured failure report when marking an asset as failed:
+ * a defect code, where on the glove it was found and an optional note.
+ * The current user is recorded as the reporter.
+ * For a paired glove, also asks what should happen to its mate.
  */
 const FailureForm: React.FC<FailureFormProps> = ({
   showFailureForm,
-  failureReason,
+  report,
   isSubmitting,
-  onFailureReasonChange,
+  onReportChange,
   onSubmit,
   onCancel,
+  mate,
+  mateAction,
+  onMateActionChange,
 }) => {
+  const { defectCodes } = useAssets();
+
   if (!showFailureForm) return null;
 
+  const mateActions = mate && onMateActionChange ? getMateActions(mate) : [];
+
   return (
     <div className="mt-4 bg-gray-50 border border-gray-200 rounded-md p-4">
       <div className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="failureDefectCode" className="block text-sm font-medium text-gray-700">
+              Defect *
+            </label>
+            <select
+              id="failureDefectCode"
+              className={fieldClassName}
+              value={report.defectCode}
+              onChange={(e) => onReportChange({ ...report, defectCode: e.target.value })}
+              disabled={isSubmitting}
+            >
+              <option value="">Select a defect...</option>
+              {defectCodes.map(defectCode => (
+                <option key={defectCode.id} value={defectCode.code}>
+                  {defectCode.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="failureLocation" className="block text-sm font-medium text-gray-700">
+              Location
+            </label>
+            <select
+              id="failureLocation"
+              className={fieldClassName}
+              value={report.location || ''}
+              onChange={(e) => onReportChange({
+                ...report,
+                location: (e.target.value || undefined) as FailureLocation | undefined,
+              })}
+              disabled={isSubmitting}
+            >
+              <option value="">Not specified</option>
+              {(Object.keys(FAILURE_LOCATION_LABELS) as FailureLocation[]).map(location => (
+                <option key={location} value={location}>
+                  {FAILURE_LOCATION_LABELS[location]}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
         <div>
-          <label htmlFor="failureReason" className="block text-sm font-medium text-gray-700">
-            Failure Reason
+          <label htmlFor="failureNotes" className="block text-sm font-medium text-gray-700">
+            Notes
           </label>
           <textarea
-            id="failureReason"
+            id="failureNotes"
             rows={3}
-            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
-            value={failureReason}
-            onChange={(e) => onFailureReasonChange(e.target.value)}
-            placeholder="Describe the reason for failure..."
+            className={fieldClassName}
+            value={report.notes || ''}
+            onChange={(e) => onReportChange({ ...report, notes: e.target.value })}
+            placeholder="Anything else the next person should know..."
             disabled={isSubmitting}
           />
         </div>
+        {mate && mateActions.length > 0 && (
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700">
+              What about its mate, {mate.serialNumber}{mate.hand ? ` (${GLOVE_HAND_LABELS[mate.hand].toLowerCase()})` : ''}? *
+            </legend>
+            <div className="mt-2 space-y-2">
+              {mateActions.map(action => (
+                <label key={action} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="radio"
+                    name="mateAction"
+                    value={action}
+                    className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300"
+                    checked={mateAction === action}
+                    onChange={() => onMateActionChange?.(action)}
+                    disabled={isSubmitting}
+                  />
+                  <span className="ml-2">{MATE_ACTION_LABELS[action]}</span>
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        )}
         <div className="flex justify-end space-x-3">
           <Button
             size="sm"
@@ -57,7 +142,7 @@ const FailureForm: React.FC<FailureFormProps> = ({
             variant="primary"
             onClick={onSubmit}
             isLoading={isSubmitting}
-            disabled={isSubmitting || !failureReason.trim()}
+            disabled={isSubmitting || !report.defectCode || (mateActions.length > 0 && !mateAction)}
           >
             Mark as Failed
           </Button>
@@ -67,4 +152,4 @@ const FailureForm: React.FC<FailureFormProps> = ({
   );
 };
 
-export default FailureForm;
\ No newline at end of file
+export default FailureForm;
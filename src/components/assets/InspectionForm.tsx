@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { CheckCircle, Circle, XCircle } from 'lucide-react';
+import { Asset, FailureReport, InspectionResult } from '../../types';
+import { NewInspection } from '../../services/inspectionService';
+import { INSPECTION_CHECKLIST, isChecklistComplete } from '../../utils/inspectionUtils';
+import Button from '../ui/Button';
+import FailureForm from './FailureForm';
+
+export type InspectionFormData = Omit<NewInspection, 'photo'>;
+
+interface InspectionFormProps {
+  asset: Asset;
+  showInspectionForm: boolean;
+  isSubmitting: boolean;
+  onSubmit: (data: InspectionFormData, photoFile?: File) => void;
+  onCancel: () => void;
+}
+
+/**
+ * InspectionForm Component
+ *
+ * Pre-use inspection for technicians: tap through the visual checklist and
+ * air test, optionally attach a photo, then pass or fail the glove.
+ * A failure takes the asset out of service.
+ */
+const InspectionForm: React.FC<InspectionFormProps> = ({
+  asset,
+  showInspectionForm,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const [checklist, setChecklist] = useState<Record<string, boolean>>({});
+  const [outcome, setOutcome] = useState<InspectionResult | null>(null);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [failureReport, setFailureReport] = useState<FailureReport>({ defectCode: '' });
+
+  if (!showInspectionForm) return null;
+
+  const checklistComplete = isChecklistComplete(checklist);
+
+  const toggleItem = (key: string) => {
+    setChecklist(prev => ({ ...prev, [key]: !prev[key] }));
+    if (outcome === 'pass') setOutcome(null);
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setPhotoFile(file && file.type.startsWith('image/') ? file : null);
+  };
+
+  const handleCancel = () => {
+    setChecklist({});
+    setOutcome(null);
+    setPhotoFile(null);
+    setFailureReport({ defectCode: '' });
+    onCancel();
+  };
+
+  const handleSubmit = (result: InspectionResult) => {
+    onSubmit(
+      {
+        result,
+        checklist: INSPECTION_CHECKLIST.reduce<Record<string, boolean>>((acc, item) => {
+          acc[item.key] = !!checklist[item.key];
+          return acc;
+        }, {}),
+        notes: result === 'fail' ? failureReport.notes?.trim() || undefined : undefined,
+        failure: result === 'fail' ? failureReport : undefined,
+      },
+      photoFile || undefined
+    );
+  };
+
+  const outcomeButtonClassName = (option: InspectionResult) =>
+    `flex-1 flex items-center justify-center border rounded-md py-3 text-sm font-medium transition-colors disabled:opacity-50 ${
+      outcome === option
+        ? option === 'pass'
+          ? 'border-success-500 bg-success-50 text-success-700'
+          : 'border-danger-500 bg-danger-50 text-danger-700'
+        : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-md p-4">
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">Pre-Use Inspection</h4>
+          <p className="text-xs text-gray-500 mt-1">
+            Check {asset.serialNumber} before use. Tap each item that is OK.
+          </p>
+          {asset.status === 'expired' && (
+            <p className="text-xs font-medium text-danger-600 mt-1">
+              This asset is past its certification date and must not be used until it is retested.
+            </p>
+          )}
+        </div>
+
+        <ul className="space-y-2">
+          {INSPECTION_CHECKLIST.map(item => (
+            <li key={item.key}>
+              <button
+                type="button"
+                className={`w-full min-h-[44px] flex items-center text-left border rounded-md px-3 py-2 text-sm transition-colors ${
+                  checklist[item.key]
+                    ? 'border-success-300 bg-success-50 text-success-800'
+                    : 'border-gray-300 bg-white text-gray-700'
+                }`}
+                onClick={() => toggleItem(item.key)}
+                disabled={isSubmitting}
+                aria-pressed={!!checklist[item.key]}
+              >
+                {checklist[item.key]
+                  ? <CheckCircle className="h-5 w-5 mr-3 flex-shrink-0 text-success-500" />
+                  : <Circle className="h-5 w-5 mr-3 flex-shrink-0 text-gray-300" />}
+                {item.label}
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        <div>
+          <label htmlFor="inspectionPhoto" className="block text-sm font-medium text-gray-700">
+            Photo
+          </label>
+          <input
+            type="file"
+            id="inspectionPhoto"
+            accept="image/*"
+            capture="environment"
+            className="mt-1 block w-full text-sm text-gray-700"
+            onChange={handlePhotoChange}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            className={outcomeButtonClassName('pass')}
+            onClick={() => setOutcome('pass')}
+            disabled={isSubmitting || !checklistComplete}
+          >
+            <CheckCircle className="h-5 w-5 mr-2" />
+            Pass
+          </button>
+          <button
+            type="button"
+            className={outcomeButtonClassName('fail')}
+            onClick={() => setOutcome('fail')}
+            disabled={isSubmitting}
+          >
+            <XCircle className="h-5 w-5 mr-2" />
+            Fail
+          </button>
+        </div>
+
+        {outcome === 'pass' && (
+          <div className="flex justify-end space-x-3">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              variant="success"
+              onClick={() => handleSubmit('pass')}
+              isLoading={isSubmitting}
+              disabled={isSubmitting || !checklistComplete}
+            >
+              Record Pass
+            </Button>
+          </div>
+        )}
+
+        <FailureForm
+          showFailureForm={outcome === 'fail'}
+          report={failureReport}
+          isSubmitting={isSubmitting}
+          onReportChange={setFailureReport}
+          onSubmit={() => handleSubmit('fail')}
+          onCancel={handleCancel}
+        />
+
+        {!outcome && (
+          <div className="flex justify-end">
+            <Button size="sm" variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default InspectionForm;
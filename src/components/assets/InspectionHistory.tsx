@@ -0,0 +1,91 @@
+import React, { useMemo } from 'react';
+import { ClipboardList } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Asset } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { INSPECTION_CHECKLIST, INSPECTION_HISTORY_DAYS } from '../../utils/inspectionUtils';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Badge from '../ui/Badge';
+
+interface InspectionHistoryProps {
+  asset: Asset;
+}
+
+/**
+ * InspectionHistory Component
+ *
+ * Lists the recent pre-use inspections of an asset, newest first,
+ * with the inspector, result, any checklist items that were not OK and the photo.
+ */
+const InspectionHistory: React.FC<InspectionHistoryProps> = ({ asset }) => {
+  const { inspections, organizationMembers } = useAssets();
+
+  const assetInspections = useMemo(() => {
+    return inspections.filter(inspection => inspection.assetId === asset.id);
+  }, [inspections, asset.id]);
+
+  /**
+   * Resolves the inspector's display name
+   */
+  const getInspectorName = (userId: string): string => {
+    const member = organizationMembers.find(m => m.id === userId);
+    return member ? member.name : 'Unknown User';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <ClipboardList className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Inspections</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">Last {INSPECTION_HISTORY_DAYS} days</p>
+      </CardHeader>
+      <CardContent>
+        {assetInspections.length === 0 ? (
+          <p className="text-gray-500 text-sm">No inspections recorded</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {assetInspections.map(inspection => {
+              const failedItems = INSPECTION_CHECKLIST.filter(item => !inspection.checklist[item.key]);
+
+              return (
+                <li key={inspection.id} className="py-3 flex justify-between items-start">
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {format(parseISO(inspection.inspectedAt), 'MMM d, yyyy h:mm a')}
+                    </p>
+                    <p className="text-xs text-gray-500">{getInspectorName(inspection.inspectedBy)}</p>
+                    {failedItems.length > 0 && (
+                      <p className="text-xs text-danger-600 mt-1">
+                        Not OK: {failedItems.map(item => item.label).join('; ')}
+                      </p>
+                    )}
+                    {inspection.notes && (
+                      <p className="text-xs text-gray-500 mt-1">{inspection.notes}</p>
+                    )}
+                    {inspection.photoUrl && (
+                      <a
+                        href={inspection.photoUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-xs font-medium text-primary-600 hover:text-primary-700"
+                      >
+                        View photo
+                      </a>
+                    )}
+                  </div>
+                  <Badge variant={inspection.result === 'pass' ? 'success' : 'danger'}>
+                    {inspection.result === 'pass' ? 'Pass' : 'Fail'}
+                  </Badge>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default InspectionHistory;
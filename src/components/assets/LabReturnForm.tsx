@@ -0,0 +1,250 @@
+import React, { useState } from 'react';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { Asset, CertificationResult, FailureReport } from '../../types';
+import { LabReturn } from '../../services/certificationService';
+import { useAssets } from '../../context/AssetContext';
+import { formatDate } from '../../utils';
+import { calculateCertificationDueDate, getRetestIntervalMonths } from '../../utils/assetUtils';
+import { getServiceLifeEndDate, isAssetPastServiceLife, isPastServiceLife } from '../../utils/serviceLifeUtils';
+import { ASTM_D120_RATINGS, parseMeasurement } from '../../utils/dielectricTestUtils';
+import { GLOVE_HAND_LABELS, getMate } from '../../utils/pairUtils';
+import Button from '../ui/Button';
+import DielectricTestFields, { DielectricTestFieldValues } from './DielectricTestFields';
+import FailureForm from './FailureForm';
+
+export type LabReturnFormData = Omit<LabReturn, 'certificate'>;
+
+interface LabReturnFormProps {
+  asset: Asset;
+  showLabReturnForm: boolean;
+  isSubmitting: boolean;
+  onSubmit: (data: LabReturnFormData, certificateFile?: File, includeMate?: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * LabReturnForm Component
+ *
+ * Guided "return from lab" step for an asset in testing.
+ * A pass needs the lab certificate and puts the asset back in service with new dates;
+ * a fail goes through the failure form. Either outcome is saved in one server-side operation.
+ * A paired glove's mate at the lab can be returned with the same result and certificate.
+ * An asset past its maximum service life cannot pass and is recorded as failed.
+ */
+const LabReturnForm: React.FC<LabReturnFormProps> = ({
+  asset,
+  showLabReturnForm,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const { assets, retestRules, serviceLifeRules } = useAssets();
+  const serviceLifeEndDate = getServiceLifeEndDate(asset, serviceLifeRules);
+  const isEndOfLife = !!serviceLifeEndDate && isPastServiceLife(serviceLifeEndDate);
+  const defaultFailureReport: FailureReport = {
+    defectCode: isEndOfLife ? 'service-life-exceeded' : 'dielectric-test-failure',
+  };
+  const [outcome, setOutcome] = useState<CertificationResult | null>(null);
+  const [testValues, setTestValues] = useState<DielectricTestFieldValues>({
+    certificationDate: new Date().toISOString().substring(0, 10),
+    labName: '',
+    proofTestVoltage: String(ASTM_D120_RATINGS[asset.assetClass].proofTestVoltage),
+    leakageCurrentMa: '',
+  });
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+  const [failureReport, setFailureReport] = useState<FailureReport>(defaultFailureReport);
+  const [includeMate, setIncludeMate] = useState(true);
+
+  if (!showLabReturnForm) return null;
+
+  // Pairs usually come back from the lab together, unless the mate is too old to pass
+  const mate = getMate(asset, assets);
+  const mateAtLab = mate?.status === 'in-testing' &&
+    !(outcome === 'pass' && isAssetPastServiceLife(mate, serviceLifeRules))
+    ? mate
+    : undefined;
+
+  // Back with its holder it stays in service; otherwise it returns to stock
+  const nextCertificationDate = testValues.certificationDate
+    ? calculateCertificationDueDate(
+        testValues.certificationDate,
+        getRetestIntervalMonths(retestRules, asset.assetType, asset.assetClass),
+        asset.assignedUserId ? testValues.certificationDate : undefined
+      )
+    : null;
+
+  /**
+   * Builds the lab return from the shared test fields
+   */
+  const buildLabReturn = (result: CertificationResult): LabReturnFormData => ({
+    result,
+    certificationDate: testValues.certificationDate,
+    labName: testValues.labName.trim() || undefined,
+    proofTestVoltage: parseMeasurement(testValues.proofTestVoltage),
+    leakageCurrentMa: parseMeasurement(testValues.leakageCurrentMa),
+    failure: result === 'fail'
+      ? { ...failureReport, notes: failureReport.notes?.trim() || undefined }
+      : undefined,
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setCertificateFile(file && file.type === 'application/pdf' ? file : null);
+  };
+
+  const handleCancel = () => {
+    setOutcome(null);
+    setCertificateFile(null);
+    setFailureReport(defaultFailureReport);
+    onCancel();
+  };
+
+  const outcomeButtonClassName = (option: CertificationResult) =>
+    `flex-1 flex items-center justify-center border rounded-md py-3 text-sm font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+      outcome === option
+        ? option === 'pass'
+          ? 'border-success-500 bg-success-50 text-success-700'
+          : 'border-danger-500 bg-danger-50 text-danger-700'
+        : 'border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+    }`;
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-md p-4">
+      <div className="space-y-4">
+        <div>
+          <h4 className="text-sm font-medium text-gray-900">Return from Lab</h4>
+          {asset.testingStartDate && (
+            <p className="text-xs text-gray-500 mt-1">
+              Sent for testing on {formatDate(asset.testingStartDate)}
+            </p>
+          )}
+        </div>
+
+        {isEndOfLife && serviceLifeEndDate && (
+          <p className="text-sm text-danger-700">
+            {asset.serialNumber} reached the end of its service life on {formatDate(serviceLifeEndDate)}. It cannot
+            return to service whatever the test result; record it as failed.
+          </p>
+        )}
+
+        <div className="flex space-x-3">
+          <button
+            type="button"
+            className={outcomeButtonClassName('pass')}
+            onClick={() => setOutcome('pass')}
+            disabled={isSubmitting || isEndOfLife}
+          >
+            <CheckCircle className="h-5 w-5 mr-2" />
+            Passed
+          </button>
+          <button
+            type="button"
+            className={outcomeButtonClassName('fail')}
+            onClick={() => setOutcome('fail')}
+            disabled={isSubmitting}
+          >
+            <XCircle className="h-5 w-5 mr-2" />
+            Failed
+          </button>
+        </div>
+
+        {outcome && mateAtLab && (
+          <div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                checked={includeMate}
+                onChange={(e) => setIncludeMate(e.target.checked)}
+                disabled={isSubmitting}
+              />
+              <span className="ml-2">
+                Same result for its mate, {mateAtLab.serialNumber}
+                {mateAtLab.hand ? ` (${GLOVE_HAND_LABELS[mateAtLab.hand].toLowerCase()})` : ''}
+              </span>
+            </label>
+            {outcome === 'fail' && !includeMate && (
+              <p className="mt-1 text-xs text-gray-500">
+                The pair will be split and {mateAtLab.serialNumber} stays in testing.
+              </p>
+            )}
+          </div>
+        )}
+
+        {outcome && (
+          <DielectricTestFields
+            assetClass={asset.assetClass}
+            values={testValues}
+            onChange={(field, value) => setTestValues(prev => ({ ...prev, [field]: value }))}
+            disabled={isSubmitting}
+          />
+        )}
+
+        {outcome === 'pass' && (
+          <>
+            <div>
+              <label htmlFor="labCertificate" className="block text-sm font-medium text-gray-700">
+                Lab Certificate (PDF) *
+              </label>
+              <input
+                type="file"
+                id="labCertificate"
+                accept="application/pdf"
+                className="mt-1 block w-full text-sm text-gray-700"
+                onChange={handleFileChange}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            {nextCertificationDate && (
+              <p className="text-sm text-gray-600">
+                {asset.assignedUserId
+                  ? `Next certification will be due ${formatDate(nextCertificationDate)}.`
+                  : `It returns to stock and must be issued by ${formatDate(nextCertificationDate)} or retested; its retest interval starts when it is issued.`}
+              </p>
+            )}
+
+            <div className="flex justify-end space-x-3">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleCancel}
+                disabled={isSubmitting}
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                variant="success"
+                onClick={() => certificateFile && onSubmit(buildLabReturn('pass'), certificateFile, !!mateAtLab && includeMate)}
+                isLoading={isSubmitting}
+                disabled={isSubmitting || !certificateFile || !testValues.certificationDate}
+              >
+                Return to Service
+              </Button>
+            </div>
+          </>
+        )}
+
+        <FailureForm
+          showFailureForm={outcome === 'fail'}
+          report={failureReport}
+          isSubmitting={isSubmitting}
+          onReportChange={setFailureReport}
+          onSubmit={() => onSubmit(buildLabReturn('fail'), undefined, !!mateAtLab && includeMate)}
+          onCancel={handleCancel}
+        />
+
+        {!outcome && (
+          <div className="flex justify-end">
+            <Button size="sm" variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LabReturnForm;
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Printer, Download, Send } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { Asset, LabelQrContent } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import {
+  LABEL_LAYOUTS,
+  LABEL_LAYOUT_OPTIONS,
+  LabelLayoutId,
+  buildLabelSheets,
+  downloadLabelSheets,
+  printLabelSheets,
+} from '../../utils/labelUtils';
+import { buildZplLabels, downloadZpl } from '../../utils/zplUtils';
+import Button from '../ui/Button';
+import KitAssetPicker from '../kits/KitAssetPicker';
+import ZplLabelPreview from './ZplLabelPreview';
+
+interface LabelPrinterProps {
+  /** Assets that can be labelled, e.g. the current list filter */
+  assets: Asset[];
+  onClose: () => void;
+}
+
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+/**
+ * LabelPrinter Component
+ *
+ * Picks assets and prints QR code labels for them on a standard label
+ * sheet, or downloads the sheets as SVG. For Zebra thermal printers it builds
+ * ZPL from the organization's label layout, to download or send to the
+ * crib's print bridge.
+ */
+const LabelPrinter: React.FC<LabelPrinterProps> = ({ assets, onClose }) => {
+  const { orgSettings, printZplLabels } = useAssets();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [output, setOutput] = useState<'sheet' | 'thermal'>('sheet');
+  const [isSending, setIsSending] = useState(false);
+  const [layout, setLayout] = useState<LabelLayoutId>('avery-5160');
+  const [qrContent, setQrContent] = useState<LabelQrContent>('url');
+  const [skip, setSkip] = useState(0);
+
+  const perSheet = LABEL_LAYOUTS[layout].columns * LABEL_LAYOUTS[layout].rows;
+
+  /**
+   * Builds the sheets for the selection, in serial number order
+   */
+  const selectedAssets = assets
+    .filter(asset => selectedIds.includes(asset.id))
+    .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+
+  const buildSheets = (): string[] => {
+    return buildLabelSheets(selectedAssets, { layout, qrContent, origin: window.location.origin, skip });
+  };
+
+  const buildZpl = (): string => {
+    return buildZplLabels(selectedAssets, orgSettings.labelLayout, window.location.origin);
+  };
+
+  const handlePrint = () => {
+    try {
+      printLabelSheets(buildSheets());
+    } catch (error) {
+      console.error('Error printing labels:', error);
+      toast.error(`Failed to print labels: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDownload = () => {
+    try {
+      downloadLabelSheets(buildSheets());
+    } catch (error) {
+      console.error('Error downloading labels:', error);
+      toast.error(`Failed to download labels: ${(error as Error).message}`);
+    }
+  };
+
+  const handleDownloadZpl = () => {
+    try {
+      downloadZpl(buildZpl());
+    } catch (error) {
+      console.error('Error downloading ZPL:', error);
+      toast.error(`Failed to download labels: ${(error as Error).message}`);
+    }
+  };
+
+  const handleSendToPrinter = async (): Promise<void> => {
+    setIsSending(true);
+    try {
+      await printZplLabels(buildZpl(), selectedAssets.length);
+    } catch (error) {
+      console.error('Error sending labels to printer:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white shadow-sm rounded-lg p-6 border border-gray-200 space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-lg font-medium text-gray-900">Print Labels</h2>
+        <Button size="sm" variant="outline" onClick={() => setSelectedIds(assets.map(asset => asset.id))}>
+          Select all {assets.length}
+        </Button>
+      </div>
+
+      <KitAssetPicker
+        assets={assets}
+        selectedIds={selectedIds}
+        onChange={setSelectedIds}
+        emptyMessage="No assets match the current filters."
+      />
+
+      <div>
+        <label htmlFor="labelOutput" className="block text-sm font-medium text-gray-700">
+          Printer
+        </label>
+        <select
+          id="labelOutput"
+          className={fieldClassName}
+          value={output}
+          onChange={(e) => setOutput(e.target.value as 'sheet' | 'thermal')}
+        >
+          <option value="sheet">Office printer (label sheets)</option>
+          <option value="thermal">Zebra thermal printer (ZPL)</option>
+        </select>
+      </div>
+
+      {output === 'sheet' ? (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div>
+            <label htmlFor="labelLayout" className="block text-sm font-medium text-gray-700">
+              Label Sheet
+            </label>
+            <select
+              id="labelLayout"
+              className={fieldClassName}
+              value={layout}
+              onChange={(e) => {
+                setLayout(e.target.value as LabelLayoutId);
+                setSkip(0);
+              }}
+            >
+              {LABEL_LAYOUT_OPTIONS.map(option => (
+                <option key={option} value={option}>
+                  {LABEL_LAYOUTS[option].label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="labelQrContent" className="block text-sm font-medium text-gray-700">
+              QR Code Contains
+            </label>
+            <select
+              id="labelQrContent"
+              className={fieldClassName}
+              value={qrContent}
+              onChange={(e) => setQrContent(e.target.value as LabelQrContent)}
+            >
+              <option value="url">Link to the asset</option>
+              <option value="serial">Serial number</option>
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="labelSkip" className="block text-sm font-medium text-gray-700">
+              Skip Used Labels
+            </label>
+            <input
+              type="number"
+              id="labelSkip"
+              min={0}
+              max={perSheet - 1}
+              className={fieldClassName}
+              value={skip}
+              onChange={(e) => setSkip(Math.max(0, Math.min(perSheet - 1, Number(e.target.value) || 0)))}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-500">
+            Labels use the layout set under <Link to="/settings" className="text-primary-600 hover:text-primary-700">Settings</Link>.
+          </p>
+          {selectedAssets.length > 0 && (
+            <ZplLabelPreview asset={selectedAssets[0]} layout={orgSettings.labelLayout} />
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        <Button variant="outline" onClick={onClose}>
+          Close
+        </Button>
+        {output === 'sheet' ? (
+          <>
+            <Button
+              variant="outline"
+              leftIcon={<Download className="h-4 w-4" />}
+              onClick={handleDownload}
+              disabled={selectedIds.length === 0}
+            >
+              Download SVG
+            </Button>
+            <Button
+              leftIcon={<Printer className="h-4 w-4" />}
+              onClick={handlePrint}
+              disabled={selectedIds.length === 0}
+            >
+              Print {selectedIds.length > 0 ? selectedIds.length : ''} Labels
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button
+              variant="outline"
+              leftIcon={<Download className="h-4 w-4" />}
+              onClick={handleDownloadZpl}
+              disabled={selectedIds.length === 0}
+            >
+              Download ZPL
+            </Button>
+            {orgSettings.printBridgeUrl && (
+              <Button
+                leftIcon={<Send className="h-4 w-4" />}
+                onClick={handleSendToPrinter}
+                isLoading={isSending}
+                disabled={selectedIds.length === 0 || isSending}
+              >
+                Send {selectedIds.length > 0 ? selectedIds.length : ''} to Printer
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LabelPrinter;
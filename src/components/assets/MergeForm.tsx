@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Asset, AssetMergeField } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { formatDate } from '../../utils';
+import { getAssetAttributeEntries } from '../../utils/assetTypes';
+import { MERGE_FIELD_LABELS, getMergeBlocker, getMergeFields, previewMergedAsset } from '../../utils/serialUtils';
+import { isAssetPastServiceLife } from '../../utils/serviceLifeUtils';
+import Button from '../ui/Button';
+import StatusBadge from '../ui/StatusBadge';
+
+interface MergeFormProps {
+  /** The two records to merge, the proposed record to keep first */
+  records: [Asset, Asset];
+  isSubmitting: boolean;
+  onSubmit: (survivorId: string, duplicateId: string, fields: AssetMergeField[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * MergeForm Component
+ *
+ * Merges two records of the same asset. The admin picks the record to keep and,
+ * field by field, which record's value wins; a preview shows the merged record
+ * and its combined history before the merge is confirmed.
+ */
+const MergeForm: React.FC<MergeFormProps> = ({
+  records,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const { organizationMembers, serviceLifeRules, getLocationById, getKitById, getSupplierById } = useAssets();
+
+  const describeValue = (asset: Asset, field: AssetMergeField): string => {
+    switch (field) {
+      case 'issueDate':
+        return formatDate(asset.issueDate);
+      case 'manufactureDate':
+        return asset.manufactureDate ? formatDate(asset.manufactureDate) : '—';
+      case 'gloveSize':
+        return asset.gloveSize || '—';
+      case 'gloveColor':
+        return asset.gloveColor ? asset.gloveColor.charAt(0).toUpperCase() + asset.gloveColor.slice(1) : '—';
+      case 'attributes': {
+        const entries = getAssetAttributeEntries(asset.assetType, asset.attributes);
+        return entries.length > 0 ? entries.map(entry => `${entry.label}: ${entry.value}`).join(', ') : '—';
+      }
+      case 'placement': {
+        const holder = asset.assignedUserId
+          ? organizationMembers.find(member => member.id === asset.assignedUserId)?.name || 'Unknown User'
+          : undefined;
+        const location = asset.locationId ? getLocationById(asset.locationId)?.name : undefined;
+        const kit = asset.kitId ? getKitById(asset.kitId)?.name : undefined;
+        const placement = holder ? `Held by ${holder}` : location ? `Stored at ${location}` : 'Unassigned';
+        return kit ? `${placement} (kit ${kit})` : placement;
+      }
+      case 'manufacturerId':
+        return (asset.manufacturerId && getSupplierById(asset.manufacturerId)?.name) || '—';
+      case 'vendorId':
+        return (asset.vendorId && getSupplierById(asset.vendorId)?.name) || '—';
+      case 'model':
+      case 'lotNumber':
+      case 'purchaseOrder':
+        return asset[field] || '—';
+      case 'unitCost':
+        return asset.unitCost !== undefined ? asset.unitCost.toFixed(2) : '—';
+      default:
+        return asset[field];
+    }
+  };
+
+  const [survivorId, setSurvivorId] = useState(records[0].id);
+  // Which record each value comes from; empty values on the kept record default to the other's
+  const [sources, setSources] = useState<Record<AssetMergeField, string>>(() => {
+    const [proposed, other] = records;
+    return getMergeFields(proposed.assetType).reduce((acc, field) => {
+      const proposedValue = describeValue(proposed, field);
+      acc[field] = proposedValue === '—' && describeValue(other, field) !== '—' ? other.id : proposed.id;
+      return acc;
+    }, {} as Record<AssetMergeField, string>);
+  });
+  const [showConfirm, setShowConfirm] = useState(false);
+
+  const survivor = records.find(record => record.id === survivorId) || records[0];
+  const duplicate = records.find(record => record.id !== survivorId) || records[1];
+  const fields = getMergeFields(survivor.assetType);
+  const takenFields = fields.filter(field => sources[field] === duplicate.id);
+  const preview = previewMergedAsset(survivor, duplicate, takenFields);
+  const blocker = getMergeBlocker(survivor, duplicate);
+
+  const describeHistory = (asset: Asset) =>
+    `${asset.certifications.length} tests, ${asset.certificationDocuments.length} documents`;
+
+  const selectRecord = (assetId: string) => {
+    setSurvivorId(assetId);
+    setShowConfirm(false);
+  };
+
+  const selectSource = (field: AssetMergeField, assetId: string) => {
+    setSources(prev => ({ ...prev, [field]: assetId }));
+    setShowConfirm(false);
+  };
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-md p-4">
+      <div className="space-y-4">
+        <h4 className="text-sm font-medium text-gray-900">Merge Records</h4>
+        <p className="text-sm text-gray-600">
+          Choose the record to keep and which value wins for each field. The other record's tests,
+          documents, inspections and custody history move to the kept record, then it is deleted.
+          Procurement details and a manufacture date the kept record lacks are taken from the other record.
+        </p>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead>
+              <tr>
+                <th scope="col" className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Field
+                </th>
+                {records.map((record, index) => (
+                  <th
+                    key={record.id}
+                    scope="col"
+                    className="py-2 pr-4 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                  >
+                    Record {index + 1}
+                  </th>
+                ))}
+                <th scope="col" className="py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  After Merge
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              <tr>
+                <td className="py-2 pr-4 font-medium text-gray-700">Keep</td>
+                {records.map(record => (
+                  <td key={record.id} className="py-2 pr-4">
+                    <label className="flex items-center">
+                      <input
+                        type="radio"
+                        name="mergeSurvivor"
+                        className="h-4 w-4 text-primary-600 border-gray-300 mr-2"
+                        checked={record.id === survivorId}
+                        onChange={() => selectRecord(record.id)}
+                        disabled={isSubmitting}
+                      />
+                      {record.id === survivorId ? 'Keep this record' : 'Merge away'}
+                    </label>
+                  </td>
+                ))}
+                <td className="py-2 text-gray-500">—</td>
+              </tr>
+              {fields.map(field => (
+                <tr key={field}>
+                  <td className="py-2 pr-4 font-medium text-gray-700">{MERGE_FIELD_LABELS[field]}</td>
+                  {records.map(record => (
+                    <td key={record.id} className="py-2 pr-4">
+                      <label className="flex items-center">
+                        <input
+                          type="radio"
+                          name={`mergeField-${field}`}
+                          className="h-4 w-4 text-primary-600 border-gray-300 mr-2"
+                          checked={sources[field] === record.id}
+                          onChange={() => selectSource(field, record.id)}
+                          disabled={isSubmitting}
+                        />
+                        <span className="text-gray-900">{describeValue(record, field)}</span>
+                      </label>
+                    </td>
+                  ))}
+                  <td className="py-2 text-gray-900">{describeValue(preview, field)}</td>
+                </tr>
+              ))}
+              <tr>
+                <td className="py-2 pr-4 font-medium text-gray-700">Status</td>
+                {records.map(record => (
+                  <td key={record.id} className="py-2 pr-4">
+                    <StatusBadge status={record.status} endOfLife={isAssetPastServiceLife(record, serviceLifeRules)} />
+                  </td>
+                ))}
+                <td className="py-2">
+                  <StatusBadge status={preview.status} endOfLife={isAssetPastServiceLife(preview, serviceLifeRules)} />
+                </td>
+              </tr>
+              <tr>
+                <td className="py-2 pr-4 font-medium text-gray-700">Next Test</td>
+                {records.map(record => (
+                  <td key={record.id} className="py-2 pr-4 text-gray-900">
+                    {record.nextCertificationDate ? formatDate(record.nextCertificationDate) : '—'}
+                  </td>
+                ))}
+                <td className="py-2 text-gray-900">
+                  {preview.nextCertificationDate ? formatDate(preview.nextCertificationDate) : '—'}
+                </td>
+              </tr>
+              <tr>
+                <td className="py-2 pr-4 font-medium text-gray-700">History</td>
+                {records.map(record => (
+                  <td key={record.id} className="py-2 pr-4 text-gray-900">
+                    {describeHistory(record)}
+                  </td>
+                ))}
+                <td className="py-2 text-gray-900">{describeHistory(preview)}</td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
+
+        {blocker && (
+          <div className="flex bg-warning-50 border border-warning-200 rounded-md p-3 text-sm text-warning-800">
+            <AlertTriangle className="h-5 w-5 text-warning-500 mr-2 flex-shrink-0" />
+            {blocker}
+          </div>
+        )}
+
+        {showConfirm && !blocker ? (
+          <div className="bg-danger-50 border border-danger-200 rounded-md p-4">
+            <div className="flex">
+              <AlertTriangle className="h-5 w-5 text-danger-500 flex-shrink-0" />
+              <div className="ml-3">
+                <h3 className="text-sm font-medium text-danger-800">Confirm Merge</h3>
+                <p className="mt-2 text-sm text-danger-700">
+                  {duplicate.serialNumber} (issued {formatDate(duplicate.issueDate)}) will be deleted after its history
+                  moves to {preview.serialNumber}. This action cannot be undone.
+                </p>
+                <div className="mt-4 flex space-x-3">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setShowConfirm(false)}
+                    disabled={isSubmitting}
+                  >
+                    Back
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    onClick={() => onSubmit(survivor.id, duplicate.id, takenFields)}
+                    isLoading={isSubmitting}
+                    disabled={isSubmitting}
+                  >
+                    Merge Records
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-end space-x-3">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onCancel}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              variant="primary"
+              onClick={() => setShowConfirm(true)}
+              disabled={isSubmitting || !!blocker}
+            >
+              Review Merge
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MergeForm;
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowRightLeft } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { Asset, AssetMovement } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+
+interface MovementHistoryProps {
+  asset: Asset;
+}
+
+/**
+ * MovementHistory Component
+ *
+ * Lists every change of holder or location of an asset, newest first.
+ * Movements are loaded when the asset is opened and again after it moves.
+ */
+const MovementHistory: React.FC<MovementHistoryProps> = ({ asset }) => {
+  const { organizationMembers, getLocationById, fetchAssetMovements } = useAssets();
+  const [movements, setMovements] = useState<AssetMovement[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    setIsLoading(true);
+    fetchAssetMovements(asset.id)
+      .then(data => {
+        if (isCurrent) setMovements(data);
+      })
+      .catch(error => {
+        console.error('Error loading movements:', error);
+        // Error handling is managed by the context/toast system
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [asset.id, asset.assignedUserId, asset.locationId, fetchAssetMovements]);
+
+  /**
+   * Describes one end of a move: a person, a location or nowhere
+   */
+  const describePlacement = (userId?: string, locationId?: string): string => {
+    if (userId) {
+      const member = organizationMembers.find(m => m.id === userId);
+      return member ? member.name : 'Unknown User';
+    }
+    if (locationId) {
+      return getLocationById(locationId)?.name || 'Deleted location';
+    }
+    return 'Unassigned';
+  };
+
+  const getMoverName = (userId?: string): string => {
+    if (!userId) return 'System';
+    const member = organizationMembers.find(m => m.id === userId);
+    return member ? member.name : 'Unknown User';
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <ArrowRightLeft className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Movements</h3>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-500 text-sm">Loading movements...</p>
+        ) : movements.length === 0 ? (
+          <p className="text-gray-500 text-sm">No movements recorded</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {movements.map(movement => (
+              <li key={movement.id} className="py-3">
+                <p className="text-sm text-gray-900">
+                  {describePlacement(movement.fromUserId, movement.fromLocationId)}
+                  {' → '}
+                  <span className="font-medium">
+                    {describePlacement(movement.toUserId, movement.toLocationId)}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {format(parseISO(movement.movedAt), 'MMM d, yyyy h:mm a')} by {getMoverName(movement.movedBy)}
+                </p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MovementHistory;
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Asset, GloveHand } from '../../types';
+import { GLOVE_HAND_LABELS, getPairCandidates } from '../../utils/pairUtils';
+import Button from '../ui/Button';
+
+interface PairFormProps {
+  asset: Asset;
+  assets: Asset[];
+  showPairForm: boolean;
+  isSubmitting: boolean;
+  onSubmit: (leftAssetId: string, rightAssetId: string) => void;
+  onCancel: () => void;
+}
+
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+/**
+ * PairForm Component
+ *
+ * Links a glove with its mate as a left/right pair. Only unpaired gloves of
+ * the same class that are not assigned to someone else can be chosen.
+ */
+const PairForm: React.FC<PairFormProps> = ({
+  asset,
+  assets,
+  showPairForm,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const [hand, setHand] = useState<GloveHand>('left');
+  const [mateId, setMateId] = useState('');
+
+  if (!showPairForm) return null;
+
+  const candidates = getPairCandidates(asset, assets);
+
+  const handleSubmit = () => {
+    if (!mateId) return;
+    if (hand === 'left') {
+      onSubmit(asset.id, mateId);
+    } else {
+      onSubmit(mateId, asset.id);
+    }
+  };
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-md p-4">
+      <div className="space-y-4">
+        <h4 className="text-sm font-medium text-gray-900">Pair Glove</h4>
+
+        {candidates.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            There are no unpaired {asset.assetClass} gloves to pair {asset.serialNumber} with.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div>
+              <label htmlFor="pairHand" className="block text-sm font-medium text-gray-700">
+                {asset.serialNumber} is the *
+              </label>
+              <select
+                id="pairHand"
+                className={fieldClassName}
+                value={hand}
+                onChange={(e) => setHand(e.target.value as GloveHand)}
+                disabled={isSubmitting}
+              >
+                {(Object.keys(GLOVE_HAND_LABELS) as GloveHand[]).map(option => (
+                  <option key={option} value={option}>
+                    {GLOVE_HAND_LABELS[option]} glove
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="pairMate" className="block text-sm font-medium text-gray-700">
+                Mate *
+              </label>
+              <select
+                id="pairMate"
+                className={fieldClassName}
+                value={mateId}
+                onChange={(e) => setMateId(e.target.value)}
+                disabled={isSubmitting}
+              >
+                <option value="">Select a glove...</option>
+                {candidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.serialNumber}{candidate.gloveSize ? ` - Size ${candidate.gloveSize}` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            variant="primary"
+            onClick={handleSubmit}
+            isLoading={isSubmitting}
+            disabled={isSubmitting || !mateId}
+          >
+            Pair Gloves
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PairForm;
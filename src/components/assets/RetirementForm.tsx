@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { DisposalMethod, Retirement } from '../../types';
+import { DISPOSAL_METHOD_LABELS } from '../../utils/retirementUtils';
+import Button from '../ui/Button';
+
+interface RetirementFormProps {
+  showRetirementForm: boolean;
+  isSubmitting: boolean;
+  onSubmit: (retirement: Retirement, certificateFile?: File) => void;
+  onCancel: () => void;
+}
+
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+/**
+ * RetirementForm Component
+ *
+ * Records the destruction of a failed asset: how it was disposed of, when,
+ * who witnessed it and an optional destruction certificate.
+ * The asset is then retired and hidden from default views.
+ */
+const RetirementForm: React.FC<RetirementFormProps> = ({
+  showRetirementForm,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const [retirement, setRetirement] = useState<Retirement>({
+    disposalMethod: 'cut-and-discarded',
+    retiredDate: new Date().toISOString().substring(0, 10),
+    disposalWitness: '',
+  });
+  const [certificateFile, setCertificateFile] = useState<File | null>(null);
+
+  if (!showRetirementForm) return null;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setCertificateFile(file && file.type === 'application/pdf' ? file : null);
+  };
+
+  const handleSubmit = () => {
+    onSubmit(
+      { ...retirement, disposalWitness: retirement.disposalWitness.trim() },
+      certificateFile || undefined
+    );
+  };
+
+  return (
+    <div className="mt-4 bg-gray-50 border border-gray-200 rounded-md p-4">
+      <div className="space-y-4">
+        <h4 className="text-sm font-medium text-gray-900">Retire Asset</h4>
+
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+          <div>
+            <label htmlFor="disposalMethod" className="block text-sm font-medium text-gray-700">
+              Disposal Method *
+            </label>
+            <select
+              id="disposalMethod"
+              className={fieldClassName}
+              value={retirement.disposalMethod}
+              onChange={(e) => setRetirement(prev => ({ ...prev, disposalMethod: e.target.value as DisposalMethod }))}
+              disabled={isSubmitting}
+            >
+              {(Object.keys(DISPOSAL_METHOD_LABELS) as DisposalMethod[]).map(method => (
+                <option key={method} value={method}>
+                  {DISPOSAL_METHOD_LABELS[method]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="retiredDate" className="block text-sm font-medium text-gray-700">
+              Destroyed On *
+            </label>
+            <input
+              type="date"
+              id="retiredDate"
+              className={fieldClassName}
+              value={retirement.retiredDate}
+              onChange={(e) => setRetirement(prev => ({ ...prev, retiredDate: e.target.value }))}
+              disabled={isSubmitting}
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="disposalWitness" className="block text-sm font-medium text-gray-700">
+            Witnessed By *
+          </label>
+          <input
+            type="text"
+            id="disposalWitness"
+            className={fieldClassName}
+            value={retirement.disposalWitness}
+            onChange={(e) => setRetirement(prev => ({ ...prev, disposalWitness: e.target.value }))}
+            placeholder="Name of the witness"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="destructionCertificate" className="block text-sm font-medium text-gray-700">
+            Destruction Certificate (PDF)
+          </label>
+          <input
+            type="file"
+            id="destructionCertificate"
+            accept="application/pdf"
+            className="mt-1 block w-full text-sm text-gray-700"
+            onChange={handleFileChange}
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            variant="danger"
+            onClick={handleSubmit}
+            isLoading={isSubmitting}
+            disabled={isSubmitting || !retirement.retiredDate || !retirement.disposalWitness.trim()}
+          >
+            Retire Asset
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RetirementForm;
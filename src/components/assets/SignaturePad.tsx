@@ -0,0 +1,92 @@
+import React, { useRef, useState } from 'react';
+import Button from '../ui/Button';
+
+interface SignaturePadProps {
+  /** Called with the drawn signature as a PNG, or null once cleared */
+  onChange: (file: File | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * SignaturePad Component
+ *
+ * A canvas to sign on with a finger, stylus or mouse
+ */
+const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawingRef = useRef(false);
+  const [hasSignature, setHasSignature] = useState(false);
+
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (e.currentTarget.width / rect.width),
+      y: (e.clientY - rect.top) * (e.currentTarget.height / rect.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (disabled || !context) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    isDrawingRef.current = true;
+    const { x, y } = getPoint(e);
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (!isDrawingRef.current || !context) return;
+
+    const { x, y } = getPoint(e);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!isDrawingRef.current) return;
+    isDrawingRef.current = false;
+    setHasSignature(true);
+
+    canvasRef.current?.toBlob(blob => {
+      onChange(blob ? new File([blob], 'signature.png', { type: 'image/png' }) : null);
+    }, 'image/png');
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasSignature(false);
+    onChange(null);
+  };
+
+  return (
+    <div>
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={160}
+        className="w-full h-32 bg-white border border-gray-300 rounded-md touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+      />
+      <div className="mt-1 flex justify-between items-center">
+        <p className="text-xs text-gray-500">Sign above</p>
+        {hasSignature && (
+          <Button size="sm" variant="outline" onClick={handleClear} disabled={disabled}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePad;
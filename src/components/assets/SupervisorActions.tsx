@@ -0,0 +1,63 @@
+import React from 'react';
+import { TestTube } from 'lucide-react';
+import { Asset } from '../../types';
+import { canTransitionAssetStatus } from '../../utils/assetLifecycle';
+import { requiresDielectricTest } from '../../utils/assetTypes';
+import Button from '../ui/Button';
+
+interface SupervisorActionsProps {
+  asset: Asset;
+  isEditing: boolean;
+  isSubmitting: boolean;
+  onMarkAsInTesting: () => void;
+  onShowFailureForm: () => void;
+}
+
+/**
+ * SupervisorActions Component
+ *
+ * Renders the actions a crew supervisor can take on a crew member's asset:
+ * pulling it for testing or failing it in the field
+ */
+const SupervisorActions: React.FC<SupervisorActionsProps> = ({
+  asset,
+  isEditing,
+  isSubmitting,
+  onMarkAsInTesting,
+  onShowFailureForm,
+}) => {
+  if (isEditing || asset.status === 'retired') return null;
+
+  const isTested = requiresDielectricTest(asset.assetType);
+
+  return (
+    <div className="flex space-x-2">
+      {isTested && asset.status !== 'in-testing' && canTransitionAssetStatus(asset.status, 'in-testing') && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onMarkAsInTesting}
+          disabled={isSubmitting}
+          className="text-primary-600 hover:bg-primary-50"
+          leftIcon={<TestTube className="h-4 w-4" />}
+        >
+          Mark as Testing
+        </Button>
+      )}
+
+      {asset.status !== 'failed' && canTransitionAssetStatus(asset.status, 'failed') && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onShowFailureForm}
+          disabled={isSubmitting}
+          className="text-gray-500 hover:bg-gray-50"
+        >
+          Mark as Failed
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default SupervisorActions;
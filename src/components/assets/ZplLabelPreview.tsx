@@ -0,0 +1,33 @@
+import React, { useMemo } from 'react';
+import { Asset, ZplLabelLayout } from '../../types';
+import { renderZplLabelPreview } from '../../utils/zplUtils';
+
+interface ZplLabelPreviewProps {
+  asset: Asset;
+  layout: ZplLabelLayout;
+}
+
+/**
+ * ZplLabelPreview Component
+ *
+ * Shows how a thermal label will print, at its real size where the screen allows
+ */
+const ZplLabelPreview: React.FC<ZplLabelPreviewProps> = ({ asset, layout }) => {
+  const src = useMemo(
+    () => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderZplLabelPreview(asset, layout, window.location.origin))}`,
+    [asset, layout]
+  );
+
+  return (
+    <div className="inline-block max-w-full rounded-md border border-gray-300 shadow-sm bg-white">
+      <img
+        src={src}
+        alt={`Label preview for ${asset.serialNumber}`}
+        className="block max-w-full h-auto"
+        style={{ width: `${layout.widthIn}in` }}
+      />
+    </div>
+  );
+};
+
+export default ZplLabelPreview;
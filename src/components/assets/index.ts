@@ -4,6 +4,22 @@ export { default as AssetsList } from './AssetsList';
 export { default as BulkUpload } from './BulkUpload';
 export { default as DocumentUpload } from './DocumentUpload';
 export { default as AdminActions } from './AdminActions';
+export { default as SupervisorActions } from './SupervisorActions';
 export { default as FailureForm } from './FailureForm';
 export { default as DeleteConfirm } from './DeleteConfirm';
-export { default as AssetDocuments } from './AssetDocuments';
\ No newline at end of file
+export { default as AssetDocuments } from './AssetDocuments';
+export { default as CertificationHistory } from './CertificationHistory';
+export { default as CertificationForm } from './CertificationForm';
+export { default as DielectricTestFields } from './DielectricTestFields';
+export { default as LabReturnForm } from './LabReturnForm';
+export { default as RetirementForm } from './RetirementForm';
+export { default as InspectionForm } from './InspectionForm';
+export { default as InspectionHistory } from './InspectionHistory';
+export { default as MovementHistory } from './MovementHistory';
+export { default as CustodyHistory } from './CustodyHistory';
+export { default as AcknowledgeReceiptForm } from './AcknowledgeReceiptForm';
+export { default as SignaturePad } from './SignaturePad';
+export { default as LabelPrinter } from './LabelPrinter';
+export { default as ZplLabelPreview } from './ZplLabelPreview';
+export { default as PairForm } from './PairForm';
+export { default as MergeForm } from './MergeForm';
\ No newline at end of file
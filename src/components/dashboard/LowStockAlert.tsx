@@ -0,0 +1,64 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { Download, PackageMinus } from 'lucide-react';
+import { useAssets } from '../../context/AssetContext';
+import { downloadReorderList, exportReorderListToCSV, getLowStockLevels, getStockLevels } from '../../utils/stockUtils';
+import Button from '../ui/Button';
+
+/**
+ * LowStockAlert Component
+ *
+ * Warns admins when spare gloves of a class and size fall below the organization's
+ * minimum, counting gloves back from the lab as incoming, and exports a reorder
+ * list. Renders nothing while every tracked level is met.
+ */
+const LowStockAlert: React.FC = () => {
+  const { assets, stockMinimums } = useAssets();
+
+  const levels = useMemo(() => getStockLevels(assets, stockMinimums), [assets, stockMinimums]);
+  const lowLevels = useMemo(() => getLowStockLevels(levels), [levels]);
+
+  if (lowLevels.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-warning-200 overflow-hidden">
+      <div className="p-5">
+        <div className="flex justify-between items-center mb-1">
+          <div className="flex items-center">
+            <PackageMinus className="h-5 w-5 text-warning-500 mr-2" />
+            <h3 className="text-lg font-medium text-gray-900">Low Glove Stock</h3>
+          </div>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => downloadReorderList(exportReorderListToCSV(levels))}
+            leftIcon={<Download className="h-4 w-4" />}
+          >
+            Reorder List
+          </Button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Spare gloves below the minimums set in <Link to="/settings" className="text-primary-600 hover:text-primary-700">Settings</Link>.
+        </p>
+        <ul className="divide-y divide-gray-200">
+          {lowLevels.map(level => (
+            <li key={`${level.assetClass}-${level.gloveSize}`} className="py-2 flex justify-between items-center text-sm">
+              <span className="font-medium text-gray-900">
+                {level.assetClass} &middot; Size {level.gloveSize}
+              </span>
+              <span className="text-gray-500">
+                <span className="text-warning-600 font-medium">{level.onHand}</span> of {level.minimumOnHand} on hand
+                {level.incoming > 0 && <span> &middot; {level.incoming} at lab</span>}
+                {level.reorderQuantity > 0 && (
+                  <span className="ml-2 font-medium text-gray-900">Order {level.reorderQuantity}</span>
+                )}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default LowStockAlert;
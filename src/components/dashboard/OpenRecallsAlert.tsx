@@ -0,0 +1,53 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { useAssets } from '../../context/AssetContext';
+import { formatLotRange, getOpenRecallAssets, isRecallOpen } from '../../utils/recallUtils';
+
+/**
+ * OpenRecallsAlert Component
+ *
+ * Lists the manufacturer recalls that still hold assets in quarantine, with how
+ * many of each are left to clear or remove. Renders nothing once every recall
+ * is resolved.
+ */
+const OpenRecallsAlert: React.FC = () => {
+  const { recalls, getSupplierById } = useAssets();
+
+  const openRecalls = useMemo(() => recalls.filter(isRecallOpen), [recalls]);
+
+  if (openRecalls.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-danger-200 overflow-hidden">
+      <div className="p-5">
+        <div className="flex justify-between items-center mb-1">
+          <div className="flex items-center">
+            <ShieldAlert className="h-5 w-5 text-danger-500 mr-2" />
+            <h3 className="text-lg font-medium text-gray-900">Open Recalls</h3>
+          </div>
+          <Link to="/recalls" className="text-sm font-medium text-primary-600 hover:text-primary-700">
+            View all
+          </Link>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          Quarantined assets waiting to be cleared or removed from service.
+        </p>
+        <ul className="divide-y divide-gray-200">
+          {openRecalls.map(recall => (
+            <li key={recall.id} className="py-2 flex justify-between items-center text-sm">
+              <span className="font-medium text-gray-900">
+                {getSupplierById(recall.manufacturerId)?.name || 'Unknown manufacturer'} &middot; {formatLotRange(recall)}
+              </span>
+              <span className="text-gray-500">
+                <span className="text-danger-600 font-medium">{getOpenRecallAssets(recall).length}</span> of {recall.assets.length} open
+              </span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default OpenRecallsAlert;
@@ -0,0 +1,103 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { PenLine } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { AssetCustody } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import Button from '../ui/Button';
+import AcknowledgeReceiptForm from '../assets/AcknowledgeReceiptForm';
+
+/**
+ * PendingAcknowledgements Component
+ *
+ * Lists the assets handed to the current user that they have not yet signed
+ * for. Renders nothing once everything is acknowledged.
+ */
+const PendingAcknowledgements: React.FC = () => {
+  const { getAssetById, fetchPendingAcknowledgements, acknowledgeCustody } = useAssets();
+  const [pending, setPending] = useState<AssetCustody[]>([]);
+  const [acknowledgingId, setAcknowledgingId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let isCurrent = true;
+
+    fetchPendingAcknowledgements()
+      .then(data => {
+        if (isCurrent) setPending(data);
+      })
+      .catch(error => {
+        console.error('Error loading pending acknowledgements:', error);
+        // Error handling is managed by the context/toast system
+      });
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [fetchPendingAcknowledgements]);
+
+  const handleAcknowledge = async (record: AssetCustody, name: string, signatureFile?: File): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await acknowledgeCustody(record, name, signatureFile);
+      setPending(prev => prev.filter(entry => entry.id !== record.id));
+      setAcknowledgingId(null);
+    } catch (error) {
+      console.error('Error acknowledging receipt:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const pendingWithAssets = pending
+    .map(record => ({ record, asset: getAssetById(record.assetId) }))
+    .filter(entry => entry.asset);
+
+  if (pendingWithAssets.length === 0) return null;
+
+  return (
+    <div className="mb-8 bg-white rounded-lg shadow-sm border border-warning-200 overflow-hidden">
+      <div className="p-5">
+        <div className="flex items-center mb-1">
+          <PenLine className="h-5 w-5 text-warning-500 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Sign for Your Equipment</h3>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          These assets were handed to you. Acknowledge receipt so the custody record is complete.
+        </p>
+        <ul className="divide-y divide-gray-200">
+          {pendingWithAssets.map(({ record, asset }) => (
+            <li key={record.id} className="py-3">
+              <div className="flex justify-between items-center">
+                <div>
+                  <Link to={`/assets/${asset!.id}`} className="text-sm font-medium text-primary-600 hover:text-primary-700">
+                    {asset!.serialNumber}
+                  </Link>
+                  <p className="text-xs text-gray-500">
+                    {asset!.assetClass} &middot; Checked out {format(parseISO(record.checkedOutAt), 'MMM d, yyyy h:mm a')}
+                  </p>
+                </div>
+                {acknowledgingId !== record.id && (
+                  <Button size="sm" onClick={() => setAcknowledgingId(record.id)} disabled={isSubmitting}>
+                    Acknowledge
+                  </Button>
+                )}
+              </div>
+              {acknowledgingId === record.id && (
+                <AcknowledgeReceiptForm
+                  asset={asset!}
+                  isSubmitting={isSubmitting}
+                  onSubmit={(name, signatureFile) => handleAcknowledge(record, name, signatureFile)}
+                  onCancel={() => setAcknowledgingId(null)}
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default PendingAcknowledgements;
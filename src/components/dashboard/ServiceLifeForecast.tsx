@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { format, parseISO } from 'date-fns';
+import { Hourglass } from 'lucide-react';
+import { useAssets } from '../../context/AssetContext';
+import { getAssetsPastServiceLife, getServiceLifeForecast } from '../../utils/serviceLifeUtils';
+
+/**
+ * ServiceLifeForecast Component
+ *
+ * Forecasts the forced retirements of the coming year: assets in service that
+ * reach the maximum age set in Settings, month by month, and those already past
+ * it. Renders nothing while the organization has no service life rules.
+ */
+const ServiceLifeForecast: React.FC = () => {
+  const { assets, serviceLifeRules } = useAssets();
+
+  const pastServiceLife = useMemo(
+    () => getAssetsPastServiceLife(assets, serviceLifeRules),
+    [assets, serviceLifeRules]
+  );
+  const forecast = useMemo(
+    () => getServiceLifeForecast(assets, serviceLifeRules),
+    [assets, serviceLifeRules]
+  );
+
+  if (serviceLifeRules.length === 0) return null;
+
+  const upcomingCount = forecast.reduce((count, month) => count + month.assets.length, 0);
+  const busiestMonth = Math.max(1, ...forecast.map(month => month.assets.length));
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+      <div className="p-5">
+        <div className="flex items-center mb-1">
+          <Hourglass className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Service Life Forecast</h3>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">
+          {upcomingCount} {upcomingCount === 1 ? 'asset reaches' : 'assets reach'} the maximum age set in{' '}
+          <Link to="/settings" className="text-primary-600 hover:text-primary-700">Settings</Link> over the next
+          {' '}{forecast.length} months.
+        </p>
+
+        {pastServiceLife.length > 0 && (
+          <div className="mb-4 rounded-md bg-danger-50 p-3 text-sm text-danger-700">
+            <p className="font-medium">
+              {pastServiceLife.length} {pastServiceLife.length === 1 ? 'asset is' : 'assets are'} past end of life
+              and must be removed from service:
+            </p>
+            <p className="mt-1">
+              {pastServiceLife.slice(0, 5).map((asset, index) => (
+                <React.Fragment key={asset.id}>
+                  {index > 0 && ', '}
+                  <Link to={`/assets/${asset.id}`} className="underline hover:text-danger-800">
+                    {asset.serialNumber}
+                  </Link>
+                </React.Fragment>
+              ))}
+              {pastServiceLife.length > 5 && ` and ${pastServiceLife.length - 5} more`}
+            </p>
+          </div>
+        )}
+
+        <ul className="space-y-2">
+          {forecast.map(month => (
+            <li key={month.month} className="flex items-center text-sm">
+              <span className="w-20 text-gray-500">{format(parseISO(month.month), 'MMM yyyy')}</span>
+              <div className="flex-1 bg-gray-100 rounded-full h-2 mx-2">
+                {month.assets.length > 0 && (
+                  <div
+                    className="bg-warning-500 h-2 rounded-full"
+                    style={{ width: `${Math.round((month.assets.length / busiestMonth) * 100)}%` }}
+                  ></div>
+                )}
+              </div>
+              <span className="w-8 text-right font-medium text-gray-900">{month.assets.length}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ServiceLifeForecast;
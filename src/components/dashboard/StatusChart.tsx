@@ -1,16 +1,23 @@
 import React from 'react';
 import { Asset, AssetStatus } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { isAssetPastServiceLife } from '../../utils/serviceLifeUtils';
 
 interface StatusChartProps {
   assets: Asset[];
 }
 
 const StatusChart: React.FC<StatusChartProps> = ({ assets }) => {
-  // Count assets by status
+  const { serviceLifeRules } = useAssets();
+
+  // Count assets by status; expired assets past their maximum age are counted apart
+  const expiredAssets = assets.filter(a => a.status === 'expired');
+  const endOfLife = expiredAssets.filter(a => isAssetPastServiceLife(a, serviceLifeRules)).length;
   const counts = {
     active: assets.filter(a => a.status === 'active').length,
     nearDue: assets.filter(a => a.status === 'near-due').length,
-    expired: assets.filter(a => a.status === 'expired').length,
+    expired: expiredAssets.length - endOfLife,
+    endOfLife,
   };
   
   const total = assets.length;
@@ -20,6 +27,7 @@ const StatusChart: React.FC<StatusChartProps> = ({ assets }) => {
     active: total ? Math.round((counts.active / total) * 100) : 0,
     nearDue: total ? Math.round((counts.nearDue / total) * 100) : 0,
     expired: total ? Math.round((counts.expired / total) * 100) : 0,
+    endOfLife: total ? Math.round((counts.endOfLife / total) * 100) : 0,
   };
   
   return (
@@ -77,6 +85,24 @@ const StatusChart: React.FC<StatusChartProps> = ({ assets }) => {
                 ></div>
               </div>
             </div>
+
+            {counts.endOfLife > 0 && (
+              <div>
+                <div className="flex justify-between mb-1">
+                  <div className="flex items-center">
+                    <span className="w-3 h-3 rounded-full bg-danger-700 mr-2"></span>
+                    <span className="text-sm font-medium text-gray-700">End of Life</span>
+                  </div>
+                  <span className="text-sm font-medium text-gray-700">{counts.endOfLife}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className="bg-danger-700 h-2 rounded-full"
+                    style={{ width: `${percentages.endOfLife}%` }}
+                  ></div>
+                </div>
+              </div>
+            )}
           </div>
           
           {/* Legend and total */}
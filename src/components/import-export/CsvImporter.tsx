@@ -1,13 +1,68 @@
 import React, { useState, useRef } from 'react';
 import { Upload, AlertCircle, Check, X } from 'lucide-react';
 import Button from '../ui/Button';
-import { Asset } from '../../types';
+import { Asset, AssetType, Supplier, SupplierType } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { ASSET_TYPES, parseAssetAttributes, requiresDielectricTest, toAssetType } from '../../utils/assetTypes';
+import { findSerialCollision, normalizeSerialNumber } from '../../utils/serialUtils';
 
 interface CsvImporterProps {
   onImport: (assets: Partial<Asset>[]) => void;
 }
 
+// Collisions listed in the error before the rest are summarized
+const MAX_LISTED_COLLISIONS = 5;
+
+/**
+ * Checks the serial column of a parsed CSV against itself and the existing assets
+ * @param rows - Parsed rows, header first
+ * @param assets - Assets of the organization
+ * @returns string | null - Readable list of collisions, or null when there are none
+ */
+const describeSerialCollisions = (rows: string[][], assets: Asset[]): string | null => {
+  const serialIndex = rows[0].map(header => header.toLowerCase()).indexOf('serialnumber');
+  if (serialIndex === -1) return null;
+
+  const seen = new Map<string, number>();
+  const collisions: string[] = [];
+
+  rows.slice(1).forEach((row, index) => {
+    const rowNumber = index + 2;
+    const serialNumber = row[serialIndex] || '';
+    const key = normalizeSerialNumber(serialNumber);
+    if (!key) return;
+
+    const existing = findSerialCollision(serialNumber, assets);
+    if (existing) {
+      collisions.push(`Row ${rowNumber}: "${serialNumber}" is already used by asset ${existing.serialNumber}.`);
+    } else if (seen.has(key)) {
+      collisions.push(`Row ${rowNumber}: "${serialNumber}" repeats row ${seen.get(key)}.`);
+    } else {
+      seen.set(key, rowNumber);
+    }
+  });
+
+  if (collisions.length === 0) return null;
+
+  const listed = collisions.slice(0, MAX_LISTED_COLLISIONS).join(' ');
+  const remaining = collisions.length - MAX_LISTED_COLLISIONS;
+  return `Serial numbers must be unique. ${listed}${remaining > 0 ? ` And ${remaining} more.` : ''}`;
+};
+
+/**
+ * Looks up a manufacturer or vendor of the catalog by name, ignoring case
+ * @param suppliers - Suppliers of the organization
+ * @param supplierType - Kind of supplier the column names
+ * @param name - Name from the CSV
+ * @returns Supplier | undefined - The matching supplier
+ */
+const findSupplierByName = (suppliers: Supplier[], supplierType: SupplierType, name: string): Supplier | undefined => {
+  const key = name.trim().toLowerCase();
+  return suppliers.find(supplier => supplier.supplierType === supplierType && supplier.name.toLowerCase() === key);
+};
+
 const CsvImporter: React.FC<CsvImporterProps> = ({ onImport }) => {
+  const { assets: existingAssets, suppliers } = useAssets();
   const [file, setFile] = useState<File | null>(null);
   const [preview, setPreview] = useState<string[][]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -45,6 +100,8 @@ const CsvImporter: React.FC<CsvImporterProps> = ({ onImport }) => {
         }
         
         setPreview(parsedLines.slice(0, 6)); // Show first 5 rows plus header
+        // Flag duplicate serials up front; the import stays disabled until the file is fixed
+        setError(describeSerialCollisions(parsedLines, existingAssets) || '');
         setIsLoading(false);
       } catch (err) {
         console.error('Error parsing CSV:', err);
@@ -76,7 +133,7 @@ const CsvImporter: React.FC<CsvImporterProps> = ({ onImport }) => {
         const headers = lines[0].split(',').map(header => header.trim().toLowerCase());
         
         // Validate required columns
-        const requiredColumns = ['serialnumber', 'assetclass', 'lastcertificationdate'];
+        const requiredColumns = ['serialnumber', 'assetclass'];
         const missingColumns = requiredColumns.filter(col => !headers.includes(col));
         
         if (missingColumns.length > 0) {
@@ -98,9 +155,28 @@ const CsvImporter: React.FC<CsvImporterProps> = ({ onImport }) => {
               case 'serialnumber':
                 asset.serialNumber = values[index];
                 break;
+              case 'assettype': {
+                // Rows without a type are gloves, as in files exported before types existed
+                if (!values[index]) break;
+                const assetType = toAssetType(values[index]);
+                if (!assetType) {
+                  throw new Error(`Row ${i + 1}: unknown asset type "${values[index]}"`);
+                }
+                asset.assetType = assetType;
+                break;
+              }
               case 'assetclass':
                 asset.assetClass = values[index];
                 break;
+              case 'glovesize':
+                asset.gloveSize = values[index] || undefined;
+                break;
+              case 'glovecolor':
+                asset.gloveColor = values[index] ? values[index].toLowerCase() : undefined;
+                break;
+              case 'attributes':
+                asset.attributes = parseAssetAttributes(values[index]);
+                break;
               case 'assigneduserid':
                 asset.assignedUserId = values[index] || null;
                 break;
@@ -108,14 +184,56 @@ const CsvImporter: React.FC<CsvImporterProps> = ({ onImport }) => {
                 asset.issueDate = values[index];
                 break;
               case 'lastcertificationdate':
-                asset.lastCertificationDate = values[index];
+                asset.lastCertificationDate = values[index] || undefined;
+                break;
+              case 'manufacturer':
+              case 'vendor': {
+                // Suppliers are matched by name against the catalog in Settings
+                if (!values[index]) break;
+                const supplierType: SupplierType = header;
+                const supplier = findSupplierByName(suppliers, supplierType, values[index]);
+                if (!supplier) {
+                  throw new Error(`Row ${i + 1}: unknown ${supplierType} "${values[index]}". Add it in Settings first`);
+                }
+                asset[supplierType === 'manufacturer' ? 'manufacturerId' : 'vendorId'] = supplier.id;
+                break;
+              }
+              case 'model':
+                asset.model = values[index] || undefined;
+                break;
+              case 'lotnumber':
+                asset.lotNumber = values[index] || undefined;
                 break;
+              case 'manufacturedate':
+                asset.manufactureDate = values[index] || undefined;
+                break;
+              case 'purchaseorder':
+                asset.purchaseOrder = values[index] || undefined;
+                break;
+              case 'unitcost': {
+                if (!values[index]) break;
+                const unitCost = Number(values[index]);
+                if (Number.isNaN(unitCost) || unitCost < 0) {
+                  throw new Error(`Row ${i + 1}: invalid unitCost "${values[index]}"`);
+                }
+                asset.unitCost = unitCost;
+                break;
+              }
               default:
                 // Handle any additional columns
                 break;
             }
           });
           
+          if (!asset.serialNumber) {
+            throw new Error(`Row ${i + 1}: serialNumber is required`);
+          }
+          
+          const assetType: AssetType = asset.assetType || 'glove';
+          if (requiresDielectricTest(assetType) && !asset.lastCertificationDate) {
+            throw new Error(`Row ${i + 1}: lastCertificationDate is required for ${ASSET_TYPES[assetType].pluralLabel.toLowerCase()}`);
+          }
+          
           assets.push(asset as Partial<Asset>);
         }
         
@@ -163,7 +281,9 @@ const CsvImporter: React.FC<CsvImporterProps> = ({ onImport }) => {
                 Upload a CSV file with the following columns:
               </p>
               <p className="text-xs text-gray-400 mt-1">
-                serialNumber, assetClass, assignedUserId (optional), issueDate (optional), lastCertificationDate
+                serialNumber, assetType (optional), assetClass, gloveSize (optional), gloveColor (optional),
+                attributes (optional), assignedUserId (optional), issueDate (optional), lastCertificationDate,
+                manufacturer, model, lotNumber, vendor, purchaseOrder and unitCost (all optional)
               </p>
             </div>
             <input
@@ -0,0 +1,68 @@
+import React from 'react';
+import { Asset } from '../../types';
+import { ASSET_TYPES } from '../../utils/assetTypes';
+import { groupPairs } from '../../utils/pairUtils';
+import StatusBadge from '../ui/StatusBadge';
+
+interface KitAssetPickerProps {
+  assets: Asset[];
+  selectedIds: string[];
+  onChange: (selectedIds: string[]) => void;
+  disabled?: boolean;
+  /** Shown when there is nothing to pick */
+  emptyMessage?: string;
+}
+
+/**
+ * KitAssetPicker Component
+ *
+ * Checkbox list for choosing kit members. Glove pairs are listed and
+ * selected as one entry so a pair never ends up split across kits.
+ */
+const KitAssetPicker: React.FC<KitAssetPickerProps> = ({
+  assets,
+  selectedIds,
+  onChange,
+  disabled = false,
+  emptyMessage = 'Every asset is already in a kit.',
+}) => {
+  if (assets.length === 0) {
+    return <p className="text-sm text-gray-500">{emptyMessage}</p>;
+  }
+
+  const handleToggle = (ids: string[], checked: boolean) => {
+    onChange(checked
+      ? [...selectedIds, ...ids.filter(id => !selectedIds.includes(id))]
+      : selectedIds.filter(id => !ids.includes(id)));
+  };
+
+  return (
+    <div className="max-h-64 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-200">
+      {groupPairs(assets).map(({ asset, mate }) => {
+        const ids = mate ? [asset.id, mate.id] : [asset.id];
+        return (
+          <label key={asset.pairId || asset.id} className="flex items-center justify-between px-3 py-2 text-sm hover:bg-gray-50">
+            <span className="flex items-center">
+              <input
+                type="checkbox"
+                className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded"
+                checked={selectedIds.includes(asset.id)}
+                onChange={(e) => handleToggle(ids, e.target.checked)}
+                disabled={disabled}
+              />
+              <span className="ml-2 font-medium text-gray-900">
+                {mate ? `${asset.serialNumber} / ${mate.serialNumber}` : asset.serialNumber}
+              </span>
+              <span className="ml-2 text-gray-500">
+                {mate ? 'Glove Pair' : ASSET_TYPES[asset.assetType].label} &middot; {asset.assetClass}
+              </span>
+            </span>
+            <StatusBadge status={asset.status} />
+          </label>
+        );
+      })}
+    </div>
+  );
+};
+
+export default KitAssetPicker;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Briefcase, User } from 'lucide-react';
+import { Asset, AssetType, Kit } from '../../types';
+import { ASSET_TYPES, ASSET_TYPE_OPTIONS } from '../../utils/assetTypes';
+import { getKitStatus } from '../../utils/kitUtils';
+import Card, { CardContent, CardFooter } from '../ui/Card';
+import StatusBadge from '../ui/StatusBadge';
+import Badge from '../ui/Badge';
+
+interface KitCardProps {
+  kit: Kit;
+  members: Asset[];
+  userName?: string;
+}
+
+/**
+ * KitCard Component
+ *
+ * Summarizes a kit: its contents by type, who holds it and a status
+ * rolled up from its worst member
+ */
+const KitCard: React.FC<KitCardProps> = ({ kit, members, userName = 'Unassigned' }) => {
+  const status = getKitStatus(members);
+
+  const countsByType = members.reduce<Partial<Record<AssetType, number>>>((acc, member) => {
+    acc[member.assetType] = (acc[member.assetType] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <Card className="h-full transition-shadow hover:shadow-md">
+      <CardContent className="pt-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              <Link to={`/kits/${kit.id}`} className="hover:text-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2">
+                {kit.name}
+              </Link>
+            </h3>
+            {kit.notes && <p className="text-sm text-gray-500">{kit.notes}</p>}
+          </div>
+          {status ? <StatusBadge status={status} /> : <Badge>Empty</Badge>}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-start text-sm">
+            <Briefcase className="h-4 w-4 text-gray-400 mr-2 mt-0.5" />
+            <div>
+              {members.length === 0 ? (
+                <span className="text-gray-500">No assets yet</span>
+              ) : (
+                ASSET_TYPE_OPTIONS.filter(type => countsByType[type]).map(type => (
+                  <div key={type}>
+                    <span className="font-medium">{countsByType[type]}</span>{' '}
+                    <span className="text-gray-500">
+                      {countsByType[type] === 1 ? ASSET_TYPES[type].label : ASSET_TYPES[type].pluralLabel}
+                    </span>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center text-sm">
+            <User className="h-4 w-4 text-gray-400 mr-2" />
+            <div>
+              <span className="text-gray-500">Assigned to: </span>
+              <span className="font-medium">{userName}</span>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+
+      <CardFooter className="bg-gray-50">
+        <Link
+          to={`/kits/${kit.id}`}
+          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+        >
+          View Kit
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default KitCard;
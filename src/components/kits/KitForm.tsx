@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Asset } from '../../types';
+import { KitDetails } from '../../services/kitService';
+import Button from '../ui/Button';
+import KitAssetPicker from './KitAssetPicker';
+
+interface KitFormProps {
+  initialData?: KitDetails;
+  /** Assets that can be added; the member picker is hidden when omitted */
+  availableAssets?: Asset[];
+  onSubmit: (details: KitDetails, assetIds: string[]) => void;
+  onCancel?: () => void;
+  isSubmitting?: boolean;
+}
+
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+/**
+ * KitForm Component
+ *
+ * Creates a kit from existing assets, or renames an existing kit
+ */
+const KitForm: React.FC<KitFormProps> = ({
+  initialData,
+  availableAssets,
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+}) => {
+  const [details, setDetails] = useState<KitDetails>({ name: '', notes: '', ...initialData });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(details, selectedIds);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="kitName" className="block text-sm font-medium text-gray-700">
+            Kit Name *
+          </label>
+          <input
+            type="text"
+            id="kitName"
+            required
+            className={fieldClassName}
+            value={details.name}
+            onChange={(e) => setDetails(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Bag 12 - Class 2"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="kitNotes" className="block text-sm font-medium text-gray-700">
+            Notes
+          </label>
+          <textarea
+            id="kitNotes"
+            rows={2}
+            className={fieldClassName}
+            value={details.notes || ''}
+            onChange={(e) => setDetails(prev => ({ ...prev, notes: e.target.value }))}
+            placeholder="Bag number, truck, anything that helps find it..."
+            disabled={isSubmitting}
+          />
+        </div>
+
+        {availableAssets && (
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-1">Assets</p>
+            <KitAssetPicker
+              assets={availableAssets}
+              selectedIds={selectedIds}
+              onChange={setSelectedIds}
+              disabled={isSubmitting}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="submit"
+          isLoading={isSubmitting}
+          disabled={isSubmitting || !details.name.trim()}
+        >
+          {initialData ? 'Update Kit' : 'Create Kit'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default KitForm;
@@ -0,0 +1,3 @@
+export { default as KitCard } from './KitCard';
+export { default as KitForm } from './KitForm';
+export { default as KitAssetPicker } from './KitAssetPicker';
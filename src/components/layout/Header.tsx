@@ -1,9 +1,10 @@
 import React, { Fragment, useState } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Menu, Transition } from '@headlessui/react';
-import { Shield, Menu as MenuIcon, X, Bell, HelpCircle } from 'lucide-react';
+import { Shield, Menu as MenuIcon, X, HelpCircle } from 'lucide-react';
 import { UserButton, useUser } from '@clerk/clerk-react';
 import { useRole } from '../../hooks/useRole';
+import NotificationMenu from './NotificationMenu';
 
 const Header: React.FC = () => {
   const { user } = useUser();
@@ -21,8 +22,13 @@ const Header: React.FC = () => {
   const navigation = [
     { name: 'Dashboard', href: '/dashboard', adminOnly: false },
     { name: 'Assets', href: '/assets', adminOnly: false },
+    { name: 'Kits', href: '/kits', adminOnly: false },
+    { name: 'Locations', href: '/locations', adminOnly: false },
+    { name: 'Scan', href: '/scan', adminOnly: false },
+    { name: 'Recalls', href: '/recalls', adminOnly: true },
     { name: 'Users', href: '/users', adminOnly: true },
     { name: 'Import/Export', href: '/import-export', adminOnly: true },
+    { name: 'Settings', href: '/settings', adminOnly: true },
     { name: 'Help', href: '/walkthrough', adminOnly: false },
   ];
   
@@ -63,13 +69,7 @@ const Header: React.FC = () => {
           </div>
           
           <div className="hidden sm:ml-6 sm:flex sm:items-center space-x-4">
-            <button
-              type="button"
-              className="p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-            >
-              <span className="sr-only">View notifications</span>
-              <Bell className="h-6 w-6" />
-            </button>
+            <NotificationMenu />
             
             <UserButton 
               afterSignOutUrl="/sign-in"
@@ -122,13 +122,7 @@ const Header: React.FC = () => {
               <div className="text-base font-medium text-gray-800">{user?.fullName}</div>
               <div className="text-sm font-medium text-gray-500">{user?.primaryEmailAddress?.emailAddress}</div>
             </div>
-            <button
-              type="button"
-              className="ml-auto flex-shrink-0 p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500"
-            >
-              <span className="sr-only">View notifications</span>
-              <Bell className="h-6 w-6" />
-            </button>
+            <NotificationMenu className="ml-auto flex-shrink-0" />
           </div>
           <div className="mt-3 space-y-1">
             <Link
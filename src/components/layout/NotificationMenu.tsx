@@ -0,0 +1,104 @@
+import React, { Fragment } from 'react';
+import { Link } from 'react-router-dom';
+import { Menu, Transition } from '@headlessui/react';
+import { Bell } from 'lucide-react';
+import { Notification } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { formatDate } from '../../utils';
+
+interface NotificationMenuProps {
+  className?: string;
+}
+
+const notificationTypeStyles: Record<Notification['type'], string> = {
+  urgent: 'border-danger-500',
+  warning: 'border-warning-500',
+  info: 'border-primary-500',
+};
+
+/**
+ * NotificationMenu Component
+ *
+ * Bell in the header listing the signed-in user's notifications, e.g. a recall
+ * quarantining an asset they hold. Opening one marks it as read.
+ */
+const NotificationMenu: React.FC<NotificationMenuProps> = ({ className = '' }) => {
+  const { notifications, markNotificationsRead } = useAssets();
+
+  const unreadIds = notifications.filter(notification => !notification.read).map(notification => notification.id);
+
+  /**
+   * Marks notifications as read, leaving them unread if the update fails
+   */
+  const handleMarkRead = async (ids: string[]): Promise<void> => {
+    try {
+      await markNotificationsRead(ids);
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
+  return (
+    <Menu as="div" className={`relative ${className}`}>
+      <Menu.Button className="relative p-1 rounded-full text-gray-400 hover:text-gray-500 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary-500">
+        <span className="sr-only">View notifications</span>
+        <Bell className="h-6 w-6" />
+        {unreadIds.length > 0 && (
+          <span className="absolute -top-1 -right-1 inline-flex items-center justify-center h-4 min-w-[1rem] px-1 rounded-full bg-danger-500 text-white text-xs font-medium">
+            {unreadIds.length}
+          </span>
+        )}
+      </Menu.Button>
+
+      <Transition
+        as={Fragment}
+        enter="transition ease-out duration-100"
+        enterFrom="transform opacity-0 scale-95"
+        enterTo="transform opacity-100 scale-100"
+        leave="transition ease-in duration-75"
+        leaveFrom="transform opacity-100 scale-100"
+        leaveTo="transform opacity-0 scale-95"
+      >
+        <Menu.Items className="absolute right-0 z-10 mt-2 w-80 origin-top-right rounded-md bg-white shadow-lg ring-1 ring-black ring-opacity-5 focus:outline-none">
+          <div className="px-4 py-3 flex justify-between items-center border-b border-gray-200">
+            <p className="text-sm font-medium text-gray-900">Notifications</p>
+            {unreadIds.length > 0 && (
+              <button
+                type="button"
+                className="text-xs text-primary-600 hover:text-primary-700"
+                onClick={() => handleMarkRead(unreadIds)}
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">You're all caught up.</p>
+          ) : (
+            <div className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <Menu.Item key={notification.id}>
+                  {({ active }) => (
+                    <Link
+                      to={notification.assetId ? `/assets/${notification.assetId}` : '/dashboard'}
+                      className={`block px-4 py-3 border-l-4 ${notificationTypeStyles[notification.type]} ${active ? 'bg-gray-50' : ''}`}
+                      onClick={() => !notification.read && handleMarkRead([notification.id])}
+                    >
+                      <p className={`text-sm ${notification.read ? 'text-gray-500' : 'font-medium text-gray-900'}`}>
+                        {notification.message}
+                      </p>
+                      <p className="mt-1 text-xs text-gray-400">{formatDate(notification.createdAt)}</p>
+                    </Link>
+                  )}
+                </Menu.Item>
+              ))}
+            </div>
+          )}
+        </Menu.Items>
+      </Transition>
+    </Menu>
+  );
+};
+
+export default NotificationMenu;
@@ -0,0 +1,70 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Package, MapPin } from 'lucide-react';
+import { Asset, Location } from '../../types';
+import { LOCATION_TYPE_LABELS, getLocationInventory } from '../../utils/locationUtils';
+import Card, { CardContent, CardFooter } from '../ui/Card';
+import Badge from '../ui/Badge';
+
+interface LocationCardProps {
+  location: Location;
+  /** Assets stored at the location */
+  stock: Asset[];
+}
+
+/**
+ * LocationCard Component
+ *
+ * Summarizes a location: its type and how many assets, and how many
+ * usable spares, are stored there
+ */
+const LocationCard: React.FC<LocationCardProps> = ({ location, stock }) => {
+  const spareCount = getLocationInventory(stock).reduce((count, line) => count + line.count, 0);
+
+  return (
+    <Card className="h-full transition-shadow hover:shadow-md">
+      <CardContent className="pt-6">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              <Link to={`/locations/${location.id}`} className="hover:text-primary-600 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2">
+                {location.name}
+              </Link>
+            </h3>
+            {location.notes && <p className="text-sm text-gray-500">{location.notes}</p>}
+          </div>
+          <Badge>{LOCATION_TYPE_LABELS[location.locationType]}</Badge>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center text-sm">
+            <Package className="h-4 w-4 text-gray-400 mr-2" />
+            <div>
+              <span className="font-medium">{stock.length}</span>{' '}
+              <span className="text-gray-500">{stock.length === 1 ? 'asset' : 'assets'} stored</span>
+            </div>
+          </div>
+
+          <div className="flex items-center text-sm">
+            <MapPin className="h-4 w-4 text-gray-400 mr-2" />
+            <div>
+              <span className="font-medium">{spareCount}</span>{' '}
+              <span className="text-gray-500">ready to issue</span>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+
+      <CardFooter className="bg-gray-50">
+        <Link
+          to={`/locations/${location.id}`}
+          className="text-sm font-medium text-primary-600 hover:text-primary-700"
+        >
+          View Inventory
+        </Link>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default LocationCard;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { LocationType } from '../../types';
+import { LocationDetails } from '../../services/locationService';
+import { LOCATION_TYPE_LABELS, LOCATION_TYPE_OPTIONS } from '../../utils/locationUtils';
+import Button from '../ui/Button';
+
+interface LocationFormProps {
+  initialData?: LocationDetails;
+  onSubmit: (details: LocationDetails) => void;
+  onCancel?: () => void;
+  isSubmitting?: boolean;
+}
+
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+/**
+ * LocationForm Component
+ *
+ * Creates or edits a location: its name, type and notes
+ */
+const LocationForm: React.FC<LocationFormProps> = ({
+  initialData,
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+}) => {
+  const [details, setDetails] = useState<LocationDetails>({
+    name: '',
+    locationType: 'yard',
+    notes: '',
+    ...initialData,
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(details);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="locationName" className="block text-sm font-medium text-gray-700">
+            Location Name *
+          </label>
+          <input
+            type="text"
+            id="locationName"
+            required
+            className={fieldClassName}
+            value={details.name}
+            onChange={(e) => setDetails(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="e.g. Truck 14"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="locationType" className="block text-sm font-medium text-gray-700">
+            Type *
+          </label>
+          <select
+            id="locationType"
+            className={fieldClassName}
+            value={details.locationType}
+            onChange={(e) => setDetails(prev => ({ ...prev, locationType: e.target.value as LocationType }))}
+            disabled={isSubmitting}
+          >
+            {LOCATION_TYPE_OPTIONS.map(type => (
+              <option key={type} value={type}>
+                {LOCATION_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="locationNotes" className="block text-sm font-medium text-gray-700">
+          Notes
+        </label>
+        <textarea
+          id="locationNotes"
+          rows={2}
+          className={fieldClassName}
+          value={details.notes || ''}
+          onChange={(e) => setDetails(prev => ({ ...prev, notes: e.target.value }))}
+          placeholder="Address, usual crew, lab name..."
+          disabled={isSubmitting}
+        />
+      </div>
+
+      <div className="flex justify-end space-x-3">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="submit"
+          isLoading={isSubmitting}
+          disabled={isSubmitting || !details.name.trim()}
+        >
+          {initialData ? 'Update Location' : 'Create Location'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default LocationForm;
@@ -0,0 +1,2 @@
+export { default as LocationCard } from './LocationCard';
+export { default as LocationForm } from './LocationForm';
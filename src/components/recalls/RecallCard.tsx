@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CheckCircle, XCircle } from 'lucide-react';
+import { Recall, RecallResolution } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { formatDate } from '../../utils';
+import { RECALL_RESOLUTION_LABELS, formatLotRange, getOpenRecallAssets } from '../../utils/recallUtils';
+import Card, { CardHeader } from '../ui/Card';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+import StatusBadge from '../ui/StatusBadge';
+
+interface RecallCardProps {
+  recall: Recall;
+  onResolve: (recallAssetId: string, resolution: RecallResolution, notes?: string) => Promise<void>;
+  isSubmitting?: boolean;
+}
+
+/**
+ * RecallCard Component
+ *
+ * Shows a recall notice with the assets it quarantined and how far remediation
+ * has got. Each open asset is cleared back to service or removed from service,
+ * with an optional note of what was found.
+ */
+const RecallCard: React.FC<RecallCardProps> = ({ recall, onResolve, isSubmitting = false }) => {
+  const { organizationMembers, getAssetById, getSupplierById } = useAssets();
+  const [notes, setNotes] = useState<Record<string, string>>({});
+
+  const openCount = getOpenRecallAssets(recall).length;
+  const resolvedCount = recall.assets.length - openCount;
+
+  const getHolderName = (userId: string | null | undefined): string => {
+    if (!userId) return 'Unassigned';
+    const member = organizationMembers.find(m => m.id === userId);
+    return member ? member.name : 'Unknown User';
+  };
+
+  /**
+   * Resolves one affected asset, clearing its draft note once done
+   */
+  const handleResolve = async (recallAssetId: string, resolution: RecallResolution): Promise<void> => {
+    try {
+      await onResolve(recallAssetId, resolution, notes[recallAssetId]);
+      setNotes(prev => ({ ...prev, [recallAssetId]: '' }));
+    } catch (error) {
+      console.error('Error resolving recalled asset:', error);
+      // Error handling is managed by the context/toast system
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <h3 className="text-lg font-medium text-gray-900">
+              {getSupplierById(recall.manufacturerId)?.name || 'Unknown manufacturer'} &middot; {formatLotRange(recall)}
+            </h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Notice {recall.reference}, recorded {formatDate(recall.issuedAt)}
+            </p>
+            {recall.description && <p className="text-sm text-gray-700 mt-1">{recall.description}</p>}
+          </div>
+          {openCount > 0 ? (
+            <Badge variant="danger">{resolvedCount} of {recall.assets.length} resolved</Badge>
+          ) : (
+            <Badge variant="success">Resolved</Badge>
+          )}
+        </div>
+      </CardHeader>
+
+      {recall.assets.length === 0 ? (
+        <p className="px-6 py-4 text-sm text-gray-500">No asset in service matched this recall.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Serial
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Status
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Held By
+                </th>
+                <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Remediation
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {recall.assets.map(entry => {
+                const asset = getAssetById(entry.assetId);
+
+                return (
+                  <tr key={entry.id}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <Link to={`/assets/${entry.assetId}`} className="font-medium text-primary-600 hover:text-primary-700">
+                        {asset?.serialNumber || 'Unknown asset'}
+                      </Link>
+                      {asset?.lotNumber && <span className="block text-xs text-gray-500">Lot {asset.lotNumber}</span>}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {asset && <StatusBadge status={asset.status} />}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                      {getHolderName(asset?.assignedUserId)}
+                    </td>
+                    <td className="px-6 py-4 text-sm">
+                      {entry.resolution ? (
+                        <div className="text-gray-500">
+                          <span className="font-medium text-gray-900">{RECALL_RESOLUTION_LABELS[entry.resolution]}</span>
+                          {entry.resolvedAt && <span> on {formatDate(entry.resolvedAt)}</span>}
+                          {entry.notes && <span className="block text-xs">{entry.notes}</span>}
+                        </div>
+                      ) : (
+                        <div className="flex items-center space-x-2">
+                          <input
+                            type="text"
+                            aria-label={`Notes for ${asset?.serialNumber || 'asset'}`}
+                            className="flex-1 min-w-[10rem] border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                            placeholder="Notes (optional)"
+                            value={notes[entry.id] || ''}
+                            onChange={(e) => setNotes(prev => ({ ...prev, [entry.id]: e.target.value }))}
+                            disabled={isSubmitting}
+                          />
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleResolve(entry.id, 'cleared')}
+                            disabled={isSubmitting}
+                            leftIcon={<CheckCircle className="h-4 w-4" />}
+                          >
+                            Clear
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="text-danger-500 hover:bg-danger-50 hover:border-danger-300"
+                            onClick={() => handleResolve(entry.id, 'removed')}
+                            disabled={isSubmitting}
+                            leftIcon={<XCircle className="h-4 w-4" />}
+                          >
+                            Remove
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default RecallCard;
@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { RecallNotice } from '../../services/recallService';
+import { useAssets } from '../../context/AssetContext';
+import { findRecalledAssets } from '../../utils/recallUtils';
+import Button from '../ui/Button';
+
+interface RecallFormProps {
+  onSubmit: (notice: RecallNotice) => void;
+  onCancel?: () => void;
+  isSubmitting?: boolean;
+}
+
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+/**
+ * RecallForm Component
+ *
+ * Records a manufacturer's recall notice against a lot or a range of lots,
+ * previewing the assets in service it will quarantine
+ */
+const RecallForm: React.FC<RecallFormProps> = ({
+  onSubmit,
+  onCancel,
+  isSubmitting = false,
+}) => {
+  const { assets, suppliers } = useAssets();
+  const [notice, setNotice] = useState<RecallNotice>({
+    manufacturerId: '',
+    lotFrom: '',
+    lotTo: '',
+    reference: '',
+    description: '',
+  });
+
+  const manufacturers = suppliers.filter(supplier => supplier.supplierType === 'manufacturer');
+  const matches = useMemo(
+    () => findRecalledAssets(assets, notice.manufacturerId, notice.lotFrom, notice.lotTo),
+    [assets, notice.manufacturerId, notice.lotFrom, notice.lotTo]
+  );
+  const isComplete = !!notice.manufacturerId && !!notice.lotFrom.trim() && !!notice.reference.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(notice);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <div>
+          <label htmlFor="recallManufacturer" className="block text-sm font-medium text-gray-700">
+            Manufacturer *
+          </label>
+          <select
+            id="recallManufacturer"
+            required
+            className={fieldClassName}
+            value={notice.manufacturerId}
+            onChange={(e) => setNotice(prev => ({ ...prev, manufacturerId: e.target.value }))}
+            disabled={isSubmitting}
+          >
+            <option value="">Select a manufacturer</option>
+            {manufacturers.map(manufacturer => (
+              <option key={manufacturer.id} value={manufacturer.id}>
+                {manufacturer.name}
+              </option>
+            ))}
+          </select>
+          {manufacturers.length === 0 && (
+            <p className="mt-1 text-xs text-gray-500">
+              Add manufacturers in <Link to="/settings" className="text-primary-600 hover:text-primary-700">Settings</Link>.
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="recallReference" className="block text-sm font-medium text-gray-700">
+            Notice Reference *
+          </label>
+          <input
+            type="text"
+            id="recallReference"
+            required
+            className={fieldClassName}
+            value={notice.reference}
+            onChange={(e) => setNotice(prev => ({ ...prev, reference: e.target.value }))}
+            placeholder="e.g. RN-2025-014"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="recallLotFrom" className="block text-sm font-medium text-gray-700">
+            Lot *
+          </label>
+          <input
+            type="text"
+            id="recallLotFrom"
+            required
+            className={fieldClassName}
+            value={notice.lotFrom}
+            onChange={(e) => setNotice(prev => ({ ...prev, lotFrom: e.target.value }))}
+            placeholder="e.g. L2304"
+            disabled={isSubmitting}
+          />
+        </div>
+
+        <div>
+          <label htmlFor="recallLotTo" className="block text-sm font-medium text-gray-700">
+            Through Lot
+          </label>
+          <input
+            type="text"
+            id="recallLotTo"
+            className={fieldClassName}
+            value={notice.lotTo || ''}
+            onChange={(e) => setNotice(prev => ({ ...prev, lotTo: e.target.value }))}
+            placeholder="Leave blank for a single lot"
+            disabled={isSubmitting}
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="recallDescription" className="block text-sm font-medium text-gray-700">
+          Description
+        </label>
+        <textarea
+          id="recallDescription"
+          rows={2}
+          className={fieldClassName}
+          value={notice.description || ''}
+          onChange={(e) => setNotice(prev => ({ ...prev, description: e.target.value }))}
+          placeholder="Defect described in the notice, return instructions..."
+          disabled={isSubmitting}
+        />
+      </div>
+
+      {notice.manufacturerId && notice.lotFrom.trim() && (
+        <div className={`rounded-md p-3 text-sm ${matches.length > 0 ? 'bg-danger-50 text-danger-700' : 'bg-gray-50 text-gray-600'}`}>
+          {matches.length === 0
+            ? 'No asset in service matches this lot; the recall is still recorded.'
+            : `${matches.length} ${matches.length === 1 ? 'asset' : 'assets'} will be quarantined: ${matches.map(asset => asset.serialNumber).join(', ')}`}
+        </div>
+      )}
+
+      <div className="flex justify-end space-x-3">
+        {onCancel && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+        )}
+        <Button
+          type="submit"
+          variant="danger"
+          isLoading={isSubmitting}
+          disabled={isSubmitting || !isComplete}
+        >
+          Issue Recall
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default RecallForm;
@@ -0,0 +1,2 @@
+export { default as RecallCard } from './RecallCard';
+export { default as RecallForm } from './RecallForm';
\ No newline at end of file
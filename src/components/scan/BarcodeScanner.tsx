@@ -0,0 +1,142 @@
+import React, { useEffect, useRef, useState } from 'react';
+import jsQR from 'jsqr';
+
+interface BarcodeScannerProps {
+  /** Called with the text of each code read; repeats of the same code are suppressed */
+  onDetect: (text: string) => void;
+}
+
+/**
+ * The browser's native detector, where available (Chrome on Android, Safari 17+).
+ * Not yet part of the DOM typings.
+ */
+interface NativeBarcodeDetector {
+  detect: (source: CanvasImageSource) => Promise<{ rawValue: string }[]>;
+}
+
+type NativeBarcodeDetectorConstructor = new (options?: { formats: string[] }) => NativeBarcodeDetector;
+
+// Codes found on asset labels and on manufacturer packaging
+const BARCODE_FORMATS = ['qr_code', 'code_128', 'code_39', 'data_matrix'];
+
+// How long the same code is ignored after a read, so one label is not reported every frame
+const REPEAT_DELAY_MS = 2500;
+
+/**
+ * BarcodeScanner Component
+ *
+ * Reads codes from the device camera. Uses the native BarcodeDetector when the
+ * browser has one, otherwise decodes QR codes from video frames with jsQR.
+ * The camera is released when the component unmounts.
+ */
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ onDetect }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectRef = useRef(onDetect);
+  const [error, setError] = useState<string | null>(null);
+
+  onDetectRef.current = onDetect;
+
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let frameId = 0;
+    let isActive = true;
+    let lastCode = '';
+    let lastCodeAt = 0;
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    const Detector = (window as unknown as { BarcodeDetector?: NativeBarcodeDetectorConstructor }).BarcodeDetector;
+    const detector = Detector ? new Detector({ formats: BARCODE_FORMATS }) : null;
+
+    const report = (text: string) => {
+      const now = Date.now();
+      if (text === lastCode && now - lastCodeAt < REPEAT_DELAY_MS) return;
+      lastCode = text;
+      lastCodeAt = now;
+      onDetectRef.current(text);
+    };
+
+    const readFrame = async (video: HTMLVideoElement): Promise<string | null> => {
+      if (detector) {
+        const codes = await detector.detect(video);
+        return codes.length > 0 ? codes[0].rawValue : null;
+      }
+
+      if (!context) return null;
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      context.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const image = context.getImageData(0, 0, canvas.width, canvas.height);
+      return jsQR(image.data, image.width, image.height, { inversionAttempts: 'dontInvert' })?.data || null;
+    };
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (!isActive || !video) return;
+
+      if (video.readyState >= video.HAVE_ENOUGH_DATA) {
+        try {
+          const text = await readFrame(video);
+          if (text && isActive) report(text);
+        } catch (scanError) {
+          console.error('Error reading barcode:', scanError);
+        }
+      }
+
+      if (isActive) frameId = requestAnimationFrame(scan);
+    };
+
+    const start = async () => {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        setError('This browser cannot use the camera. Type the serial number or use a handheld scanner instead.');
+        return;
+      }
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'environment' },
+          audio: false,
+        });
+
+        if (!isActive || !videoRef.current) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        frameId = requestAnimationFrame(scan);
+      } catch (startError) {
+        console.error('Error starting camera:', startError);
+        setError('Camera access was blocked. Allow camera access for this site, or type the serial number instead.');
+      }
+    };
+
+    start();
+
+    return () => {
+      isActive = false;
+      cancelAnimationFrame(frameId);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  if (error) {
+    return (
+      <div className="rounded-md bg-warning-50 border border-warning-200 p-4 text-sm text-warning-800">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative overflow-hidden rounded-lg bg-black">
+      <video ref={videoRef} className="w-full max-h-96 object-cover" muted playsInline />
+      <div className="pointer-events-none absolute inset-0 flex items-center justify-center">
+        <div className="h-48 w-48 rounded-lg border-2 border-white/80" />
+      </div>
+    </div>
+  );
+};
+
+export default BarcodeScanner;
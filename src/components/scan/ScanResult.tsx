@@ -0,0 +1,244 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ClipboardList, ExternalLink, LogIn, LogOut, TestTube } from 'lucide-react';
+import { useUser } from '@clerk/clerk-react';
+import { Asset } from '../../types';
+import { useRole } from '../../hooks/useRole';
+import { useAssets } from '../../context/AssetContext';
+import { ASSET_TYPES, requiresDielectricTest } from '../../utils/assetTypes';
+import { canTransitionAssetStatus, isDateDrivenStatus } from '../../utils/assetLifecycle';
+import { mustRetestBeforeIssue } from '../../utils/assetUtils';
+import { isAssetInUserScope } from '../../utils/crewUtils';
+import { LOCATION_TYPE_LABELS } from '../../utils/locationUtils';
+import { isAssetPastServiceLife } from '../../utils/serviceLifeUtils';
+import { formatDate } from '../../utils';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import StatusBadge from '../ui/StatusBadge';
+import Button from '../ui/Button';
+
+interface ScanResultProps {
+  asset: Asset;
+}
+
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+/**
+ * ScanResult Component
+ *
+ * The asset behind a scanned label with the actions most often taken at the
+ * crib or in the field: inspect, send to testing, check out and check in.
+ * Actions follow the same rules as the asset details page.
+ */
+const ScanResult: React.FC<ScanResultProps> = ({ asset }) => {
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const { isAdmin } = useRole();
+  const {
+    organizationMembers,
+    crews,
+    locations,
+    serviceLifeRules,
+    getLocationById,
+    markAsInTesting,
+    checkOutAssets,
+    checkInAssets,
+  } = useAssets();
+
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [checkOutUserId, setCheckOutUserId] = useState('');
+  const [checkInLocationId, setCheckInLocationId] = useState('');
+
+  const holder = asset.assignedUserId
+    ? organizationMembers.find(member => member.id === asset.assignedUserId)
+    : undefined;
+  const location = asset.locationId ? getLocationById(asset.locationId) : undefined;
+
+  const isInScope = isAssetInUserScope(asset, user?.id, crews);
+  const canInspect = isDateDrivenStatus(asset.status) && (isAdmin || isInScope);
+  // Supervisors can pull their crew's gear for testing, but not their own
+  const canMarkAsInTesting = requiresDielectricTest(asset.assetType) &&
+    asset.status !== 'in-testing' &&
+    canTransitionAssetStatus(asset.status, 'in-testing') &&
+    (isAdmin || (isInScope && asset.assignedUserId !== user?.id));
+  // Kit members are issued with their kit
+  const canCheckOutOrIn = isAdmin && asset.status !== 'retired' && !asset.kitId;
+  // A recall holds quarantined assets until it clears them, and stock tested more than
+  // 12 months ago must be retested before it is issued
+  const isStockTooOld = !!asset.inStock && !!asset.lastCertificationDate &&
+    mustRetestBeforeIssue(asset.lastCertificationDate);
+  const canCheckOut = asset.status !== 'quarantined' && !isStockTooOld;
+
+  /**
+   * Runs a quick action with loading state management
+   */
+  const runAction = async (action: () => Promise<void>): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Error acting on scanned asset:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleCheckOut = (userId: string) => runAction(async () => {
+    await checkOutAssets([asset.id], userId);
+    setCheckOutUserId('');
+  });
+
+  const handleCheckIn = () => runAction(async () => {
+    await checkInAssets([asset.id], checkInLocationId || undefined);
+    setCheckInLocationId('');
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <div>
+            <h2 className="text-lg font-medium text-gray-900">{asset.serialNumber}</h2>
+            <p className="text-sm text-gray-500">
+              {asset.assetClass} {ASSET_TYPES[asset.assetType].label}
+              {asset.nextCertificationDate && ` · Next due ${formatDate(asset.nextCertificationDate)}`}
+            </p>
+          </div>
+          <StatusBadge status={asset.status} endOfLife={isAssetPastServiceLife(asset, serviceLifeRules)} />
+        </div>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-700 mb-4">
+          {holder
+            ? `Held by ${holder.name}`
+            : location
+              ? `Stored at ${location.name} (${LOCATION_TYPE_LABELS[location.locationType]})`
+              : 'Not assigned or stored anywhere'}
+        </p>
+
+        <div className="flex flex-wrap gap-2">
+          {canInspect && (
+            <Button
+              size="sm"
+              leftIcon={<ClipboardList className="h-4 w-4" />}
+              onClick={() => navigate(`/assets/${asset.id}?action=inspect`)}
+              disabled={isSubmitting}
+            >
+              Inspect
+            </Button>
+          )}
+          {canMarkAsInTesting && (
+            <Button
+              size="sm"
+              variant="outline"
+              className="text-primary-600 hover:bg-primary-50"
+              leftIcon={<TestTube className="h-4 w-4" />}
+              onClick={() => runAction(() => markAsInTesting(asset.id))}
+              disabled={isSubmitting}
+            >
+              Mark as Testing
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            leftIcon={<ExternalLink className="h-4 w-4" />}
+            onClick={() => navigate(`/assets/${asset.id}`)}
+          >
+            View Details
+          </Button>
+        </div>
+
+        {canCheckOutOrIn && (
+          <div className="mt-6 grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {canCheckOut ? (
+              <div>
+                <label htmlFor="scanCheckOutUser" className="block text-sm font-medium text-gray-700">
+                  Check Out To
+                </label>
+                <select
+                  id="scanCheckOutUser"
+                  className={fieldClassName}
+                  value={checkOutUserId}
+                  onChange={(e) => setCheckOutUserId(e.target.value)}
+                  disabled={isSubmitting}
+                >
+                  <option value="">Select a technician</option>
+                  {organizationMembers
+                    .filter(member => member.id !== asset.assignedUserId)
+                    .map(member => (
+                      <option key={member.id} value={member.id}>
+                        {member.name}
+                      </option>
+                    ))}
+                </select>
+                <div className="mt-2 flex space-x-2">
+                  <Button
+                    size="sm"
+                    leftIcon={<LogOut className="h-4 w-4" />}
+                    onClick={() => handleCheckOut(checkOutUserId)}
+                    disabled={isSubmitting || !checkOutUserId}
+                  >
+                    Check Out
+                  </Button>
+                  {user && asset.assignedUserId !== user.id && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleCheckOut(user.id)}
+                      disabled={isSubmitting}
+                    >
+                      To Me
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-danger-700">
+                {isStockTooOld
+                  ? `In stock since its last test on ${formatDate(asset.lastCertificationDate!)}; it must be retested before it is checked out.`
+                  : 'Quarantined by a manufacturer recall; it cannot be checked out until the recall clears it.'}
+              </p>
+            )}
+
+            {asset.assignedUserId && (
+              <div>
+                <label htmlFor="scanCheckInLocation" className="block text-sm font-medium text-gray-700">
+                  Check In To
+                </label>
+                <select
+                  id="scanCheckInLocation"
+                  className={fieldClassName}
+                  value={checkInLocationId}
+                  onChange={(e) => setCheckInLocationId(e.target.value)}
+                  disabled={isSubmitting}
+                >
+                  <option value="">No location</option>
+                  {locations.map(candidate => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidate.name}
+                    </option>
+                  ))}
+                </select>
+                <div className="mt-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    leftIcon={<LogIn className="h-4 w-4" />}
+                    onClick={handleCheckIn}
+                    disabled={isSubmitting}
+                  >
+                    Check In
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScanResult;
@@ -0,0 +1,2 @@
+export { default as BarcodeScanner } from './BarcodeScanner';
+export { default as ScanResult } from './ScanResult';
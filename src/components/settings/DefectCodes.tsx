@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Plus, Tag, Trash2 } from 'lucide-react';
+import { useAssets } from '../../context/AssetContext';
+import { toDefectCode } from '../../utils/failureUtils';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Badge from '../ui/Badge';
+import Button from '../ui/Button';
+
+/**
+ * DefectCodes Component
+ *
+ * Lists the defect codes offered when an asset is failed.
+ * Built-in codes are shared by every organization; admins can add
+ * their own codes and remove them again.
+ */
+const DefectCodes: React.FC = () => {
+  const { defectCodes, addDefectCode, deleteDefectCode } = useAssets();
+  const [label, setLabel] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const code = toDefectCode(label);
+  const isDuplicate = defectCodes.some(defectCode => defectCode.code === code);
+
+  /**
+   * Adds the drafted label as a new organization defect code
+   */
+  const handleAdd = async (): Promise<void> => {
+    if (!code || isDuplicate) return;
+
+    setIsAdding(true);
+    try {
+      await addDefectCode(code, label.trim());
+      setLabel('');
+    } catch (error) {
+      console.error('Error adding defect code:', error);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  /**
+   * Removes an organization defect code
+   */
+  const handleDelete = async (id: string): Promise<void> => {
+    setDeletingId(id);
+    try {
+      await deleteDefectCode(id);
+    } catch (error) {
+      console.error('Error deleting defect code:', error);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <Tag className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Defect Codes</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Defects offered when an asset is failed. Existing failures keep their code
+          if it is removed.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="divide-y divide-gray-200">
+          {defectCodes.map(defectCode => (
+            <div key={defectCode.id} className="py-2 flex items-center justify-between">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{defectCode.label}</p>
+                <p className="text-xs text-gray-500">{defectCode.code}</p>
+              </div>
+              {defectCode.orgId ? (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDelete(defectCode.id)}
+                  isLoading={deletingId === defectCode.id}
+                  disabled={deletingId !== null}
+                  leftIcon={<Trash2 className="h-4 w-4" />}
+                >
+                  Remove
+                </Button>
+              ) : (
+                <Badge variant="default">Built-in</Badge>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex items-center space-x-2">
+          <input
+            type="text"
+            aria-label="New defect code label"
+            className="flex-1 border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            placeholder="e.g. Finger crotch wear"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            disabled={isAdding}
+          />
+          <Button
+            size="sm"
+            onClick={handleAdd}
+            isLoading={isAdding}
+            disabled={isAdding || !code || isDuplicate}
+            leftIcon={<Plus className="h-4 w-4" />}
+          >
+            Add
+          </Button>
+        </div>
+        {isDuplicate && (
+          <p className="mt-1 text-xs text-danger-600">A defect code like this already exists.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DefectCodes;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Archive } from 'lucide-react';
+import { useAssets } from '../../context/AssetContext';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+
+/**
+ * DisposalDeadline Component
+ *
+ * Lets admins set how many days a failed asset may wait for destruction.
+ * Failed assets past the deadline are listed on the dashboard until they are retired.
+ */
+const DisposalDeadline: React.FC = () => {
+  const { orgSettings, saveOrgSettings } = useAssets();
+  const [draft, setDraft] = useState<string | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const value = draft ?? String(orgSettings.failedDisposalDays);
+  const isDirty = draft !== undefined && draft !== String(orgSettings.failedDisposalDays);
+
+  /**
+   * Saves the drafted deadline
+   */
+  const handleSave = async (): Promise<void> => {
+    const failedDisposalDays = parseInt(draft || '', 10);
+    if (!failedDisposalDays || failedDisposalDays < 1 || failedDisposalDays > 365) return;
+
+    setIsSaving(true);
+    try {
+      await saveOrgSettings({ ...orgSettings, failedDisposalDays });
+      setDraft(undefined);
+    } catch (error) {
+      console.error('Error saving disposal deadline:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <Archive className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Disposal Deadline</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Failed assets not destroyed and retired within this many days are flagged on the dashboard.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            min={1}
+            max={365}
+            aria-label="Days a failed asset may wait for destruction"
+            className="w-20 border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            value={value}
+            onChange={(e) => setDraft(e.target.value)}
+            disabled={isSaving}
+          />
+          <span className="text-sm text-gray-500">days after failure</span>
+          <Button
+            size="sm"
+            onClick={handleSave}
+            isLoading={isSaving}
+            disabled={!isDirty || isSaving}
+          >
+            Save
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DisposalDeadline;
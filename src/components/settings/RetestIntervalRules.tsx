@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { CalendarClock, RotateCcw } from 'lucide-react';
+import { AssetClass, AssetType } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { ASSET_TYPES, TESTED_ASSET_TYPES } from '../../utils/assetTypes';
+import { DEFAULT_RETEST_INTERVAL_MONTHS } from '../../utils/assetUtils';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+
+const assetClasses: AssetClass[] = ['Class 00', 'Class 0', 'Class 1', 'Class 2', 'Class 3', 'Class 4'];
+
+/**
+ * RetestIntervalRules Component
+ *
+ * Lets admins set the retest interval for each class of each dielectric-tested asset type.
+ * Classes without a rule use the type's default interval; saving or resetting a rule
+ * recomputes the next certification date of every asset of that type and class.
+ */
+const RetestIntervalRules: React.FC = () => {
+  const { retestRules, saveRetestRule, deleteRetestRule } = useAssets();
+  const [assetType, setAssetType] = useState<AssetType>('glove');
+  const [drafts, setDrafts] = useState<Partial<Record<AssetClass, string>>>({});
+  const [savingClass, setSavingClass] = useState<AssetClass | null>(null);
+
+  const defaultIntervalMonths = ASSET_TYPES[assetType].defaultRetestIntervalMonths ?? DEFAULT_RETEST_INTERVAL_MONTHS;
+  const typeRules = retestRules.filter(r => r.assetType === assetType);
+
+  /**
+   * Switches the type being edited, discarding unsaved drafts
+   */
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setAssetType(e.target.value as AssetType);
+    setDrafts({});
+  };
+
+  /**
+   * Returns the value shown in the interval input for a class
+   */
+  const getInputValue = (assetClass: AssetClass): string => {
+    const draft = drafts[assetClass];
+    if (draft !== undefined) return draft;
+    const rule = typeRules.find(r => r.assetClass === assetClass);
+    return rule ? String(rule.intervalMonths) : '';
+  };
+
+  /**
+   * Saves the drafted interval for a class
+   */
+  const handleSave = async (assetClass: AssetClass): Promise<void> => {
+    const intervalMonths = parseInt(drafts[assetClass] || '', 10);
+    if (!intervalMonths || intervalMonths < 1 || intervalMonths > 60) return;
+
+    setSavingClass(assetClass);
+    try {
+      await saveRetestRule(assetType, assetClass, intervalMonths);
+      setDrafts(prev => ({ ...prev, [assetClass]: undefined }));
+    } catch (error) {
+      console.error('Error saving retest rule:', error);
+    } finally {
+      setSavingClass(null);
+    }
+  };
+
+  /**
+   * Removes the rule for a class so it falls back to the default interval
+   */
+  const handleReset = async (assetClass: AssetClass, ruleId: string): Promise<void> => {
+    setSavingClass(assetClass);
+    try {
+      await deleteRetestRule(ruleId);
+      setDrafts(prev => ({ ...prev, [assetClass]: undefined }));
+    } catch (error) {
+      console.error('Error resetting retest rule:', error);
+    } finally {
+      setSavingClass(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <CalendarClock className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Retest Intervals</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Months between dielectric retests for each class. Classes without a rule use the
+          default for the asset type. Leather protectors are not retested.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div>
+          <label htmlFor="retestAssetType" className="block text-sm font-medium text-gray-700">
+            Asset Type
+          </label>
+          <select
+            id="retestAssetType"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            value={assetType}
+            onChange={handleTypeChange}
+            disabled={savingClass !== null}
+          >
+            {TESTED_ASSET_TYPES.map(type => (
+              <option key={type} value={type}>
+                {ASSET_TYPES[type].pluralLabel}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-2 divide-y divide-gray-200">
+          {assetClasses.map(assetClass => {
+            const rule = typeRules.find(r => r.assetClass === assetClass);
+            const draft = drafts[assetClass];
+            const isDirty = draft !== undefined && draft !== (rule ? String(rule.intervalMonths) : '');
+            const isSaving = savingClass === assetClass;
+
+            return (
+              <div key={assetClass} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{assetClass}</p>
+                  <p className="text-xs text-gray-500">
+                    {rule ? 'Custom interval' : `Default (${defaultIntervalMonths} months)`}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={60}
+                    aria-label={`${ASSET_TYPES[assetType].label} ${assetClass} retest interval in months`}
+                    className="w-20 border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    placeholder={String(defaultIntervalMonths)}
+                    value={getInputValue(assetClass)}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [assetClass]: e.target.value }))}
+                    disabled={isSaving}
+                  />
+                  <span className="text-sm text-gray-500">months</span>
+                  <Button
+                    size="sm"
+                    onClick={() => handleSave(assetClass)}
+                    isLoading={isSaving && isDirty}
+                    disabled={!isDirty || isSaving}
+                  >
+                    Save
+                  </Button>
+                  {rule && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleReset(assetClass, rule.id)}
+                      disabled={isSaving}
+                      leftIcon={<RotateCcw className="h-4 w-4" />}
+                    >
+                      Reset
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RetestIntervalRules;
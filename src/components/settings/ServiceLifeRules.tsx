@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Hourglass, X } from 'lucide-react';
+import { AssetClass, AssetType, ServiceLifeBasis } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { ASSET_TYPES, ASSET_TYPE_OPTIONS } from '../../utils/assetTypes';
+import { SERVICE_LIFE_BASIS_LABELS } from '../../utils/serviceLifeUtils';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+
+const assetClasses: AssetClass[] = ['Class 00', 'Class 0', 'Class 1', 'Class 2', 'Class 3', 'Class 4'];
+
+interface ServiceLifeDraft {
+  maxAgeMonths: string;
+  measuredFrom: ServiceLifeBasis;
+}
+
+/**
+ * ServiceLifeRules Component
+ *
+ * Lets admins cap the age of each class of each asset type, whatever its test results.
+ * Assets turn due soon as they approach the cap and expired once past it; classes
+ * without a rule have no age limit.
+ */
+const ServiceLifeRules: React.FC = () => {
+  const { serviceLifeRules, saveServiceLifeRule, deleteServiceLifeRule } = useAssets();
+  const [assetType, setAssetType] = useState<AssetType>('glove');
+  const [drafts, setDrafts] = useState<Partial<Record<AssetClass, ServiceLifeDraft>>>({});
+  const [savingClass, setSavingClass] = useState<AssetClass | null>(null);
+
+  const typeRules = serviceLifeRules.filter(r => r.assetType === assetType);
+
+  /**
+   * Switches the type being edited, discarding unsaved drafts
+   */
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setAssetType(e.target.value as AssetType);
+    setDrafts({});
+  };
+
+  /**
+   * Returns the values shown for a class: its draft, else its saved rule
+   */
+  const getValues = (assetClass: AssetClass): ServiceLifeDraft => {
+    const draft = drafts[assetClass];
+    if (draft) return draft;
+    const rule = typeRules.find(r => r.assetClass === assetClass);
+    return rule
+      ? { maxAgeMonths: String(rule.maxAgeMonths), measuredFrom: rule.measuredFrom }
+      : { maxAgeMonths: '', measuredFrom: 'manufacture' };
+  };
+
+  /**
+   * Updates the draft of a class from its current values
+   */
+  const updateDraft = (assetClass: AssetClass, changes: Partial<ServiceLifeDraft>) => {
+    setDrafts(prev => ({ ...prev, [assetClass]: { ...getValues(assetClass), ...changes } }));
+  };
+
+  /**
+   * Saves the drafted limit for a class
+   */
+  const handleSave = async (assetClass: AssetClass): Promise<void> => {
+    const draft = drafts[assetClass];
+    const maxAgeMonths = parseInt(draft?.maxAgeMonths || '', 10);
+    if (!draft || !maxAgeMonths || maxAgeMonths < 1 || maxAgeMonths > 600) return;
+
+    setSavingClass(assetClass);
+    try {
+      await saveServiceLifeRule(assetType, assetClass, maxAgeMonths, draft.measuredFrom);
+      setDrafts(prev => ({ ...prev, [assetClass]: undefined }));
+    } catch (error) {
+      console.error('Error saving service life rule:', error);
+    } finally {
+      setSavingClass(null);
+    }
+  };
+
+  /**
+   * Removes the limit of a class
+   */
+  const handleRemove = async (assetClass: AssetClass, ruleId: string): Promise<void> => {
+    setSavingClass(assetClass);
+    try {
+      await deleteServiceLifeRule(ruleId);
+      setDrafts(prev => ({ ...prev, [assetClass]: undefined }));
+    } catch (error) {
+      console.error('Error removing service life rule:', error);
+    } finally {
+      setSavingClass(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <Hourglass className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Maximum Service Life</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Months an asset may stay in service regardless of its test results. Assets show as
+          due soon in the last 30 days and expired once past the limit. Counted from the
+          manufacture date uses the issue date when none was recorded.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div>
+          <label htmlFor="serviceLifeAssetType" className="block text-sm font-medium text-gray-700">
+            Asset Type
+          </label>
+          <select
+            id="serviceLifeAssetType"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            value={assetType}
+            onChange={handleTypeChange}
+            disabled={savingClass !== null}
+          >
+            {ASSET_TYPE_OPTIONS.map(type => (
+              <option key={type} value={type}>
+                {ASSET_TYPES[type].pluralLabel}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-2 divide-y divide-gray-200">
+          {assetClasses.map(assetClass => {
+            const rule = typeRules.find(r => r.assetClass === assetClass);
+            const values = getValues(assetClass);
+            const isDirty = drafts[assetClass] !== undefined && (
+              values.maxAgeMonths !== (rule ? String(rule.maxAgeMonths) : '') ||
+              values.measuredFrom !== (rule?.measuredFrom || 'manufacture')
+            );
+            const isSaving = savingClass === assetClass;
+
+            return (
+              <div key={assetClass} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">{assetClass}</p>
+                  <p className="text-xs text-gray-500">
+                    {rule ? `${(rule.maxAgeMonths / 12).toFixed(1).replace(/\.0$/, '')} years` : 'No limit'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={600}
+                    aria-label={`${ASSET_TYPES[assetType].label} ${assetClass} maximum service life in months`}
+                    className="w-20 border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    placeholder="None"
+                    value={values.maxAgeMonths}
+                    onChange={(e) => updateDraft(assetClass, { maxAgeMonths: e.target.value })}
+                    disabled={isSaving}
+                  />
+                  <span className="text-sm text-gray-500">months from</span>
+                  <select
+                    aria-label={`${ASSET_TYPES[assetType].label} ${assetClass} service life counted from`}
+                    className="border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    value={values.measuredFrom}
+                    onChange={(e) => updateDraft(assetClass, { measuredFrom: e.target.value as ServiceLifeBasis })}
+                    disabled={isSaving}
+                  >
+                    {(Object.keys(SERVICE_LIFE_BASIS_LABELS) as ServiceLifeBasis[]).map(basis => (
+                      <option key={basis} value={basis}>
+                        {SERVICE_LIFE_BASIS_LABELS[basis]}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    size="sm"
+                    onClick={() => handleSave(assetClass)}
+                    isLoading={isSaving && isDirty}
+                    disabled={!isDirty || isSaving || !values.maxAgeMonths}
+                  >
+                    Save
+                  </Button>
+                  {rule && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRemove(assetClass, rule.id)}
+                      disabled={isSaving}
+                      leftIcon={<X className="h-4 w-4" />}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ServiceLifeRules;
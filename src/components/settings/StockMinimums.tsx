@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { Boxes, X } from 'lucide-react';
+import { AssetClass, GloveSize } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import { getStockLevels } from '../../utils/stockUtils';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+
+const assetClasses: AssetClass[] = ['Class 00', 'Class 0', 'Class 1', 'Class 2', 'Class 3', 'Class 4'];
+const gloveSizes: GloveSize[] = ['7', '8', '9', '10', '11', '12'];
+
+/**
+ * StockMinimums Component
+ *
+ * Lets admins set how many spare gloves of each class and size they want on hand.
+ * The dashboard warns when spares fall below a minimum; sizes without one are not tracked.
+ */
+const StockMinimums: React.FC = () => {
+  const { assets, stockMinimums, saveStockMinimum, deleteStockMinimum } = useAssets();
+  const [assetClass, setAssetClass] = useState<AssetClass>('Class 0');
+  const [drafts, setDrafts] = useState<Partial<Record<GloveSize, string>>>({});
+  const [savingSize, setSavingSize] = useState<GloveSize | null>(null);
+
+  const levels = useMemo(() => getStockLevels(assets, stockMinimums), [assets, stockMinimums]);
+  const classMinimums = stockMinimums.filter(minimum => minimum.assetClass === assetClass);
+
+  /**
+   * Switches the class being edited, discarding unsaved drafts
+   */
+  const handleClassChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setAssetClass(e.target.value as AssetClass);
+    setDrafts({});
+  };
+
+  /**
+   * Returns the value shown in the minimum input for a size
+   */
+  const getInputValue = (gloveSize: GloveSize): string => {
+    const draft = drafts[gloveSize];
+    if (draft !== undefined) return draft;
+    const minimum = classMinimums.find(m => m.gloveSize === gloveSize);
+    return minimum ? String(minimum.minimumOnHand) : '';
+  };
+
+  /**
+   * Saves the drafted minimum for a size
+   */
+  const handleSave = async (gloveSize: GloveSize): Promise<void> => {
+    const minimumOnHand = parseInt(drafts[gloveSize] || '', 10);
+    if (!minimumOnHand || minimumOnHand < 1 || minimumOnHand > 999) return;
+
+    setSavingSize(gloveSize);
+    try {
+      await saveStockMinimum(assetClass, gloveSize, minimumOnHand);
+      setDrafts(prev => ({ ...prev, [gloveSize]: undefined }));
+    } catch (error) {
+      console.error('Error saving stock minimum:', error);
+    } finally {
+      setSavingSize(null);
+    }
+  };
+
+  /**
+   * Stops tracking a size
+   */
+  const handleRemove = async (gloveSize: GloveSize, minimumId: string): Promise<void> => {
+    setSavingSize(gloveSize);
+    try {
+      await deleteStockMinimum(minimumId);
+      setDrafts(prev => ({ ...prev, [gloveSize]: undefined }));
+    } catch (error) {
+      console.error('Error removing stock minimum:', error);
+    } finally {
+      setSavingSize(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <Boxes className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Glove Stock</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Spare gloves to keep on hand for each class and size. Spares are unassigned gloves in
+          service; unassigned gloves at the lab count as incoming.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div>
+          <label htmlFor="stockAssetClass" className="block text-sm font-medium text-gray-700">
+            Class
+          </label>
+          <select
+            id="stockAssetClass"
+            className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            value={assetClass}
+            onChange={handleClassChange}
+            disabled={savingSize !== null}
+          >
+            {assetClasses.map(option => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="mt-2 divide-y divide-gray-200">
+          {gloveSizes.map(gloveSize => {
+            const minimum = classMinimums.find(m => m.gloveSize === gloveSize);
+            const level = levels.find(l => l.assetClass === assetClass && l.gloveSize === gloveSize);
+            const draft = drafts[gloveSize];
+            const isDirty = draft !== undefined && draft !== (minimum ? String(minimum.minimumOnHand) : '');
+            const isSaving = savingSize === gloveSize;
+            const isLow = !!minimum && (level?.onHand ?? 0) < minimum.minimumOnHand;
+
+            return (
+              <div key={gloveSize} className="py-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">Size {gloveSize}</p>
+                  <p className={`text-xs ${isLow ? 'text-warning-600' : 'text-gray-500'}`}>
+                    {level?.onHand ?? 0} on hand
+                    {(level?.incoming ?? 0) > 0 && `, ${level?.incoming} at lab`}
+                    {!minimum && ' (not tracked)'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={999}
+                    aria-label={`${assetClass} size ${gloveSize} minimum spares`}
+                    className="w-20 border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    placeholder="Min"
+                    value={getInputValue(gloveSize)}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [gloveSize]: e.target.value }))}
+                    disabled={isSaving}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => handleSave(gloveSize)}
+                    isLoading={isSaving && isDirty}
+                    disabled={!isDirty || isSaving}
+                  >
+                    Save
+                  </Button>
+                  {minimum && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => handleRemove(gloveSize, minimum.id)}
+                      disabled={isSaving}
+                      leftIcon={<X className="h-4 w-4" />}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StockMinimums;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Factory, Plus, Trash2 } from 'lucide-react';
+import { SupplierType } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+
+const supplierSections: { supplierType: SupplierType; label: string; placeholder: string }[] = [
+  { supplierType: 'manufacturer', label: 'Manufacturers', placeholder: 'e.g. Salisbury' },
+  { supplierType: 'vendor', label: 'Vendors', placeholder: 'e.g. Grainger' },
+];
+
+/**
+ * Suppliers Component
+ *
+ * Catalog of the manufacturers and vendors offered on the asset form.
+ * A supplier can only be removed while no asset is recorded against it.
+ */
+const Suppliers: React.FC = () => {
+  const { assets, suppliers, addSupplier, deleteSupplier } = useAssets();
+  const [drafts, setDrafts] = useState<Partial<Record<SupplierType, string>>>({});
+  const [addingType, setAddingType] = useState<SupplierType | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  /**
+   * Tells whether a name is already in the catalog for the supplier type, ignoring case
+   */
+  const isDuplicate = (supplierType: SupplierType, name: string): boolean => {
+    const key = name.trim().toLowerCase();
+    return suppliers.some(supplier =>
+      supplier.supplierType === supplierType && supplier.name.toLowerCase() === key
+    );
+  };
+
+  /**
+   * Adds the drafted name to the catalog
+   */
+  const handleAdd = async (supplierType: SupplierType): Promise<void> => {
+    const name = drafts[supplierType]?.trim();
+    if (!name || isDuplicate(supplierType, name)) return;
+
+    setAddingType(supplierType);
+    try {
+      await addSupplier(supplierType, name);
+      setDrafts(prev => ({ ...prev, [supplierType]: '' }));
+    } catch (error) {
+      console.error('Error adding supplier:', error);
+    } finally {
+      setAddingType(null);
+    }
+  };
+
+  /**
+   * Removes a supplier from the catalog
+   */
+  const handleDelete = async (id: string): Promise<void> => {
+    setDeletingId(id);
+    try {
+      await deleteSupplier(id);
+    } catch (error) {
+      console.error('Error deleting supplier:', error);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <Factory className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Suppliers</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Manufacturers and vendors you buy equipment from, recorded on each asset with
+          its model, lot and purchase order.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {supplierSections.map(({ supplierType, label, placeholder }) => {
+            const listed = suppliers.filter(supplier => supplier.supplierType === supplierType);
+            const draft = drafts[supplierType] || '';
+            const isDraftDuplicate = isDuplicate(supplierType, draft);
+
+            return (
+              <div key={supplierType}>
+                <h4 className="text-sm font-medium text-gray-700">{label}</h4>
+                {listed.length === 0 ? (
+                  <p className="mt-1 text-sm text-gray-500">None yet.</p>
+                ) : (
+                  <div className="divide-y divide-gray-200">
+                    {listed.map(supplier => {
+                      const assetCount = assets.filter(asset =>
+                        asset.manufacturerId === supplier.id || asset.vendorId === supplier.id
+                      ).length;
+
+                      return (
+                        <div key={supplier.id} className="py-2 flex items-center justify-between">
+                          <div>
+                            <p className="text-sm font-medium text-gray-900">{supplier.name}</p>
+                            <p className="text-xs text-gray-500">
+                              {assetCount} {assetCount === 1 ? 'asset' : 'assets'}
+                            </p>
+                          </div>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => handleDelete(supplier.id)}
+                            isLoading={deletingId === supplier.id}
+                            disabled={deletingId !== null || assetCount > 0}
+                            leftIcon={<Trash2 className="h-4 w-4" />}
+                          >
+                            Remove
+                          </Button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                <div className="mt-2 flex items-center space-x-2">
+                  <input
+                    type="text"
+                    aria-label={`New ${supplierType} name`}
+                    className="flex-1 border border-gray-300 rounded-md shadow-sm py-1.5 px-2 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                    placeholder={placeholder}
+                    value={draft}
+                    onChange={(e) => setDrafts(prev => ({ ...prev, [supplierType]: e.target.value }))}
+                    disabled={addingType === supplierType}
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => handleAdd(supplierType)}
+                    isLoading={addingType === supplierType}
+                    disabled={addingType !== null || !draft.trim() || isDraftDuplicate}
+                    leftIcon={<Plus className="h-4 w-4" />}
+                  >
+                    Add
+                  </Button>
+                </div>
+                {isDraftDuplicate && (
+                  <p className="mt-1 text-xs text-danger-600">This {supplierType} is already listed.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,305 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Tag } from 'lucide-react';
+import { Asset, LabelQrContent, ZplLabelField, ZplLabelLayout } from '../../types';
+import { useAssets } from '../../context/AssetContext';
+import {
+  ZPL_DPI_OPTIONS,
+  ZPL_LABEL_FIELD_LABELS,
+  ZPL_LABEL_FIELD_OPTIONS,
+  ZPL_LABEL_HEIGHT_RANGE,
+  ZPL_LABEL_WIDTH_RANGE,
+} from '../../utils/zplUtils';
+import Card, { CardContent, CardHeader } from '../ui/Card';
+import Button from '../ui/Button';
+import ZplLabelPreview from '../assets/ZplLabelPreview';
+
+const fieldClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm';
+
+// Shown in the preview until the organization has assets of its own
+const SAMPLE_ASSET: Asset = {
+  id: '00000000-0000-0000-0000-000000000000',
+  orgId: '',
+  serialNumber: 'GL-000123',
+  assetType: 'glove',
+  assetClass: 'Class 2',
+  assignedUserId: null,
+  issueDate: '2025-01-01',
+  nextCertificationDate: '2025-07-01',
+  status: 'active',
+  gloveSize: '10',
+  attributes: {},
+  certificationDocuments: [],
+  certifications: [],
+};
+
+/**
+ * ThermalLabels Component
+ *
+ * Lets admins lay out the asset label printed on Zebra thermal printers and
+ * point the app at the tool crib's print bridge. A preview updates as the
+ * layout is edited.
+ */
+const ThermalLabels: React.FC = () => {
+  const { orgSettings, saveOrgSettings, assets } = useAssets();
+  const [layoutDraft, setLayoutDraft] = useState<ZplLabelLayout | undefined>(undefined);
+  const [bridgeUrlDraft, setBridgeUrlDraft] = useState<string | undefined>(undefined);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const layout = layoutDraft ?? orgSettings.labelLayout;
+  const bridgeUrl = bridgeUrlDraft ?? (orgSettings.printBridgeUrl || '');
+  const isDirty = layoutDraft !== undefined || bridgeUrlDraft !== undefined;
+  const isBridgeUrlValid = !bridgeUrl.trim() || /^https?:\/\/\S+$/.test(bridgeUrl.trim());
+  const isSizeValid =
+    layout.widthIn >= ZPL_LABEL_WIDTH_RANGE.min && layout.widthIn <= ZPL_LABEL_WIDTH_RANGE.max &&
+    layout.heightIn >= ZPL_LABEL_HEIGHT_RANGE.min && layout.heightIn <= ZPL_LABEL_HEIGHT_RANGE.max;
+
+  const updateLayout = (changes: Partial<ZplLabelLayout>) => {
+    setLayoutDraft({ ...layout, ...changes });
+  };
+
+  const toggleField = (field: ZplLabelField) => {
+    updateLayout({
+      fields: layout.fields.includes(field)
+        ? layout.fields.filter(candidate => candidate !== field)
+        : [...layout.fields, field],
+    });
+  };
+
+  const moveField = (index: number, offset: number) => {
+    const fields = [...layout.fields];
+    [fields[index], fields[index + offset]] = [fields[index + offset], fields[index]];
+    updateLayout({ fields });
+  };
+
+  /**
+   * Saves the drafted layout and bridge address
+   */
+  const handleSave = async (): Promise<void> => {
+    if (!isSizeValid || !isBridgeUrlValid) return;
+
+    setIsSaving(true);
+    try {
+      await saveOrgSettings({
+        ...orgSettings,
+        labelLayout: layout,
+        printBridgeUrl: bridgeUrl.trim() || undefined,
+      });
+      setLayoutDraft(undefined);
+      setBridgeUrlDraft(undefined);
+    } catch (error) {
+      console.error('Error saving thermal label settings:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center">
+          <Tag className="h-5 w-5 text-gray-400 mr-2" />
+          <h3 className="text-lg font-medium text-gray-900">Thermal Labels</h3>
+        </div>
+        <p className="text-sm text-gray-500 mt-1">
+          Layout of asset labels printed on Zebra printers, and the print bridge that sends them.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <label htmlFor="zplWidth" className="block text-sm font-medium text-gray-700">
+                Width (in)
+              </label>
+              <input
+                type="number"
+                id="zplWidth"
+                step={0.05}
+                min={ZPL_LABEL_WIDTH_RANGE.min}
+                max={ZPL_LABEL_WIDTH_RANGE.max}
+                className={fieldClassName}
+                value={layout.widthIn}
+                onChange={(e) => updateLayout({ widthIn: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label htmlFor="zplHeight" className="block text-sm font-medium text-gray-700">
+                Height (in)
+              </label>
+              <input
+                type="number"
+                id="zplHeight"
+                step={0.05}
+                min={ZPL_LABEL_HEIGHT_RANGE.min}
+                max={ZPL_LABEL_HEIGHT_RANGE.max}
+                className={fieldClassName}
+                value={layout.heightIn}
+                onChange={(e) => updateLayout({ heightIn: Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label htmlFor="zplDpi" className="block text-sm font-medium text-gray-700">
+                Printer DPI
+              </label>
+              <select
+                id="zplDpi"
+                className={fieldClassName}
+                value={layout.dpi}
+                onChange={(e) => updateLayout({ dpi: Number(e.target.value) as ZplLabelLayout['dpi'] })}
+              >
+                {ZPL_DPI_OPTIONS.map(dpi => (
+                  <option key={dpi} value={dpi}>
+                    {dpi}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {!isSizeValid && (
+            <p className="text-sm text-danger-600">
+              Labels must be {ZPL_LABEL_WIDTH_RANGE.min}-{ZPL_LABEL_WIDTH_RANGE.max}" wide and{' '}
+              {ZPL_LABEL_HEIGHT_RANGE.min}-{ZPL_LABEL_HEIGHT_RANGE.max}" high.
+            </p>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="zplQrContent" className="block text-sm font-medium text-gray-700">
+                QR Code Contains
+              </label>
+              <select
+                id="zplQrContent"
+                className={fieldClassName}
+                value={layout.qrContent}
+                onChange={(e) => updateLayout({ qrContent: e.target.value as LabelQrContent })}
+              >
+                <option value="url">Link to the asset</option>
+                <option value="serial">Serial number</option>
+              </select>
+            </div>
+            <div>
+              <label htmlFor="zplQrPosition" className="block text-sm font-medium text-gray-700">
+                QR Code Position
+              </label>
+              <select
+                id="zplQrPosition"
+                className={fieldClassName}
+                value={layout.qrPosition}
+                onChange={(e) => updateLayout({ qrPosition: e.target.value as ZplLabelLayout['qrPosition'] })}
+              >
+                <option value="left">Left</option>
+                <option value="right">Right</option>
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700">Printed Fields</span>
+            <ul className="mt-1 divide-y divide-gray-200 border border-gray-200 rounded-md">
+              {layout.fields.map((field, index) => (
+                <li key={field} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                      checked
+                      onChange={() => toggleField(field)}
+                    />
+                    {ZPL_LABEL_FIELD_LABELS[field]}
+                  </label>
+                  <div className="flex space-x-1">
+                    <button
+                      type="button"
+                      className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      onClick={() => moveField(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${ZPL_LABEL_FIELD_LABELS[field]} up`}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      type="button"
+                      className="p-1 text-gray-400 hover:text-gray-600 disabled:opacity-30"
+                      onClick={() => moveField(index, 1)}
+                      disabled={index === layout.fields.length - 1}
+                      aria-label={`Move ${ZPL_LABEL_FIELD_LABELS[field]} down`}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+              {ZPL_LABEL_FIELD_OPTIONS.filter(field => !layout.fields.includes(field)).map(field => (
+                <li key={field} className="px-3 py-2 text-sm text-gray-500">
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 text-primary-600 border-gray-300 rounded mr-2"
+                      checked={false}
+                      onChange={() => toggleField(field)}
+                    />
+                    {ZPL_LABEL_FIELD_LABELS[field]}
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {isSizeValid && (
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-1">Preview</span>
+              <ZplLabelPreview asset={assets[0] || SAMPLE_ASSET} layout={layout} />
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="printBridgeUrl" className="block text-sm font-medium text-gray-700">
+              Print Bridge URL
+            </label>
+            <input
+              type="url"
+              id="printBridgeUrl"
+              className={fieldClassName}
+              placeholder="http://localhost:9101"
+              value={bridgeUrl}
+              onChange={(e) => setBridgeUrlDraft(e.target.value)}
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Run <code>npm run print-bridge</code> on a computer in the tool crib. Leave blank to download ZPL files instead.
+            </p>
+            {!isBridgeUrlValid && (
+              <p className="mt-1 text-sm text-danger-600">Enter a URL starting with http:// or https://.</p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            {isDirty && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => {
+                  setLayoutDraft(undefined);
+                  setBridgeUrlDraft(undefined);
+                }}
+                disabled={isSaving}
+              >
+                Discard
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={handleSave}
+              isLoading={isSaving}
+              disabled={!isDirty || isSaving || !isSizeValid || !isBridgeUrlValid}
+            >
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ThermalLabels;
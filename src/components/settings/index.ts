@@ -0,0 +1,7 @@
+export { default as RetestIntervalRules } from './RetestIntervalRules';
+export { default as DefectCodes } from './DefectCodes';
+export { default as DisposalDeadline } from './DisposalDeadline';
+export { default as ThermalLabels } from './ThermalLabels';
+export { default as StockMinimums } from './StockMinimums';
+export { default as Suppliers } from './Suppliers';
+export { default as ServiceLifeRules } from './ServiceLifeRules';
\ No newline at end of file
@@ -3,11 +3,17 @@ import { AssetStatus } from '../../types';
 
 interface StatusBadgeProps {
   status: AssetStatus;
+  /** Past its maximum service life; an expired asset then reads End of Life rather than a missed retest */
+  endOfLife?: boolean;
   className?: string;
 }
 
-const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className = '' }) => {
+const StatusBadge: React.FC<StatusBadgeProps> = ({ status, endOfLife = false, className = '' }) => {
+  const isEndOfLife = endOfLife && status === 'expired';
+
   const getStatusStyles = () => {
+    if (isEndOfLife) return 'bg-danger-600 text-white border-danger-700';
+
     switch (status) {
       case 'active':
         return 'bg-success-100 text-success-800 border-success-200';
@@ -19,12 +25,18 @@ const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className = '' }) =>
         return 'bg-gray-100 text-gray-800 border-gray-200';
       case 'in-testing':
         return 'bg-primary-100 text-primary-800 border-primary-200';
+      case 'quarantined':
+        return 'bg-danger-50 text-danger-700 border-danger-300';
+      case 'retired':
+        return 'bg-gray-50 text-gray-500 border-gray-200';
       default:
         return 'bg-gray-100 text-gray-800 border-gray-200';
     }
   };
 
   const getStatusText = () => {
+    if (isEndOfLife) return 'End of Life';
+
     switch (status) {
       case 'active':
         return 'Active';
@@ -36,6 +48,10 @@ const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className = '' }) =>
         return 'Failed';
       case 'in-testing':
         return 'In Testing';
+      case 'quarantined':
+        return 'Quarantined';
+      case 'retired':
+        return 'Retired';
       default:
         return status;
     }
@@ -44,9 +60,11 @@ const StatusBadge: React.FC<StatusBadgeProps> = ({ status, className = '' }) =>
   return (
     <span className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-medium border ${getStatusStyles()} ${className}`}>
       <span className={`mr-1.5 h-2 w-2 rounded-full ${
+        isEndOfLife ? 'bg-white' :
         status === 'active' ? 'bg-success-500' : 
         status === 'near-due' ? 'bg-warning-500' : 
         status === 'failed' ? 'bg-gray-500' :
+        status === 'retired' ? 'bg-gray-300' :
         status === 'in-testing' ? 'bg-primary-500' :
         'bg-danger-500'
       }`}></span>
@@ -1,5 +1,5 @@
 import React from 'react';
-import { CheckCircle, Clock, AlertTriangle, XCircle, TestTube } from 'lucide-react';
+import { CheckCircle, Clock, AlertTriangle, XCircle, TestTube, Archive, ShieldAlert } from 'lucide-react';
 import { AssetStatus } from '../../types';
 
 interface StatusIconProps {
@@ -24,6 +24,10 @@ const StatusIcon: React.FC<StatusIconProps> = ({ status, className = "h-5 w-5" }
       return <XCircle className={`${className} text-gray-500`} />;
     case 'in-testing':
       return <TestTube className={`${className} text-primary-500`} />;
+    case 'quarantined':
+      return <ShieldAlert className={`${className} text-danger-600`} />;
+    case 'retired':
+      return <Archive className={`${className} text-gray-400`} />;
     default:
       return null;
   }
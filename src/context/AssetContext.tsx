@@ -1,10 +1,134 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { format, addMonths } from 'date-fns';
-import { Asset, AssetStatus, CertificationDocument, OrganizationMember } from '../types';
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo } from 'react';
+import { format } from 'date-fns';
+import {
+  Asset,
+  AssetClass,
+  AssetMergeField,
+  AssetStatus,
+  AssetType,
+  CertificationDocument,
+  DefectCode,
+  FailureReport,
+  Inspection,
+  Kit,
+  Crew,
+  Location,
+  AssetMovement,
+  AssetCustody,
+  MateAction,
+  Notification,
+  OrganizationMember,
+  OrgSettings,
+  GloveSize,
+  Recall,
+  RecallResolution,
+  RetestIntervalRule,
+  Retirement,
+  ServiceLifeBasis,
+  ServiceLifeRule,
+  StockMinimum,
+  Supplier,
+  SupplierType,
+} from '../types';
 import { useUser, useOrganization, useAuth } from '@clerk/clerk-react';
 import { useRole } from '../hooks/useRole';
 import { useOrganizationData } from '../hooks/useOrganizationData';
 import { mapClerkMembershipToMember } from '../utils/organizationUtils';
+import { calculateCertificationDueDate, getRetestIntervalMonths } from '../utils/assetUtils';
+import { ASSET_TYPES, formatAssetAttributes, pickAssetAttributes, requiresDielectricTest } from '../utils/assetTypes';
+import { assertAssetStatusTransition, isDateDrivenStatus } from '../utils/assetLifecycle';
+import { fetchRetestRules, upsertRetestRule, deleteRetestRule as deleteRetestRuleRecord } from '../services/retestRuleService';
+import {
+  fetchServiceLifeRules,
+  upsertServiceLifeRule,
+  deleteServiceLifeRule as deleteServiceLifeRuleRecord,
+} from '../services/serviceLifeRuleService';
+import {
+  fetchStockMinimums,
+  upsertStockMinimum,
+  deleteStockMinimum as deleteStockMinimumRecord,
+} from '../services/stockMinimumService';
+import {
+  fetchSuppliers,
+  createSupplier,
+  deleteSupplier as deleteSupplierRecord,
+} from '../services/supplierService';
+import {
+  RecallNotice,
+  fetchRecalls,
+  issueRecall as issueRecallRecord,
+  resolveRecalledAsset as resolveRecalledAssetRecord,
+} from '../services/recallService';
+import {
+  fetchNotifications,
+  markNotificationsRead as markNotificationsReadRecord,
+} from '../services/notificationService';
+import {
+  fetchDefectCodes,
+  createDefectCode,
+  deleteDefectCode as deleteDefectCodeRecord,
+} from '../services/defectCodeService';
+import {
+  fetchCertifications,
+  recordCertification as recordCertificationRecord,
+  sortCertificationsByDate,
+  completeLabReturn as completeLabReturnRecord,
+  NewCertification,
+  LabReturn,
+} from '../services/certificationService';
+import { storeAssetFile } from '../services/documentService';
+import {
+  retireAsset as retireAssetRecord,
+  mergeAssets as mergeAssetRecords,
+  findAssetsBySerialNumber,
+} from '../services/assetService';
+import { fetchOrgSettings, upsertOrgSettings } from '../services/orgSettingsService';
+import { sendZplToPrinter } from '../services/printBridgeService';
+import { DEFAULT_FAILED_DISPOSAL_DAYS } from '../utils/retirementUtils';
+import { DEFAULT_ZPL_LABEL_LAYOUT } from '../utils/zplUtils';
+import {
+  fetchInspections,
+  recordInspection as recordInspectionRecord,
+  NewInspection,
+} from '../services/inspectionService';
+import { INSPECTION_HISTORY_DAYS } from '../utils/inspectionUtils';
+import { pairGloves as pairGlovesRecord, unpairGloves as unpairGlovesRecord } from '../services/pairService';
+import { getMate } from '../utils/pairUtils';
+import {
+  fetchKits,
+  createKit as createKitRecord,
+  updateKit as updateKitRecord,
+  deleteKit as deleteKitRecord,
+  setAssetsKit,
+  assignKit as assignKitRecord,
+  KitDetails,
+} from '../services/kitService';
+import {
+  fetchCrews,
+  createCrew as createCrewRecord,
+  updateCrew as updateCrewRecord,
+  deleteCrew as deleteCrewRecord,
+  CrewDetails,
+} from '../services/crewService';
+import {
+  fetchLocations,
+  createLocation as createLocationRecord,
+  updateLocation as updateLocationRecord,
+  deleteLocation as deleteLocationRecord,
+  moveAssetsToLocation as moveAssetsToLocationRecord,
+  fetchAssetMovements as fetchAssetMovementRecords,
+  LocationDetails,
+} from '../services/locationService';
+import {
+  fetchAssetCustody as fetchAssetCustodyRecords,
+  fetchPendingAcknowledgements as fetchPendingAcknowledgementRecords,
+  fetchCustodyOnDate as fetchCustodyOnDateRecords,
+  acknowledgeCustody as acknowledgeCustodyRecord,
+  setAssetsHolder,
+} from '../services/custodyService';
+import { withPairedMates } from '../utils/kitUtils';
+import { parseScannedCode } from '../utils/scanUtils';
+import { getServiceLifeEndDate } from '../utils/serviceLifeUtils';
 import { createClient } from '@supabase/supabase-js';
 import { Database } from '../lib/database.types';
 import toast from 'react-hot-toast';
@@ -12,24 +136,101 @@ import toast from 'react-hot-toast';
 interface AssetContextType {
   assets: Asset[];
   organizationMembers: OrganizationMember[];
+  retestRules: RetestIntervalRule[];
+  serviceLifeRules: ServiceLifeRule[];
+  stockMinimums: StockMinimum[];
+  defectCodes: DefectCode[];
+  orgSettings: OrgSettings;
+  inspections: Inspection[];
+  kits: Kit[];
+  crews: Crew[];
+  locations: Location[];
+  suppliers: Supplier[];
+  recalls: Recall[];
+  notifications: Notification[];
   isLoading: boolean;
   error: string | null;
-  addAsset: (asset: Omit<Asset, 'id' | 'status' | 'nextCertificationDate' | 'certificationDocuments' | 'orgId'>) => Promise<void>;
+  addAsset: (asset: Omit<Asset, 'id' | 'status' | 'nextCertificationDate' | 'certificationDocuments' | 'certifications' | 'orgId'>) => Promise<void>;
   updateAsset: (id: string, asset: Partial<Asset>) => Promise<void>;
   deleteAsset: (id: string) => Promise<void>;
   uploadDocument: (assetId: string, file: File) => Promise<void>;
   bulkUploadDocument: (assetIds: string[], file: File) => Promise<void>;
-  markAsFailed: (id: string, reason: string) => Promise<void>;
+  markAsFailed: (id: string, report: FailureReport, mateAction?: MateAction) => Promise<void>;
   markAsInTesting: (id: string) => Promise<void>;
+  recordCertification: (assetId: string, certification: Omit<NewCertification, 'nextCertificationDate'>) => Promise<void>;
+  completeLabReturn: (
+    assetId: string,
+    labReturn: Omit<LabReturn, 'certificate'>,
+    certificateFile?: File,
+    includeMate?: boolean
+  ) => Promise<void>;
+  retireAsset: (assetId: string, retirement: Retirement, certificateFile?: File) => Promise<void>;
+  recordInspection: (assetId: string, inspection: Omit<NewInspection, 'photo'>, photoFile?: File) => Promise<void>;
+  pairGloves: (leftAssetId: string, rightAssetId: string) => Promise<void>;
+  unpairGloves: (pairId: string) => Promise<void>;
+  createKit: (details: KitDetails, assetIds: string[]) => Promise<void>;
+  updateKit: (kitId: string, details: KitDetails) => Promise<void>;
+  deleteKit: (kitId: string) => Promise<void>;
+  addAssetsToKit: (kitId: string, assetIds: string[]) => Promise<void>;
+  removeAssetsFromKit: (assetIds: string[]) => Promise<void>;
+  assignKit: (kitId: string, userId: string | null) => Promise<void>;
+  getKitById: (id: string) => Kit | undefined;
+  getKitsByUser: (userId: string) => Kit[];
+  createCrew: (details: CrewDetails, memberIds: string[]) => Promise<void>;
+  updateCrew: (crewId: string, details: CrewDetails, memberIds: string[]) => Promise<void>;
+  deleteCrew: (crewId: string) => Promise<void>;
+  getCrewById: (id: string) => Crew | undefined;
+  createLocation: (details: LocationDetails) => Promise<void>;
+  updateLocation: (locationId: string, details: LocationDetails) => Promise<void>;
+  deleteLocation: (locationId: string) => Promise<void>;
+  moveAssetsToLocation: (assetIds: string[], locationId: string) => Promise<void>;
+  getLocationById: (id: string) => Location | undefined;
+  addSupplier: (supplierType: SupplierType, name: string) => Promise<void>;
+  deleteSupplier: (id: string) => Promise<void>;
+  getSupplierById: (id: string) => Supplier | undefined;
+  issueRecall: (notice: RecallNotice) => Promise<void>;
+  resolveRecalledAsset: (recallAssetId: string, resolution: RecallResolution, notes?: string) => Promise<void>;
+  markNotificationsRead: (ids: string[]) => Promise<void>;
+  fetchAssetMovements: (assetId: string) => Promise<AssetMovement[]>;
+  fetchAssetCustody: (assetId: string) => Promise<AssetCustody[]>;
+  fetchPendingAcknowledgements: () => Promise<AssetCustody[]>;
+  fetchCustodyOnDate: (date: string) => Promise<AssetCustody[]>;
+  acknowledgeCustody: (custody: AssetCustody, name: string, signatureFile?: File) => Promise<AssetCustody>;
+  checkOutAssets: (assetIds: string[], userId: string) => Promise<void>;
+  checkInAssets: (assetIds: string[], locationId?: string) => Promise<void>;
+  lookupAsset: (code: string) => Promise<Asset | undefined>;
+  mergeAssets: (survivorId: string, duplicateId: string, fields: AssetMergeField[]) => Promise<void>;
   getAssetsByUser: (userId: string) => Asset[];
   getAssetById: (id: string) => Asset | undefined;
   importAssets: (assets: Partial<Asset>[]) => Promise<void>;
   exportAssets: () => string;
+  saveRetestRule: (assetType: AssetType, assetClass: AssetClass, intervalMonths: number) => Promise<void>;
+  deleteRetestRule: (id: string) => Promise<void>;
+  saveServiceLifeRule: (assetType: AssetType, assetClass: AssetClass, maxAgeMonths: number, measuredFrom: ServiceLifeBasis) => Promise<void>;
+  deleteServiceLifeRule: (id: string) => Promise<void>;
+  saveStockMinimum: (assetClass: AssetClass, gloveSize: GloveSize, minimumOnHand: number) => Promise<void>;
+  deleteStockMinimum: (id: string) => Promise<void>;
+  addDefectCode: (code: string, label: string) => Promise<void>;
+  deleteDefectCode: (id: string) => Promise<void>;
+  saveOrgSettings: (settings: OrgSettings) => Promise<void>;
+  printZplLabels: (zpl: string, labelCount: number) => Promise<void>;
 }
 
 const AssetContext = createContext<AssetContextType>({
   assets: [],
   organizationMembers: [],
+  retestRules: [],
+  serviceLifeRules: [],
+  stockMinimums: [],
+  defectCodes: [],
+  orgSettings: { failedDisposalDays: DEFAULT_FAILED_DISPOSAL_DAYS, labelLayout: DEFAULT_ZPL_LABEL_LAYOUT },
+  inspections: [],
+  kits: [],
+  crews: [],
+  locations: [],
+  suppliers: [],
+  recalls: [],
+  notifications: [],
   isLoading: false,
   error: null,
   addAsset: async () => {},
@@ -39,10 +240,58 @@ const AssetContext = createContext<AssetContextType>({
   bulkUploadDocument: async () => {},
   markAsFailed: async () => {},
   markAsInTesting: async () => {},
+  recordCertification: async () => {},
+  completeLabReturn: async () => {},
+  retireAsset: async () => {},
+  recordInspection: async () => {},
+  pairGloves: async () => {},
+  unpairGloves: async () => {},
+  createKit: async () => {},
+  updateKit: async () => {},
+  deleteKit: async () => {},
+  addAssetsToKit: async () => {},
+  removeAssetsFromKit: async () => {},
+  assignKit: async () => {},
+  getKitById: () => undefined,
+  getKitsByUser: () => [],
+  createCrew: async () => {},
+  updateCrew: async () => {},
+  deleteCrew: async () => {},
+  getCrewById: () => undefined,
+  createLocation: async () => {},
+  updateLocation: async () => {},
+  deleteLocation: async () => {},
+  moveAssetsToLocation: async () => {},
+  getLocationById: () => undefined,
+  addSupplier: async () => {},
+  deleteSupplier: async () => {},
+  getSupplierById: () => undefined,
+  issueRecall: async () => {},
+  resolveRecalledAsset: async () => {},
+  markNotificationsRead: async () => {},
+  fetchAssetMovements: async () => [],
+  fetchAssetCustody: async () => [],
+  fetchPendingAcknowledgements: async () => [],
+  fetchCustodyOnDate: async () => [],
+  acknowledgeCustody: async (custody) => custody,
+  checkOutAssets: async () => {},
+  checkInAssets: async () => {},
+  lookupAsset: async () => undefined,
+  mergeAssets: async () => {},
   getAssetsByUser: () => [],
   getAssetById: () => undefined,
   importAssets: async () => {},
   exportAssets: () => '',
+  saveRetestRule: async () => {},
+  deleteRetestRule: async () => {},
+  saveServiceLifeRule: async () => {},
+  deleteServiceLifeRule: async () => {},
+  saveStockMinimum: async () => {},
+  deleteStockMinimum: async () => {},
+  addDefectCode: async () => {},
+  deleteDefectCode: async () => {},
+  saveOrgSettings: async () => {},
+  printZplLabels: async () => {},
 });
 
 export const useAssets = () => useContext(AssetContext);
@@ -111,7 +360,9 @@ const createSupabaseClient = (getToken: () => Promise<string | null>) => {
   });
 };
 
-const calculateAssetStatus = (nextCertificationDate: string): AssetStatus => {
+const calculateAssetStatus = (nextCertificationDate?: string): AssetStatus => {
+  if (!nextCertificationDate) return 'active';
+
   const now = new Date();
   const certDate = new Date(nextCertificationDate);
   const daysUntilExpiration = Math.floor((certDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
@@ -129,18 +380,57 @@ const mapDatabaseAssetToAsset = (dbAsset: Database['public']['Tables']['assets']
   id: dbAsset.id,
   orgId: dbAsset.org_id,
   serialNumber: dbAsset.serial_number,
+  assetType: dbAsset.asset_type as Asset['assetType'],
   assetClass: dbAsset.asset_class as Asset['assetClass'],
   gloveSize: dbAsset.glove_size as Asset['gloveSize'],
   gloveColor: dbAsset.glove_color as Asset['gloveColor'],
   issueDate: dbAsset.issue_date,
-  lastCertificationDate: dbAsset.last_certification_date,
-  nextCertificationDate: dbAsset.next_certification_date,
+  manufactureDate: dbAsset.manufacture_date || undefined,
+  lastCertificationDate: dbAsset.last_certification_date || undefined,
+  nextCertificationDate: dbAsset.next_certification_date || undefined,
+  inStock: dbAsset.in_stock || undefined,
+  inServiceDate: dbAsset.in_service_date || undefined,
   status: dbAsset.status as AssetStatus,
   failureDate: dbAsset.failure_date || undefined,
   failureReason: dbAsset.failure_reason || undefined,
+  failureDefectCode: dbAsset.failure_defect_code || undefined,
+  failureLocation: (dbAsset.failure_location || undefined) as Asset['failureLocation'],
+  failureNotes: dbAsset.failure_notes || undefined,
+  failureReportedBy: dbAsset.failure_reported_by || undefined,
+  failureCertificationId: dbAsset.failure_certification_id || undefined,
+  failureInspectionId: dbAsset.failure_inspection_id || undefined,
+  retiredDate: dbAsset.retired_date || undefined,
+  disposalMethod: (dbAsset.disposal_method || undefined) as Asset['disposalMethod'],
+  disposalWitness: dbAsset.disposal_witness || undefined,
+  retiredBy: dbAsset.retired_by || undefined,
+  destructionDocumentId: dbAsset.destruction_document_id || undefined,
   testingStartDate: dbAsset.testing_start_date || undefined,
   assignedUserId: dbAsset.assigned_user_id || null,
+  attributes: (dbAsset.attributes || {}) as Asset['attributes'],
+  pairId: dbAsset.pair_id || undefined,
+  hand: (dbAsset.hand || undefined) as Asset['hand'],
+  kitId: dbAsset.kit_id || undefined,
+  locationId: dbAsset.location_id || undefined,
+  serialConflict: dbAsset.serial_conflict || undefined,
+  manufacturerId: dbAsset.manufacturer_id || undefined,
+  model: dbAsset.model || undefined,
+  lotNumber: dbAsset.lot_number || undefined,
+  vendorId: dbAsset.vendor_id || undefined,
+  purchaseOrder: dbAsset.purchase_order || undefined,
+  unitCost: dbAsset.unit_cost ?? undefined,
   certificationDocuments: [],
+  certifications: [],
+});
+
+// Where an asset was made and bought and what it cost; cleared fields are stored as null
+const toProcurementColumns = (asset: Partial<Asset>) => ({
+  manufacture_date: asset.manufactureDate || null,
+  manufacturer_id: asset.manufacturerId || null,
+  model: asset.model?.trim() || null,
+  lot_number: asset.lotNumber?.trim() || null,
+  vendor_id: asset.vendorId || null,
+  purchase_order: asset.purchaseOrder?.trim() || null,
+  unit_cost: asset.unitCost ?? null,
 });
 
 export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -150,14 +440,29 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
   const { isAdmin } = useRole();
   const { members } = useOrganizationData();
   const [assets, setAssets] = useState<Asset[]>([]);
+  const [retestRules, setRetestRules] = useState<RetestIntervalRule[]>([]);
+  const [serviceLifeRules, setServiceLifeRules] = useState<ServiceLifeRule[]>([]);
+  const [stockMinimums, setStockMinimums] = useState<StockMinimum[]>([]);
+  const [defectCodes, setDefectCodes] = useState<DefectCode[]>([]);
+  const [orgSettings, setOrgSettings] = useState<OrgSettings>({ failedDisposalDays: DEFAULT_FAILED_DISPOSAL_DAYS, labelLayout: DEFAULT_ZPL_LABEL_LAYOUT });
+  const [inspections, setInspections] = useState<Inspection[]>([]);
+  const [kits, setKits] = useState<Kit[]>([]);
+  const [crews, setCrews] = useState<Crew[]>([]);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [recalls, setRecalls] = useState<Recall[]>([]);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   // Map Clerk members to OrganizationMember type
   const organizationMembers: OrganizationMember[] = members.map(mapClerkMembershipToMember);
 
-  // Create Supabase client with token function
-  const supabaseClient = createSupabaseClient(() => getToken({ template: 'supabase' }));
+  // Create Supabase client with token function; kept across renders so callbacks using it stay stable
+  const supabaseClient = useMemo(
+    () => createSupabaseClient(() => getToken({ template: 'supabase' })),
+    [getToken]
+  );
 
   const fetchAssets = async () => {
     if (!organization?.id || !user) {
@@ -208,6 +513,45 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
       console.log('Documents fetched successfully:', documentsData?.length || 0);
 
+      const rulesData = await fetchRetestRules(supabaseClient, organization.id);
+      setRetestRules(rulesData);
+
+      const serviceLifeRulesData = await fetchServiceLifeRules(supabaseClient, organization.id);
+      setServiceLifeRules(serviceLifeRulesData);
+
+      const stockMinimumsData = await fetchStockMinimums(supabaseClient, organization.id);
+      setStockMinimums(stockMinimumsData);
+
+      const defectCodesData = await fetchDefectCodes(supabaseClient, organization.id);
+      setDefectCodes(defectCodesData);
+
+      const settingsData = await fetchOrgSettings(supabaseClient, organization.id);
+      setOrgSettings(settingsData);
+
+      const inspectionsSince = new Date(Date.now() - INSPECTION_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+      const inspectionsData = await fetchInspections(supabaseClient, organization.id, inspectionsSince);
+      setInspections(inspectionsData);
+
+      const kitsData = await fetchKits(supabaseClient, organization.id);
+      setKits(kitsData);
+
+      const crewsData = await fetchCrews(supabaseClient, organization.id);
+      setCrews(crewsData);
+
+      const locationsData = await fetchLocations(supabaseClient, organization.id);
+      setLocations(locationsData);
+
+      const suppliersData = await fetchSuppliers(supabaseClient, organization.id);
+      setSuppliers(suppliersData);
+
+      const recallsData = await fetchRecalls(supabaseClient, organization.id);
+      setRecalls(recallsData);
+
+      const notificationsData = await fetchNotifications(supabaseClient, organization.id, user.id);
+      setNotifications(notificationsData);
+
+      const certificationsData = await fetchCertifications(supabaseClient, organization.id);
+
       const processedAssets = (assetsData || []).map(dbAsset => {
         const asset = mapDatabaseAssetToAsset(dbAsset);
         asset.certificationDocuments = (documentsData || [])
@@ -220,6 +564,9 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
             uploadDate: doc.upload_date,
             uploadedBy: doc.uploaded_by,
           }));
+        asset.certifications = sortCertificationsByDate(
+          certificationsData.filter(certification => certification.assetId === asset.id)
+        );
         return asset;
       });
 
@@ -238,11 +585,24 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     fetchAssets();
   }, [organization?.id, user]);
 
-  const addAsset = async (assetData: Omit<Asset, 'id' | 'status' | 'nextCertificationDate' | 'certificationDocuments' | 'orgId'>) => {
+  const addAsset = async (assetData: Omit<Asset, 'id' | 'status' | 'nextCertificationDate' | 'certificationDocuments' | 'certifications' | 'orgId'>) => {
     if (!organization?.id) throw new Error('No organization found');
     if (!user?.id) throw new Error('No user found');
 
-    const nextCertificationDate = format(addMonths(new Date(assetData.lastCertificationDate), 6), 'yyyy-MM-dd');
+    // Leather protectors are never dielectric tested, so they carry no certification dates
+    const isTested = requiresDielectricTest(assetData.assetType);
+    if (isTested && !assetData.lastCertificationDate) {
+      throw new Error(`${ASSET_TYPES[assetData.assetType].pluralLabel} need a last certification date`);
+    }
+    const lastCertificationDate = isTested ? assetData.lastCertificationDate : undefined;
+    // Assets created without a holder start in stock
+    const nextCertificationDate = lastCertificationDate
+      ? calculateCertificationDueDate(
+          lastCertificationDate,
+          getRetestIntervalMonths(retestRules, assetData.assetType, assetData.assetClass),
+          assetData.assignedUserId ? assetData.issueDate : undefined
+        )
+      : undefined;
     const status = calculateAssetStatus(nextCertificationDate);
 
     try {
@@ -251,14 +611,18 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       const insertData = {
         org_id: organization.id,
         serial_number: assetData.serialNumber,
+        asset_type: assetData.assetType,
         asset_class: assetData.assetClass,
-        glove_size: assetData.gloveSize,
-        glove_color: assetData.gloveColor,
+        glove_size: ASSET_TYPES[assetData.assetType].hasGloveSize ? assetData.gloveSize : null,
+        glove_color: ASSET_TYPES[assetData.assetType].hasGloveColor ? assetData.gloveColor : null,
+        attributes: pickAssetAttributes(assetData.assetType, assetData.attributes),
         issue_date: assetData.issueDate,
-        last_certification_date: assetData.lastCertificationDate,
+        last_certification_date: lastCertificationDate,
         next_certification_date: nextCertificationDate,
         status,
         assigned_user_id: assetData.assignedUserId,
+        location_id: assetData.locationId || null,
+        ...toProcurementColumns(assetData),
       };
 
       console.log('Inserting asset with data:', insertData);
@@ -282,6 +646,8 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
 
       console.log('Asset created successfully:', data);
       const newAsset = mapDatabaseAssetToAsset(data);
+      // The initial certification is seeded by a database trigger
+      newAsset.certifications = await fetchCertifications(supabaseClient, organization.id, [newAsset.id]);
       setAssets(prev => [...prev, newAsset]);
       toast.success('Asset created successfully');
     } catch (error: any) {
@@ -291,25 +657,103 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   };
 
+  // Swap in a freshly fetched asset row, keeping the related records already loaded for it
+  const replaceAsset = (updatedAsset: Asset) => {
+    setAssets(prev => prev.map(asset => asset.id === updatedAsset.id
+      ? {
+          ...updatedAsset,
+          certificationDocuments: asset.certificationDocuments,
+          certifications: asset.certifications,
+        }
+      : asset
+    ));
+  };
+
+  // Re-read assets changed server-side, e.g. a mate kept in step by the pair trigger
+  const refreshAssets = async (ids: string[]) => {
+    if (!organization?.id || ids.length === 0) return;
+
+    const { data, error } = await supabaseClient
+      .from('assets')
+      .select('*')
+      .in('id', ids)
+      .eq('org_id', organization.id);
+
+    if (error) throw error;
+
+    (data || []).forEach(dbAsset => replaceAsset(mapDatabaseAssetToAsset(dbAsset)));
+  };
+
   const updateAsset = async (id: string, assetData: Partial<Asset>) => {
     if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
+
+    // The asset type is fixed once created; it decides which fields apply
+    const currentAsset = assets.find(asset => asset.id === id);
+    const assetType = currentAsset?.assetType || 'glove';
+    const typeConfig = ASSET_TYPES[assetType];
 
     const updateData: Database['public']['Tables']['assets']['Update'] = {
       serial_number: assetData.serialNumber,
       asset_class: assetData.assetClass,
-      glove_size: assetData.gloveSize,
-      glove_color: assetData.gloveColor,
+      glove_size: typeConfig.hasGloveSize ? assetData.gloveSize : undefined,
+      glove_color: typeConfig.hasGloveColor ? assetData.gloveColor : undefined,
+      attributes: assetData.attributes ? pickAssetAttributes(assetType, assetData.attributes) : undefined,
       assigned_user_id: assetData.assignedUserId,
+      location_id: assetData.locationId || null,
+      ...toProcurementColumns(assetData),
     };
 
-    if (assetData.lastCertificationDate) {
-      const nextCertificationDate = format(addMonths(new Date(assetData.lastCertificationDate), 6), 'yyyy-MM-dd');
-      updateData.last_certification_date = assetData.lastCertificationDate;
-      updateData.next_certification_date = nextCertificationDate;
-      updateData.status = calculateAssetStatus(nextCertificationDate);
+    // A new certification date is a recertification: add it to the history instead of overwriting
+    const isRecertification = !!assetData.lastCertificationDate &&
+      assetData.lastCertificationDate !== currentAsset?.lastCertificationDate;
+
+    // Recompute certification dates when the date or the class (and so the interval) changes.
+    // A recertified asset nobody holds goes back to stock.
+    const lastCertificationDate = assetData.lastCertificationDate || currentAsset?.lastCertificationDate;
+    const assetClass = assetData.assetClass || currentAsset?.assetClass;
+    const assignedUserId = assetData.assignedUserId !== undefined ? assetData.assignedUserId : currentAsset?.assignedUserId;
+    let nextCertificationDate: string | undefined;
+    if (
+      requiresDielectricTest(assetType) &&
+      lastCertificationDate &&
+      assetClass &&
+      (assetData.lastCertificationDate || assetData.assetClass)
+    ) {
+      nextCertificationDate = calculateCertificationDueDate(
+        lastCertificationDate,
+        getRetestIntervalMonths(retestRules, assetType, assetClass),
+        isRecertification
+          ? (assignedUserId ? lastCertificationDate : undefined)
+          : currentAsset?.inServiceDate
+      );
+
+      // A recertification's certification row is the only writer of the asset's dates and status:
+      // the certification trigger copies them from the latest passing row, so a backdated
+      // correction does not overwrite a newer test
+      if (!isRecertification) {
+        updateData.last_certification_date = lastCertificationDate;
+        updateData.next_certification_date = nextCertificationDate;
+
+        // Only date-driven statuses follow the dates; in-testing and failed assets keep theirs
+        if (!currentAsset || isDateDrivenStatus(currentAsset.status)) {
+          updateData.status = calculateAssetStatus(nextCertificationDate);
+        }
+      }
     }
 
     try {
+      if (isRecertification && assetData.lastCertificationDate && nextCertificationDate) {
+        const certification = await recordCertificationRecord(supabaseClient, organization.id, user.id, id, {
+          certificationDate: assetData.lastCertificationDate,
+          nextCertificationDate,
+        });
+        setAssets(prev => prev.map(asset => asset.id === id
+          ? { ...asset, certifications: sortCertificationsByDate([certification, ...asset.certifications]) }
+          : asset
+        ));
+      }
+
       const { data, error } = await supabaseClient
         .from('assets')
         .update(updateData)
@@ -323,8 +767,13 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         throw new Error(`Failed to update asset: ${error.message}`);
       }
 
-      const updatedAsset = mapDatabaseAssetToAsset(data);
-      setAssets(prev => prev.map(asset => asset.id === id ? updatedAsset : asset));
+      replaceAsset(mapDatabaseAssetToAsset(data));
+
+      // Reassigning a paired glove reassigns its mate server-side
+      const mate = currentAsset && getMate(currentAsset, assets);
+      if (mate && data.assigned_user_id !== currentAsset?.assignedUserId) {
+        await refreshAssets([mate.id]);
+      }
       toast.success('Asset updated successfully');
     } catch (error: any) {
       console.error('Error in updateAsset:', error);
@@ -348,7 +797,14 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         throw new Error(`Failed to delete asset: ${error.message}`);
       }
 
-      setAssets(prev => prev.filter(asset => asset.id !== id));
+      // Deleting a paired glove dissolves its pair server-side
+      const deletedAsset = assets.find(asset => asset.id === id);
+      setAssets(prev => prev
+        .filter(asset => asset.id !== id)
+        .map(asset => deletedAsset?.pairId && asset.pairId === deletedAsset.pairId
+          ? { ...asset, pairId: undefined, hand: undefined }
+          : asset
+        ));
       toast.success('Asset deleted successfully');
     } catch (error: any) {
       console.error('Error in deleteAsset:', error);
@@ -456,30 +912,90 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     }
   };
 
-  const markAsFailed = async (id: string, reason: string) => {
+  const failAsset = async (id: string, report: FailureReport): Promise<Asset> => {
+    if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
+
+    const { data, error } = await supabaseClient
+      .from('assets')
+      .update({
+        status: 'failed',
+        failure_date: format(new Date(), 'yyyy-MM-dd'),
+        // failure_reason is summarized from these columns server-side
+        failure_defect_code: report.defectCode,
+        failure_location: report.location || null,
+        failure_notes: report.notes || null,
+        failure_reported_by: user.id,
+      })
+      .eq('id', id)
+      .eq('org_id', organization.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Mark as failed error:', error);
+      throw new Error(`Failed to mark asset as failed: ${error.message}`);
+    }
+
+    return mapDatabaseAssetToAsset(data);
+  };
+
+  const sendAssetToTesting = async (id: string): Promise<Asset> => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    const { data, error } = await supabaseClient
+      .from('assets')
+      .update({
+        status: 'in-testing',
+        testing_start_date: format(new Date(), 'yyyy-MM-dd'),
+      })
+      .eq('id', id)
+      .eq('org_id', organization.id)
+      .select()
+      .single();
+
+    if (error) {
+      console.error('Mark as in testing error:', error);
+      throw new Error(`Failed to mark asset as in testing: ${error.message}`);
+    }
+
+    return mapDatabaseAssetToAsset(data);
+  };
+
+  const markAsFailed = async (id: string, report: FailureReport, mateAction?: MateAction) => {
     if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
 
     try {
-      const { data, error } = await supabaseClient
-        .from('assets')
-        .update({
-          status: 'failed',
-          failure_date: format(new Date(), 'yyyy-MM-dd'),
-          failure_reason: reason,
-        })
-        .eq('id', id)
-        .eq('org_id', organization.id)
-        .select()
-        .single();
+      const currentAsset = assets.find(asset => asset.id === id);
+      if (currentAsset) assertAssetStatusTransition(currentAsset, 'failed');
 
-      if (error) {
-        console.error('Mark as failed error:', error);
-        throw new Error(`Failed to mark asset as failed: ${error.message}`);
+      // The mate is only touched when the user chose what to do with it
+      const mate = currentAsset && mateAction ? getMate(currentAsset, assets) : undefined;
+      if (mate && mateAction === 'fail') assertAssetStatusTransition(mate, 'failed');
+      if (mate && mateAction === 'send-to-testing') assertAssetStatusTransition(mate, 'in-testing');
+
+      replaceAsset(await failAsset(id, report));
+
+      if (mate?.pairId) {
+        if (mateAction === 'fail') {
+          replaceAsset(await failAsset(mate.id, report));
+        } else {
+          // The surviving glove leaves the pair so it can be matched again
+          await unpairGlovesRecord(supabaseClient, mate.pairId);
+          if (mateAction === 'send-to-testing') {
+            await sendAssetToTesting(mate.id);
+          }
+          await refreshAssets([id, mate.id]);
+        }
+      }
+
+      // Failing a quarantined asset resolves its open recall entries server-side
+      if (currentAsset?.status === 'quarantined' || mate?.status === 'quarantined') {
+        setRecalls(await fetchRecalls(supabaseClient, organization.id));
       }
 
-      const updatedAsset = mapDatabaseAssetToAsset(data);
-      setAssets(prev => prev.map(asset => asset.id === id ? updatedAsset : asset));
-      toast.success('Asset marked as failed');
+      toast.success(mate && mateAction === 'fail' ? 'Pair marked as failed' : 'Asset marked as failed');
     } catch (error: any) {
       console.error('Error in markAsFailed:', error);
       toast.error(`Failed to mark asset as failed: ${error.message}`);
@@ -491,28 +1007,156 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     if (!organization?.id) throw new Error('No organization found');
 
     try {
+      const currentAsset = assets.find(asset => asset.id === id);
+      if (currentAsset) assertAssetStatusTransition(currentAsset, 'in-testing');
+
+      replaceAsset(await sendAssetToTesting(id));
+
+      // Pairs ship to the lab together; the mate follows server-side
+      const mate = currentAsset && getMate(currentAsset, assets);
+      if (mate) {
+        await refreshAssets([mate.id]);
+      }
+      toast.success(mate && isDateDrivenStatus(mate.status)
+        ? 'Pair marked as in testing'
+        : 'Asset marked as in testing');
+    } catch (error: any) {
+      console.error('Error in markAsInTesting:', error);
+      toast.error(`Failed to mark asset as in testing: ${error.message}`);
+      throw error;
+    }
+  };
+
+  const recordCertification = async (
+    assetId: string,
+    certificationData: Omit<NewCertification, 'nextCertificationDate'>
+  ) => {
+    if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
+
+    const currentAsset = assets.find(asset => asset.id === assetId);
+    if (!currentAsset) throw new Error('Asset not found');
+
+    try {
+      const certification = await recordCertificationRecord(supabaseClient, organization.id, user.id, assetId, {
+        ...certificationData,
+        nextCertificationDate: calculateCertificationDueDate(
+          certificationData.certificationDate,
+          getRetestIntervalMonths(retestRules, currentAsset.assetType, currentAsset.assetClass),
+          currentAsset.assignedUserId ? certificationData.certificationDate : undefined
+        ),
+      });
+
+      // Dates, status and failure details are applied to the asset server-side
       const { data, error } = await supabaseClient
         .from('assets')
-        .update({
-          status: 'in-testing',
-          testing_start_date: format(new Date(), 'yyyy-MM-dd'),
-        })
-        .eq('id', id)
+        .select('*')
+        .eq('id', assetId)
         .eq('org_id', organization.id)
-        .select()
         .single();
 
       if (error) {
-        console.error('Mark as in testing error:', error);
-        throw new Error(`Failed to mark asset as in testing: ${error.message}`);
+        console.error('Asset refresh error:', error);
+        throw new Error(`Failed to refresh asset: ${error.message}`);
       }
 
-      const updatedAsset = mapDatabaseAssetToAsset(data);
-      setAssets(prev => prev.map(asset => asset.id === id ? updatedAsset : asset));
-      toast.success('Asset marked as in testing');
-    } catch (error: any) {
-      console.error('Error in markAsInTesting:', error);
-      toast.error(`Failed to mark asset as in testing: ${error.message}`);
+      setAssets(prev => prev.map(asset => asset.id === assetId
+        ? {
+            ...mapDatabaseAssetToAsset(data),
+            certificationDocuments: asset.certificationDocuments,
+            certifications: sortCertificationsByDate([certification, ...asset.certifications]),
+          }
+        : asset
+      ));
+      toast.success(certification.result === 'pass'
+        ? 'Certification recorded'
+        : 'Failed test recorded and asset marked as failed');
+    } catch (error) {
+      console.error('Error in recordCertification:', error);
+      toast.error(`Failed to record certification: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const completeLabReturn = async (
+    assetId: string,
+    labReturn: Omit<LabReturn, 'certificate'>,
+    certificateFile?: File,
+    includeMate = false
+  ) => {
+    if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
+
+    // A mate shipped in the same batch can share the result and certificate
+    const currentAsset = assets.find(asset => asset.id === assetId);
+    const mate = currentAsset && getMate(currentAsset, assets);
+    const returningMate = includeMate && mate?.status === 'in-testing' ? mate : undefined;
+
+    try {
+      const certificate = certificateFile
+        ? await storeAssetFile(organization.id, user.id, assetId, certificateFile)
+        : undefined;
+
+      const newCertifications = [
+        await completeLabReturnRecord(supabaseClient, assetId, { ...labReturn, certificate }),
+      ];
+      if (returningMate) {
+        newCertifications.push(
+          await completeLabReturnRecord(supabaseClient, returningMate.id, { ...labReturn, certificate })
+        );
+      }
+
+      // A glove that failed on its own leaves the pair so its mate can be matched again
+      if (
+        labReturn.result === 'fail' &&
+        mate?.pairId &&
+        !returningMate &&
+        mate.status !== 'failed' &&
+        mate.status !== 'retired'
+      ) {
+        await unpairGlovesRecord(supabaseClient, mate.pairId);
+      }
+
+      // The assets and their new certificates were written server-side
+      const refreshedIds = mate ? [assetId, mate.id] : [assetId];
+      const [assetsResponse, documentsResponse] = await Promise.all([
+        supabaseClient.from('assets').select('*').in('id', refreshedIds).eq('org_id', organization.id),
+        supabaseClient.from('certification_documents').select('*').in('asset_id', refreshedIds).eq('org_id', organization.id),
+      ]);
+
+      if (assetsResponse.error) throw assetsResponse.error;
+      if (documentsResponse.error) throw documentsResponse.error;
+
+      setAssets(prev => prev.map(asset => {
+        const dbAsset = (assetsResponse.data || []).find(row => row.id === asset.id);
+        if (!dbAsset) return asset;
+
+        return {
+          ...mapDatabaseAssetToAsset(dbAsset),
+          certificationDocuments: (documentsResponse.data || [])
+            .filter(doc => doc.asset_id === asset.id)
+            .map(doc => ({
+              id: doc.id,
+              assetId: doc.asset_id,
+              fileName: doc.file_name,
+              fileUrl: doc.file_url,
+              uploadDate: doc.upload_date,
+              uploadedBy: doc.uploaded_by,
+            })),
+          certifications: sortCertificationsByDate([
+            ...newCertifications.filter(certification => certification.assetId === asset.id),
+            ...asset.certifications,
+          ]),
+        };
+      }));
+
+      const subject = returningMate ? 'Pair' : 'Asset';
+      toast.success(labReturn.result === 'pass'
+        ? `${subject} recertified and returned to service`
+        : `${subject} marked as failed`);
+    } catch (error) {
+      console.error('Error in completeLabReturn:', error);
+      toast.error(`Failed to complete lab return: ${(error as Error).message}`);
       throw error;
     }
   };
@@ -525,30 +1169,60 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     return assets.find(asset => asset.id === id);
   };
 
+  const getKitsByUser = (userId: string) => {
+    return kits.filter(kit => kit.assignedUserId === userId);
+  };
+
+  const getKitById = (id: string) => {
+    return kits.find(kit => kit.id === id);
+  };
+
+  const getCrewById = (id: string) => {
+    return crews.find(crew => crew.id === id);
+  };
+
+  const getLocationById = (id: string) => {
+    return locations.find(location => location.id === id);
+  };
+
   const importAssets = async (newAssets: Partial<Asset>[]) => {
     if (!organization?.id) throw new Error('No organization found');
 
     const assetsToInsert = newAssets.map(asset => {
-      if (!asset.lastCertificationDate) {
+      if (!asset.serialNumber?.trim()) {
+        throw new Error('Assets must include serialNumber');
+      }
+
+      const assetType = asset.assetType || 'glove';
+      const isTested = requiresDielectricTest(assetType);
+      if (isTested && !asset.lastCertificationDate) {
         throw new Error('Assets must include lastCertificationDate');
       }
 
-      const nextCertificationDate = format(
-        addMonths(new Date(asset.lastCertificationDate), 6),
-        'yyyy-MM-dd'
-      );
+      const assetClass = asset.assetClass || 'Class 1';
+      const lastCertificationDate = isTested ? asset.lastCertificationDate : undefined;
+      const nextCertificationDate = lastCertificationDate
+        ? calculateCertificationDueDate(
+            lastCertificationDate,
+            getRetestIntervalMonths(retestRules, assetType, assetClass),
+            asset.assignedUserId ? asset.issueDate || format(new Date(), 'yyyy-MM-dd') : undefined
+          )
+        : undefined;
 
       return {
         org_id: organization.id,
-        serial_number: asset.serialNumber || `SN-${Math.random().toString(36).substring(7)}`,
-        asset_class: asset.assetClass || 'Class 1',
-        glove_size: asset.gloveSize,
-        glove_color: asset.gloveColor,
+        serial_number: asset.serialNumber.trim(),
+        asset_type: assetType,
+        asset_class: assetClass,
+        glove_size: ASSET_TYPES[assetType].hasGloveSize ? asset.gloveSize : null,
+        glove_color: ASSET_TYPES[assetType].hasGloveColor ? asset.gloveColor : null,
+        attributes: pickAssetAttributes(assetType, asset.attributes),
         issue_date: asset.issueDate || format(new Date(), 'yyyy-MM-dd'),
-        last_certification_date: asset.lastCertificationDate,
+        last_certification_date: lastCertificationDate,
         next_certification_date: nextCertificationDate,
         status: calculateAssetStatus(nextCertificationDate),
         assigned_user_id: asset.assignedUserId,
+        ...toProcurementColumns(asset),
       };
     });
 
@@ -564,6 +1238,15 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
       }
 
       const importedAssets = (data || []).map(mapDatabaseAssetToAsset);
+      // Initial certifications are seeded by a database trigger
+      const importedCertifications = await fetchCertifications(
+        supabaseClient,
+        organization.id,
+        importedAssets.map(asset => asset.id)
+      );
+      importedAssets.forEach(asset => {
+        asset.certifications = importedCertifications.filter(certification => certification.assetId === asset.id);
+      });
       setAssets(prev => [...prev, ...importedAssets]);
       toast.success(`Imported ${importedAssets.length} assets`);
     } catch (error: any) {
@@ -577,37 +1260,829 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
     const headers = [
       'id',
       'serialNumber',
+      'assetType',
       'assetClass',
       'gloveSize',
       'gloveColor',
+      'attributes',
       'issueDate',
       'lastCertificationDate',
       'nextCertificationDate',
       'status',
       'assignedUserId',
+      'manufacturer',
+      'model',
+      'lotNumber',
+      'manufactureDate',
+      'vendor',
+      'purchaseOrder',
+      'unitCost',
+      'serviceLifeEndDate',
     ].join(',');
 
     const rows = assets.map(asset => [
       asset.id,
       asset.serialNumber,
+      asset.assetType,
       asset.assetClass,
       asset.gloveSize || '',
       asset.gloveColor || '',
+      formatAssetAttributes(asset.attributes),
       asset.issueDate,
-      asset.lastCertificationDate,
-      asset.nextCertificationDate,
+      asset.lastCertificationDate || '',
+      asset.nextCertificationDate || '',
       asset.status,
       asset.assignedUserId || '',
+      (asset.manufacturerId && getSupplierById(asset.manufacturerId)?.name) || '',
+      asset.model || '',
+      asset.lotNumber || '',
+      asset.manufactureDate || '',
+      (asset.vendorId && getSupplierById(asset.vendorId)?.name) || '',
+      asset.purchaseOrder || '',
+      asset.unitCost ?? '',
+      // Read-only on import; tells an asset at its end of life from one that missed a retest
+      getServiceLifeEndDate(asset, serviceLifeRules) || '',
     ].join(','));
 
     return [headers, ...rows].join('\n');
   };
 
+  const retireAsset = async (assetId: string, retirement: Retirement, certificateFile?: File) => {
+    if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
+
+    const currentAsset = assets.find(asset => asset.id === assetId);
+
+    try {
+      const certificate = certificateFile
+        ? await storeAssetFile(organization.id, user.id, assetId, certificateFile)
+        : undefined;
+
+      const retiredAsset = await retireAssetRecord(supabaseClient, assetId, retirement, certificate, currentAsset);
+
+      // The destruction certificate row was written server-side
+      const { data: documentsData, error: documentsError } = await supabaseClient
+        .from('certification_documents')
+        .select('*')
+        .eq('asset_id', assetId)
+        .eq('org_id', organization.id);
+
+      if (documentsError) throw documentsError;
+
+      setAssets(prev => prev.map(asset => asset.id === assetId
+        ? {
+            ...retiredAsset,
+            certificationDocuments: (documentsData || []).map(doc => ({
+              id: doc.id,
+              assetId: doc.asset_id,
+              fileName: doc.file_name,
+              fileUrl: doc.file_url,
+              uploadDate: doc.upload_date,
+              uploadedBy: doc.uploaded_by,
+            })),
+            certifications: asset.certifications,
+          }
+        : asset
+      ));
+      toast.success('Asset retired');
+    } catch (error) {
+      console.error('Error in retireAsset:', error);
+      toast.error(`Failed to retire asset: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const recordInspection = async (
+    assetId: string,
+    inspection: Omit<NewInspection, 'photo'>,
+    photoFile?: File
+  ) => {
+    if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
+
+    try {
+      const photo = photoFile
+        ? await storeAssetFile(organization.id, user.id, assetId, photoFile)
+        : undefined;
+
+      const savedInspection = await recordInspectionRecord(
+        supabaseClient,
+        organization.id,
+        user.id,
+        assetId,
+        { ...inspection, photo }
+      );
+      setInspections(prev => [savedInspection, ...prev]);
+
+      if (savedInspection.result === 'fail') {
+        // The asset was failed server-side
+        const { data, error } = await supabaseClient
+          .from('assets')
+          .select('*')
+          .eq('id', assetId)
+          .eq('org_id', organization.id)
+          .single();
+
+        if (error) throw error;
+
+        replaceAsset(mapDatabaseAssetToAsset(data));
+        toast.success('Inspection recorded. The asset has been taken out of service.');
+      } else {
+        toast.success('Inspection recorded');
+      }
+    } catch (error) {
+      console.error('Error in recordInspection:', error);
+      toast.error(`Failed to record inspection: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const pairGloves = async (leftAssetId: string, rightAssetId: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      await pairGlovesRecord(supabaseClient, leftAssetId, rightAssetId);
+
+      // Pairing also brings an unassigned glove to its mate's user
+      await refreshAssets([leftAssetId, rightAssetId]);
+      toast.success('Gloves paired');
+    } catch (error) {
+      console.error('Error in pairGloves:', error);
+      toast.error(`Failed to pair gloves: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const unpairGloves = async (pairId: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const pairedIds = assets.filter(asset => asset.pairId === pairId).map(asset => asset.id);
+      await unpairGlovesRecord(supabaseClient, pairId);
+      await refreshAssets(pairedIds);
+      toast.success('Gloves unpaired');
+    } catch (error) {
+      console.error('Error in unpairGloves:', error);
+      toast.error(`Failed to unpair gloves: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const createKit = async (details: KitDetails, assetIds: string[]) => {
+    if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
+
+    try {
+      const kit = await createKitRecord(supabaseClient, organization.id, user.id, details);
+      setKits(prev => [...prev, kit].sort((a, b) => a.name.localeCompare(b.name)));
+
+      if (assetIds.length > 0) {
+        const members = await setAssetsKit(supabaseClient, organization.id, withPairedMates(assetIds, assets), kit.id);
+        members.forEach(replaceAsset);
+      }
+      toast.success(`Kit ${kit.name} created`);
+    } catch (error) {
+      console.error('Error in createKit:', error);
+      toast.error(`Failed to create kit: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const updateKit = async (kitId: string, details: KitDetails) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const updatedKit = await updateKitRecord(supabaseClient, organization.id, kitId, details);
+      setKits(prev => prev.map(kit => kit.id === kitId ? updatedKit : kit));
+      toast.success('Kit updated');
+    } catch (error) {
+      console.error('Error in updateKit:', error);
+      toast.error(`Failed to update kit: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const deleteKit = async (kitId: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      await deleteKitRecord(supabaseClient, organization.id, kitId);
+      setKits(prev => prev.filter(kit => kit.id !== kitId));
+
+      // Members were released server-side and keep their assignment
+      setAssets(prev => prev.map(asset => asset.kitId === kitId ? { ...asset, kitId: undefined } : asset));
+      toast.success('Kit deleted');
+    } catch (error) {
+      console.error('Error in deleteKit:', error);
+      toast.error(`Failed to delete kit: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const addAssetsToKit = async (kitId: string, assetIds: string[]) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      // New members take the kit's assignee server-side
+      const members = await setAssetsKit(supabaseClient, organization.id, withPairedMates(assetIds, assets), kitId);
+      members.forEach(replaceAsset);
+      toast.success(`${members.length} ${members.length === 1 ? 'asset' : 'assets'} added to kit`);
+    } catch (error) {
+      console.error('Error in addAssetsToKit:', error);
+      toast.error(`Failed to add assets to kit: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const removeAssetsFromKit = async (assetIds: string[]) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const released = await setAssetsKit(supabaseClient, organization.id, withPairedMates(assetIds, assets), null);
+      released.forEach(replaceAsset);
+      toast.success(`${released.length} ${released.length === 1 ? 'asset' : 'assets'} removed from kit`);
+    } catch (error) {
+      console.error('Error in removeAssetsFromKit:', error);
+      toast.error(`Failed to remove assets from kit: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const assignKit = async (kitId: string, userId: string | null) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const updatedKit = await assignKitRecord(supabaseClient, kitId, userId);
+      setKits(prev => prev.map(kit => kit.id === kitId ? updatedKit : kit));
+
+      // Every member was reassigned server-side
+      await refreshAssets(assets.filter(asset => asset.kitId === kitId).map(asset => asset.id));
+      toast.success(userId ? 'Kit assigned' : 'Kit unassigned');
+    } catch (error) {
+      console.error('Error in assignKit:', error);
+      toast.error(`Failed to assign kit: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const createCrew = async (details: CrewDetails, memberIds: string[]) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const crew = await createCrewRecord(supabaseClient, organization.id, details, memberIds);
+
+      // Technicians may have moved over from other crews
+      setCrews(await fetchCrews(supabaseClient, organization.id));
+      toast.success(`Crew ${crew.name} created`);
+    } catch (error) {
+      console.error('Error in createCrew:', error);
+      toast.error(`Failed to create crew: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const updateCrew = async (crewId: string, details: CrewDetails, memberIds: string[]) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      await updateCrewRecord(supabaseClient, organization.id, crewId, details, memberIds);
+      setCrews(await fetchCrews(supabaseClient, organization.id));
+      toast.success('Crew updated');
+    } catch (error) {
+      console.error('Error in updateCrew:', error);
+      toast.error(`Failed to update crew: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const deleteCrew = async (crewId: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      await deleteCrewRecord(supabaseClient, organization.id, crewId);
+      setCrews(prev => prev.filter(crew => crew.id !== crewId));
+      toast.success('Crew deleted');
+    } catch (error) {
+      console.error('Error in deleteCrew:', error);
+      toast.error(`Failed to delete crew: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const createLocation = async (details: LocationDetails) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const location = await createLocationRecord(supabaseClient, organization.id, details);
+      setLocations(prev => [...prev, location].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success(`Location ${location.name} created`);
+    } catch (error) {
+      console.error('Error in createLocation:', error);
+      toast.error(`Failed to create location: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const updateLocation = async (locationId: string, details: LocationDetails) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const updatedLocation = await updateLocationRecord(supabaseClient, organization.id, locationId, details);
+      setLocations(prev => prev
+        .map(location => location.id === locationId ? updatedLocation : location)
+        .sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success('Location updated');
+    } catch (error) {
+      console.error('Error in updateLocation:', error);
+      toast.error(`Failed to update location: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const deleteLocation = async (locationId: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      if (assets.some(asset => asset.locationId === locationId)) {
+        throw new Error('Move the assets stored here to another location first');
+      }
+
+      await deleteLocationRecord(supabaseClient, organization.id, locationId);
+      setLocations(prev => prev.filter(location => location.id !== locationId));
+      toast.success('Location deleted');
+    } catch (error) {
+      console.error('Error in deleteLocation:', error);
+      toast.error(`Failed to delete location: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const moveAssetsToLocation = async (assetIds: string[], locationId: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      // A pair is stored together; whoever held the assets is unassigned server-side
+      const moved = await moveAssetsToLocationRecord(supabaseClient, organization.id, withPairedMates(assetIds, assets), locationId);
+      moved.forEach(replaceAsset);
+      const location = locations.find(candidate => candidate.id === locationId);
+      toast.success(`${moved.length} ${moved.length === 1 ? 'asset' : 'assets'} moved to ${location?.name || 'location'}`);
+    } catch (error) {
+      console.error('Error in moveAssetsToLocation:', error);
+      toast.error(`Failed to move assets: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const addSupplier = async (supplierType: SupplierType, name: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const supplier = await createSupplier(supabaseClient, organization.id, supplierType, name);
+      setSuppliers(prev => [...prev, supplier].sort((a, b) => a.name.localeCompare(b.name)));
+      toast.success(`${supplierType === 'manufacturer' ? 'Manufacturer' : 'Vendor'} ${supplier.name} added`);
+    } catch (error) {
+      console.error('Error in addSupplier:', error);
+      toast.error(`Failed to add ${supplierType}: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const deleteSupplier = async (id: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      // Assets keep their purchase trail, so a supplier named on one stays in the catalog
+      if (assets.some(asset => asset.manufacturerId === id || asset.vendorId === id)) {
+        throw new Error('Assets are recorded against this supplier');
+      }
+      if (recalls.some(recall => recall.manufacturerId === id)) {
+        throw new Error('Recalls are recorded against this manufacturer');
+      }
+
+      await deleteSupplierRecord(supabaseClient, organization.id, id);
+      setSuppliers(prev => prev.filter(supplier => supplier.id !== id));
+      toast.success('Supplier removed');
+    } catch (error) {
+      console.error('Error in deleteSupplier:', error);
+      toast.error(`Failed to remove supplier: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const getSupplierById = (id: string) => {
+    return suppliers.find(supplier => supplier.id === id);
+  };
+
+  const issueRecall = async (notice: RecallNotice) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const recall = await issueRecallRecord(supabaseClient, organization.id, notice);
+      setRecalls(prev => [recall, ...prev]);
+      await refreshAssets(recall.assets.map(entry => entry.assetId));
+
+      const count = recall.assets.length;
+      toast.success(count === 0
+        ? 'Recall recorded; no assets in service match it'
+        : `Recall recorded; ${count} ${count === 1 ? 'asset' : 'assets'} quarantined`);
+    } catch (error) {
+      console.error('Error in issueRecall:', error);
+      toast.error(`Failed to record recall: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const resolveRecalledAsset = async (recallAssetId: string, resolution: RecallResolution, notes?: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const asset = await resolveRecalledAssetRecord(supabaseClient, recallAssetId, resolution, notes);
+      replaceAsset(asset);
+      // Removing an asset also resolves its entries on other recalls
+      setRecalls(await fetchRecalls(supabaseClient, organization.id));
+
+      toast.success(resolution === 'removed'
+        ? `${asset.serialNumber} removed from service`
+        : asset.status === 'quarantined'
+          ? `${asset.serialNumber} cleared; another open recall still holds it`
+          : `${asset.serialNumber} returned to service`);
+    } catch (error) {
+      console.error('Error in resolveRecalledAsset:', error);
+      toast.error(`Failed to resolve recalled asset: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const markNotificationsRead = async (ids: string[]) => {
+    if (ids.length === 0) return;
+
+    try {
+      await markNotificationsReadRecord(supabaseClient, ids);
+      setNotifications(prev => prev.map(notification => ids.includes(notification.id)
+        ? { ...notification, read: true }
+        : notification
+      ));
+    } catch (error) {
+      console.error('Error in markNotificationsRead:', error);
+      toast.error(`Failed to update notifications: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  // Memoized so history panels can refetch in an effect without looping
+  const fetchAssetMovements = useCallback(async (assetId: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      return await fetchAssetMovementRecords(supabaseClient, organization.id, assetId);
+    } catch (error) {
+      console.error('Error in fetchAssetMovements:', error);
+      toast.error(`Failed to load movement history: ${(error as Error).message}`);
+      throw error;
+    }
+  }, [supabaseClient, organization?.id]);
+
+  const fetchAssetCustody = useCallback(async (assetId: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      return await fetchAssetCustodyRecords(supabaseClient, organization.id, assetId);
+    } catch (error) {
+      console.error('Error in fetchAssetCustody:', error);
+      toast.error(`Failed to load custody history: ${(error as Error).message}`);
+      throw error;
+    }
+  }, [supabaseClient, organization?.id]);
+
+  const fetchPendingAcknowledgements = useCallback(async () => {
+    if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
+
+    try {
+      return await fetchPendingAcknowledgementRecords(supabaseClient, organization.id, user.id);
+    } catch (error) {
+      console.error('Error in fetchPendingAcknowledgements:', error);
+      toast.error(`Failed to load assets awaiting receipt: ${(error as Error).message}`);
+      throw error;
+    }
+  }, [supabaseClient, organization?.id, user?.id]);
+
+  const fetchCustodyOnDate = async (date: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      return await fetchCustodyOnDateRecords(supabaseClient, organization.id, date);
+    } catch (error) {
+      console.error('Error in fetchCustodyOnDate:', error);
+      toast.error(`Failed to look up custody: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const acknowledgeCustody = useCallback(async (custody: AssetCustody, name: string, signatureFile?: File) => {
+    if (!organization?.id) throw new Error('No organization found');
+    if (!user?.id) throw new Error('No user found');
+
+    try {
+      const signature = signatureFile
+        ? await storeAssetFile(organization.id, user.id, custody.assetId, signatureFile)
+        : undefined;
+
+      const acknowledged = await acknowledgeCustodyRecord(supabaseClient, custody.id, name, signature?.fileUrl);
+      toast.success('Receipt acknowledged');
+      return acknowledged;
+    } catch (error) {
+      console.error('Error in acknowledgeCustody:', error);
+      toast.error(`Failed to acknowledge receipt: ${(error as Error).message}`);
+      throw error;
+    }
+  }, [supabaseClient, organization?.id, user?.id]);
+
+  const checkOutAssets = async (assetIds: string[], userId: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      // A pair goes out together; the stored assets leave their location server-side
+      const checkedOut = await setAssetsHolder(supabaseClient, organization.id, withPairedMates(assetIds, assets), userId);
+      checkedOut.forEach(replaceAsset);
+      const member = organizationMembers.find(candidate => candidate.id === userId);
+      toast.success(`${checkedOut.length} ${checkedOut.length === 1 ? 'asset' : 'assets'} checked out to ${member?.name || 'technician'}`);
+    } catch (error) {
+      console.error('Error in checkOutAssets:', error);
+      toast.error(`Failed to check out assets: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const checkInAssets = async (assetIds: string[], locationId?: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    // Storing an asset unassigns it, so checking in to a location is a move
+    if (locationId) {
+      await moveAssetsToLocation(assetIds, locationId);
+      return;
+    }
+
+    try {
+      const checkedIn = await setAssetsHolder(supabaseClient, organization.id, withPairedMates(assetIds, assets), null);
+      checkedIn.forEach(replaceAsset);
+      toast.success(`${checkedIn.length} ${checkedIn.length === 1 ? 'asset' : 'assets'} checked in`);
+    } catch (error) {
+      console.error('Error in checkInAssets:', error);
+      toast.error(`Failed to check in assets: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const lookupAsset = async (code: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    const scanned = parseScannedCode(code);
+    if (!scanned) return undefined;
+
+    if (scanned.kind === 'asset-id') {
+      return assets.find(asset => asset.id === scanned.assetId);
+    }
+
+    try {
+      // Exact matches win over serials that only differ by case
+      const matches = await findAssetsBySerialNumber(supabaseClient, organization.id, scanned.serialNumber);
+      const match = matches.find(asset => asset.serialNumber === scanned.serialNumber) || matches[0];
+      return match && (assets.find(asset => asset.id === match.id) || match);
+    } catch (error) {
+      console.error('Error in lookupAsset:', error);
+      toast.error(`Failed to look up asset: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const mergeAssets = async (survivorId: string, duplicateId: string, fields: AssetMergeField[]) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    const duplicate = assets.find(asset => asset.id === duplicateId);
+
+    try {
+      const merged = await mergeAssetRecords(supabaseClient, survivorId, duplicateId, fields);
+
+      // Certificates, tests and inspections were re-pointed server-side
+      setAssets(prev => prev
+        .filter(asset => asset.id !== duplicateId)
+        .map(asset => {
+          if (asset.id === survivorId) {
+            return {
+              ...merged,
+              certificationDocuments: [
+                ...asset.certificationDocuments,
+                ...(duplicate?.certificationDocuments || []).map(doc => ({ ...doc, assetId: survivorId })),
+              ],
+              certifications: sortCertificationsByDate([
+                ...asset.certifications,
+                ...(duplicate?.certifications || []).map(certification => ({ ...certification, assetId: survivorId })),
+              ]),
+            };
+          }
+          // A pair the survivor could not take over is dissolved with the duplicate
+          if (duplicate?.pairId && asset.pairId === duplicate.pairId && merged.pairId !== duplicate.pairId) {
+            return { ...asset, pairId: undefined, hand: undefined };
+          }
+          return asset;
+        }));
+      setInspections(prev => prev.map(inspection => inspection.assetId === duplicateId
+        ? { ...inspection, assetId: survivorId }
+        : inspection
+      ));
+      toast.success(`Records merged into ${merged.serialNumber}`);
+    } catch (error) {
+      console.error('Error in mergeAssets:', error);
+      toast.error(`Failed to merge assets: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const saveOrgSettings = async (settings: OrgSettings) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const savedSettings = await upsertOrgSettings(supabaseClient, organization.id, settings);
+      setOrgSettings(savedSettings);
+      toast.success('Settings saved');
+    } catch (error) {
+      console.error('Error in saveOrgSettings:', error);
+      toast.error(`Failed to save settings: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const printZplLabels = async (zpl: string, labelCount: number) => {
+    try {
+      if (!orgSettings.printBridgeUrl) throw new Error('No print bridge is set up in Settings');
+
+      await sendZplToPrinter(orgSettings.printBridgeUrl, zpl);
+      toast.success(`${labelCount} ${labelCount === 1 ? 'label' : 'labels'} sent to the printer`);
+    } catch (error) {
+      console.error('Error in printZplLabels:', error);
+      toast.error(`Failed to print labels: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const saveRetestRule = async (assetType: AssetType, assetClass: AssetClass, intervalMonths: number) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const savedRule = await upsertRetestRule(supabaseClient, organization.id, assetType, assetClass, intervalMonths);
+      setRetestRules(prev => [
+        ...prev.filter(rule => rule.assetType !== assetType || rule.assetClass !== assetClass),
+        savedRule,
+      ]);
+
+      // Next certification dates were recomputed server-side
+      await fetchAssets();
+      toast.success(`${ASSET_TYPES[assetType].label} ${assetClass} retest interval set to ${intervalMonths} months`);
+    } catch (error) {
+      console.error('Error in saveRetestRule:', error);
+      toast.error(`Failed to save retest interval: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const deleteRetestRule = async (id: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      await deleteRetestRuleRecord(supabaseClient, organization.id, id);
+      setRetestRules(prev => prev.filter(rule => rule.id !== id));
+
+      // Next certification dates were recomputed server-side
+      await fetchAssets();
+      toast.success('Retest interval reset to default');
+    } catch (error) {
+      console.error('Error in deleteRetestRule:', error);
+      toast.error(`Failed to reset retest interval: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const saveServiceLifeRule = async (
+    assetType: AssetType,
+    assetClass: AssetClass,
+    maxAgeMonths: number,
+    measuredFrom: ServiceLifeBasis
+  ) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const savedRule = await upsertServiceLifeRule(
+        supabaseClient, organization.id, assetType, assetClass, maxAgeMonths, measuredFrom
+      );
+      setServiceLifeRules(prev => [
+        ...prev.filter(rule => rule.assetType !== assetType || rule.assetClass !== assetClass),
+        savedRule,
+      ]);
+
+      // Statuses were refreshed server-side
+      await fetchAssets();
+      toast.success(`${ASSET_TYPES[assetType].label} ${assetClass} service life set to ${maxAgeMonths} months`);
+    } catch (error) {
+      console.error('Error in saveServiceLifeRule:', error);
+      toast.error(`Failed to save service life: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const deleteServiceLifeRule = async (id: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      await deleteServiceLifeRuleRecord(supabaseClient, organization.id, id);
+      setServiceLifeRules(prev => prev.filter(rule => rule.id !== id));
+
+      // Statuses were refreshed server-side
+      await fetchAssets();
+      toast.success('Service life limit removed');
+    } catch (error) {
+      console.error('Error in deleteServiceLifeRule:', error);
+      toast.error(`Failed to remove service life limit: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const saveStockMinimum = async (assetClass: AssetClass, gloveSize: GloveSize, minimumOnHand: number) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const savedMinimum = await upsertStockMinimum(supabaseClient, organization.id, assetClass, gloveSize, minimumOnHand);
+      setStockMinimums(prev => [
+        ...prev.filter(minimum => minimum.assetClass !== assetClass || minimum.gloveSize !== gloveSize),
+        savedMinimum,
+      ]);
+      toast.success(`Minimum stock of ${assetClass} size ${gloveSize} gloves set to ${minimumOnHand}`);
+    } catch (error) {
+      console.error('Error in saveStockMinimum:', error);
+      toast.error(`Failed to save minimum stock: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const deleteStockMinimum = async (id: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      await deleteStockMinimumRecord(supabaseClient, organization.id, id);
+      setStockMinimums(prev => prev.filter(minimum => minimum.id !== id));
+      toast.success('Minimum stock removed');
+    } catch (error) {
+      console.error('Error in deleteStockMinimum:', error);
+      toast.error(`Failed to remove minimum stock: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const addDefectCode = async (code: string, label: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      const defectCode = await createDefectCode(supabaseClient, organization.id, code, label);
+      setDefectCodes(prev => [...prev, defectCode].sort((a, b) => a.label.localeCompare(b.label)));
+      toast.success(`Defect code "${label}" added`);
+    } catch (error) {
+      console.error('Error in addDefectCode:', error);
+      toast.error(`Failed to add defect code: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
+  const deleteDefectCode = async (id: string) => {
+    if (!organization?.id) throw new Error('No organization found');
+
+    try {
+      await deleteDefectCodeRecord(supabaseClient, organization.id, id);
+      setDefectCodes(prev => prev.filter(defectCode => defectCode.id !== id));
+      toast.success('Defect code removed');
+    } catch (error) {
+      console.error('Error in deleteDefectCode:', error);
+      toast.error(`Failed to remove defect code: ${(error as Error).message}`);
+      throw error;
+    }
+  };
+
   return (
     <AssetContext.Provider
       value={{
         assets,
         organizationMembers,
+        retestRules,
+        serviceLifeRules,
+        stockMinimums,
+        defectCodes,
+        orgSettings,
+        inspections,
+        kits,
+        crews,
+        locations,
+        suppliers,
+        recalls,
+        notifications,
         isLoading,
         error,
         addAsset,
@@ -617,10 +2092,58 @@ export const AssetProvider: React.FC<{ children: React.ReactNode }> = ({ childre
         bulkUploadDocument,
         markAsFailed,
         markAsInTesting,
+        recordCertification,
+        completeLabReturn,
+        retireAsset,
+        recordInspection,
+        pairGloves,
+        unpairGloves,
+        createKit,
+        updateKit,
+        deleteKit,
+        addAssetsToKit,
+        removeAssetsFromKit,
+        assignKit,
+        getKitById,
+        getKitsByUser,
+        createCrew,
+        updateCrew,
+        deleteCrew,
+        getCrewById,
+        createLocation,
+        updateLocation,
+        deleteLocation,
+        moveAssetsToLocation,
+        getLocationById,
+        addSupplier,
+        deleteSupplier,
+        getSupplierById,
+        issueRecall,
+        resolveRecalledAsset,
+        markNotificationsRead,
+        fetchAssetMovements,
+        fetchAssetCustody,
+        fetchPendingAcknowledgements,
+        fetchCustodyOnDate,
+        acknowledgeCustody,
+        checkOutAssets,
+        checkInAssets,
+        lookupAsset,
+        mergeAssets,
         getAssetsByUser,
         getAssetById,
         importAssets,
         exportAssets,
+        saveRetestRule,
+        deleteRetestRule,
+        saveServiceLifeRule,
+        deleteServiceLifeRule,
+        saveStockMinimum,
+        deleteStockMinimum,
+        addDefectCode,
+        deleteDefectCode,
+        saveOrgSettings,
+        printZplLabels,
       }}
     >
       {children}
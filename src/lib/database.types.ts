@@ -14,51 +14,133 @@ export interface Database {
           id: string
           org_id: string
           serial_number: string
+          asset_type: string
           asset_class: string
           glove_size: string | null
           glove_color: string | null
           issue_date: string
-          last_certification_date: string
-          next_certification_date: string
+          last_certification_date: string | null
+          next_certification_date: string | null
+          in_stock: boolean
+          in_service_date: string | null
           status: string
           failure_date: string | null
           failure_reason: string | null
+          failure_defect_code: string | null
+          failure_location: string | null
+          failure_notes: string | null
+          failure_reported_by: string | null
+          failure_certification_id: string | null
+          failure_inspection_id: string | null
+          retired_date: string | null
+          disposal_method: string | null
+          disposal_witness: string | null
+          retired_by: string | null
+          destruction_document_id: string | null
           testing_start_date: string | null
           assigned_user_id: string | null
+          attributes: Json
+          pair_id: string | null
+          hand: string | null
+          kit_id: string | null
+          location_id: string | null
+          serial_number_key: string
+          serial_conflict: boolean
+          manufacturer_id: string | null
+          model: string | null
+          lot_number: string | null
+          vendor_id: string | null
+          purchase_order: string | null
+          unit_cost: number | null
+          manufacture_date: string | null
           created_at: string
         }
         Insert: {
           id?: string
           org_id: string
           serial_number: string
+          asset_type?: string
           asset_class: string
           glove_size?: string | null
           glove_color?: string | null
           issue_date: string
-          last_certification_date: string
-          next_certification_date: string
+          last_certification_date?: string | null
+          next_certification_date?: string | null
+          in_stock?: boolean
+          in_service_date?: string | null
           status: string
           failure_date?: string | null
           failure_reason?: string | null
+          failure_defect_code?: string | null
+          failure_location?: string | null
+          failure_notes?: string | null
+          failure_reported_by?: string | null
+          failure_certification_id?: string | null
+          failure_inspection_id?: string | null
+          retired_date?: string | null
+          disposal_method?: string | null
+          disposal_witness?: string | null
+          retired_by?: string | null
+          destruction_document_id?: string | null
           testing_start_date?: string | null
           assigned_user_id?: string | null
+          attributes?: Json
+          pair_id?: string | null
+          hand?: string | null
+          kit_id?: string | null
+          location_id?: string | null
+          serial_conflict?: boolean
+          manufacturer_id?: string | null
+          model?: string | null
+          lot_number?: string | null
+          vendor_id?: string | null
+          purchase_order?: string | null
+          unit_cost?: number | null
+          manufacture_date?: string | null
           created_at?: string
         }
         Update: {
           id?: string
           org_id?: string
           serial_number?: string
+          asset_type?: string
           asset_class?: string
           glove_size?: string | null
           glove_color?: string | null
           issue_date?: string
-          last_certification_date?: string
-          next_certification_date?: string
+          last_certification_date?: string | null
+          next_certification_date?: string | null
+          in_stock?: boolean
+          in_service_date?: string | null
           status?: string
           failure_date?: string | null
           failure_reason?: string | null
+          failure_defect_code?: string | null
+          failure_location?: string | null
+          failure_notes?: string | null
+          failure_reported_by?: string | null
+          failure_certification_id?: string | null
+          failure_inspection_id?: string | null
+          retired_date?: string | null
+          disposal_method?: string | null
+          disposal_witness?: string | null
+          retired_by?: string | null
+          destruction_document_id?: string | null
           testing_start_date?: string | null
           assigned_user_id?: string | null
+          attributes?: Json
+          pair_id?: string | null
+          hand?: string | null
+          kit_id?: string | null
+          location_id?: string | null
+          serial_conflict?: boolean
+          manufacturer_id?: string | null
+          model?: string | null
+          lot_number?: string | null
+          vendor_id?: string | null
+          purchase_order?: string | null
+          unit_cost?: number | null
+          manufacture_date?: string | null
           created_at?: string
         }
       }
@@ -94,12 +176,770 @@ export interface Database {
           created_at?: string
         }
       }
+      certifications: {
+        Row: {
+          id: string
+          org_id: string
+          asset_id: string
+          document_id: string | null
+          certification_date: string
+          lab_name: string | null
+          result: string
+          proof_test_voltage: number | null
+          leakage_current_ma: number | null
+          next_certification_date: string
+          recorded_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          asset_id: string
+          document_id?: string | null
+          certification_date: string
+          lab_name?: string | null
+          result?: string
+          proof_test_voltage?: number | null
+          leakage_current_ma?: number | null
+          next_certification_date: string
+          recorded_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          asset_id?: string
+          document_id?: string | null
+          certification_date?: string
+          lab_name?: string | null
+          result?: string
+          proof_test_voltage?: number | null
+          leakage_current_ma?: number | null
+          next_certification_date?: string
+          recorded_by?: string | null
+          created_at?: string
+        }
+      }
+      defect_codes: {
+        Row: {
+          id: string
+          org_id: string | null
+          code: string
+          label: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          org_id?: string | null
+          code: string
+          label: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string | null
+          code?: string
+          label?: string
+          created_at?: string
+        }
+      }
+      retest_interval_rules: {
+        Row: {
+          id: string
+          org_id: string
+          asset_type: string
+          asset_class: string
+          interval_months: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          asset_type?: string
+          asset_class: string
+          interval_months: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          asset_type?: string
+          asset_class?: string
+          interval_months?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      service_life_rules: {
+        Row: {
+          id: string
+          org_id: string
+          asset_type: string
+          asset_class: string
+          max_age_months: number
+          measured_from: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          asset_type: string
+          asset_class: string
+          max_age_months: number
+          measured_from?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          asset_type?: string
+          asset_class?: string
+          max_age_months?: number
+          measured_from?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      suppliers: {
+        Row: {
+          id: string
+          org_id: string
+          name: string
+          supplier_type: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          name: string
+          supplier_type: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          name?: string
+          supplier_type?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      recalls: {
+        Row: {
+          id: string
+          org_id: string
+          manufacturer_id: string
+          lot_from: string
+          lot_to: string | null
+          reference: string
+          description: string | null
+          issued_by: string | null
+          issued_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          manufacturer_id: string
+          lot_from: string
+          lot_to?: string | null
+          reference: string
+          description?: string | null
+          issued_by?: string | null
+          issued_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          manufacturer_id?: string
+          lot_from?: string
+          lot_to?: string | null
+          reference?: string
+          description?: string | null
+          issued_by?: string | null
+          issued_at?: string
+        }
+      }
+      recall_assets: {
+        Row: {
+          id: string
+          org_id: string
+          recall_id: string
+          asset_id: string
+          status_before: string
+          resolution: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          notes: string | null
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          recall_id: string
+          asset_id: string
+          status_before: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          notes?: string | null
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          recall_id?: string
+          asset_id?: string
+          status_before?: string
+          resolution?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          notes?: string | null
+        }
+      }
+      notifications: {
+        Row: {
+          id: string
+          org_id: string
+          user_id: string
+          asset_id: string | null
+          message: string
+          notification_type: string
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          user_id: string
+          asset_id?: string | null
+          message: string
+          notification_type?: string
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          user_id?: string
+          asset_id?: string | null
+          message?: string
+          notification_type?: string
+          read_at?: string | null
+          created_at?: string
+        }
+      }
+      stock_minimums: {
+        Row: {
+          id: string
+          org_id: string
+          asset_class: string
+          glove_size: string
+          minimum_on_hand: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          asset_class: string
+          glove_size: string
+          minimum_on_hand: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          asset_class?: string
+          glove_size?: string
+          minimum_on_hand?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      inspections: {
+        Row: {
+          id: string
+          org_id: string
+          asset_id: string
+          inspected_by: string
+          inspected_at: string
+          result: string
+          checklist: Json
+          photo_url: string | null
+          notes: string | null
+          failure_defect_code: string | null
+          failure_location: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          asset_id: string
+          inspected_by: string
+          inspected_at?: string
+          result: string
+          checklist?: Json
+          photo_url?: string | null
+          notes?: string | null
+          failure_defect_code?: string | null
+          failure_location?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          asset_id?: string
+          inspected_by?: string
+          inspected_at?: string
+          result?: string
+          checklist?: Json
+          photo_url?: string | null
+          notes?: string | null
+          failure_defect_code?: string | null
+          failure_location?: string | null
+          created_at?: string
+        }
+      }
+      glove_pairs: {
+        Row: {
+          id: string
+          org_id: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      kits: {
+        Row: {
+          id: string
+          org_id: string
+          name: string
+          assigned_user_id: string | null
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          name: string
+          assigned_user_id?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          name?: string
+          assigned_user_id?: string | null
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      crews: {
+        Row: {
+          id: string
+          org_id: string
+          name: string
+          supervisor_user_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          name: string
+          supervisor_user_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          name?: string
+          supervisor_user_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      crew_members: {
+        Row: {
+          id: string
+          org_id: string
+          crew_id: string
+          user_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          crew_id: string
+          user_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          crew_id?: string
+          user_id?: string
+          created_at?: string
+        }
+      }
+      org_settings: {
+        Row: {
+          org_id: string
+          failed_disposal_days: number
+          zpl_label_layout: Json | null
+          print_bridge_url: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          org_id: string
+          failed_disposal_days?: number
+          zpl_label_layout?: Json | null
+          print_bridge_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          org_id?: string
+          failed_disposal_days?: number
+          zpl_label_layout?: Json | null
+          print_bridge_url?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      locations: {
+        Row: {
+          id: string
+          org_id: string
+          name: string
+          location_type: string
+          notes: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          name: string
+          location_type?: string
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          name?: string
+          location_type?: string
+          notes?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      asset_movements: {
+        Row: {
+          id: string
+          org_id: string
+          asset_id: string
+          from_user_id: string | null
+          to_user_id: string | null
+          from_location_id: string | null
+          to_location_id: string | null
+          moved_by: string | null
+          moved_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          asset_id: string
+          from_user_id?: string | null
+          to_user_id?: string | null
+          from_location_id?: string | null
+          to_location_id?: string | null
+          moved_by?: string | null
+          moved_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          asset_id?: string
+          from_user_id?: string | null
+          to_user_id?: string | null
+          from_location_id?: string | null
+          to_location_id?: string | null
+          moved_by?: string | null
+          moved_at?: string
+        }
+      }
+      asset_custody: {
+        Row: {
+          id: string
+          org_id: string
+          asset_id: string
+          user_id: string
+          checked_out_at: string
+          checked_out_by: string | null
+          checked_in_at: string | null
+          checked_in_by: string | null
+          acknowledged_at: string | null
+          acknowledged_name: string | null
+          signature_url: string | null
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          asset_id: string
+          user_id: string
+          checked_out_at?: string
+          checked_out_by?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          acknowledged_at?: string | null
+          acknowledged_name?: string | null
+          signature_url?: string | null
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          asset_id?: string
+          user_id?: string
+          checked_out_at?: string
+          checked_out_by?: string | null
+          checked_in_at?: string | null
+          checked_in_by?: string | null
+          acknowledged_at?: string | null
+          acknowledged_name?: string | null
+          signature_url?: string | null
+        }
+      }
+      asset_merges: {
+        Row: {
+          id: string
+          org_id: string
+          survivor_id: string | null
+          merged_asset_id: string
+          serial_number: string
+          fields: string[]
+          survivor_before: Json
+          merged_before: Json
+          moved_records: Json
+          merged_by: string | null
+          merged_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          survivor_id?: string | null
+          merged_asset_id: string
+          serial_number: string
+          fields?: string[]
+          survivor_before: Json
+          merged_before: Json
+          moved_records?: Json
+          merged_by?: string | null
+          merged_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          survivor_id?: string | null
+          merged_asset_id?: string
+          serial_number?: string
+          fields?: string[]
+          survivor_before?: Json
+          merged_before?: Json
+          moved_records?: Json
+          merged_by?: string | null
+          merged_at?: string
+        }
+      }
+      asset_status_transitions: {
+        Row: {
+          id: string
+          org_id: string
+          asset_id: string
+          from_status: string
+          to_status: string
+          source: string
+          changed_at: string
+        }
+        Insert: {
+          id?: string
+          org_id: string
+          asset_id: string
+          from_status: string
+          to_status: string
+          source?: string
+          changed_at?: string
+        }
+        Update: {
+          id?: string
+          org_id?: string
+          asset_id?: string
+          from_status?: string
+          to_status?: string
+          source?: string
+          changed_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      calculate_asset_status: {
+        Args: {
+          p_next_certification_date: string | null
+          p_as_of?: string
+        }
+        Returns: string
+      }
+      complete_lab_return: {
+        Args: {
+          p_asset_id: string
+          p_result: string
+          p_certification_date: string
+          p_lab_name?: string | null
+          p_proof_test_voltage?: number | null
+          p_leakage_current_ma?: number | null
+          p_file_name?: string | null
+          p_file_url?: string | null
+          p_failure_defect_code?: string | null
+          p_failure_location?: string | null
+          p_failure_notes?: string | null
+        }
+        Returns: Database['public']['Tables']['certifications']['Row']
+      }
+      assign_kit: {
+        Args: {
+          p_kit_id: string
+          p_user_id?: string | null
+        }
+        Returns: Database['public']['Tables']['kits']['Row']
+      }
+      pair_gloves: {
+        Args: {
+          p_left_asset_id: string
+          p_right_asset_id: string
+        }
+        Returns: Database['public']['Tables']['glove_pairs']['Row']
+      }
+      unpair_gloves: {
+        Args: {
+          p_pair_id: string
+        }
+        Returns: undefined
+      }
+      acknowledge_custody: {
+        Args: {
+          p_custody_id: string
+          p_name: string
+          p_signature_url?: string | null
+        }
+        Returns: Database['public']['Tables']['asset_custody']['Row']
+      }
+      supervises_user: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      retire_asset: {
+        Args: {
+          p_asset_id: string
+          p_disposal_method: string
+          p_retired_date: string
+          p_disposal_witness: string
+          p_file_name?: string | null
+          p_file_url?: string | null
+        }
+        Returns: Database['public']['Tables']['assets']['Row']
+      }
+      issue_recall: {
+        Args: {
+          p_manufacturer_id: string
+          p_lot_from: string
+          p_lot_to?: string | null
+          p_reference?: string | null
+          p_description?: string | null
+        }
+        Returns: Database['public']['Tables']['recalls']['Row']
+      }
+      resolve_recalled_asset: {
+        Args: {
+          p_recall_asset_id: string
+          p_resolution: string
+          p_notes?: string | null
+        }
+        Returns: Database['public']['Tables']['assets']['Row']
+      }
+      mark_notifications_read: {
+        Args: {
+          p_notification_ids: string[]
+        }
+        Returns: number
+      }
+      merge_assets: {
+        Args: {
+          p_survivor_id: string
+          p_duplicate_id: string
+          p_fields?: string[]
+        }
+        Returns: Database['public']['Tables']['assets']['Row']
+      }
+      certification_due_date: {
+        Args: {
+          p_org_id: string
+          p_asset_type: string
+          p_asset_class: string
+          p_last_certification_date: string
+          p_in_service_date: string | null
+        }
+        Returns: string
+      }
+      service_life_end_date: {
+        Args: {
+          p_org_id: string
+          p_asset_type: string
+          p_asset_class: string
+          p_manufacture_date: string | null
+          p_issue_date: string
+        }
+        Returns: string | null
+      }
+      refresh_asset_statuses: {
+        Args: {
+          p_as_of?: string
+          p_org_id?: string
+          p_source?: string
+        }
+        Returns: number
+      }
     }
     Enums: {
       [_ in never]: never
@@ -1,19 +1,40 @@
 import React, { useState, useMemo } from 'react';
-import { useParams, useNavigate, Link } from 'react-router-dom';
-import { ArrowLeft } from 'lucide-react';
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom';
+import { ArrowLeft, ClipboardList, ShieldAlert, Unlink } from 'lucide-react';
 import { useUser } from '@clerk/clerk-react';
 import { useRole } from '../hooks/useRole';
 import { useAssets } from '../context/AssetContext';
 import { formatDate } from '../utils';
+import { FAILURE_LOCATION_LABELS, getDefectCodeLabel } from '../utils/failureUtils';
+import { DISPOSAL_METHOD_LABELS } from '../utils/retirementUtils';
+import { isDateDrivenStatus } from '../utils/assetLifecycle';
+import { ASSET_TYPES, getAssetAttributeEntries, requiresDielectricTest } from '../utils/assetTypes';
+import { GLOVE_HAND_LABELS, getMate } from '../utils/pairUtils';
+import { isAssetInUserScope } from '../utils/crewUtils';
+import { LOCATION_TYPE_LABELS } from '../utils/locationUtils';
+import { formatLotRange, getOpenRecallsForAsset } from '../utils/recallUtils';
+import { getServiceLifeEndDate, isAssetPastServiceLife, isPastServiceLife } from '../utils/serviceLifeUtils';
+import { FailureReport, MateAction, Retirement } from '../types';
 import PageLayout from '../components/layout/PageLayout';
 import Card, { CardContent, CardHeader } from '../components/ui/Card';
 import StatusBadge from '../components/ui/StatusBadge';
 import StatusIcon from '../components/ui/StatusIcon';
 import AssetForm from '../components/assets/AssetForm';
 import AdminActions from '../components/assets/AdminActions';
+import SupervisorActions from '../components/assets/SupervisorActions';
 import FailureForm from '../components/assets/FailureForm';
 import DeleteConfirm from '../components/assets/DeleteConfirm';
 import AssetDocuments from '../components/assets/AssetDocuments';
+import CertificationHistory from '../components/assets/CertificationHistory';
+import CertificationForm, { CertificationFormData } from '../components/assets/CertificationForm';
+import LabReturnForm, { LabReturnFormData } from '../components/assets/LabReturnForm';
+import RetirementForm from '../components/assets/RetirementForm';
+import InspectionForm, { InspectionFormData } from '../components/assets/InspectionForm';
+import InspectionHistory from '../components/assets/InspectionHistory';
+import MovementHistory from '../components/assets/MovementHistory';
+import CustodyHistory from '../components/assets/CustodyHistory';
+import PairForm from '../components/assets/PairForm';
+import Button from '../components/ui/Button';
 
 /**
  * AssetDetailsPage Component
@@ -21,11 +42,19 @@ import AssetDocuments from '../components/assets/AssetDocuments';
  * Displays detailed information about a specific asset including:
  * - Asset metadata (serial number, class, assignment, dates)
  * - Status management (active, testing, failed)
+ * - Return from lab (open directly with ?action=return-from-lab)
+ * - Retirement of destroyed failed assets (open directly with ?action=retire)
+ * - Pre-use inspection by the assigned technician (open directly with ?action=inspect)
+ * - Left/right glove pairing (open directly with ?action=pair)
  * - Document management (upload, view certification documents)
+ * - Certification history (every recorded test)
+ * - Custody chain with the holder's signed acknowledgement of receipt
+ * - Movement history (each change of holder or storage location)
  * - Edit/delete capabilities (admin only)
  * 
  * Access control:
  * - Admins: Full access to all assets in their organization
+ * - Supervisors: Can inspect, send to testing and fail their crew's assets
  * - Members: Access only to assets assigned to them
  */
 const AssetDetailsPage: React.FC = () => {
@@ -34,14 +63,29 @@ const AssetDetailsPage: React.FC = () => {
   const { user } = useUser();
   const { isAdmin, isMember } = useRole();
   const { 
+    assets,
     getAssetById, 
     organizationMembers, 
+    defectCodes,
     updateAsset, 
     deleteAsset, 
     uploadDocument, 
     markAsFailed, 
-    markAsInTesting 
+    markAsInTesting,
+    recordCertification,
+    completeLabReturn,
+    retireAsset,
+    recordInspection,
+    pairGloves,
+    unpairGloves,
+    getKitById,
+    getLocationById,
+    getSupplierById,
+    recalls,
+    serviceLifeRules,
+    crews
   } = useAssets();
+  const [searchParams, setSearchParams] = useSearchParams();
   
   // Component state management
   const [isEditing, setIsEditing] = useState(false);
@@ -49,7 +93,21 @@ const AssetDetailsPage: React.FC = () => {
   const [isUploading, setIsUploading] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [showFailureForm, setShowFailureForm] = useState(false);
-  const [failureReason, setFailureReason] = useState('');
+  const [showCertificationForm, setShowCertificationForm] = useState(false);
+  const [showLabReturnForm, setShowLabReturnForm] = useState(
+    searchParams.get('action') === 'return-from-lab'
+  );
+  const [showRetirementForm, setShowRetirementForm] = useState(
+    searchParams.get('action') === 'retire'
+  );
+  const [showInspectionForm, setShowInspectionForm] = useState(
+    searchParams.get('action') === 'inspect'
+  );
+  const [showPairForm, setShowPairForm] = useState(
+    searchParams.get('action') === 'pair'
+  );
+  const [failureReport, setFailureReport] = useState<FailureReport>({ defectCode: '' });
+  const [mateAction, setMateAction] = useState<MateAction | undefined>();
   
   /**
    * Get the asset data based on the ID from URL params
@@ -59,17 +117,32 @@ const AssetDetailsPage: React.FC = () => {
     return getAssetById(id);
   }, [id, getAssetById]);
   
+  /**
+   * Get the other glove of the pair, if this glove is paired
+   */
+  const mate = useMemo(() => {
+    if (!asset) return undefined;
+    return getMate(asset, assets);
+  }, [asset, assets]);
+  
+  const kit = asset?.kitId ? getKitById(asset.kitId) : undefined;
+  const location = asset?.locationId ? getLocationById(asset.locationId) : undefined;
+  const manufacturer = asset?.manufacturerId ? getSupplierById(asset.manufacturerId) : undefined;
+  const vendor = asset?.vendorId ? getSupplierById(asset.vendorId) : undefined;
+  const openRecalls = asset ? getOpenRecallsForAsset(recalls, asset.id) : [];
+  const serviceLifeEndDate = asset ? getServiceLifeEndDate(asset, serviceLifeRules) : undefined;
+  
   /**
    * Determine if current user has access to this asset
    * - Admins have access to all organization assets
-   * - Members have access only to assets assigned to them
+   * - Members have access to assets assigned to them or to a crew they supervise
    */
   const hasAccess = useMemo(() => {
     if (!asset || !user) return false;
     if (isAdmin) return true;
-    if (isMember && asset.assignedUserId === user.id) return true;
+    if (isMember && isAssetInUserScope(asset, user.id, crews)) return true;
     return false;
-  }, [asset, user, isAdmin, isMember]);
+  }, [asset, user, isAdmin, isMember, crews]);
   
   /**
    * Get the name of the user assigned to this asset
@@ -79,6 +152,36 @@ const AssetDetailsPage: React.FC = () => {
     const foundUser = organizationMembers.find(u => u.id === asset.assignedUserId);
     return foundUser ? foundUser.name : 'Unknown User';
   }, [asset?.assignedUserId, organizationMembers]);
+
+  /**
+   * Get the name of the user who reported the failure
+   */
+  const failureReporterName = useMemo(() => {
+    if (!asset?.failureReportedBy) return null;
+    const foundUser = organizationMembers.find(u => u.id === asset.failureReportedBy);
+    return foundUser ? foundUser.name : 'Unknown User';
+  }, [asset?.failureReportedBy, organizationMembers]);
+
+  /**
+   * Get the name of the admin who recorded the retirement
+   */
+  const retiredByName = useMemo(() => {
+    if (!asset?.retiredBy) return null;
+    const foundUser = organizationMembers.find(u => u.id === asset.retiredBy);
+    return foundUser ? foundUser.name : 'Unknown User';
+  }, [asset?.retiredBy, organizationMembers]);
+  
+  /**
+   * The assigned technician, their supervisor or an admin can inspect assets that are in service
+   */
+  const canInspect = !!asset && isDateDrivenStatus(asset.status) &&
+    (isAdmin || isAssetInUserScope(asset, user?.id, crews));
+  
+  /**
+   * Supervisors act on their crew's assets without full admin rights
+   */
+  const isSupervisedAsset = !!asset && !isAdmin && asset.assignedUserId !== user?.id &&
+    isAssetInUserScope(asset, user?.id, crews);
   
   // Redirect if no access or asset not found
   if (!asset || !hasAccess) {
@@ -137,18 +240,20 @@ const AssetDetailsPage: React.FC = () => {
   };
 
   /**
-   * Handle marking asset as failed with reason
+   * Handle marking asset as failed with a failure report
    */
   const handleMarkAsFailed = async (): Promise<void> => {
-    if (!failureReason.trim()) return;
+    if (!failureReport.defectCode) return;
     
     setIsSubmitting(true);
     try {
       // Simulate API delay for better UX
       await new Promise(resolve => setTimeout(resolve, 500));
-      await markAsFailed(asset.id, failureReason);
-      setShowFailureForm(false);
-      setFailureReason('');
+      await markAsFailed(asset.id, {
+        ...failureReport,
+        notes: failureReport.notes?.trim() || undefined,
+      }, mateAction);
+      resetFailureForm();
     } catch (error) {
       console.error('Error marking asset as failed:', error);
     } finally {
@@ -172,12 +277,150 @@ const AssetDetailsPage: React.FC = () => {
     }
   };
 
+  /**
+   * Handle recording a dielectric test result
+   */
+  const handleRecordCertification = async (data: CertificationFormData): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await recordCertification(asset.id, data);
+      setShowCertificationForm(false);
+    } catch (error) {
+      console.error('Error recording certification:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle closing out a lab visit with a pass or fail
+   */
+  const handleCompleteLabReturn = async (
+    data: LabReturnFormData,
+    certificateFile?: File,
+    includeMate?: boolean
+  ): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await completeLabReturn(asset.id, data, certificateFile, includeMate);
+      closeLabReturnForm();
+    } catch (error) {
+      console.error('Error completing lab return:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle retiring a destroyed failed asset
+   */
+  const handleRetireAsset = async (retirement: Retirement, certificateFile?: File): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await retireAsset(asset.id, retirement, certificateFile);
+      closeRetirementForm();
+    } catch (error) {
+      console.error('Error retiring asset:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle recording a pre-use inspection
+   */
+  const handleRecordInspection = async (data: InspectionFormData, photoFile?: File): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await recordInspection(asset.id, data, photoFile);
+      closeInspectionForm();
+    } catch (error) {
+      console.error('Error recording inspection:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle pairing this glove with its mate
+   */
+  const handlePairGloves = async (leftAssetId: string, rightAssetId: string): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await pairGloves(leftAssetId, rightAssetId);
+      closePairForm();
+    } catch (error) {
+      console.error('Error pairing gloves:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handle splitting this glove's pair
+   */
+  const handleUnpairGloves = async (): Promise<void> => {
+    if (!asset.pairId) return;
+
+    setIsSubmitting(true);
+    try {
+      await unpairGloves(asset.pairId);
+    } catch (error) {
+      console.error('Error unpairing gloves:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Drop an ?action= shortcut from the URL once its form is closed
+   */
+  const clearActionParam = (): void => {
+    if (searchParams.has('action')) {
+      searchParams.delete('action');
+      setSearchParams(searchParams, { replace: true });
+    }
+  };
+
+  /**
+   * Hide the lab return form and drop the action from the URL
+   */
+  const closeLabReturnForm = (): void => {
+    setShowLabReturnForm(false);
+    clearActionParam();
+  };
+
+  /**
+   * Hide the retirement form and drop the action from the URL
+   */
+  const closeRetirementForm = (): void => {
+    setShowRetirementForm(false);
+    clearActionParam();
+  };
+
+  /**
+   * Hide the inspection form and drop the action from the URL
+   */
+  const closeInspectionForm = (): void => {
+    setShowInspectionForm(false);
+    clearActionParam();
+  };
+
+  /**
+   * Hide the pairing form and drop the action from the URL
+   */
+  const closePairForm = (): void => {
+    setShowPairForm(false);
+    clearActionParam();
+  };
+
   /**
    * Reset failure form state
    */
   const resetFailureForm = (): void => {
     setShowFailureForm(false);
-    setFailureReason('');
+    setFailureReport({ defectCode: '' });
+    setMateAction(undefined);
   };
   
   /**
@@ -193,6 +436,10 @@ const AssetDetailsPage: React.FC = () => {
               <p className="text-sm font-medium text-gray-500">Asset ID</p>
               <p className="mt-1 text-base text-gray-900">{asset.serialNumber}</p>
             </div>
+            <div>
+              <p className="text-sm font-medium text-gray-500">Type</p>
+              <p className="mt-1 text-base text-gray-900">{ASSET_TYPES[asset.assetType].label}</p>
+            </div>
             <div>
               <p className="text-sm font-medium text-gray-500">Class</p>
               <p className="mt-1 text-base text-gray-900">{asset.assetClass}</p>
@@ -209,10 +456,102 @@ const AssetDetailsPage: React.FC = () => {
                 <p className="mt-1 text-base text-gray-900 capitalize">{asset.gloveColor}</p>
               </div>
             )}
+            {getAssetAttributeEntries(asset.assetType, asset.attributes).map(({ label, value }) => (
+              <div key={label}>
+                <p className="text-sm font-medium text-gray-500">{label}</p>
+                <p className="mt-1 text-base text-gray-900">{value}</p>
+              </div>
+            ))}
+            {asset.hand && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Pair</p>
+                <div className="mt-1 flex items-center text-base text-gray-900">
+                  <span>
+                    {GLOVE_HAND_LABELS[asset.hand]} glove
+                    {mate && (
+                      <>
+                        {' '}with{' '}
+                        <Link to={`/assets/${mate.id}`} className="text-primary-600 hover:text-primary-700">
+                          {mate.serialNumber}
+                        </Link>
+                      </>
+                    )}
+                  </span>
+                  {isAdmin && !isEditing && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="ml-3"
+                      onClick={handleUnpairGloves}
+                      disabled={isSubmitting}
+                      leftIcon={<Unlink className="h-4 w-4" />}
+                    >
+                      Unpair
+                    </Button>
+                  )}
+                </div>
+                {mate && mate.status === 'failed' && asset.status !== 'failed' && asset.status !== 'retired' && (
+                  <p className="mt-1 text-xs text-warning-600">
+                    Its mate has failed. Unpair this glove to match it with another.
+                  </p>
+                )}
+              </div>
+            )}
+            {kit && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Kit</p>
+                <Link to={`/kits/${kit.id}`} className="mt-1 inline-block text-base text-primary-600 hover:text-primary-700">
+                  {kit.name}
+                </Link>
+              </div>
+            )}
             <div>
               <p className="text-sm font-medium text-gray-500">Assigned To</p>
               <p className="mt-1 text-base text-gray-900">{assignedUserName}</p>
             </div>
+            {location && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Stored At</p>
+                <Link to={`/locations/${location.id}`} className="mt-1 inline-block text-base text-primary-600 hover:text-primary-700">
+                  {location.name}
+                </Link>
+                <span className="ml-2 text-sm text-gray-500">{LOCATION_TYPE_LABELS[location.locationType]}</span>
+              </div>
+            )}
+            {(manufacturer || asset.model) && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Manufacturer</p>
+                <p className="mt-1 text-base text-gray-900">
+                  {[manufacturer?.name, asset.model].filter(Boolean).join(' ')}
+                </p>
+              </div>
+            )}
+            {asset.lotNumber && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Lot</p>
+                <Link
+                  to={`/assets?lot=${encodeURIComponent(asset.lotNumber)}`}
+                  className="mt-1 inline-block text-base text-primary-600 hover:text-primary-700"
+                >
+                  {asset.lotNumber}
+                </Link>
+              </div>
+            )}
+            {(vendor || asset.purchaseOrder) && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Purchased From</p>
+                <p className="mt-1 text-base text-gray-900">
+                  {vendor?.name || 'Unknown vendor'}
+                  {asset.purchaseOrder && <span className="ml-2 text-sm text-gray-500">PO {asset.purchaseOrder}</span>}
+                </p>
+              </div>
+            )}
+            {asset.unitCost !== undefined && isAdmin && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Unit Cost</p>
+                <p className="mt-1 text-base text-gray-900">{asset.unitCost.toFixed(2)}</p>
+              </div>
+            )}
           </div>
           
           {/* Right column */}
@@ -221,6 +560,22 @@ const AssetDetailsPage: React.FC = () => {
               <p className="text-sm font-medium text-gray-500">Issue Date</p>
               <p className="mt-1 text-base text-gray-900">{formatDate(asset.issueDate)}</p>
             </div>
+
+            {asset.manufactureDate && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Manufacture Date</p>
+                <p className="mt-1 text-base text-gray-900">{formatDate(asset.manufactureDate)}</p>
+              </div>
+            )}
+
+            {serviceLifeEndDate && asset.status !== 'failed' && asset.status !== 'retired' && (
+              <div>
+                <p className="text-sm font-medium text-gray-500">End of Service Life</p>
+                <p className={`mt-1 text-base ${isPastServiceLife(serviceLifeEndDate) ? 'text-danger-600 font-medium' : 'text-gray-900'}`}>
+                  {formatDate(serviceLifeEndDate)}
+                </p>
+              </div>
+            )}
             
             {/* Conditional rendering based on asset status */}
             {asset.status === 'in-testing' ? (
@@ -228,23 +583,86 @@ const AssetDetailsPage: React.FC = () => {
                 <p className="text-sm font-medium text-gray-500">Testing Started</p>
                 <p className="mt-1 text-base text-gray-900">{formatDate(asset.testingStartDate!)}</p>
               </div>
-            ) : asset.status === 'failed' ? (
+            ) : asset.status === 'failed' || asset.status === 'retired' ? (
               <>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Failed On</p>
                   <p className="mt-1 text-base text-gray-900">{formatDate(asset.failureDate!)}</p>
                 </div>
-                <div>
-                  <p className="text-sm font-medium text-gray-500">Failure Reason</p>
-                  <p className="mt-1 text-base text-gray-900">{asset.failureReason}</p>
-                </div>
+                {asset.failureDefectCode ? (
+                  <>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Defect</p>
+                      <p className="mt-1 text-base text-gray-900">
+                        {getDefectCodeLabel(defectCodes, asset.failureDefectCode)}
+                        {asset.failureLocation && ` - ${FAILURE_LOCATION_LABELS[asset.failureLocation]}`}
+                      </p>
+                    </div>
+                    {asset.failureNotes && (
+                      <div>
+                        <p className="text-sm font-medium text-gray-500">Notes</p>
+                        <p className="mt-1 text-base text-gray-900">{asset.failureNotes}</p>
+                      </div>
+                    )}
+                    {failureReporterName && (
+                      <div>
+                        <p className="text-sm font-medium text-gray-500">Reported By</p>
+                        <p className="mt-1 text-base text-gray-900">{failureReporterName}</p>
+                      </div>
+                    )}
+                  </>
+                ) : (
+                  <div>
+                    <p className="text-sm font-medium text-gray-500">Failure Reason</p>
+                    <p className="mt-1 text-base text-gray-900">{asset.failureReason}</p>
+                  </div>
+                )}
+                {asset.status === 'retired' && (
+                  <>
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Retired On</p>
+                      <p className="mt-1 text-base text-gray-900">{formatDate(asset.retiredDate!)}</p>
+                    </div>
+                    {asset.disposalMethod && (
+                      <div>
+                        <p className="text-sm font-medium text-gray-500">Disposal</p>
+                        <p className="mt-1 text-base text-gray-900">{DISPOSAL_METHOD_LABELS[asset.disposalMethod]}</p>
+                      </div>
+                    )}
+                    <div>
+                      <p className="text-sm font-medium text-gray-500">Witnessed By</p>
+                      <p className="mt-1 text-base text-gray-900">{asset.disposalWitness}</p>
+                    </div>
+                    {retiredByName && (
+                      <div>
+                        <p className="text-sm font-medium text-gray-500">Recorded By</p>
+                        <p className="mt-1 text-base text-gray-900">{retiredByName}</p>
+                      </div>
+                    )}
+                  </>
+                )}
               </>
+            ) : !asset.lastCertificationDate || !asset.nextCertificationDate ? (
+              <div>
+                <p className="text-sm font-medium text-gray-500">Dielectric Testing</p>
+                <p className="mt-1 text-base text-gray-900">Not required - inspect before each use</p>
+              </div>
             ) : (
               <>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Last Certification</p>
                   <p className="mt-1 text-base text-gray-900">{formatDate(asset.lastCertificationDate)}</p>
                 </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-500">Service</p>
+                  <p className="mt-1 text-base text-gray-900">
+                    {asset.inStock
+                      ? 'In stock - must be issued by the due date below or retested'
+                      : asset.inServiceDate
+                        ? `Issued ${formatDate(asset.inServiceDate)}`
+                        : 'In service'}
+                  </p>
+                </div>
                 <div>
                   <p className="text-sm font-medium text-gray-500">Next Certification Due</p>
                   <p className={`mt-1 text-base flex items-center ${
@@ -271,14 +689,67 @@ const AssetDetailsPage: React.FC = () => {
           onCancel={() => setShowDeleteConfirm(false)}
         />
         
+        {canInspect && (
+          <InspectionForm
+            asset={asset}
+            showInspectionForm={showInspectionForm}
+            isSubmitting={isSubmitting}
+            onSubmit={handleRecordInspection}
+            onCancel={closeInspectionForm}
+          />
+        )}
+        
+        {isAdmin && asset.status === 'in-testing' && (
+          <LabReturnForm
+            asset={asset}
+            showLabReturnForm={showLabReturnForm}
+            isSubmitting={isSubmitting}
+            onSubmit={handleCompleteLabReturn}
+            onCancel={closeLabReturnForm}
+          />
+        )}
+        
+        <CertificationForm
+          key={asset.assetClass}
+          asset={asset}
+          showCertificationForm={showCertificationForm}
+          isSubmitting={isSubmitting}
+          onSubmit={handleRecordCertification}
+          onCancel={() => setShowCertificationForm(false)}
+        />
+        
+        {/* Unpairing is admin-only, so supervisors leave the mate for an admin to resolve */}
         <FailureForm
           showFailureForm={showFailureForm}
-          failureReason={failureReason}
+          report={failureReport}
           isSubmitting={isSubmitting}
-          onFailureReasonChange={setFailureReason}
+          onReportChange={setFailureReport}
           onSubmit={handleMarkAsFailed}
           onCancel={resetFailureForm}
+          mate={isAdmin ? mate : undefined}
+          mateAction={mateAction}
+          onMateActionChange={setMateAction}
         />
+        
+        {isAdmin && asset.assetType === 'glove' && !asset.pairId && (
+          <PairForm
+            asset={asset}
+            assets={assets}
+            showPairForm={showPairForm}
+            isSubmitting={isSubmitting}
+            onSubmit={handlePairGloves}
+            onCancel={closePairForm}
+          />
+        )}
+        
+        {isAdmin && asset.status === 'failed' && (
+          <RetirementForm
+            showRetirementForm={showRetirementForm}
+            isSubmitting={isSubmitting}
+            onSubmit={handleRetireAsset}
+            onCancel={closeRetirementForm}
+          />
+        )}
       </div>
     );
   };
@@ -295,32 +766,82 @@ const AssetDetailsPage: React.FC = () => {
           Back to Assets
         </Link>
       </div>
+
+      {/* Recall notice for quarantined assets */}
+      {asset.status === 'quarantined' && (
+        <div className="mb-6 rounded-lg border border-danger-300 bg-danger-50 p-4">
+          <div className="flex">
+            <ShieldAlert className="h-5 w-5 text-danger-600 mr-3 flex-shrink-0" />
+            <div className="text-sm text-danger-700">
+              <p className="font-medium">Quarantined by a manufacturer recall. Do not use this asset.</p>
+              {openRecalls.map(recall => (
+                <p key={recall.id} className="mt-1">
+                  {getSupplierById(recall.manufacturerId)?.name} &middot; {formatLotRange(recall)} &middot; Notice {recall.reference}
+                  {recall.description && <span className="block text-danger-600">{recall.description}</span>}
+                </p>
+              ))}
+              {isAdmin && (
+                <Link to="/recalls" className="mt-2 inline-block font-medium underline hover:text-danger-800">
+                  Clear or remove it on the Recalls page
+                </Link>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
       
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Main asset details section */}
-        <div className="lg:col-span-2">
+        <div className="lg:col-span-2 space-y-6">
           <Card>
             <CardHeader className="flex justify-between items-start">
               <div>
                 <div className="flex items-center">
                   <h2 className="text-xl font-bold text-gray-900">{asset.serialNumber}</h2>
-                  <StatusBadge status={asset.status} className="ml-3" />
+                  <StatusBadge status={asset.status} endOfLife={isAssetPastServiceLife(asset, serviceLifeRules)} className="ml-3" />
                 </div>
                 <p className="text-sm text-gray-500 mt-1">{asset.assetClass}</p>
               </div>
               
-              {/* Admin action buttons */}
-              {isAdmin && (
-                <AdminActions
-                  asset={asset}
-                  isEditing={isEditing}
-                  isSubmitting={isSubmitting}
-                  onMarkAsInTesting={handleMarkAsInTesting}
-                  onShowFailureForm={() => setShowFailureForm(true)}
-                  onEdit={() => setIsEditing(true)}
-                  onDelete={() => setShowDeleteConfirm(true)}
-                />
-              )}
+              <div className="flex space-x-2">
+                {canInspect && !isEditing && (
+                  <Button
+                    size="sm"
+                    onClick={() => setShowInspectionForm(true)}
+                    disabled={isSubmitting}
+                    leftIcon={<ClipboardList className="h-4 w-4" />}
+                  >
+                    Inspect
+                  </Button>
+                )}
+              
+                {/* Admin action buttons */}
+                {isAdmin && (
+                  <AdminActions
+                    asset={asset}
+                    isEditing={isEditing}
+                    isSubmitting={isSubmitting}
+                    onMarkAsInTesting={handleMarkAsInTesting}
+                    onShowCertificationForm={() => setShowCertificationForm(true)}
+                    onShowLabReturnForm={() => setShowLabReturnForm(true)}
+                    onShowFailureForm={() => setShowFailureForm(true)}
+                    onShowRetirementForm={() => setShowRetirementForm(true)}
+                    onShowPairForm={() => setShowPairForm(true)}
+                    onEdit={() => setIsEditing(true)}
+                    onDelete={() => setShowDeleteConfirm(true)}
+                  />
+                )}
+                
+                {isSupervisedAsset && (
+                  <SupervisorActions
+                    asset={asset}
+                    isEditing={isEditing}
+                    isSubmitting={isSubmitting}
+                    onMarkAsInTesting={handleMarkAsInTesting}
+                    onShowFailureForm={() => setShowFailureForm(true)}
+                  />
+                )}
+              </div>
             </CardHeader>
             
             <CardContent>
@@ -336,6 +857,14 @@ const AssetDetailsPage: React.FC = () => {
               )}
             </CardContent>
           </Card>
+
+          {requiresDielectricTest(asset.assetType) && <CertificationHistory asset={asset} />}
+
+          <InspectionHistory asset={asset} />
+
+          <CustodyHistory asset={asset} />
+
+          <MovementHistory asset={asset} />
         </div>
         
         {/* Documents sidebar */}
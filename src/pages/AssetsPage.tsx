@@ -1,8 +1,11 @@
 import React, { useState, useMemo } from 'react';
-import { PlusCircle, Upload } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { AlertTriangle, PlusCircle, Upload } from 'lucide-react';
 import { useUser } from '@clerk/clerk-react';
 import { useRole } from '../hooks/useRole';
 import { useAssets } from '../context/AssetContext';
+import { getSupervisedCrews, isAssetInUserScope } from '../utils/crewUtils';
+import { findDuplicateSerialGroups } from '../utils/serialUtils';
 import PageLayout from '../components/layout/PageLayout';
 import AssetsList from '../components/assets/AssetsList';
 import Button from '../components/ui/Button';
@@ -14,12 +17,13 @@ import BulkUpload from '../components/assets/BulkUpload';
  * 
  * Main page for managing assets. Provides different functionality based on user role:
  * - Admins: Can view all assets, create new assets, and bulk upload certifications
+ * - Supervisors: Can view their own assets and their crew's assets
  * - Members: Can view only their assigned assets
  */
 const AssetsPage: React.FC = () => {
   const { user } = useUser();
   const { isAdmin, isMember } = useRole();
-  const { assets, organizationMembers, addAsset, bulkUploadDocument } = useAssets();
+  const { assets, crews, organizationMembers, addAsset, bulkUploadDocument } = useAssets();
   
   // Component state management
   const [showCreateForm, setShowCreateForm] = useState(false);
@@ -41,17 +45,24 @@ const AssetsPage: React.FC = () => {
   /**
    * Filters assets based on user role:
    * - Admins see all organization assets
-   * - Members see only assets assigned to them
+   * - Members see assets assigned to them or to a crew they supervise
    * - Others see no assets
    */
   const displayedAssets = useMemo(() => {
     if (isAdmin) {
       return assets;
     } else if (isMember && user?.id) {
-      return assets.filter(asset => asset.assignedUserId === user.id);
+      return assets.filter(asset => isAssetInUserScope(asset, user.id, crews));
     }
     return [];
-  }, [assets, user, isAdmin, isMember]);
+  }, [assets, user, isAdmin, isMember, crews]);
+
+  const isSupervisor = getSupervisedCrews(crews, user?.id).length > 0;
+
+  const duplicateSerialCount = useMemo(
+    () => (isAdmin ? findDuplicateSerialGroups(assets).length : 0),
+    [assets, isAdmin]
+  );
   
   /**
    * Handles asset creation with loading state management
@@ -92,8 +103,9 @@ const AssetsPage: React.FC = () => {
    * Generates page description based on user role
    */
   const getPageDescription = (): string => {
-    return isAdmin 
-      ? "Manage all safety equipment assets" 
+    if (isAdmin) return "Manage all safety equipment assets";
+    return isSupervisor
+      ? "View your and your crew's safety equipment"
       : "View your assigned safety equipment";
   };
 
@@ -125,6 +137,26 @@ const AssetsPage: React.FC = () => {
     );
   };
 
+  /**
+   * Renders a notice linking to the duplicate finder while serials collide
+   * Only visible to admin users
+   */
+  const renderDuplicateNotice = () => {
+    if (duplicateSerialCount === 0) return null;
+
+    return (
+      <div className="mb-6 rounded-md bg-warning-50 border border-warning-200 p-4 flex items-center text-sm text-warning-800">
+        <AlertTriangle className="h-5 w-5 text-warning-500 mr-2 flex-shrink-0" />
+        <span>
+          {duplicateSerialCount} {duplicateSerialCount === 1 ? 'serial number is' : 'serial numbers are'} shared by more than one asset.{' '}
+          <Link to="/assets/duplicates" className="font-medium underline">
+            Review duplicates
+          </Link>
+        </span>
+      </div>
+    );
+  };
+
   /**
    * Renders the asset creation form
    * Only shown when showCreateForm is true
@@ -153,7 +185,7 @@ const AssetsPage: React.FC = () => {
 
     return (
       <BulkUpload
-        assets={displayedAssets}
+        assets={displayedAssets.filter(asset => asset.status !== 'retired')}
         onUpload={handleBulkUpload}
         onClose={() => setShowBulkUpload(false)}
         isUploading={isUploading}
@@ -169,6 +201,9 @@ const AssetsPage: React.FC = () => {
       {/* Admin-only action buttons */}
       {renderAdminActions()}
       
+      {/* Duplicate serial number notice */}
+      {renderDuplicateNotice()}
+      
       {/* Asset creation form */}
       {renderCreateForm()}
       
@@ -1,19 +1,40 @@
-import React, { useMemo } from 'react';
-import { Shield, Clock, AlertTriangle, CheckCircle, TestTube, XCircle } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { Shield, Clock, AlertTriangle, CheckCircle, TestTube, XCircle, Archive } from 'lucide-react';
 import { Link } from 'react-router-dom';
 import { useUser } from '@clerk/clerk-react';
 import { useRole } from '../hooks/useRole';
 import { useAssets } from '../context/AssetContext';
+import { getDaysSinceFailure, isDisposalOverdue } from '../utils/retirementUtils';
+import { ASSET_TYPES, ASSET_TYPE_OPTIONS } from '../utils/assetTypes';
+import { getCrewAssets, getSupervisedCrews } from '../utils/crewUtils';
 import PageLayout from '../components/layout/PageLayout';
 import StatusChart from '../components/dashboard/StatusChart';
 import StatCard from '../components/dashboard/StatCard';
+import PendingAcknowledgements from '../components/dashboard/PendingAcknowledgements';
+import LowStockAlert from '../components/dashboard/LowStockAlert';
+import OpenRecallsAlert from '../components/dashboard/OpenRecallsAlert';
+import ServiceLifeForecast from '../components/dashboard/ServiceLifeForecast';
 import AssetCard from '../components/assets/AssetCard';
 import Button from '../components/ui/Button';
 
 const DashboardPage: React.FC = () => {
   const { user } = useUser();
   const { isAdmin, isMember } = useRole();
-  const { assets } = useAssets();
+  const { assets: allAssets, crews, orgSettings } = useAssets();
+  const [selectedCrewId, setSelectedCrewId] = useState('');
+
+  // Admins can narrow the stats to any crew; supervisors to the crews they lead
+  const filterableCrews = isAdmin ? crews : getSupervisedCrews(crews, user?.id);
+  const selectedCrew = filterableCrews.find(crew => crew.id === selectedCrewId);
+
+  // Retired assets are kept for audit but left out of the dashboard
+  const activeAssets = useMemo(() => {
+    return allAssets.filter(asset => asset.status !== 'retired');
+  }, [allAssets]);
+
+  const assets = useMemo(() => {
+    return selectedCrew ? getCrewAssets(selectedCrew, activeAssets) : activeAssets;
+  }, [activeAssets, selectedCrew]);
   
   const assetStats = useMemo(() => {
     return {
@@ -25,13 +46,27 @@ const DashboardPage: React.FC = () => {
       failed: assets.filter(a => a.status === 'failed').length,
     };
   }, [assets]);
+
+  // Only types the organization actually holds are listed
+  const assetTypeStats = useMemo(() => {
+    return ASSET_TYPE_OPTIONS
+      .map(type => {
+        const typeAssets = assets.filter(a => a.assetType === type);
+        return {
+          type,
+          total: typeAssets.length,
+          dueOrExpired: typeAssets.filter(a => a.status === 'near-due' || a.status === 'expired').length,
+        };
+      })
+      .filter(stat => stat.total > 0);
+  }, [assets]);
   
   const userAssets = useMemo(() => {
     if (isMember) {
-      return assets.filter(asset => asset.assignedUserId === user?.id);
+      return activeAssets.filter(asset => asset.assignedUserId === user?.id);
     }
     return [];
-  }, [assets, user, isMember]);
+  }, [activeAssets, user, isMember]);
   
   const assetsNeedingAttention = useMemo(() => {
     if (isAdmin) {
@@ -41,8 +76,8 @@ const DashboardPage: React.FC = () => {
           if (a.status === 'expired' && b.status !== 'expired') return -1;
           if (a.status !== 'expired' && b.status === 'expired') return 1;
           
-          const dateA = new Date(a.nextCertificationDate);
-          const dateB = new Date(b.nextCertificationDate);
+          const dateA = new Date(a.nextCertificationDate!);
+          const dateB = new Date(b.nextCertificationDate!);
           return dateA.getTime() - dateB.getTime();
         })
         .slice(0, 3);
@@ -69,9 +104,36 @@ const DashboardPage: React.FC = () => {
         return dateB.getTime() - dateA.getTime();
       });
   }, [assets]);
+
+  const assetsAwaitingDestruction = useMemo(() => {
+    return failedAssets
+      .filter(asset => isDisposalOverdue(asset, orgSettings.failedDisposalDays))
+      .reverse();
+  }, [failedAssets, orgSettings.failedDisposalDays]);
   
   return (
     <PageLayout title="Dashboard" description="Overview of your safety equipment status">
+      <PendingAcknowledgements />
+
+      {filterableCrews.length > 0 && (
+        <div className="mb-6 flex items-center">
+          <label htmlFor="crewFilter" className="text-sm font-medium text-gray-700 mr-3">
+            Crew
+          </label>
+          <select
+            id="crewFilter"
+            className="block w-64 border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+            value={selectedCrewId}
+            onChange={(e) => setSelectedCrewId(e.target.value)}
+          >
+            <option value="">{isAdmin ? 'All crews' : 'All my assets'}</option>
+            {filterableCrews.map(crew => (
+              <option key={crew.id} value={crew.id}>{crew.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-6">
         <StatCard
           title="Total Assets"
@@ -118,12 +180,43 @@ const DashboardPage: React.FC = () => {
       </div>
       
       <div className="mt-8 grid grid-cols-1 gap-6 lg:grid-cols-3">
-        <div className="lg:col-span-1">
+        <div className="lg:col-span-1 space-y-6">
           <StatusChart assets={assets} />
+          {assetTypeStats.length > 0 && (
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="p-5">
+                <h3 className="text-lg font-medium text-gray-900 mb-4">Assets by Type</h3>
+                <ul className="divide-y divide-gray-200">
+                  {assetTypeStats.map(stat => (
+                    <li key={stat.type} className="py-2 flex justify-between items-center">
+                      <Link
+                        to={`/assets?type=${stat.type}`}
+                        className="text-sm font-medium text-gray-900 hover:text-primary-600"
+                      >
+                        {ASSET_TYPES[stat.type].pluralLabel}
+                      </Link>
+                      <div className="text-sm text-gray-500">
+                        {stat.dueOrExpired > 0 && (
+                          <span className="text-warning-600 mr-2">{stat.dueOrExpired} due</span>
+                        )}
+                        <span className="font-medium text-gray-900">{stat.total}</span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
         </div>
         <div className="lg:col-span-2">
           {isAdmin && (
             <div className="space-y-6">
+              <OpenRecallsAlert />
+
+              <LowStockAlert />
+
+              <ServiceLifeForecast />
+
               {assetsInTesting.length > 0 && (
                 <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
                   <div className="p-5">
@@ -150,13 +243,54 @@ const DashboardPage: React.FC = () => {
                               >
                                 {asset.serialNumber}
                               </Link>
-                              <p className="text-sm text-gray-500">{asset.assetClass}</p>
+                              <p className="text-sm text-gray-500">
+                                {ASSET_TYPES[asset.assetType].label} &middot; {asset.assetClass}
+                              </p>
                               <p className="text-sm text-gray-500 mt-1">
                                 Testing since: {new Date(asset.testingStartDate!).toLocaleDateString()}
                               </p>
                             </div>
-                            <Link to={`/assets/${asset.id}`}>
-                              <Button size="sm">Update Certification</Button>
+                            <Link to={`/assets/${asset.id}?action=return-from-lab`}>
+                              <Button size="sm">Return from Lab</Button>
+                            </Link>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {assetsAwaitingDestruction.length > 0 && (
+                <div className="bg-white rounded-lg shadow-sm border border-danger-200 overflow-hidden">
+                  <div className="p-5">
+                    <div className="flex items-center mb-1">
+                      <Archive className="h-5 w-5 text-danger-600 mr-2" />
+                      <h3 className="text-lg font-medium text-gray-900">Awaiting Destruction</h3>
+                    </div>
+                    <p className="text-sm text-gray-500 mb-4">
+                      Failed more than {orgSettings.failedDisposalDays} days ago and not yet destroyed.
+                    </p>
+                    <div className="space-y-4">
+                      {assetsAwaitingDestruction.slice(0, 3).map(asset => (
+                        <div key={asset.id} className="border border-gray-200 rounded-md p-4">
+                          <div className="flex justify-between items-start">
+                            <div>
+                              <Link
+                                to={`/assets/${asset.id}`}
+                                className="text-base font-medium text-gray-900 hover:text-primary-600"
+                              >
+                                {asset.serialNumber}
+                              </Link>
+                              <p className="text-sm text-gray-500">
+                                {ASSET_TYPES[asset.assetType].label} &middot; {asset.assetClass}
+                              </p>
+                              <p className="text-sm text-danger-600 mt-1">
+                                Failed {getDaysSinceFailure(asset)} days ago
+                              </p>
+                            </div>
+                            <Link to={`/assets/${asset.id}?action=retire`}>
+                              <Button size="sm" variant="danger">Retire</Button>
                             </Link>
                           </div>
                         </div>
@@ -192,7 +326,9 @@ const DashboardPage: React.FC = () => {
                               >
                                 {asset.serialNumber}
                               </Link>
-                              <p className="text-sm text-gray-500">{asset.assetClass}</p>
+                              <p className="text-sm text-gray-500">
+                                {ASSET_TYPES[asset.assetType].label} &middot; {asset.assetClass}
+                              </p>
                               <p className="text-sm text-gray-500 mt-1">
                                 Failed on: {new Date(asset.failureDate!).toLocaleDateString()}
                               </p>
@@ -234,7 +370,9 @@ const DashboardPage: React.FC = () => {
                               >
                                 {asset.serialNumber}
                               </Link>
-                              <p className="text-sm text-gray-500">{asset.assetClass}</p>
+                              <p className="text-sm text-gray-500">
+                                {ASSET_TYPES[asset.assetType].label} &middot; {asset.assetClass}
+                              </p>
                             </div>
                             <div>
                               {asset.status === 'expired' ? (
@@ -0,0 +1,175 @@
+import React, { useMemo, useState } from 'react';
+import { Link, Navigate } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, GitMerge } from 'lucide-react';
+import { AssetMergeField } from '../types';
+import { useRole } from '../hooks/useRole';
+import { useAssets } from '../context/AssetContext';
+import { formatDate } from '../utils';
+import { ASSET_TYPES } from '../utils/assetTypes';
+import { findDuplicateSerialGroups } from '../utils/serialUtils';
+import { isAssetPastServiceLife } from '../utils/serviceLifeUtils';
+import PageLayout from '../components/layout/PageLayout';
+import Card, { CardHeader } from '../components/ui/Card';
+import Badge from '../components/ui/Badge';
+import Button from '../components/ui/Button';
+import StatusBadge from '../components/ui/StatusBadge';
+import { MergeForm } from '../components/assets';
+
+/**
+ * DuplicateAssetsPage Component
+ *
+ * Lists asset records whose serial numbers are the same once case and
+ * whitespace are ignored, and proposes which record of each group to keep:
+ * the one the database left unflagged, then the one with the most history.
+ * Each other record can be merged into it, keeping both records' history.
+ */
+const DuplicateAssetsPage: React.FC = () => {
+  const { isAdmin } = useRole();
+  const { assets, organizationMembers, serviceLifeRules, mergeAssets } = useAssets();
+  const [mergingAssetId, setMergingAssetId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const groups = useMemo(() => findDuplicateSerialGroups(assets), [assets]);
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const getHolderName = (userId: string | null): string => {
+    if (!userId) return 'Unassigned';
+    const member = organizationMembers.find(m => m.id === userId);
+    return member ? member.name : 'Unknown User';
+  };
+
+  const handleMerge = async (survivorId: string, duplicateId: string, fields: AssetMergeField[]) => {
+    setIsSubmitting(true);
+    try {
+      await mergeAssets(survivorId, duplicateId, fields);
+      setMergingAssetId(null);
+    } catch (error) {
+      console.error('Error merging assets:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <PageLayout
+      title="Duplicate Serial Numbers"
+      description="Asset records whose serial numbers differ only by case or spacing"
+    >
+      <div className="mb-6">
+        <Link to="/assets" className="inline-flex items-center text-sm text-primary-600 hover:text-primary-700">
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Assets
+        </Link>
+      </div>
+
+      {groups.length === 0 ? (
+        <div className="bg-white shadow-sm rounded-lg p-8 border border-gray-200 text-center">
+          <CheckCircle className="h-10 w-10 text-success-500 mx-auto mb-2" />
+          <p className="text-gray-700">Every asset has a unique serial number.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map(group => (
+            <Card key={group.serialNumberKey}>
+              <CardHeader>
+                <h3 className="text-lg font-medium text-gray-900">{group.serialNumberKey}</h3>
+                <p className="text-sm text-gray-500 mt-1">
+                  {group.assets.length} records. Proposed merge: keep {group.proposedSurvivor.serialNumber} (issued{' '}
+                  {formatDate(group.proposedSurvivor.issueDate)}) and fold the others into it.
+                </p>
+              </CardHeader>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Serial
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Asset
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Status
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Held By
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        History
+                      </th>
+                      <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        Proposal
+                      </th>
+                      <th scope="col" className="relative px-6 py-3">
+                        <span className="sr-only">Actions</span>
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {group.assets.map(asset => (
+                      <tr key={asset.id}>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <Link to={`/assets/${asset.id}`} className="font-medium text-primary-600 hover:text-primary-700">
+                            {asset.serialNumber}
+                          </Link>
+                          <span className="block text-xs text-gray-500">Issued {formatDate(asset.issueDate)}</span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {asset.assetClass} {ASSET_TYPES[asset.assetType].label}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <StatusBadge status={asset.status} endOfLife={isAssetPastServiceLife(asset, serviceLifeRules)} />
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {getHolderName(asset.assignedUserId)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {asset.certifications.length} tests, {asset.certificationDocuments.length} documents
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          {asset.id === group.proposedSurvivor.id ? (
+                            <Badge variant="success">Keep</Badge>
+                          ) : (
+                            <Badge variant="warning">Merge into kept record</Badge>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm">
+                          {asset.id !== group.proposedSurvivor.id && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              leftIcon={<GitMerge className="h-4 w-4" />}
+                              onClick={() => setMergingAssetId(asset.id)}
+                              disabled={isSubmitting}
+                            >
+                              Merge
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {group.assets.map(asset => asset.id === mergingAssetId && (
+                <MergeForm
+                  key={asset.id}
+                  records={[group.proposedSurvivor, asset]}
+                  isSubmitting={isSubmitting}
+                  onSubmit={handleMerge}
+                  onCancel={() => setMergingAssetId(null)}
+                />
+              ))}
+            </Card>
+          ))}
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default DuplicateAssetsPage;
@@ -98,15 +98,35 @@ const ImportExportPage: React.FC = () => {
                         <td className="px-3 py-2 text-sm text-gray-900">Yes</td>
                         <td className="px-3 py-2 text-sm text-gray-500">Unique identifier for the asset</td>
                       </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">assetType</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">glove (default), sleeve, blanket, line-hose or protector</td>
+                      </tr>
                       <tr>
                         <td className="px-3 py-2 text-sm text-gray-900">assetClass</td>
                         <td className="px-3 py-2 text-sm text-gray-900">Yes</td>
                         <td className="px-3 py-2 text-sm text-gray-500">Class type (e.g., "Class 0", "Class 1")</td>
                       </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">gloveSize</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">Size 7-12, for gloves and leather protectors</td>
+                      </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">gloveColor</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">red, yellow, black or beige, for gloves</td>
+                      </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">attributes</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">Type-specific details as key=value pairs separated by semicolons (e.g., "size=Large; style=Straight")</td>
+                      </tr>
                       <tr>
                         <td className="px-3 py-2 text-sm text-gray-900">assignedUserId</td>
                         <td className="px-3 py-2 text-sm text-gray-900">No</td>
-                        <td className="px-3 py-2 text-sm text-gray-500">User ID of assigned technician</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">User ID of assigned technician; tested assets without one start in stock</td>
                       </tr>
                       <tr>
                         <td className="px-3 py-2 text-sm text-gray-900">issueDate</td>
@@ -115,9 +135,44 @@ const ImportExportPage: React.FC = () => {
                       </tr>
                       <tr>
                         <td className="px-3 py-2 text-sm text-gray-900">lastCertificationDate</td>
-                        <td className="px-3 py-2 text-sm text-gray-900">Yes</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">Yes, except protectors</td>
                         <td className="px-3 py-2 text-sm text-gray-500">Last certification date (YYYY-MM-DD format)</td>
                       </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">manufacturer</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">Manufacturer name, as listed under Suppliers in Settings</td>
+                      </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">model</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">Manufacturer's model or catalog number</td>
+                      </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">lotNumber</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">Manufacturing lot or batch number</td>
+                      </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">manufactureDate</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">Date of manufacture (YYYY-MM-DD format), on or before the issue date</td>
+                      </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">vendor</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">Vendor name, as listed under Suppliers in Settings</td>
+                      </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">purchaseOrder</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">Purchase order number</td>
+                      </tr>
+                      <tr>
+                        <td className="px-3 py-2 text-sm text-gray-900">unitCost</td>
+                        <td className="px-3 py-2 text-sm text-gray-900">No</td>
+                        <td className="px-3 py-2 text-sm text-gray-500">Price paid per asset (e.g., 54.95)</td>
+                      </tr>
                     </tbody>
                   </table>
                 </div>
@@ -126,10 +181,10 @@ const ImportExportPage: React.FC = () => {
               <div className="pt-4 border-t border-gray-200">
                 <h4 className="text-base font-medium text-gray-800">Example CSV</h4>
                 <pre className="mt-2 bg-gray-50 p-3 rounded-md text-xs text-gray-700 overflow-x-auto">
-                  serialNumber,assetClass,assignedUserId,issueDate,lastCertificationDate{'\n'}
-                  G-12345,Class 1,2,2023-01-15,2023-05-10{'\n'}
-                  G-67890,Class 2,,2022-12-10,2022-12-15{'\n'}
-                  G-54321,Class 0,2,2023-04-05,2023-06-01
+                  serialNumber,assetType,assetClass,gloveSize,attributes,assignedUserId,issueDate,lastCertificationDate{'\n'}
+                  G-12345,glove,Class 1,9,,2,2023-01-15,2023-05-10{'\n'}
+                  S-67890,sleeve,Class 2,,size=Large; style=Straight,,2022-12-10,2022-12-15{'\n'}
+                  P-54321,protector,Class 0,9,,2,2023-04-05,
                 </pre>
               </div>
             </div>
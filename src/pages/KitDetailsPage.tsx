@@ -0,0 +1,357 @@
+import React, { useState, useMemo } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, Edit, Trash2, UserCheck, UserX, PlusCircle } from 'lucide-react';
+import { useUser } from '@clerk/clerk-react';
+import { useRole } from '../hooks/useRole';
+import { useAssets } from '../context/AssetContext';
+import { KitDetails } from '../services/kitService';
+import { formatDate } from '../utils';
+import { ASSET_TYPES } from '../utils/assetTypes';
+import { getKitMembers, getKitStatus, getKittableAssets } from '../utils/kitUtils';
+import { groupPairs } from '../utils/pairUtils';
+import { isAssigneeInUserScope } from '../utils/crewUtils';
+import { isAssetPastServiceLife } from '../utils/serviceLifeUtils';
+import PageLayout from '../components/layout/PageLayout';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import StatusBadge from '../components/ui/StatusBadge';
+import Badge from '../components/ui/Badge';
+import Button from '../components/ui/Button';
+import DeleteConfirm from '../components/assets/DeleteConfirm';
+import KitForm from '../components/kits/KitForm';
+import KitAssetPicker from '../components/kits/KitAssetPicker';
+
+/**
+ * KitDetailsPage Component
+ *
+ * Shows a kit's members and the status rolled up from the worst of them.
+ * Admins can rename or delete the kit, add and remove assets, and assign
+ * or unassign the whole kit at once.
+ *
+ * Access control:
+ * - Admins: Every kit in their organization
+ * - Members: Kits assigned to them or to a crew they supervise
+ */
+const KitDetailsPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useUser();
+  const { isAdmin } = useRole();
+  const {
+    assets,
+    crews,
+    organizationMembers,
+    serviceLifeRules,
+    getKitById,
+    updateKit,
+    deleteKit,
+    addAssetsToKit,
+    removeAssetsFromKit,
+    assignKit,
+  } = useAssets();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showAddAssets, setShowAddAssets] = useState(false);
+  const [selectedAssetIds, setSelectedAssetIds] = useState<string[]>([]);
+  const [assigneeId, setAssigneeId] = useState('');
+
+  const kit = id ? getKitById(id) : undefined;
+
+  const members = useMemo(() => (kit ? getKitMembers(kit, assets) : []), [kit, assets]);
+
+  const hasAccess = !!kit && (isAdmin || isAssigneeInUserScope(kit.assignedUserId, user?.id, crews));
+
+  // Redirect if no access or kit not found
+  if (!kit || !hasAccess) {
+    navigate('/kits');
+    return null;
+  }
+
+  const status = getKitStatus(members);
+  const assignedMember = organizationMembers.find(member => member.id === kit.assignedUserId);
+
+  /**
+   * Runs a kit change with loading state management
+   */
+  const runAction = async (action: () => Promise<void>): Promise<boolean> => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error('Error updating kit:', error);
+      // Error handling is managed by the context/toast system
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUpdateKit = async (details: KitDetails): Promise<void> => {
+    if (await runAction(() => updateKit(kit.id, details))) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleDeleteKit = async (): Promise<void> => {
+    if (await runAction(() => deleteKit(kit.id))) {
+      navigate('/kits');
+    }
+  };
+
+  const handleAssignKit = async (userId: string | null): Promise<void> => {
+    if (await runAction(() => assignKit(kit.id, userId))) {
+      setAssigneeId('');
+    }
+  };
+
+  const handleAddAssets = async (): Promise<void> => {
+    if (await runAction(() => addAssetsToKit(kit.id, selectedAssetIds))) {
+      setSelectedAssetIds([]);
+      setShowAddAssets(false);
+    }
+  };
+
+  return (
+    <PageLayout>
+      <div className="mb-6">
+        <Link
+          to="/kits"
+          className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Kits
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          <Card>
+            <CardHeader className="flex justify-between items-start">
+              <div>
+                <div className="flex items-center">
+                  <h2 className="text-xl font-bold text-gray-900">{kit.name}</h2>
+                  {status ? <StatusBadge status={status} className="ml-3" /> : <Badge className="ml-3">Empty</Badge>}
+                </div>
+                {kit.notes && <p className="text-sm text-gray-500 mt-1">{kit.notes}</p>}
+              </div>
+
+              {isAdmin && !isEditing && (
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    leftIcon={<Edit className="h-4 w-4" />}
+                    onClick={() => setIsEditing(true)}
+                    disabled={isSubmitting}
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    leftIcon={<Trash2 className="h-4 w-4" />}
+                    onClick={() => setShowDeleteConfirm(true)}
+                    disabled={isSubmitting}
+                    className="text-danger-500 hover:bg-danger-50 hover:border-danger-300"
+                  >
+                    Delete
+                  </Button>
+                </div>
+              )}
+            </CardHeader>
+
+            <CardContent>
+              {isEditing ? (
+                <KitForm
+                  initialData={{ name: kit.name, notes: kit.notes }}
+                  onSubmit={handleUpdateKit}
+                  onCancel={() => setIsEditing(false)}
+                  isSubmitting={isSubmitting}
+                />
+              ) : (
+                <>
+                  {members.length === 0 ? (
+                    <p className="text-sm text-gray-500">This kit has no assets yet.</p>
+                  ) : (
+                    <ul className="divide-y divide-gray-200">
+                      {groupPairs(members).map(({ asset, mate }) => {
+                        const gloves = mate ? [asset, mate] : [asset];
+                        return (
+                          <li key={asset.pairId || asset.id} className="py-3 flex items-center justify-between">
+                            <div>
+                              <p className="text-sm font-medium text-gray-900">
+                                {gloves.map((glove, index) => (
+                                  <React.Fragment key={glove.id}>
+                                    {index > 0 && <span className="text-gray-400"> / </span>}
+                                    <Link to={`/assets/${glove.id}`} className="text-primary-600 hover:text-primary-700">
+                                      {glove.serialNumber}
+                                    </Link>
+                                  </React.Fragment>
+                                ))}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {mate ? 'Glove Pair' : ASSET_TYPES[asset.assetType].label} &middot; {asset.assetClass}
+                                {asset.nextCertificationDate && ` · Next due ${formatDate(asset.nextCertificationDate)}`}
+                              </p>
+                            </div>
+                            <div className="flex items-center space-x-3">
+                              {gloves.map(glove => (
+                                <StatusBadge
+                                  key={glove.id}
+                                  status={glove.status}
+                                  endOfLife={isAssetPastServiceLife(glove, serviceLifeRules)}
+                                />
+                              ))}
+                              {isAdmin && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => runAction(() => removeAssetsFromKit(gloves.map(glove => glove.id)))}
+                                  disabled={isSubmitting}
+                                >
+                                  Remove
+                                </Button>
+                              )}
+                            </div>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+
+                  {isAdmin && (
+                    <div className="mt-4">
+                      {showAddAssets ? (
+                        <div className="bg-gray-50 border border-gray-200 rounded-md p-4 space-y-4">
+                          <h4 className="text-sm font-medium text-gray-900">Add Assets</h4>
+                          <KitAssetPicker
+                            assets={getKittableAssets(assets)}
+                            selectedIds={selectedAssetIds}
+                            onChange={setSelectedAssetIds}
+                            disabled={isSubmitting}
+                          />
+                          <div className="flex justify-end space-x-3">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => {
+                                setShowAddAssets(false);
+                                setSelectedAssetIds([]);
+                              }}
+                              disabled={isSubmitting}
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              size="sm"
+                              onClick={handleAddAssets}
+                              isLoading={isSubmitting}
+                              disabled={isSubmitting || selectedAssetIds.length === 0}
+                            >
+                              Add to Kit
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          leftIcon={<PlusCircle className="h-4 w-4" />}
+                          onClick={() => setShowAddAssets(true)}
+                          disabled={isSubmitting}
+                        >
+                          Add Assets
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </>
+              )}
+
+              <DeleteConfirm
+                showDeleteConfirm={showDeleteConfirm}
+                isSubmitting={isSubmitting}
+                onConfirm={handleDeleteKit}
+                onCancel={() => setShowDeleteConfirm(false)}
+                itemName="kit"
+              />
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Assignment sidebar */}
+        <div className="lg:col-span-1">
+          <Card>
+            <CardHeader>
+              <h3 className="text-lg font-medium text-gray-900">Assignment</h3>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-500">Assigned To</p>
+                  <p className="mt-1 text-base text-gray-900">
+                    {kit.assignedUserId ? assignedMember?.name || 'Unknown User' : 'Unassigned'}
+                  </p>
+                </div>
+
+                {isAdmin && (
+                  <>
+                    <div>
+                      <label htmlFor="kitAssignee" className="block text-sm font-medium text-gray-700">
+                        {kit.assignedUserId ? 'Reassign To' : 'Assign To'}
+                      </label>
+                      <select
+                        id="kitAssignee"
+                        className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                        value={assigneeId}
+                        onChange={(e) => setAssigneeId(e.target.value)}
+                        disabled={isSubmitting}
+                      >
+                        <option value="">Select a member...</option>
+                        {organizationMembers
+                          .filter(member => member.id !== kit.assignedUserId)
+                          .map(member => (
+                            <option key={member.id} value={member.id}>
+                              {member.name} ({member.email})
+                            </option>
+                          ))}
+                      </select>
+                    </div>
+                    <div className="flex space-x-2">
+                      <Button
+                        size="sm"
+                        leftIcon={<UserCheck className="h-4 w-4" />}
+                        onClick={() => handleAssignKit(assigneeId)}
+                        disabled={isSubmitting || !assigneeId}
+                      >
+                        Assign Kit
+                      </Button>
+                      {kit.assignedUserId && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          leftIcon={<UserX className="h-4 w-4" />}
+                          onClick={() => handleAssignKit(null)}
+                          disabled={isSubmitting}
+                        >
+                          Unassign
+                        </Button>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      Every asset in the kit is assigned along with it.
+                    </p>
+                  </>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </PageLayout>
+  );
+};
+
+export default KitDetailsPage;
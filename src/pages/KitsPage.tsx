@@ -0,0 +1,122 @@
+import React, { useState, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { PlusCircle } from 'lucide-react';
+import { useUser } from '@clerk/clerk-react';
+import { useRole } from '../hooks/useRole';
+import { useAssets } from '../context/AssetContext';
+import { KitDetails } from '../services/kitService';
+import { getKitMembers, getKittableAssets } from '../utils/kitUtils';
+import { isAssigneeInUserScope } from '../utils/crewUtils';
+import PageLayout from '../components/layout/PageLayout';
+import Button from '../components/ui/Button';
+import KitCard from '../components/kits/KitCard';
+import KitForm from '../components/kits/KitForm';
+
+/**
+ * KitsPage Component
+ *
+ * Lists PPE kits. Admins see every kit and can assemble new ones from
+ * existing assets (open directly with ?action=create); members see the
+ * kits assigned to them or to a crew they supervise.
+ */
+const KitsPage: React.FC = () => {
+  const { user } = useUser();
+  const { isAdmin } = useRole();
+  const { kits, crews, assets, organizationMembers, createKit } = useAssets();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [showCreateForm, setShowCreateForm] = useState(searchParams.get('action') === 'create');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Creates a mapping of user IDs to user names for display purposes
+   */
+  const userMap = useMemo(() => {
+    return organizationMembers.reduce<Record<string, string>>((acc, member) => {
+      acc[member.id] = member.name;
+      return acc;
+    }, {});
+  }, [organizationMembers]);
+
+  const displayedKits = isAdmin
+    ? kits
+    : kits.filter(kit => isAssigneeInUserScope(kit.assignedUserId, user?.id, crews));
+
+  /**
+   * Hide the create form and drop the action from the URL
+   */
+  const closeCreateForm = (): void => {
+    setShowCreateForm(false);
+    if (searchParams.has('action')) {
+      searchParams.delete('action');
+      setSearchParams(searchParams, { replace: true });
+    }
+  };
+
+  /**
+   * Handles kit creation with loading state management
+   */
+  const handleCreateKit = async (details: KitDetails, assetIds: string[]): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await createKit(details, assetIds);
+      closeCreateForm();
+    } catch (error) {
+      console.error('Error creating kit:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <PageLayout
+      title="Kits"
+      description={isAdmin ? 'Assemble and assign PPE kits' : 'View the kits assigned to you'}
+    >
+      {isAdmin && (
+        <div className="mb-6">
+          <Button
+            onClick={() => setShowCreateForm(true)}
+            leftIcon={<PlusCircle className="h-4 w-4" />}
+          >
+            Create New Kit
+          </Button>
+        </div>
+      )}
+
+      {isAdmin && showCreateForm && (
+        <div className="mb-6 bg-white shadow-sm rounded-lg p-6 border border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Create New Kit</h2>
+          <KitForm
+            availableAssets={getKittableAssets(assets)}
+            onSubmit={handleCreateKit}
+            onCancel={closeCreateForm}
+            isSubmitting={isSubmitting}
+          />
+        </div>
+      )}
+
+      {displayedKits.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <p className="text-lg text-gray-500">No kits found.</p>
+          {isAdmin && (
+            <p className="text-sm text-gray-400 mt-2">Create a kit to hand out gloves, sleeves and protectors together.</p>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 animate-fade-in">
+          {displayedKits.map(kit => (
+            <KitCard
+              key={kit.id}
+              kit={kit}
+              members={getKitMembers(kit, assets)}
+              userName={kit.assignedUserId ? userMap[kit.assignedUserId] : 'Unassigned'}
+            />
+          ))}
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default KitsPage;
@@ -0,0 +1,262 @@
+import React, { useState, useMemo } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { ArrowLeft, Edit, Trash2, PlusCircle } from 'lucide-react';
+import { useRole } from '../hooks/useRole';
+import { useAssets } from '../context/AssetContext';
+import { LocationDetails } from '../services/locationService';
+import { ASSET_TYPES } from '../utils/assetTypes';
+import {
+  LOCATION_TYPE_LABELS,
+  getLocationAssets,
+  getLocationInventory,
+  getStockableAssets,
+} from '../utils/locationUtils';
+import PageLayout from '../components/layout/PageLayout';
+import Card, { CardContent, CardHeader } from '../components/ui/Card';
+import Badge from '../components/ui/Badge';
+import Button from '../components/ui/Button';
+import DeleteConfirm from '../components/assets/DeleteConfirm';
+import AssetsList from '../components/assets/AssetsList';
+import KitAssetPicker from '../components/kits/KitAssetPicker';
+import LocationForm from '../components/locations/LocationForm';
+
+/**
+ * LocationDetailsPage Component
+ *
+ * Shows what is stored at a location: a count of the spares ready to issue
+ * by type, class and size, and the full list of stored assets. Admins can
+ * edit or delete the location and move assets onto it.
+ */
+const LocationDetailsPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { isAdmin } = useRole();
+  const {
+    assets,
+    getLocationById,
+    updateLocation,
+    deleteLocation,
+    moveAssetsToLocation,
+  } = useAssets();
+
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [showAddAssets, setShowAddAssets] = useState(false);
+  const [selectedAssetIds, setSelectedAssetIds] = useState<string[]>([]);
+
+  const location = id ? getLocationById(id) : undefined;
+
+  const stock = useMemo(() => (location ? getLocationAssets(location, assets) : []), [location, assets]);
+  const inventory = useMemo(() => getLocationInventory(stock), [stock]);
+
+  // Redirect if the location was not found
+  if (!location) {
+    navigate('/locations');
+    return null;
+  }
+
+  /**
+   * Runs a location change with loading state management
+   */
+  const runAction = async (action: () => Promise<void>): Promise<boolean> => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      console.error('Error updating location:', error);
+      // Error handling is managed by the context/toast system
+      return false;
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUpdateLocation = async (details: LocationDetails): Promise<void> => {
+    if (await runAction(() => updateLocation(location.id, details))) {
+      setIsEditing(false);
+    }
+  };
+
+  const handleDeleteLocation = async (): Promise<void> => {
+    if (await runAction(() => deleteLocation(location.id))) {
+      navigate('/locations');
+    }
+  };
+
+  const handleAddAssets = async (): Promise<void> => {
+    if (await runAction(() => moveAssetsToLocation(selectedAssetIds, location.id))) {
+      setSelectedAssetIds([]);
+      setShowAddAssets(false);
+    }
+  };
+
+  return (
+    <PageLayout>
+      <div className="mb-6">
+        <Link
+          to="/locations"
+          className="inline-flex items-center text-sm font-medium text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          Back to Locations
+        </Link>
+      </div>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader className="flex justify-between items-start">
+            <div>
+              <div className="flex items-center">
+                <h2 className="text-xl font-bold text-gray-900">{location.name}</h2>
+                <Badge className="ml-3">{LOCATION_TYPE_LABELS[location.locationType]}</Badge>
+              </div>
+              {location.notes && <p className="text-sm text-gray-500 mt-1">{location.notes}</p>}
+            </div>
+
+            {isAdmin && !isEditing && (
+              <div className="flex space-x-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<Edit className="h-4 w-4" />}
+                  onClick={() => setIsEditing(true)}
+                  disabled={isSubmitting}
+                >
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  leftIcon={<Trash2 className="h-4 w-4" />}
+                  onClick={() => setShowDeleteConfirm(true)}
+                  disabled={isSubmitting}
+                  className="text-danger-500 hover:bg-danger-50 hover:border-danger-300"
+                >
+                  Delete
+                </Button>
+              </div>
+            )}
+          </CardHeader>
+
+          <CardContent>
+            {isEditing ? (
+              <LocationForm
+                initialData={{ name: location.name, locationType: location.locationType, notes: location.notes }}
+                onSubmit={handleUpdateLocation}
+                onCancel={() => setIsEditing(false)}
+                isSubmitting={isSubmitting}
+              />
+            ) : (
+              <>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Ready to Issue</h3>
+                {inventory.length === 0 ? (
+                  <p className="text-sm text-gray-500">No spares in service are stored here.</p>
+                ) : (
+                  <div className="overflow-x-auto border border-gray-200 rounded-md">
+                    <table className="min-w-full divide-y divide-gray-200">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Type
+                          </th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Class
+                          </th>
+                          <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Size
+                          </th>
+                          <th scope="col" className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                            Count
+                          </th>
+                        </tr>
+                      </thead>
+                      <tbody className="bg-white divide-y divide-gray-200">
+                        {inventory.map(line => (
+                          <tr key={`${line.assetType}|${line.assetClass}|${line.size}`}>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                              {ASSET_TYPES[line.assetType].pluralLabel}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{line.assetClass}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">{line.size || '—'}</td>
+                            <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-medium text-gray-900">
+                              {line.count}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {isAdmin && (
+                  <div className="mt-4">
+                    {showAddAssets ? (
+                      <div className="bg-gray-50 border border-gray-200 rounded-md p-4 space-y-4">
+                        <h4 className="text-sm font-medium text-gray-900">Move Assets Here</h4>
+                        <KitAssetPicker
+                          assets={getStockableAssets(location, assets)}
+                          selectedIds={selectedAssetIds}
+                          onChange={setSelectedAssetIds}
+                          disabled={isSubmitting}
+                          emptyMessage="No other assets can be stored here."
+                        />
+                        <p className="text-xs text-gray-500">
+                          Assets held by a technician are unassigned when they are stored.
+                        </p>
+                        <div className="flex justify-end space-x-3">
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => {
+                              setShowAddAssets(false);
+                              setSelectedAssetIds([]);
+                            }}
+                            disabled={isSubmitting}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={handleAddAssets}
+                            isLoading={isSubmitting}
+                            disabled={isSubmitting || selectedAssetIds.length === 0}
+                          >
+                            Move Here
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        leftIcon={<PlusCircle className="h-4 w-4" />}
+                        onClick={() => setShowAddAssets(true)}
+                        disabled={isSubmitting}
+                      >
+                        Move Assets Here
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            <DeleteConfirm
+              showDeleteConfirm={showDeleteConfirm}
+              isSubmitting={isSubmitting}
+              onConfirm={handleDeleteLocation}
+              onCancel={() => setShowDeleteConfirm(false)}
+              itemName="location"
+            />
+          </CardContent>
+        </Card>
+
+        <AssetsList assets={stock} />
+      </div>
+    </PageLayout>
+  );
+};
+
+export default LocationDetailsPage;
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { PlusCircle } from 'lucide-react';
+import { useRole } from '../hooks/useRole';
+import { useAssets } from '../context/AssetContext';
+import { LocationDetails } from '../services/locationService';
+import { getLocationAssets } from '../utils/locationUtils';
+import PageLayout from '../components/layout/PageLayout';
+import Button from '../components/ui/Button';
+import LocationCard from '../components/locations/LocationCard';
+import LocationForm from '../components/locations/LocationForm';
+
+/**
+ * LocationsPage Component
+ *
+ * Lists the yards, trucks, tool cribs and labs where unassigned stock is
+ * kept. Everyone can browse what is stored where; admins add locations.
+ */
+const LocationsPage: React.FC = () => {
+  const { isAdmin } = useRole();
+  const { locations, assets, createLocation } = useAssets();
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  /**
+   * Handles location creation with loading state management
+   */
+  const handleCreateLocation = async (details: LocationDetails): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await createLocation(details);
+      setShowCreateForm(false);
+    } catch (error) {
+      console.error('Error creating location:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <PageLayout
+      title="Locations"
+      description="Yards, trucks, tool cribs and labs holding unassigned stock"
+    >
+      {isAdmin && (
+        <div className="mb-6">
+          <Button
+            onClick={() => setShowCreateForm(true)}
+            leftIcon={<PlusCircle className="h-4 w-4" />}
+          >
+            Add Location
+          </Button>
+        </div>
+      )}
+
+      {isAdmin && showCreateForm && (
+        <div className="mb-6 bg-white shadow-sm rounded-lg p-6 border border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Add Location</h2>
+          <LocationForm
+            onSubmit={handleCreateLocation}
+            onCancel={() => setShowCreateForm(false)}
+            isSubmitting={isSubmitting}
+          />
+        </div>
+      )}
+
+      {locations.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <p className="text-lg text-gray-500">No locations found.</p>
+          {isAdmin && (
+            <p className="text-sm text-gray-400 mt-2">Add a yard, truck or tool crib to track where spares are kept.</p>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6 animate-fade-in">
+          {locations.map(location => (
+            <LocationCard
+              key={location.id}
+              location={location}
+              stock={getLocationAssets(location, assets)}
+            />
+          ))}
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default LocationsPage;
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { Navigate } from 'react-router-dom';
+import { ShieldAlert } from 'lucide-react';
+import { RecallResolution } from '../types';
+import { useRole } from '../hooks/useRole';
+import { useAssets } from '../context/AssetContext';
+import { RecallNotice } from '../services/recallService';
+import { isRecallOpen } from '../utils/recallUtils';
+import PageLayout from '../components/layout/PageLayout';
+import Button from '../components/ui/Button';
+import { RecallCard, RecallForm } from '../components/recalls';
+
+/**
+ * RecallsPage Component
+ *
+ * Records manufacturer recall notices and tracks remediation of the assets
+ * they quarantined. Open recalls are listed first, newest first.
+ */
+const RecallsPage: React.FC = () => {
+  const { isAdmin } = useRole();
+  const { recalls, issueRecall, resolveRecalledAsset } = useAssets();
+  const [showRecallForm, setShowRecallForm] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  const openRecalls = recalls.filter(isRecallOpen);
+  const resolvedRecalls = recalls.filter(recall => !isRecallOpen(recall));
+
+  /**
+   * Handles recall issuing with loading state management
+   */
+  const handleIssueRecall = async (notice: RecallNotice): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await issueRecall(notice);
+      setShowRecallForm(false);
+    } catch (error) {
+      console.error('Error issuing recall:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  /**
+   * Handles remediation of one affected asset with loading state management
+   */
+  const handleResolve = async (recallAssetId: string, resolution: RecallResolution, notes?: string): Promise<void> => {
+    setIsSubmitting(true);
+    try {
+      await resolveRecalledAsset(recallAssetId, resolution, notes);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <PageLayout
+      title="Recalls"
+      description="Manufacturer lot recalls and the assets they quarantined"
+    >
+      <div className="mb-6">
+        <Button
+          variant="danger"
+          onClick={() => setShowRecallForm(true)}
+          leftIcon={<ShieldAlert className="h-4 w-4" />}
+        >
+          Record Recall
+        </Button>
+      </div>
+
+      {showRecallForm && (
+        <div className="mb-6 bg-white shadow-sm rounded-lg p-6 border border-gray-200">
+          <h2 className="text-lg font-medium text-gray-900 mb-4">Record Recall</h2>
+          <RecallForm
+            onSubmit={handleIssueRecall}
+            onCancel={() => setShowRecallForm(false)}
+            isSubmitting={isSubmitting}
+          />
+        </div>
+      )}
+
+      {recalls.length === 0 ? (
+        <div className="text-center py-12 bg-white rounded-lg shadow">
+          <p className="text-lg text-gray-500">No recalls recorded.</p>
+          <p className="text-sm text-gray-400 mt-2">
+            Record a manufacturer's notice to quarantine the affected lots and notify whoever holds them.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6 animate-fade-in">
+          {[...openRecalls, ...resolvedRecalls].map(recall => (
+            <RecallCard
+              key={recall.id}
+              recall={recall}
+              onResolve={handleResolve}
+              isSubmitting={isSubmitting}
+            />
+          ))}
+        </div>
+      )}
+    </PageLayout>
+  );
+};
+
+export default RecallsPage;
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, CameraOff, Search } from 'lucide-react';
+import { Asset } from '../types';
+import { useAssets } from '../context/AssetContext';
+import PageLayout from '../components/layout/PageLayout';
+import Button from '../components/ui/Button';
+import BarcodeScanner from '../components/scan/BarcodeScanner';
+import ScanResult from '../components/scan/ScanResult';
+
+/**
+ * ScanPage Component
+ *
+ * Looks up an asset from its label: point the camera at the QR code, type the
+ * serial number, or use a USB keyboard-wedge scanner, which types the code
+ * into the search box followed by Enter. Lookups only find assets the user
+ * is allowed to see.
+ */
+const ScanPage: React.FC = () => {
+  const { getAssetById, lookupAsset } = useAssets();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [code, setCode] = useState('');
+  const [showCamera, setShowCamera] = useState(false);
+  const [isLooking, setIsLooking] = useState(false);
+  const [scannedAsset, setScannedAsset] = useState<Asset | null>(null);
+  const [notFoundCode, setNotFoundCode] = useState<string | null>(null);
+
+  // Keep the box focused so a wedge scanner can be used straight away
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  /**
+   * Resolves a scanned or typed code to an asset
+   */
+  const handleLookup = async (text: string): Promise<void> => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    setIsLooking(true);
+    try {
+      const asset = await lookupAsset(trimmed);
+      setScannedAsset(asset || null);
+      setNotFoundCode(asset ? null : trimmed);
+      setCode('');
+    } catch (error) {
+      console.error('Error looking up scanned code:', error);
+      // Error handling is managed by the context/toast system
+    } finally {
+      setIsLooking(false);
+      inputRef.current?.focus();
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent): void => {
+    e.preventDefault();
+    handleLookup(code);
+  };
+
+  // Show the latest copy so quick actions are reflected straight away
+  const asset = scannedAsset ? getAssetById(scannedAsset.id) || scannedAsset : null;
+
+  return (
+    <PageLayout
+      title="Scan"
+      description="Scan an asset label to look it up and act on it"
+    >
+      <div className="max-w-2xl space-y-6">
+        <div className="bg-white shadow-sm rounded-lg p-6 border border-gray-200 space-y-4">
+          <form onSubmit={handleSubmit} className="flex space-x-3 items-end">
+            <div className="flex-1">
+              <label htmlFor="scanCode" className="block text-sm font-medium text-gray-700">
+                Serial Number or Label Code
+              </label>
+              <input
+                ref={inputRef}
+                type="text"
+                id="scanCode"
+                autoComplete="off"
+                className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-primary-500 focus:border-primary-500 sm:text-sm"
+                placeholder="Scan or type, then press Enter"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+            <Button
+              type="submit"
+              isLoading={isLooking}
+              disabled={isLooking || !code.trim()}
+              leftIcon={<Search className="h-4 w-4" />}
+            >
+              Look Up
+            </Button>
+          </form>
+
+          <Button
+            variant="outline"
+            leftIcon={showCamera ? <CameraOff className="h-4 w-4" /> : <Camera className="h-4 w-4" />}
+            onClick={() => setShowCamera(prev => !prev)}
+          >
+            {showCamera ? 'Stop Camera' : 'Use Camera'}
+          </Button>
+
+          {showCamera && <BarcodeScanner onDetect={handleLookup} />}
+        </div>
+
+        {notFoundCode && (
+          <div className="rounded-md bg-warning-50 border border-warning-200 p-4 text-sm text-warning-800">
+            No asset you have access to matches "{notFoundCode}".
+          </div>
+        )}
+
+        {asset && <ScanResult asset={asset} />}
+      </div>
+    </PageLayout>
+  );
+};
+
+export default ScanPage;
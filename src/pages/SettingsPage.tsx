@@ -0,0 +1,43 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+import { useRole } from '../hooks/useRole';
+import PageLayout from '../components/layout/PageLayout';
+import RetestIntervalRules from '../components/settings/RetestIntervalRules';
+import ServiceLifeRules from '../components/settings/ServiceLifeRules';
+import DefectCodes from '../components/settings/DefectCodes';
+import DisposalDeadline from '../components/settings/DisposalDeadline';
+import ThermalLabels from '../components/settings/ThermalLabels';
+import StockMinimums from '../components/settings/StockMinimums';
+import Suppliers from '../components/settings/Suppliers';
+
+/**
+ * SettingsPage Component
+ *
+ * Organization-level configuration for admins
+ */
+const SettingsPage: React.FC = () => {
+  const { isAdmin } = useRole();
+
+  if (!isAdmin) {
+    return <Navigate to="/dashboard" replace />;
+  }
+
+  return (
+    <PageLayout
+      title="Settings"
+      description="Configure compliance rules for your organization"
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <RetestIntervalRules />
+        <ServiceLifeRules />
+        <DefectCodes />
+        <DisposalDeadline />
+        <ThermalLabels />
+        <StockMinimums />
+        <Suppliers />
+      </div>
+    </PageLayout>
+  );
+};
+
+export default SettingsPage;
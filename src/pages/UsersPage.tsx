@@ -3,6 +3,9 @@ import { Navigate } from 'react-router-dom';
 import { useRole } from '../hooks/useRole';
 import PageLayout from '../components/layout/PageLayout';
 import UserList from '../components/admin/UserList';
+import InspectionCompliance from '../components/admin/InspectionCompliance';
+import CrewManagement from '../components/admin/CrewManagement';
+import CustodyLookup from '../components/admin/CustodyLookup';
 
 const UsersPage: React.FC = () => {
   const { isAdmin } = useRole();
@@ -14,9 +17,14 @@ const UsersPage: React.FC = () => {
   return (
     <PageLayout
       title="User Management"
-      description="Manage organization members and invitations"
+      description="Manage organization members, invitations and crews"
     >
-      <UserList />
+      <div className="space-y-6">
+        <UserList />
+        <CrewManagement />
+        <InspectionCompliance />
+        <CustodyLookup />
+      </div>
     </PageLayout>
   );
 };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Shield, Clock, AlertTriangle, CheckCircle, TestTube, XCircle, ArrowRight } from 'lucide-react';
+import { Shield, Clock, AlertTriangle, CheckCircle, TestTube, XCircle, Archive, ArrowRight } from 'lucide-react';
 import PageLayout from '../components/layout/PageLayout';
 
 const ProcessStep: React.FC<{
@@ -92,6 +92,13 @@ const WalkthroughPage: React.FC = () => {
                 title="Failure Handling"
                 description="If an asset fails testing, mark it as 'failed' with a reason. This helps maintain accurate records and ensures failed equipment is removed from service."
                 icon={<XCircle className="h-6 w-6 text-primary-600" />}
+              />
+              
+              <ProcessStep
+                number={6}
+                title="Retirement"
+                description="Once a failed asset has been destroyed, retire it with the disposal method, date, witness and an optional destruction certificate. Retired assets are hidden from everyday views but kept for audit."
+                icon={<Archive className="h-6 w-6 text-primary-600" />}
                 isLast
               />
             </div>
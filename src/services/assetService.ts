@@ -1,7 +1,16 @@
 import { format } from 'date-fns';
-import { Asset } from '../types';
+import { Asset, AssetMergeField, Certification, FailureReport, RetestIntervalRule, Retirement } from '../types';
 import { Database } from '../lib/database.types';
-import { calculateAssetStatus, calculateNextCertificationDate, mapDatabaseAssetToAsset } from '../utils/assetUtils';
+import {
+  calculateAssetStatus,
+  calculateCertificationDueDate,
+  getRetestIntervalMonths,
+  mapDatabaseAssetToAsset,
+} from '../utils/assetUtils';
+import { assertAssetStatusTransition, isDateDrivenStatus } from '../utils/assetLifecycle';
+import { ASSET_TYPES, formatAssetAttributes, pickAssetAttributes, requiresDielectricTest } from '../utils/assetTypes';
+import { fetchCertifications, recordCertification, sortCertificationsByDate } from './certificationService';
+import { StoredFile } from './documentService';
 import type { SupabaseClient } from '@supabase/supabase-js';
 
 /**
@@ -11,10 +20,10 @@ import type { SupabaseClient } from '@supabase/supabase-js';
  */
 
 /**
- * Fetches assets and their associated documents from Supabase
+ * Fetches assets with their associated documents and certification history from Supabase
  * @param client - Supabase client instance
  * @param orgId - Organization ID
- * @returns Promise<Asset[]> - Array of assets with documents
+ * @returns Promise<Asset[]> - Array of assets with documents and certifications
  */
 export const fetchAssetsAndDocuments = async (
   client: SupabaseClient<Database>,
@@ -22,10 +31,11 @@ export const fetchAssetsAndDocuments = async (
 ): Promise<Asset[]> => {
   console.log('Fetching assets for organization:', orgId);
 
-  // Fetch assets and documents in parallel
-  const [assetsResponse, documentsResponse] = await Promise.all([
+  // Fetch assets, documents and certifications in parallel
+  const [assetsResponse, documentsResponse, certifications] = await Promise.all([
     client.from('assets').select('*').eq('org_id', orgId),
-    client.from('certification_documents').select('*').eq('org_id', orgId)
+    client.from('certification_documents').select('*').eq('org_id', orgId),
+    fetchCertifications(client, orgId),
   ]);
 
   if (assetsResponse.error) {
@@ -55,6 +65,11 @@ export const fetchAssetsAndDocuments = async (
         uploadDate: doc.upload_date,
         uploadedBy: doc.uploaded_by,
       }));
+
+    // Attach certification history, latest test first
+    asset.certifications = sortCertificationsByDate(
+      certifications.filter(certification => certification.assetId === asset.id)
+    );
     
     return asset;
   });
@@ -67,14 +82,27 @@ export const fetchAssetsAndDocuments = async (
  * @param client - Supabase client instance
  * @param orgId - Organization ID
  * @param assetData - Asset data to insert
+ * @param retestRules - Organization retest interval rules
  * @returns Promise<Asset> - Created asset
  */
 export const createAsset = async (
   client: SupabaseClient<Database>,
   orgId: string,
-  assetData: Omit<Asset, 'id' | 'status' | 'nextCertificationDate' | 'certificationDocuments' | 'orgId'>
+  assetData: Omit<Asset, 'id' | 'status' | 'nextCertificationDate' | 'certificationDocuments' | 'certifications' | 'orgId'>,
+  retestRules: RetestIntervalRule[] = []
 ): Promise<Asset> => {
-  const nextCertificationDate = calculateNextCertificationDate(assetData.lastCertificationDate);
+  // Leather protectors are never dielectric tested, so they carry no certification dates
+  const lastCertificationDate = requiresDielectricTest(assetData.assetType)
+    ? assetData.lastCertificationDate
+    : undefined;
+  // Assets created without a holder start in stock
+  const nextCertificationDate = lastCertificationDate
+    ? calculateCertificationDueDate(
+        lastCertificationDate,
+        getRetestIntervalMonths(retestRules, assetData.assetType, assetData.assetClass),
+        assetData.assignedUserId ? assetData.issueDate : undefined
+      )
+    : undefined;
   const status = calculateAssetStatus(nextCertificationDate);
 
   const { data, error } = await client
@@ -82,11 +110,13 @@ export const createAsset = async (
     .insert({
       org_id: orgId,
       serial_number: assetData.serialNumber,
+      asset_type: assetData.assetType,
       asset_class: assetData.assetClass,
-      glove_size: assetData.gloveSize,
-      glove_color: assetData.gloveColor,
+      glove_size: ASSET_TYPES[assetData.assetType].hasGloveSize ? assetData.gloveSize : null,
+      glove_color: ASSET_TYPES[assetData.assetType].hasGloveColor ? assetData.gloveColor : null,
+      attributes: pickAssetAttributes(assetData.assetType, assetData.attributes),
       issue_date: assetData.issueDate,
-      last_certification_date: assetData.lastCertificationDate,
+      last_certification_date: lastCertificationDate,
       next_certification_date: nextCertificationDate,
       status,
       assigned_user_id: assetData.assignedUserId,
@@ -100,33 +130,81 @@ export const createAsset = async (
 };
 
 /**
- * Updates an existing asset in the database
+ * Updates an existing asset in the database.
+ * A changed certification date is recorded as a new certification in the history.
  * @param client - Supabase client instance
  * @param orgId - Organization ID
+ * @param userId - User ID of the person making the change
  * @param assetId - Asset ID to update
  * @param assetData - Partial asset data to update
- * @returns Promise<Asset> - Updated asset
+ * @param currentAsset - The asset as currently stored, used to fill in type, class and dates
+ * @param retestRules - Organization retest interval rules
+ * @returns Promise<Asset> - Updated asset, keeping its documents and certification history
  */
 export const updateAsset = async (
   client: SupabaseClient<Database>,
   orgId: string,
+  userId: string,
   assetId: string,
-  assetData: Partial<Asset>
+  assetData: Partial<Asset>,
+  currentAsset?: Asset,
+  retestRules: RetestIntervalRule[] = []
 ): Promise<Asset> => {
+  // The asset type is fixed once created; it decides which fields apply
+  const assetType = currentAsset?.assetType || 'glove';
+  const typeConfig = ASSET_TYPES[assetType];
+
   const updateData: Database['public']['Tables']['assets']['Update'] = {
     serial_number: assetData.serialNumber,
     asset_class: assetData.assetClass,
-    glove_size: assetData.gloveSize,
-    glove_color: assetData.gloveColor,
+    glove_size: typeConfig.hasGloveSize ? assetData.gloveSize : undefined,
+    glove_color: typeConfig.hasGloveColor ? assetData.gloveColor : undefined,
+    attributes: assetData.attributes ? pickAssetAttributes(assetType, assetData.attributes) : undefined,
     assigned_user_id: assetData.assignedUserId,
   };
 
-  // Update certification dates if provided
-  if (assetData.lastCertificationDate) {
-    const nextCertificationDate = calculateNextCertificationDate(assetData.lastCertificationDate);
-    updateData.last_certification_date = assetData.lastCertificationDate;
-    updateData.next_certification_date = nextCertificationDate;
-    updateData.status = calculateAssetStatus(nextCertificationDate);
+  // Recompute certification dates when the date or the class (and so the interval) changes.
+  // A recertified asset nobody holds goes back to stock.
+  const lastCertificationDate = assetData.lastCertificationDate || currentAsset?.lastCertificationDate;
+  const assetClass = assetData.assetClass || currentAsset?.assetClass;
+  const isRecertification = !!assetData.lastCertificationDate &&
+    assetData.lastCertificationDate !== currentAsset?.lastCertificationDate;
+  const assignedUserId = assetData.assignedUserId !== undefined ? assetData.assignedUserId : currentAsset?.assignedUserId;
+  let newCertification: Certification | undefined;
+  if (
+    requiresDielectricTest(assetType) &&
+    lastCertificationDate &&
+    assetClass &&
+    (assetData.lastCertificationDate || assetData.assetClass)
+  ) {
+    const nextCertificationDate = calculateCertificationDueDate(
+      lastCertificationDate,
+      getRetestIntervalMonths(retestRules, assetType, assetClass),
+      isRecertification
+        ? (assignedUserId ? lastCertificationDate : undefined)
+        : currentAsset?.inServiceDate
+    );
+
+    // A recertification's certification row is the only writer of the asset's dates and status:
+    // the certification trigger copies them from the latest passing row, so a backdated
+    // correction does not overwrite a newer test
+    if (!isRecertification) {
+      updateData.last_certification_date = lastCertificationDate;
+      updateData.next_certification_date = nextCertificationDate;
+
+      // Only date-driven statuses follow the dates; in-testing and failed assets keep theirs
+      if (!currentAsset || isDateDrivenStatus(currentAsset.status)) {
+        updateData.status = calculateAssetStatus(nextCertificationDate);
+      }
+    }
+
+    // A new certification date is a recertification: keep it in the history
+    if (isRecertification && assetData.lastCertificationDate) {
+      newCertification = await recordCertification(client, orgId, userId, assetId, {
+        certificationDate: assetData.lastCertificationDate,
+        nextCertificationDate,
+      });
+    }
   }
 
   const { data, error } = await client
@@ -139,7 +217,15 @@ export const updateAsset = async (
 
   if (error) throw error;
 
-  return mapDatabaseAssetToAsset(data);
+  const certifications = currentAsset?.certifications || [];
+
+  return {
+    ...mapDatabaseAssetToAsset(data),
+    certificationDocuments: currentAsset?.certificationDocuments || [],
+    certifications: newCertification
+      ? sortCertificationsByDate([newCertification, ...certifications])
+      : certifications,
+  };
 };
 
 /**
@@ -163,26 +249,109 @@ export const deleteAsset = async (
   if (error) throw error;
 };
 
+// Database column behind each merge field
+const MERGE_FIELD_COLUMNS: Record<AssetMergeField, string> = {
+  serialNumber: 'serial_number',
+  assetClass: 'asset_class',
+  issueDate: 'issue_date',
+  gloveSize: 'glove_size',
+  gloveColor: 'glove_color',
+  attributes: 'attributes',
+  placement: 'placement',
+  manufacturerId: 'manufacturer_id',
+  model: 'model',
+  lotNumber: 'lot_number',
+  vendorId: 'vendor_id',
+  purchaseOrder: 'purchase_order',
+  unitCost: 'unit_cost',
+  manufactureDate: 'manufacture_date',
+};
+
+/**
+ * Merges a duplicate asset record into the one being kept, in one server-side
+ * transaction: certificates, test history, inspections, movements and custody move
+ * to the survivor, the chosen fields are copied over, the duplicate is deleted and
+ * the merge is audited
+ * @param client - Supabase client instance
+ * @param survivorId - Asset ID to keep
+ * @param duplicateId - Asset ID to merge away
+ * @param fields - Values taken from the duplicate; everything else stays as on the survivor
+ * @returns Promise<Asset> - The survivor as merged, without its related records
+ */
+export const mergeAssets = async (
+  client: SupabaseClient<Database>,
+  survivorId: string,
+  duplicateId: string,
+  fields: AssetMergeField[]
+): Promise<Asset> => {
+  const { data, error } = await client.rpc('merge_assets', {
+    p_survivor_id: survivorId,
+    p_duplicate_id: duplicateId,
+    p_fields: fields.map(field => MERGE_FIELD_COLUMNS[field]),
+  });
+
+  if (error) throw error;
+
+  return mapDatabaseAssetToAsset(data);
+};
+
 /**
- * Marks an asset as failed with a reason
+ * Looks up assets by serial number, ignoring case. Only assets the user may see
+ * are returned, so a technician cannot reach gear outside their scope (enforced by RLS).
  * @param client - Supabase client instance
  * @param orgId - Organization ID
+ * @param serialNumber - Serial number as scanned or typed
+ * @returns Promise<Asset[]> - Matching assets; more than one only if serials differ by case
+ */
+export const findAssetsBySerialNumber = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  serialNumber: string
+): Promise<Asset[]> => {
+  // Escape LIKE wildcards so the serial is matched literally
+  const pattern = serialNumber.trim().replace(/[\\%_]/g, match => `\\${match}`);
+
+  const { data, error } = await client
+    .from('assets')
+    .select('*')
+    .eq('org_id', orgId)
+    .ilike('serial_number', pattern);
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseAssetToAsset);
+};
+
+/**
+ * Marks an asset as failed with a structured failure report.
+ * The failure_reason summary is filled in by a database trigger.
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param userId - User ID of the reporter
  * @param assetId - Asset ID to mark as failed
- * @param reason - Failure reason
+ * @param report - Defect code, location and notes
+ * @param currentAsset - The asset as currently stored, used to check the status transition
  * @returns Promise<Asset> - Updated asset
  */
 export const markAssetAsFailed = async (
   client: SupabaseClient<Database>,
   orgId: string,
+  userId: string,
   assetId: string,
-  reason: string
+  report: FailureReport,
+  currentAsset?: Asset
 ): Promise<Asset> => {
+  if (currentAsset) assertAssetStatusTransition(currentAsset, 'failed');
+
   const { data, error } = await client
     .from('assets')
     .update({
       status: 'failed',
       failure_date: format(new Date(), 'yyyy-MM-dd'),
-      failure_reason: reason,
+      failure_defect_code: report.defectCode,
+      failure_location: report.location || null,
+      failure_notes: report.notes || null,
+      failure_reported_by: userId,
     })
     .eq('id', assetId)
     .eq('org_id', orgId)
@@ -199,13 +368,17 @@ export const markAssetAsFailed = async (
  * @param client - Supabase client instance
  * @param orgId - Organization ID
  * @param assetId - Asset ID to mark as in testing
+ * @param currentAsset - The asset as currently stored, used to check the status transition
  * @returns Promise<Asset> - Updated asset
  */
 export const markAssetAsInTesting = async (
   client: SupabaseClient<Database>,
   orgId: string,
-  assetId: string
+  assetId: string,
+  currentAsset?: Asset
 ): Promise<Asset> => {
+  if (currentAsset) assertAssetStatusTransition(currentAsset, 'in-testing');
+
   const { data, error } = await client
     .from('assets')
     .update({
@@ -222,33 +395,84 @@ export const markAssetAsInTesting = async (
   return mapDatabaseAssetToAsset(data);
 };
 
+/**
+ * Retires a failed asset once it has been destroyed, in one server-side transaction:
+ * stores the destruction certificate, records the disposal and moves the asset to retired
+ * @param client - Supabase client instance
+ * @param assetId - Failed asset ID to retire
+ * @param retirement - Disposal method, date and witness
+ * @param certificate - Optional destruction certificate already in storage
+ * @param currentAsset - The asset as currently stored, used to check the status transition
+ * @returns Promise<Asset> - Retired asset
+ */
+export const retireAsset = async (
+  client: SupabaseClient<Database>,
+  assetId: string,
+  retirement: Retirement,
+  certificate?: StoredFile,
+  currentAsset?: Asset
+): Promise<Asset> => {
+  if (currentAsset) assertAssetStatusTransition(currentAsset, 'retired');
+
+  const { data, error } = await client.rpc('retire_asset', {
+    p_asset_id: assetId,
+    p_disposal_method: retirement.disposalMethod,
+    p_retired_date: retirement.retiredDate,
+    p_disposal_witness: retirement.disposalWitness,
+    p_file_name: certificate?.fileName || null,
+    p_file_url: certificate?.fileUrl || null,
+  });
+
+  if (error) throw error;
+
+  return mapDatabaseAssetToAsset(data);
+};
+
 /**
  * Imports multiple assets into the database
  * @param client - Supabase client instance
  * @param orgId - Organization ID
  * @param assets - Array of partial asset data to import
+ * @param retestRules - Organization retest interval rules
  * @returns Promise<Asset[]> - Array of imported assets
  */
 export const importAssets = async (
   client: SupabaseClient<Database>,
   orgId: string,
-  assets: Partial<Asset>[]
+  assets: Partial<Asset>[],
+  retestRules: RetestIntervalRule[] = []
 ): Promise<Asset[]> => {
   const assetsToInsert = assets.map(asset => {
-    if (!asset.lastCertificationDate) {
+    if (!asset.serialNumber?.trim()) {
+      throw new Error('Assets must include serialNumber');
+    }
+
+    const assetType = asset.assetType || 'glove';
+    const isTested = requiresDielectricTest(assetType);
+    if (isTested && !asset.lastCertificationDate) {
       throw new Error('Assets must include lastCertificationDate');
     }
 
-    const nextCertificationDate = calculateNextCertificationDate(asset.lastCertificationDate);
+    const assetClass = asset.assetClass || 'Class 1';
+    const lastCertificationDate = isTested ? asset.lastCertificationDate : undefined;
+    const nextCertificationDate = lastCertificationDate
+      ? calculateCertificationDueDate(
+          lastCertificationDate,
+          getRetestIntervalMonths(retestRules, assetType, assetClass),
+          asset.assignedUserId ? asset.issueDate || format(new Date(), 'yyyy-MM-dd') : undefined
+        )
+      : undefined;
 
     return {
       org_id: orgId,
-      serial_number: asset.serialNumber || `SN-${Math.random().toString(36).substring(7)}`,
-      asset_class: asset.assetClass || 'Class 1',
-      glove_size: asset.gloveSize,
-      glove_color: asset.gloveColor,
+      serial_number: asset.serialNumber.trim(),
+      asset_type: assetType,
+      asset_class: assetClass,
+      glove_size: ASSET_TYPES[assetType].hasGloveSize ? asset.gloveSize : null,
+      glove_color: ASSET_TYPES[assetType].hasGloveColor ? asset.gloveColor : null,
+      attributes: pickAssetAttributes(assetType, asset.attributes),
       issue_date: asset.issueDate || format(new Date(), 'yyyy-MM-dd'),
-      last_certification_date: asset.lastCertificationDate,
+      last_certification_date: lastCertificationDate,
       next_certification_date: nextCertificationDate,
       status: calculateAssetStatus(nextCertificationDate),
       assigned_user_id: asset.assignedUserId,
@@ -274,9 +498,11 @@ export const exportAssetsToCSV = (assets: Asset[]): string => {
   const headers = [
     'id',
     'serialNumber',
+    'assetType',
     'assetClass',
     'gloveSize',
     'gloveColor',
+    'attributes',
     'issueDate',
     'lastCertificationDate',
     'nextCertificationDate',
@@ -287,12 +513,14 @@ export const exportAssetsToCSV = (assets: Asset[]): string => {
   const rows = assets.map(asset => [
     asset.id,
     asset.serialNumber,
+    asset.assetType,
     asset.assetClass,
     asset.gloveSize || '',
     asset.gloveColor || '',
+    formatAssetAttributes(asset.attributes),
     asset.issueDate,
-    asset.lastCertificationDate,
-    asset.nextCertificationDate,
+    asset.lastCertificationDate || '',
+    asset.nextCertificationDate || '',
     asset.status,
     asset.assignedUserId || '',
   ].join(','));
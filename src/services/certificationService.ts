@@ -0,0 +1,164 @@
+import { Certification, CertificationResult, FailureReport } from '../types';
+import { StoredFile } from './documentService';
+import { Database } from '../lib/database.types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Certification Service
+ *
+ * Handles the certification history of assets. The asset's own
+ * certification dates are kept in sync with the latest passing row
+ * by a database trigger.
+ */
+
+export interface NewCertification {
+  certificationDate: string;
+  nextCertificationDate: string;
+  labName?: string;
+  result?: CertificationResult;
+  proofTestVoltage?: number;
+  leakageCurrentMa?: number;
+  documentId?: string;
+}
+
+export interface LabReturn {
+  result: CertificationResult;
+  certificationDate: string;
+  labName?: string;
+  proofTestVoltage?: number;
+  leakageCurrentMa?: number;
+  certificate?: StoredFile;
+  failure?: FailureReport;
+}
+
+/**
+ * Maps database certification row to Certification interface
+ * @param dbCertification - Raw certification data from database
+ * @returns Certification - Mapped certification object
+ */
+export const mapDatabaseCertificationToCertification = (
+  dbCertification: Database['public']['Tables']['certifications']['Row']
+): Certification => ({
+  id: dbCertification.id,
+  assetId: dbCertification.asset_id,
+  documentId: dbCertification.document_id || undefined,
+  certificationDate: dbCertification.certification_date,
+  labName: dbCertification.lab_name || undefined,
+  result: dbCertification.result as CertificationResult,
+  proofTestVoltage: dbCertification.proof_test_voltage ?? undefined,
+  leakageCurrentMa: dbCertification.leakage_current_ma ?? undefined,
+  nextCertificationDate: dbCertification.next_certification_date,
+  recordedBy: dbCertification.recorded_by || undefined,
+  createdAt: dbCertification.created_at,
+});
+
+/**
+ * Sorts certifications newest first
+ * @param certifications - Certifications to sort
+ * @returns Certification[] - New array, latest test first
+ */
+export const sortCertificationsByDate = (certifications: Certification[]): Certification[] => {
+  return [...certifications].sort((a, b) => {
+    const byDate = b.certificationDate.localeCompare(a.certificationDate);
+    return byDate !== 0 ? byDate : b.createdAt.localeCompare(a.createdAt);
+  });
+};
+
+/**
+ * Fetches the certification history for assets in an organization
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param assetIds - Optional asset IDs to limit the history to
+ * @returns Promise<Certification[]> - Array of certifications
+ */
+export const fetchCertifications = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  assetIds?: string[]
+): Promise<Certification[]> => {
+  let query = client
+    .from('certifications')
+    .select('*')
+    .eq('org_id', orgId);
+
+  if (assetIds) {
+    query = query.in('asset_id', assetIds);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseCertificationToCertification);
+};
+
+/**
+ * Records a certification test for an asset.
+ * A failed test also marks the asset as failed (database trigger).
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param userId - User ID of the person recording the test
+ * @param assetId - Asset ID the test belongs to
+ * @param certification - Test details
+ * @returns Promise<Certification> - Created certification record
+ */
+export const recordCertification = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  userId: string,
+  assetId: string,
+  certification: NewCertification
+): Promise<Certification> => {
+  const { data, error } = await client
+    .from('certifications')
+    .insert({
+      org_id: orgId,
+      asset_id: assetId,
+      certification_date: certification.certificationDate,
+      next_certification_date: certification.nextCertificationDate,
+      lab_name: certification.labName || null,
+      result: certification.result || 'pass',
+      proof_test_voltage: certification.proofTestVoltage ?? null,
+      leakage_current_ma: certification.leakageCurrentMa ?? null,
+      document_id: certification.documentId || null,
+      recorded_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseCertificationToCertification(data);
+};
+
+/**
+ * Closes out a lab visit for an in-testing asset in one server-side transaction:
+ * stores the certificate, records the test and returns the asset to service or fails it
+ * @param client - Supabase client instance
+ * @param assetId - Asset ID returning from the lab
+ * @param labReturn - Test outcome and details
+ * @returns Promise<Certification> - Created certification record
+ */
+export const completeLabReturn = async (
+  client: SupabaseClient<Database>,
+  assetId: string,
+  labReturn: LabReturn
+): Promise<Certification> => {
+  const { data, error } = await client.rpc('complete_lab_return', {
+    p_asset_id: assetId,
+    p_result: labReturn.result,
+    p_certification_date: labReturn.certificationDate,
+    p_lab_name: labReturn.labName || null,
+    p_proof_test_voltage: labReturn.proofTestVoltage ?? null,
+    p_leakage_current_ma: labReturn.leakageCurrentMa ?? null,
+    p_file_name: labReturn.certificate?.fileName || null,
+    p_file_url: labReturn.certificate?.fileUrl || null,
+    p_failure_defect_code: labReturn.failure?.defectCode || null,
+    p_failure_location: labReturn.failure?.location || null,
+    p_failure_notes: labReturn.failure?.notes || null,
+  });
+
+  if (error) throw error;
+
+  return mapDatabaseCertificationToCertification(data);
+};
@@ -0,0 +1,189 @@
+import { Crew } from '../types';
+import { Database } from '../lib/database.types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Crew Service
+ *
+ * Handles crews: technicians grouped under a supervisor who can see and act
+ * on the crew's assets. A technician is on at most one crew.
+ */
+
+export interface CrewDetails {
+  name: string;
+  supervisorUserId: string | null;
+}
+
+/**
+ * Maps database crew row and its member rows to Crew interface
+ * @param dbCrew - Raw crew data from database
+ * @param memberIds - User IDs of the crew's technicians
+ * @returns Crew - Mapped crew object
+ */
+const mapDatabaseCrewToCrew = (
+  dbCrew: Database['public']['Tables']['crews']['Row'],
+  memberIds: string[]
+): Crew => ({
+  id: dbCrew.id,
+  orgId: dbCrew.org_id,
+  name: dbCrew.name,
+  supervisorUserId: dbCrew.supervisor_user_id || null,
+  memberIds,
+  createdAt: dbCrew.created_at,
+});
+
+/**
+ * Fetches the crews of an organization with their members, sorted by name
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<Crew[]> - Array of crews
+ */
+export const fetchCrews = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<Crew[]> => {
+  const [crewsResult, membersResult] = await Promise.all([
+    client.from('crews').select('*').eq('org_id', orgId).order('name'),
+    client.from('crew_members').select('*').eq('org_id', orgId),
+  ]);
+
+  if (crewsResult.error) throw crewsResult.error;
+  if (membersResult.error) throw membersResult.error;
+
+  const members = membersResult.data || [];
+
+  return (crewsResult.data || []).map(crew => mapDatabaseCrewToCrew(
+    crew,
+    members.filter(member => member.crew_id === crew.id).map(member => member.user_id)
+  ));
+};
+
+/**
+ * Replaces a crew's members. Technicians already on another crew are moved to this one.
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param crewId - Crew ID
+ * @param memberIds - User IDs of the technicians on the crew
+ * @returns Promise<void>
+ */
+const replaceCrewMembers = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  crewId: string,
+  memberIds: string[]
+): Promise<void> => {
+  const { error: deleteError } = await client
+    .from('crew_members')
+    .delete()
+    .eq('org_id', orgId)
+    .eq('crew_id', crewId);
+
+  if (deleteError) throw deleteError;
+
+  if (memberIds.length === 0) return;
+
+  const { error: moveError } = await client
+    .from('crew_members')
+    .delete()
+    .eq('org_id', orgId)
+    .in('user_id', memberIds);
+
+  if (moveError) throw moveError;
+
+  const { error } = await client
+    .from('crew_members')
+    .insert(memberIds.map(userId => ({
+      org_id: orgId,
+      crew_id: crewId,
+      user_id: userId,
+    })));
+
+  if (error) throw error;
+};
+
+/**
+ * Creates a crew with its supervisor and members
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param details - Crew name and supervisor
+ * @param memberIds - User IDs of the technicians on the crew
+ * @returns Promise<Crew> - Created crew
+ */
+export const createCrew = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  details: CrewDetails,
+  memberIds: string[]
+): Promise<Crew> => {
+  const { data, error } = await client
+    .from('crews')
+    .insert({
+      org_id: orgId,
+      name: details.name.trim(),
+      supervisor_user_id: details.supervisorUserId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await replaceCrewMembers(client, orgId, data.id, memberIds);
+
+  return mapDatabaseCrewToCrew(data, memberIds);
+};
+
+/**
+ * Updates a crew's name, supervisor and members
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param crewId - Crew ID to update
+ * @param details - New crew name and supervisor
+ * @param memberIds - User IDs of the technicians on the crew
+ * @returns Promise<Crew> - Updated crew
+ */
+export const updateCrew = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  crewId: string,
+  details: CrewDetails,
+  memberIds: string[]
+): Promise<Crew> => {
+  const { data, error } = await client
+    .from('crews')
+    .update({
+      name: details.name.trim(),
+      supervisor_user_id: details.supervisorUserId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', crewId)
+    .eq('org_id', orgId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  await replaceCrewMembers(client, orgId, crewId, memberIds);
+
+  return mapDatabaseCrewToCrew(data, memberIds);
+};
+
+/**
+ * Deletes a crew; its technicians are left without a crew
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param crewId - Crew ID to delete
+ * @returns Promise<void>
+ */
+export const deleteCrew = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  crewId: string
+): Promise<void> => {
+  const { error } = await client
+    .from('crews')
+    .delete()
+    .eq('id', crewId)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+};
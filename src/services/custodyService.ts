@@ -0,0 +1,162 @@
+import { Asset, AssetCustody } from '../types';
+import { Database } from '../lib/database.types';
+import { mapDatabaseAssetToAsset } from '../utils/assetUtils';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Custody Service
+ *
+ * Handles the custody chain: one record per person per period of holding an
+ * asset. Records are opened and closed by a database trigger whenever an asset
+ * is reassigned; the holder acknowledges receipt through `acknowledge_custody`.
+ */
+
+/**
+ * Maps database custody row to AssetCustody interface
+ * @param dbCustody - Raw custody data from database
+ * @returns AssetCustody - Mapped custody object
+ */
+const mapDatabaseCustodyToCustody = (dbCustody: Database['public']['Tables']['asset_custody']['Row']): AssetCustody => ({
+  id: dbCustody.id,
+  assetId: dbCustody.asset_id,
+  userId: dbCustody.user_id,
+  checkedOutAt: dbCustody.checked_out_at,
+  checkedOutBy: dbCustody.checked_out_by || undefined,
+  checkedInAt: dbCustody.checked_in_at || undefined,
+  checkedInBy: dbCustody.checked_in_by || undefined,
+  acknowledgedAt: dbCustody.acknowledged_at || undefined,
+  acknowledgedName: dbCustody.acknowledged_name || undefined,
+  signatureUrl: dbCustody.signature_url || undefined,
+});
+
+/**
+ * Fetches the custody chain of an asset, most recent first
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param assetId - Asset ID
+ * @returns Promise<AssetCustody[]> - Array of custody records
+ */
+export const fetchAssetCustody = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  assetId: string
+): Promise<AssetCustody[]> => {
+  const { data, error } = await client
+    .from('asset_custody')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('asset_id', assetId)
+    .order('checked_out_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseCustodyToCustody);
+};
+
+/**
+ * Fetches the assets a user holds but has not yet signed for
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param userId - User ID of the holder
+ * @returns Promise<AssetCustody[]> - Open, unacknowledged custody records, oldest first
+ */
+export const fetchPendingAcknowledgements = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  userId: string
+): Promise<AssetCustody[]> => {
+  const { data, error } = await client
+    .from('asset_custody')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('user_id', userId)
+    .is('checked_in_at', null)
+    .is('acknowledged_at', null)
+    .order('checked_out_at');
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseCustodyToCustody);
+};
+
+/**
+ * Fetches the custody records covering any part of a day, i.e. who held what on that date
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param date - Day to look up (yyyy-MM-dd, local time)
+ * @returns Promise<AssetCustody[]> - Custody records overlapping the day
+ */
+export const fetchCustodyOnDate = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  date: string
+): Promise<AssetCustody[]> => {
+  const dayStart = new Date(`${date}T00:00:00`);
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+
+  const { data, error } = await client
+    .from('asset_custody')
+    .select('*')
+    .eq('org_id', orgId)
+    .lt('checked_out_at', dayEnd.toISOString())
+    .or(`checked_in_at.is.null,checked_in_at.gte.${dayStart.toISOString()}`)
+    .order('checked_out_at');
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseCustodyToCustody);
+};
+
+/**
+ * Checks assets out to a person, or checks them in by unassigning them.
+ * The trigger closes the previous holder's custody and opens the new one,
+ * and a stored asset leaves its location when checked out.
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param assetIds - Asset IDs to check out or in
+ * @param userId - User ID of the new holder, or null to check the assets in
+ * @returns Promise<Asset[]> - Updated assets
+ */
+export const setAssetsHolder = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  assetIds: string[],
+  userId: string | null
+): Promise<Asset[]> => {
+  const { data, error } = await client
+    .from('assets')
+    .update({ assigned_user_id: userId })
+    .in('id', assetIds)
+    .eq('org_id', orgId)
+    .select();
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseAssetToAsset);
+};
+
+/**
+ * Acknowledges receipt of an asset the current user holds
+ * @param client - Supabase client instance
+ * @param custodyId - Custody record ID
+ * @param name - Name typed by the holder
+ * @param signatureUrl - Optional drawn signature already in storage
+ * @returns Promise<AssetCustody> - Acknowledged custody record
+ */
+export const acknowledgeCustody = async (
+  client: SupabaseClient<Database>,
+  custodyId: string,
+  name: string,
+  signatureUrl?: string
+): Promise<AssetCustody> => {
+  const { data, error } = await client.rpc('acknowledge_custody', {
+    p_custody_id: custodyId,
+    p_name: name,
+    p_signature_url: signatureUrl || null,
+  });
+
+  if (error) throw error;
+
+  return mapDatabaseCustodyToCustody(data);
+};
@@ -0,0 +1,96 @@
+import { DefectCode } from '../types';
+import { Database } from '../lib/database.types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Defect Code Service
+ *
+ * Handles the defect codes used in failure reports: the built-in list
+ * (rows without an organization) plus codes an organization adds itself
+ */
+
+/**
+ * Maps database defect code row to DefectCode interface
+ * @param dbDefectCode - Raw defect code data from database
+ * @returns DefectCode - Mapped defect code object
+ */
+const mapDatabaseDefectCodeToDefectCode = (
+  dbDefectCode: Database['public']['Tables']['defect_codes']['Row']
+): DefectCode => ({
+  id: dbDefectCode.id,
+  orgId: dbDefectCode.org_id,
+  code: dbDefectCode.code,
+  label: dbDefectCode.label,
+});
+
+/**
+ * Fetches the built-in defect codes and those of an organization
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<DefectCode[]> - Array of defect codes, sorted by label
+ */
+export const fetchDefectCodes = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<DefectCode[]> => {
+  const { data, error } = await client
+    .from('defect_codes')
+    .select('*')
+    .or(`org_id.is.null,org_id.eq.${orgId}`)
+    .order('label');
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseDefectCodeToDefectCode);
+};
+
+/**
+ * Adds a defect code for an organization
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param code - Short code, lowercase words separated by hyphens
+ * @param label - Display label
+ * @returns Promise<DefectCode> - Created defect code
+ */
+export const createDefectCode = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  code: string,
+  label: string
+): Promise<DefectCode> => {
+  const { data, error } = await client
+    .from('defect_codes')
+    .insert({
+      org_id: orgId,
+      code,
+      label,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseDefectCodeToDefectCode(data);
+};
+
+/**
+ * Deletes one of an organization's defect codes.
+ * Failures already filed under the code keep it and their summary.
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param defectCodeId - Defect code ID to delete
+ * @returns Promise<void>
+ */
+export const deleteDefectCode = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  defectCodeId: string
+): Promise<void> => {
+  const { error } = await client
+    .from('defect_codes')
+    .delete()
+    .eq('id', defectCodeId)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+};
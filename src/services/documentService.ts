@@ -8,6 +8,11 @@ import type { SupabaseClient } from '@supabase/supabase-js';
  * Handles all certification document-related database operations
  */
 
+export interface StoredFile {
+  fileName: string;
+  fileUrl: string;
+}
+
 /**
  * Uploads a document for a single asset
  * @param client - Supabase client instance
@@ -93,4 +98,42 @@ export const bulkUploadDocument = async (
     uploadDate: doc.upload_date,
     uploadedBy: doc.uploaded_by,
   }));
-};
\ No newline at end of file
+};
+
+/**
+ * Stores a file for an asset (a certificate or an inspection photo) without creating
+ * a document row, so the caller can write its own row in a single transaction
+ * @param orgId - Organization ID
+ * @param userId - User ID of the uploader
+ * @param assetId - Asset ID the file belongs to
+ * @param file - File to store
+ * @returns Promise<StoredFile> - Stored file name and public URL
+ */
+export const storeAssetFile = async (
+  orgId: string,
+  userId: string,
+  assetId: string,
+  file: File
+): Promise<StoredFile> => {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('assetId', assetId);
+  formData.append('orgId', orgId);
+  formData.append('userId', userId);
+  formData.append('recordDocument', 'false');
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/upload`, {
+    method: 'POST',
+    body: formData,
+    headers: {
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to upload ${file.name}`);
+  }
+
+  const { data } = await response.json();
+  return { fileName: data.file_name, fileUrl: data.file_url };
+};
@@ -0,0 +1,105 @@
+import { FailureReport, Inspection, InspectionResult } from '../types';
+import { StoredFile } from './documentService';
+import { Database } from '../lib/database.types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Inspection Service
+ *
+ * Handles pre-use inspections (visual check and air test). A failed
+ * inspection fails the asset through a database trigger.
+ */
+
+export interface NewInspection {
+  result: InspectionResult;
+  checklist: Record<string, boolean>;
+  notes?: string;
+  failure?: FailureReport;
+  photo?: StoredFile;
+}
+
+/**
+ * Maps database inspection row to Inspection interface
+ * @param dbInspection - Raw inspection data from database
+ * @returns Inspection - Mapped inspection object
+ */
+export const mapDatabaseInspectionToInspection = (
+  dbInspection: Database['public']['Tables']['inspections']['Row']
+): Inspection => ({
+  id: dbInspection.id,
+  assetId: dbInspection.asset_id,
+  inspectedBy: dbInspection.inspected_by,
+  inspectedAt: dbInspection.inspected_at,
+  result: dbInspection.result as InspectionResult,
+  checklist: (dbInspection.checklist || {}) as Record<string, boolean>,
+  photoUrl: dbInspection.photo_url || undefined,
+  notes: dbInspection.notes || undefined,
+  failureDefectCode: dbInspection.failure_defect_code || undefined,
+  failureLocation: (dbInspection.failure_location || undefined) as Inspection['failureLocation'],
+});
+
+/**
+ * Fetches inspections for an organization, newest first.
+ * Technicians only receive their own inspections (enforced by RLS).
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param since - Optional ISO timestamp; older inspections are left out
+ * @returns Promise<Inspection[]> - Array of inspections
+ */
+export const fetchInspections = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  since?: string
+): Promise<Inspection[]> => {
+  let query = client
+    .from('inspections')
+    .select('*')
+    .eq('org_id', orgId);
+
+  if (since) {
+    query = query.gte('inspected_at', since);
+  }
+
+  const { data, error } = await query.order('inspected_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseInspectionToInspection);
+};
+
+/**
+ * Records a pre-use inspection for an asset
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param userId - User ID of the inspector
+ * @param assetId - Asset ID that was inspected
+ * @param inspection - Result, checklist and optional failure details and photo
+ * @returns Promise<Inspection> - Created inspection record
+ */
+export const recordInspection = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  userId: string,
+  assetId: string,
+  inspection: NewInspection
+): Promise<Inspection> => {
+  const { data, error } = await client
+    .from('inspections')
+    .insert({
+      org_id: orgId,
+      asset_id: assetId,
+      inspected_by: userId,
+      result: inspection.result,
+      checklist: inspection.checklist,
+      notes: inspection.notes || null,
+      photo_url: inspection.photo?.fileUrl || null,
+      failure_defect_code: inspection.result === 'fail' ? inspection.failure?.defectCode || null : null,
+      failure_location: inspection.result === 'fail' ? inspection.failure?.location || null : null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseInspectionToInspection(data);
+};
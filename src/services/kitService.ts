@@ -0,0 +1,182 @@
+import { Asset, Kit } from '../types';
+import { Database } from '../lib/database.types';
+import { mapDatabaseAssetToAsset } from '../utils/assetUtils';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Kit Service
+ *
+ * Handles PPE kits: named sets of assets that are assigned to a technician
+ * as one unit. Members take the kit's assignee through a database trigger.
+ */
+
+export interface KitDetails {
+  name: string;
+  notes?: string;
+}
+
+/**
+ * Maps database kit row to Kit interface
+ * @param dbKit - Raw kit data from database
+ * @returns Kit - Mapped kit object
+ */
+const mapDatabaseKitToKit = (dbKit: Database['public']['Tables']['kits']['Row']): Kit => ({
+  id: dbKit.id,
+  orgId: dbKit.org_id,
+  name: dbKit.name,
+  assignedUserId: dbKit.assigned_user_id || null,
+  notes: dbKit.notes || undefined,
+  createdAt: dbKit.created_at,
+});
+
+/**
+ * Fetches the kits of an organization, sorted by name.
+ * Technicians only receive kits assigned to them (enforced by RLS).
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<Kit[]> - Array of kits
+ */
+export const fetchKits = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<Kit[]> => {
+  const { data, error } = await client
+    .from('kits')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseKitToKit);
+};
+
+/**
+ * Creates an empty, unassigned kit
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param userId - User ID of the admin creating the kit
+ * @param details - Kit name and notes
+ * @returns Promise<Kit> - Created kit
+ */
+export const createKit = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  userId: string,
+  details: KitDetails
+): Promise<Kit> => {
+  const { data, error } = await client
+    .from('kits')
+    .insert({
+      org_id: orgId,
+      name: details.name.trim(),
+      notes: details.notes?.trim() || null,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseKitToKit(data);
+};
+
+/**
+ * Renames a kit or updates its notes
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param kitId - Kit ID to update
+ * @param details - New kit name and notes
+ * @returns Promise<Kit> - Updated kit
+ */
+export const updateKit = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  kitId: string,
+  details: KitDetails
+): Promise<Kit> => {
+  const { data, error } = await client
+    .from('kits')
+    .update({
+      name: details.name.trim(),
+      notes: details.notes?.trim() || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', kitId)
+    .eq('org_id', orgId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseKitToKit(data);
+};
+
+/**
+ * Deletes a kit; its assets stay assigned to whoever held the kit
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param kitId - Kit ID to delete
+ * @returns Promise<void>
+ */
+export const deleteKit = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  kitId: string
+): Promise<void> => {
+  const { error } = await client
+    .from('kits')
+    .delete()
+    .eq('id', kitId)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+};
+
+/**
+ * Moves assets into a kit, or out of their kit when kitId is null
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param assetIds - Asset IDs to move
+ * @param kitId - Kit ID, or null to take the assets out of their kit
+ * @returns Promise<Asset[]> - Updated assets, now assigned to the kit's holder
+ */
+export const setAssetsKit = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  assetIds: string[],
+  kitId: string | null
+): Promise<Asset[]> => {
+  const { data, error } = await client
+    .from('assets')
+    .update({ kit_id: kitId })
+    .in('id', assetIds)
+    .eq('org_id', orgId)
+    .select();
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseAssetToAsset);
+};
+
+/**
+ * Assigns a kit and every asset in it to a technician in one server-side transaction
+ * @param client - Supabase client instance
+ * @param kitId - Kit ID to assign
+ * @param userId - User ID of the technician, or null to unassign the kit
+ * @returns Promise<Kit> - Updated kit
+ */
+export const assignKit = async (
+  client: SupabaseClient<Database>,
+  kitId: string,
+  userId: string | null
+): Promise<Kit> => {
+  const { data, error } = await client.rpc('assign_kit', {
+    p_kit_id: kitId,
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+
+  return mapDatabaseKitToKit(data);
+};
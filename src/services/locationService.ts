@@ -0,0 +1,200 @@
+import { Asset, AssetMovement, Location, LocationType } from '../types';
+import { Database } from '../lib/database.types';
+import { mapDatabaseAssetToAsset } from '../utils/assetUtils';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Location Service
+ *
+ * Handles locations where unassigned stock is kept (yards, trucks, tool cribs
+ * and testing labs) and the log of asset moves between people and locations.
+ * Moves are recorded by a database trigger whenever an asset changes hands.
+ */
+
+export interface LocationDetails {
+  name: string;
+  locationType: LocationType;
+  notes?: string;
+}
+
+/**
+ * Maps database location row to Location interface
+ * @param dbLocation - Raw location data from database
+ * @returns Location - Mapped location object
+ */
+const mapDatabaseLocationToLocation = (dbLocation: Database['public']['Tables']['locations']['Row']): Location => ({
+  id: dbLocation.id,
+  orgId: dbLocation.org_id,
+  name: dbLocation.name,
+  locationType: dbLocation.location_type as LocationType,
+  notes: dbLocation.notes || undefined,
+  createdAt: dbLocation.created_at,
+});
+
+/**
+ * Maps database movement row to AssetMovement interface
+ * @param dbMovement - Raw movement data from database
+ * @returns AssetMovement - Mapped movement object
+ */
+const mapDatabaseMovementToMovement = (dbMovement: Database['public']['Tables']['asset_movements']['Row']): AssetMovement => ({
+  id: dbMovement.id,
+  assetId: dbMovement.asset_id,
+  fromUserId: dbMovement.from_user_id || undefined,
+  toUserId: dbMovement.to_user_id || undefined,
+  fromLocationId: dbMovement.from_location_id || undefined,
+  toLocationId: dbMovement.to_location_id || undefined,
+  movedBy: dbMovement.moved_by || undefined,
+  movedAt: dbMovement.moved_at,
+});
+
+/**
+ * Fetches the locations of an organization, sorted by name
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<Location[]> - Array of locations
+ */
+export const fetchLocations = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<Location[]> => {
+  const { data, error } = await client
+    .from('locations')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseLocationToLocation);
+};
+
+/**
+ * Creates a location
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param details - Location name, type and notes
+ * @returns Promise<Location> - Created location
+ */
+export const createLocation = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  details: LocationDetails
+): Promise<Location> => {
+  const { data, error } = await client
+    .from('locations')
+    .insert({
+      org_id: orgId,
+      name: details.name.trim(),
+      location_type: details.locationType,
+      notes: details.notes?.trim() || null,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseLocationToLocation(data);
+};
+
+/**
+ * Renames a location or changes its type or notes
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param locationId - Location ID to update
+ * @param details - New location name, type and notes
+ * @returns Promise<Location> - Updated location
+ */
+export const updateLocation = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  locationId: string,
+  details: LocationDetails
+): Promise<Location> => {
+  const { data, error } = await client
+    .from('locations')
+    .update({
+      name: details.name.trim(),
+      location_type: details.locationType,
+      notes: details.notes?.trim() || null,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', locationId)
+    .eq('org_id', orgId)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseLocationToLocation(data);
+};
+
+/**
+ * Deletes a location. Fails while assets are still stored there.
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param locationId - Location ID to delete
+ * @returns Promise<void>
+ */
+export const deleteLocation = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  locationId: string
+): Promise<void> => {
+  const { error } = await client
+    .from('locations')
+    .delete()
+    .eq('id', locationId)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+};
+
+/**
+ * Stores assets at a location. Whoever held them is unassigned server-side.
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param assetIds - Asset IDs to move
+ * @param locationId - Location ID to store the assets at
+ * @returns Promise<Asset[]> - Updated assets
+ */
+export const moveAssetsToLocation = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  assetIds: string[],
+  locationId: string
+): Promise<Asset[]> => {
+  const { data, error } = await client
+    .from('assets')
+    .update({ location_id: locationId })
+    .in('id', assetIds)
+    .eq('org_id', orgId)
+    .select();
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseAssetToAsset);
+};
+
+/**
+ * Fetches the movement history of an asset, most recent first
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param assetId - Asset ID
+ * @returns Promise<AssetMovement[]> - Array of movements
+ */
+export const fetchAssetMovements = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  assetId: string
+): Promise<AssetMovement[]> => {
+  const { data, error } = await client
+    .from('asset_movements')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('asset_id', assetId)
+    .order('moved_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseMovementToMovement);
+};
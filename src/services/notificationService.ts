@@ -0,0 +1,72 @@
+import { Notification } from '../types';
+import { Database } from '../lib/database.types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Notification Service
+ *
+ * Handles messages for a user about their assets, written server-side, e.g. when
+ * a recall quarantines an asset they hold
+ */
+
+// Notifications loaded at a time, newest first
+const NOTIFICATION_LIMIT = 50;
+
+/**
+ * Maps database notification row to Notification interface
+ * @param dbNotification - Raw notification data from database
+ * @returns Notification - Mapped notification object
+ */
+const mapDatabaseNotificationToNotification = (
+  dbNotification: Database['public']['Tables']['notifications']['Row']
+): Notification => ({
+  id: dbNotification.id,
+  assetId: dbNotification.asset_id || undefined,
+  userId: dbNotification.user_id,
+  message: dbNotification.message,
+  type: dbNotification.notification_type as Notification['type'],
+  createdAt: dbNotification.created_at,
+  read: !!dbNotification.read_at,
+});
+
+/**
+ * Fetches the latest notifications of a user
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param userId - User the notifications are for
+ * @returns Promise<Notification[]> - Array of notifications, newest first
+ */
+export const fetchNotifications = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  userId: string
+): Promise<Notification[]> => {
+  const { data, error } = await client
+    .from('notifications')
+    .select('*')
+    .eq('org_id', orgId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(NOTIFICATION_LIMIT);
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseNotificationToNotification);
+};
+
+/**
+ * Marks notifications of the signed-in user as read
+ * @param client - Supabase client instance
+ * @param notificationIds - Notifications to mark
+ * @returns Promise<void>
+ */
+export const markNotificationsRead = async (
+  client: SupabaseClient<Database>,
+  notificationIds: string[]
+): Promise<void> => {
+  const { error } = await client.rpc('mark_notifications_read', {
+    p_notification_ids: notificationIds,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,80 @@
+import { OrgSettings } from '../types';
+import { Database } from '../lib/database.types';
+import { DEFAULT_FAILED_DISPOSAL_DAYS } from '../utils/retirementUtils';
+import { DEFAULT_ZPL_LABEL_LAYOUT, normalizeZplLabelLayout } from '../utils/zplUtils';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Org Settings Service
+ *
+ * Handles organization-wide settings. Organizations without a settings
+ * row use the defaults.
+ */
+
+/**
+ * Maps database settings row to OrgSettings interface
+ * @param dbSettings - Raw settings data from database
+ * @returns OrgSettings - Mapped settings object
+ */
+const mapDatabaseSettingsToSettings = (
+  dbSettings: Database['public']['Tables']['org_settings']['Row']
+): OrgSettings => ({
+  failedDisposalDays: dbSettings.failed_disposal_days,
+  labelLayout: normalizeZplLabelLayout(dbSettings.zpl_label_layout),
+  printBridgeUrl: dbSettings.print_bridge_url || undefined,
+});
+
+/**
+ * Fetches the settings of an organization
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<OrgSettings> - Saved settings, or the defaults
+ */
+export const fetchOrgSettings = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<OrgSettings> => {
+  const { data, error } = await client
+    .from('org_settings')
+    .select('*')
+    .eq('org_id', orgId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data
+    ? mapDatabaseSettingsToSettings(data)
+    : { failedDisposalDays: DEFAULT_FAILED_DISPOSAL_DAYS, labelLayout: DEFAULT_ZPL_LABEL_LAYOUT };
+};
+
+/**
+ * Creates or updates the settings of an organization
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param settings - Settings to save
+ * @returns Promise<OrgSettings> - Saved settings
+ */
+export const upsertOrgSettings = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  settings: OrgSettings
+): Promise<OrgSettings> => {
+  const { data, error } = await client
+    .from('org_settings')
+    .upsert(
+      {
+        org_id: orgId,
+        failed_disposal_days: settings.failedDisposalDays,
+        zpl_label_layout: { ...settings.labelLayout },
+        print_bridge_url: settings.printBridgeUrl || null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'org_id' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseSettingsToSettings(data);
+};
@@ -0,0 +1,40 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '../lib/database.types';
+
+/**
+ * Links two gloves as a left/right pair; the server checks both are unpaired gloves
+ * of the same class and aligns their assignment
+ * @param client - Supabase client instance
+ * @param leftAssetId - Asset ID of the left glove
+ * @param rightAssetId - Asset ID of the right glove
+ * @returns Promise<string> - ID of the new pair
+ */
+export const pairGloves = async (
+  client: SupabaseClient<Database>,
+  leftAssetId: string,
+  rightAssetId: string
+): Promise<string> => {
+  const { data, error } = await client.rpc('pair_gloves', {
+    p_left_asset_id: leftAssetId,
+    p_right_asset_id: rightAssetId,
+  });
+
+  if (error) throw error;
+
+  return data.id;
+};
+
+/**
+ * Splits a pair so both gloves are tracked on their own again
+ * @param client - Supabase client instance
+ * @param pairId - Pair ID to dissolve
+ * @returns Promise<void>
+ */
+export const unpairGloves = async (
+  client: SupabaseClient<Database>,
+  pairId: string
+): Promise<void> => {
+  const { error } = await client.rpc('unpair_gloves', { p_pair_id: pairId });
+
+  if (error) throw error;
+};
@@ -0,0 +1,31 @@
+/**
+ * Print Bridge Service
+ *
+ * Talks to the print bridge (scripts/print-bridge.mjs) running on a computer
+ * in the tool crib. Browsers cannot open raw sockets, so the bridge accepts
+ * ZPL over HTTP and forwards it to the Zebra printer on port 9100.
+ */
+
+/**
+ * Sends raw ZPL to the printer behind a print bridge
+ * @param bridgeUrl - Base URL of the bridge, e.g. http://localhost:9101
+ * @param zpl - ZPL to print
+ * @returns Promise<void>
+ */
+export const sendZplToPrinter = async (bridgeUrl: string, zpl: string): Promise<void> => {
+  let response: Response;
+  try {
+    response = await fetch(`${bridgeUrl.replace(/\/+$/, '')}/print`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: zpl,
+    });
+  } catch {
+    throw new Error(`Print bridge at ${bridgeUrl} is not reachable. Check that it is running on this network.`);
+  }
+
+  if (!response.ok) {
+    const message = await response.text();
+    throw new Error(message || `Print bridge responded with ${response.status}`);
+  }
+};
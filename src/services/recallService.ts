@@ -0,0 +1,165 @@
+import { Asset, AssetStatus, Recall, RecallAsset, RecallResolution } from '../types';
+import { Database } from '../lib/database.types';
+import { mapDatabaseAssetToAsset } from '../utils/assetUtils';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Recall Service
+ *
+ * Handles manufacturer lot recalls. Issuing a recall quarantines the matching
+ * assets and notifies their holders server-side; each affected asset is then
+ * cleared or removed from service until the recall is resolved.
+ */
+
+export interface RecallNotice {
+  manufacturerId: string;
+  lotFrom: string;
+  lotTo?: string;
+  reference: string;
+  description?: string;
+}
+
+/**
+ * Maps database recall asset row to RecallAsset interface
+ * @param dbEntry - Raw recall asset data from database
+ * @returns RecallAsset - Mapped recall asset object
+ */
+const mapDatabaseRecallAssetToRecallAsset = (
+  dbEntry: Database['public']['Tables']['recall_assets']['Row']
+): RecallAsset => ({
+  id: dbEntry.id,
+  recallId: dbEntry.recall_id,
+  assetId: dbEntry.asset_id,
+  statusBefore: dbEntry.status_before as AssetStatus,
+  resolution: (dbEntry.resolution || undefined) as RecallResolution | undefined,
+  resolvedAt: dbEntry.resolved_at || undefined,
+  resolvedBy: dbEntry.resolved_by || undefined,
+  notes: dbEntry.notes || undefined,
+});
+
+/**
+ * Maps database recall row to Recall interface
+ * @param dbRecall - Raw recall data from database
+ * @param entries - Assets matched by the recall
+ * @returns Recall - Mapped recall object
+ */
+const mapDatabaseRecallToRecall = (
+  dbRecall: Database['public']['Tables']['recalls']['Row'],
+  entries: Database['public']['Tables']['recall_assets']['Row'][] = []
+): Recall => ({
+  id: dbRecall.id,
+  orgId: dbRecall.org_id,
+  manufacturerId: dbRecall.manufacturer_id,
+  lotFrom: dbRecall.lot_from,
+  lotTo: dbRecall.lot_to || undefined,
+  reference: dbRecall.reference,
+  description: dbRecall.description || undefined,
+  issuedBy: dbRecall.issued_by || undefined,
+  issuedAt: dbRecall.issued_at,
+  assets: entries.map(mapDatabaseRecallAssetToRecallAsset),
+});
+
+/**
+ * Fetches a recall with the assets it matched
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param dbRecall - Recall row to complete
+ * @returns Promise<Recall> - Recall with its affected assets
+ */
+const fetchRecallAssets = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  dbRecall: Database['public']['Tables']['recalls']['Row']
+): Promise<Recall> => {
+  const { data, error } = await client
+    .from('recall_assets')
+    .select('*')
+    .eq('recall_id', dbRecall.id)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+
+  return mapDatabaseRecallToRecall(dbRecall, data || []);
+};
+
+/**
+ * Fetches the recalls of an organization with their affected assets, newest first
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<Recall[]> - Array of recalls
+ */
+export const fetchRecalls = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<Recall[]> => {
+  const { data: recallsData, error: recallsError } = await client
+    .from('recalls')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('issued_at', { ascending: false });
+
+  if (recallsError) throw recallsError;
+
+  const { data: entriesData, error: entriesError } = await client
+    .from('recall_assets')
+    .select('*')
+    .eq('org_id', orgId);
+
+  if (entriesError) throw entriesError;
+
+  return (recallsData || []).map(dbRecall => mapDatabaseRecallToRecall(
+    dbRecall,
+    (entriesData || []).filter(entry => entry.recall_id === dbRecall.id)
+  ));
+};
+
+/**
+ * Records a recall notice, quarantining every matching asset and notifying its holder
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param notice - Manufacturer, lots and notice reference
+ * @returns Promise<Recall> - Issued recall with its affected assets
+ */
+export const issueRecall = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  notice: RecallNotice
+): Promise<Recall> => {
+  const { data, error } = await client.rpc('issue_recall', {
+    p_manufacturer_id: notice.manufacturerId,
+    p_lot_from: notice.lotFrom.trim(),
+    p_lot_to: notice.lotTo?.trim() || null,
+    p_reference: notice.reference.trim(),
+    p_description: notice.description?.trim() || null,
+  });
+
+  if (error) throw error;
+
+  return fetchRecallAssets(client, orgId, data);
+};
+
+/**
+ * Resolves one affected asset of a recall. A cleared asset returns to service once no
+ * other open recall holds it; a removed asset fails under the manufacturer-recall code.
+ * @param client - Supabase client instance
+ * @param recallAssetId - Recall asset entry to resolve
+ * @param resolution - Whether the asset is cleared or removed from service
+ * @param notes - Optional note, e.g. what the manufacturer confirmed
+ * @returns Promise<Asset> - The asset after the resolution
+ */
+export const resolveRecalledAsset = async (
+  client: SupabaseClient<Database>,
+  recallAssetId: string,
+  resolution: RecallResolution,
+  notes?: string
+): Promise<Asset> => {
+  const { data, error } = await client.rpc('resolve_recalled_asset', {
+    p_recall_asset_id: recallAssetId,
+    p_resolution: resolution,
+    p_notes: notes?.trim() || null,
+  });
+
+  if (error) throw error;
+
+  return mapDatabaseAssetToAsset(data);
+};
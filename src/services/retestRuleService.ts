@@ -0,0 +1,102 @@
+import { AssetClass, AssetType, RetestIntervalRule } from '../types';
+import { Database } from '../lib/database.types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Retest Rule Service
+ *
+ * Handles organization-level retest interval rules per asset type and class
+ */
+
+/**
+ * Maps database rule row to RetestIntervalRule interface
+ * @param dbRule - Raw rule data from database
+ * @returns RetestIntervalRule - Mapped rule object
+ */
+const mapDatabaseRuleToRule = (
+  dbRule: Database['public']['Tables']['retest_interval_rules']['Row']
+): RetestIntervalRule => ({
+  id: dbRule.id,
+  orgId: dbRule.org_id,
+  assetType: dbRule.asset_type as AssetType,
+  assetClass: dbRule.asset_class as AssetClass,
+  intervalMonths: dbRule.interval_months,
+});
+
+/**
+ * Fetches the retest interval rules for an organization
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<RetestIntervalRule[]> - Array of rules
+ */
+export const fetchRetestRules = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<RetestIntervalRule[]> => {
+  const { data, error } = await client
+    .from('retest_interval_rules')
+    .select('*')
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseRuleToRule);
+};
+
+/**
+ * Creates or updates the retest interval rule for an asset type and class.
+ * Affected assets are recomputed by a database trigger.
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param assetType - Asset type the rule applies to
+ * @param assetClass - Asset class the rule applies to
+ * @param intervalMonths - Retest interval in months
+ * @returns Promise<RetestIntervalRule> - Saved rule
+ */
+export const upsertRetestRule = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  assetType: AssetType,
+  assetClass: AssetClass,
+  intervalMonths: number
+): Promise<RetestIntervalRule> => {
+  const { data, error } = await client
+    .from('retest_interval_rules')
+    .upsert(
+      {
+        org_id: orgId,
+        asset_type: assetType,
+        asset_class: assetClass,
+        interval_months: intervalMonths,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'org_id,asset_type,asset_class' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseRuleToRule(data);
+};
+
+/**
+ * Deletes a retest interval rule, reverting the type and class to the type's default interval
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param ruleId - Rule ID to delete
+ * @returns Promise<void>
+ */
+export const deleteRetestRule = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  ruleId: string
+): Promise<void> => {
+  const { error } = await client
+    .from('retest_interval_rules')
+    .delete()
+    .eq('id', ruleId)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+};
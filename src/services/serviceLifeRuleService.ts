@@ -0,0 +1,106 @@
+import { AssetClass, AssetType, ServiceLifeBasis, ServiceLifeRule } from '../types';
+import { Database } from '../lib/database.types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Service Life Rule Service
+ *
+ * Handles organization-level maximum service life rules per asset type and class
+ */
+
+/**
+ * Maps database rule row to ServiceLifeRule interface
+ * @param dbRule - Raw rule data from database
+ * @returns ServiceLifeRule - Mapped rule object
+ */
+const mapDatabaseRuleToRule = (
+  dbRule: Database['public']['Tables']['service_life_rules']['Row']
+): ServiceLifeRule => ({
+  id: dbRule.id,
+  orgId: dbRule.org_id,
+  assetType: dbRule.asset_type as AssetType,
+  assetClass: dbRule.asset_class as AssetClass,
+  maxAgeMonths: dbRule.max_age_months,
+  measuredFrom: dbRule.measured_from as ServiceLifeBasis,
+});
+
+/**
+ * Fetches the service life rules for an organization
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<ServiceLifeRule[]> - Array of rules
+ */
+export const fetchServiceLifeRules = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<ServiceLifeRule[]> => {
+  const { data, error } = await client
+    .from('service_life_rules')
+    .select('*')
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseRuleToRule);
+};
+
+/**
+ * Creates or updates the service life rule for an asset type and class.
+ * Affected statuses are refreshed by a database trigger.
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param assetType - Asset type the rule applies to
+ * @param assetClass - Asset class the rule applies to
+ * @param maxAgeMonths - Maximum age in months
+ * @param measuredFrom - Date the age is counted from
+ * @returns Promise<ServiceLifeRule> - Saved rule
+ */
+export const upsertServiceLifeRule = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  assetType: AssetType,
+  assetClass: AssetClass,
+  maxAgeMonths: number,
+  measuredFrom: ServiceLifeBasis
+): Promise<ServiceLifeRule> => {
+  const { data, error } = await client
+    .from('service_life_rules')
+    .upsert(
+      {
+        org_id: orgId,
+        asset_type: assetType,
+        asset_class: assetClass,
+        max_age_months: maxAgeMonths,
+        measured_from: measuredFrom,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'org_id,asset_type,asset_class' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseRuleToRule(data);
+};
+
+/**
+ * Deletes a service life rule, removing the age limit of the type and class
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param ruleId - Rule ID to delete
+ * @returns Promise<void>
+ */
+export const deleteServiceLifeRule = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  ruleId: string
+): Promise<void> => {
+  const { error } = await client
+    .from('service_life_rules')
+    .delete()
+    .eq('id', ruleId)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+};
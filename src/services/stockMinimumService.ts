@@ -0,0 +1,101 @@
+import { AssetClass, GloveSize, StockMinimum } from '../types';
+import { Database } from '../lib/database.types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Stock Minimum Service
+ *
+ * Handles organization-level minimum stock levels of spare gloves per class and size
+ */
+
+/**
+ * Maps database stock minimum row to StockMinimum interface
+ * @param dbMinimum - Raw stock minimum data from database
+ * @returns StockMinimum - Mapped stock minimum object
+ */
+const mapDatabaseMinimumToMinimum = (
+  dbMinimum: Database['public']['Tables']['stock_minimums']['Row']
+): StockMinimum => ({
+  id: dbMinimum.id,
+  orgId: dbMinimum.org_id,
+  assetClass: dbMinimum.asset_class as AssetClass,
+  gloveSize: dbMinimum.glove_size as GloveSize,
+  minimumOnHand: dbMinimum.minimum_on_hand,
+});
+
+/**
+ * Fetches the minimum stock levels for an organization
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<StockMinimum[]> - Array of minimums
+ */
+export const fetchStockMinimums = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<StockMinimum[]> => {
+  const { data, error } = await client
+    .from('stock_minimums')
+    .select('*')
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseMinimumToMinimum);
+};
+
+/**
+ * Creates or updates the minimum stock level for a glove class and size
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param assetClass - Glove class the minimum applies to
+ * @param gloveSize - Glove size the minimum applies to
+ * @param minimumOnHand - Number of spares to keep on hand
+ * @returns Promise<StockMinimum> - Saved minimum
+ */
+export const upsertStockMinimum = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  assetClass: AssetClass,
+  gloveSize: GloveSize,
+  minimumOnHand: number
+): Promise<StockMinimum> => {
+  const { data, error } = await client
+    .from('stock_minimums')
+    .upsert(
+      {
+        org_id: orgId,
+        asset_class: assetClass,
+        glove_size: gloveSize,
+        minimum_on_hand: minimumOnHand,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'org_id,asset_class,glove_size' }
+    )
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseMinimumToMinimum(data);
+};
+
+/**
+ * Deletes a minimum stock level, so the class and size are no longer tracked
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param minimumId - Stock minimum ID to delete
+ * @returns Promise<void>
+ */
+export const deleteStockMinimum = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  minimumId: string
+): Promise<void> => {
+  const { error } = await client
+    .from('stock_minimums')
+    .delete()
+    .eq('id', minimumId)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,94 @@
+import { Supplier, SupplierType } from '../types';
+import { Database } from '../lib/database.types';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+/**
+ * Supplier Service
+ *
+ * Handles the organization's catalog of manufacturers and vendors that assets are
+ * bought from
+ */
+
+/**
+ * Maps database supplier row to Supplier interface
+ * @param dbSupplier - Raw supplier data from database
+ * @returns Supplier - Mapped supplier object
+ */
+const mapDatabaseSupplierToSupplier = (dbSupplier: Database['public']['Tables']['suppliers']['Row']): Supplier => ({
+  id: dbSupplier.id,
+  orgId: dbSupplier.org_id,
+  name: dbSupplier.name,
+  supplierType: dbSupplier.supplier_type as SupplierType,
+  createdAt: dbSupplier.created_at,
+});
+
+/**
+ * Fetches the manufacturers and vendors of an organization, sorted by name
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @returns Promise<Supplier[]> - Array of suppliers
+ */
+export const fetchSuppliers = async (
+  client: SupabaseClient<Database>,
+  orgId: string
+): Promise<Supplier[]> => {
+  const { data, error } = await client
+    .from('suppliers')
+    .select('*')
+    .eq('org_id', orgId)
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(mapDatabaseSupplierToSupplier);
+};
+
+/**
+ * Adds a manufacturer or vendor to the catalog
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param supplierType - Whether the supplier makes or sells the equipment
+ * @param name - Supplier name
+ * @returns Promise<Supplier> - Created supplier
+ */
+export const createSupplier = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  supplierType: SupplierType,
+  name: string
+): Promise<Supplier> => {
+  const { data, error } = await client
+    .from('suppliers')
+    .insert({
+      org_id: orgId,
+      name: name.trim(),
+      supplier_type: supplierType,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  return mapDatabaseSupplierToSupplier(data);
+};
+
+/**
+ * Deletes a supplier. Fails while assets still name it.
+ * @param client - Supabase client instance
+ * @param orgId - Organization ID
+ * @param supplierId - Supplier ID to delete
+ * @returns Promise<void>
+ */
+export const deleteSupplier = async (
+  client: SupabaseClient<Database>,
+  orgId: string,
+  supplierId: string
+): Promise<void> => {
+  const { error } = await client
+    .from('suppliers')
+    .delete()
+    .eq('id', supplierId)
+    .eq('org_id', orgId);
+
+  if (error) throw error;
+};
@@ -15,27 +15,304 @@ export interface OrganizationMember {
   role: string;
 }
 
-export type AssetStatus = 'active' | 'near-due' | 'expired' | 'failed' | 'in-testing';
+export type AssetType = 'glove' | 'sleeve' | 'blanket' | 'line-hose' | 'protector';
+export type AssetStatus = 'active' | 'near-due' | 'expired' | 'failed' | 'in-testing' | 'quarantined' | 'retired';
 export type AssetClass = 'Class 0' | 'Class 00' | 'Class 1' | 'Class 2' | 'Class 3' | 'Class 4';
 export type GloveSize = '7' | '8' | '9' | '10' | '11' | '12';
 export type GloveColor = 'red' | 'yellow' | 'black' | 'beige';
+export type AssetAttributes = Record<string, string>;
+export type GloveHand = 'left' | 'right';
 
 export interface Asset {
   id: string;
   orgId: string;
   serialNumber: string;
+  assetType: AssetType;
   assetClass: AssetClass;
   assignedUserId: string | null;
   issueDate: string;
-  lastCertificationDate: string;
-  nextCertificationDate: string;
+  /** Date the asset was made, as printed on it */
+  manufactureDate?: string;
+  lastCertificationDate?: string;
+  nextCertificationDate?: string;
+  /** Tested but not issued to a person since; it must be issued within 12 months of the test */
+  inStock?: boolean;
+  /** Date the asset was issued after its last test; its retest interval runs from here */
+  inServiceDate?: string;
   status: AssetStatus;
   failureDate?: string;
   failureReason?: string;
+  failureDefectCode?: string;
+  failureLocation?: FailureLocation;
+  failureNotes?: string;
+  failureReportedBy?: string;
+  failureCertificationId?: string;
+  failureInspectionId?: string;
+  retiredDate?: string;
+  disposalMethod?: DisposalMethod;
+  disposalWitness?: string;
+  retiredBy?: string;
+  destructionDocumentId?: string;
   testingStartDate?: string;
   gloveSize?: GloveSize;
   gloveColor?: GloveColor;
+  attributes: AssetAttributes;
+  pairId?: string;
+  hand?: GloveHand;
+  kitId?: string;
+  locationId?: string;
+  /** Shares its serial number with an older record; kept until an admin merges or renames it */
+  serialConflict?: boolean;
+  manufacturerId?: string;
+  model?: string;
+  lotNumber?: string;
+  vendorId?: string;
+  purchaseOrder?: string;
+  unitCost?: number;
   certificationDocuments: CertificationDocument[];
+  certifications: Certification[];
+}
+
+/** Values a merge can take from the record being merged away; `placement` is holder, location and kit together */
+export type AssetMergeField =
+  | 'serialNumber'
+  | 'assetClass'
+  | 'issueDate'
+  | 'gloveSize'
+  | 'gloveColor'
+  | 'attributes'
+  | 'placement'
+  | 'manufacturerId'
+  | 'model'
+  | 'lotNumber'
+  | 'vendorId'
+  | 'purchaseOrder'
+  | 'unitCost'
+  | 'manufactureDate';
+
+export interface Kit {
+  id: string;
+  orgId: string;
+  name: string;
+  assignedUserId: string | null;
+  notes?: string;
+  createdAt: string;
+}
+
+export interface Crew {
+  id: string;
+  orgId: string;
+  name: string;
+  supervisorUserId: string | null;
+  memberIds: string[];
+  createdAt: string;
+}
+
+export type LocationType = 'yard' | 'truck' | 'crib' | 'lab';
+
+export interface Location {
+  id: string;
+  orgId: string;
+  name: string;
+  locationType: LocationType;
+  notes?: string;
+  createdAt: string;
+}
+
+export type SupplierType = 'manufacturer' | 'vendor';
+
+/**
+ * A manufacturer or vendor in the organization's catalog, named on the assets bought from it
+ */
+export interface Supplier {
+  id: string;
+  orgId: string;
+  name: string;
+  supplierType: SupplierType;
+  createdAt: string;
+}
+
+export interface AssetMovement {
+  id: string;
+  assetId: string;
+  fromUserId?: string;
+  toUserId?: string;
+  fromLocationId?: string;
+  toLocationId?: string;
+  movedBy?: string;
+  movedAt: string;
+}
+
+/**
+ * A period during which one person held an asset, and their acknowledgement of receipt
+ */
+export interface AssetCustody {
+  id: string;
+  assetId: string;
+  userId: string;
+  checkedOutAt: string;
+  checkedOutBy?: string;
+  /** Unset while the person still holds the asset */
+  checkedInAt?: string;
+  checkedInBy?: string;
+  acknowledgedAt?: string;
+  acknowledgedName?: string;
+  signatureUrl?: string;
+}
+
+export type FailureLocation = 'fingers' | 'thumb' | 'palm' | 'back' | 'cuff';
+
+export interface DefectCode {
+  id: string;
+  orgId: string | null;
+  code: string;
+  label: string;
+}
+
+export interface FailureReport {
+  defectCode: string;
+  location?: FailureLocation;
+  notes?: string;
+}
+
+/**
+ * What to do with the mate of a paired glove that has just failed
+ */
+export type MateAction = 'fail' | 'send-to-testing' | 'keep';
+
+export type DisposalMethod = 'cut-and-discarded' | 'incinerated' | 'returned-to-manufacturer' | 'recycled';
+
+export interface Retirement {
+  disposalMethod: DisposalMethod;
+  retiredDate: string;
+  disposalWitness: string;
+}
+
+export type CertificationResult = 'pass' | 'fail';
+
+export interface Certification {
+  id: string;
+  assetId: string;
+  documentId?: string;
+  certificationDate: string;
+  labName?: string;
+  result: CertificationResult;
+  proofTestVoltage?: number;
+  leakageCurrentMa?: number;
+  nextCertificationDate: string;
+  recordedBy?: string;
+  createdAt: string;
+}
+
+export type InspectionResult = 'pass' | 'fail';
+
+export interface Inspection {
+  id: string;
+  assetId: string;
+  inspectedBy: string;
+  inspectedAt: string;
+  result: InspectionResult;
+  checklist: Record<string, boolean>;
+  photoUrl?: string;
+  notes?: string;
+  failureDefectCode?: string;
+  failureLocation?: FailureLocation;
+}
+
+export interface RetestIntervalRule {
+  id: string;
+  orgId: string;
+  assetType: AssetType;
+  assetClass: AssetClass;
+  intervalMonths: number;
+}
+
+/** Date a service life is counted from; `manufacture` falls back to the issue date when unknown */
+export type ServiceLifeBasis = 'manufacture' | 'issue';
+
+/**
+ * Maximum age of an asset type and class before it must be removed from service
+ */
+export interface ServiceLifeRule {
+  id: string;
+  orgId: string;
+  assetType: AssetType;
+  assetClass: AssetClass;
+  maxAgeMonths: number;
+  measuredFrom: ServiceLifeBasis;
+}
+
+/**
+ * Number of spare gloves of a class and size an organization wants on hand
+ */
+export interface StockMinimum {
+  id: string;
+  orgId: string;
+  assetClass: AssetClass;
+  gloveSize: GloveSize;
+  minimumOnHand: number;
+}
+
+/** How a recalled asset was dealt with: returned to service, or failed and taken out of it */
+export type RecallResolution = 'cleared' | 'removed';
+
+/**
+ * An asset matched by a recall, open until it is resolved
+ */
+export interface RecallAsset {
+  id: string;
+  recallId: string;
+  assetId: string;
+  statusBefore: AssetStatus;
+  resolution?: RecallResolution;
+  resolvedAt?: string;
+  resolvedBy?: string;
+  notes?: string;
+}
+
+/**
+ * A manufacturer's recall of one production lot or a range of lots
+ */
+export interface Recall {
+  id: string;
+  orgId: string;
+  manufacturerId: string;
+  lotFrom: string;
+  /** Unset when the recall covers a single lot */
+  lotTo?: string;
+  /** Manufacturer's notice or bulletin number */
+  reference: string;
+  description?: string;
+  issuedBy?: string;
+  issuedAt: string;
+  assets: RecallAsset[];
+}
+
+/** What a label's QR code encodes: a link to the asset's page or just its serial number */
+export type LabelQrContent = 'url' | 'serial';
+
+export type ZplLabelField = 'serialNumber' | 'assetClass' | 'assetType' | 'size' | 'nextCertificationDate';
+
+/**
+ * Layout of the asset label printed on Zebra thermal printers
+ */
+export interface ZplLabelLayout {
+  /** Label size in inches */
+  widthIn: number;
+  heightIn: number;
+  /** Printer resolution in dots per inch */
+  dpi: 203 | 300 | 600;
+  qrContent: LabelQrContent;
+  qrPosition: 'left' | 'right';
+  /** Text printed beside the QR code, top to bottom */
+  fields: ZplLabelField[];
+}
+
+export interface OrgSettings {
+  failedDisposalDays: number;
+  labelLayout: ZplLabelLayout;
+  /** Base URL of the local bridge that forwards ZPL to the crib's printer */
+  printBridgeUrl?: string;
 }
 
 export interface CertificationDocument {
@@ -50,7 +327,7 @@ export interface CertificationDocument {
 
 export interface Notification {
   id: string;
-  assetId: string;
+  assetId?: string;
   userId: string;
   message: string;
   type: 'warning' | 'urgent' | 'info';
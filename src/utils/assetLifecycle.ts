@@ -0,0 +1,100 @@
+import { AssetStatus } from '../types';
+
+/**
+ * Asset Lifecycle
+ *
+ * Allowed status transitions. The database enforces the same graph with the
+ * `asset_status_transition` trigger; this copy lets the UI hide actions and
+ * reject a change before it is sent.
+ */
+
+export const ASSET_STATUS_LABELS: Record<AssetStatus, string> = {
+  'active': 'Active',
+  'near-due': 'Due Soon',
+  'expired': 'Expired',
+  'failed': 'Failed',
+  'in-testing': 'In Testing',
+  'quarantined': 'Quarantined',
+  'retired': 'Retired',
+};
+
+/**
+ * Statuses derived from the next certification date
+ */
+export const DATE_DRIVEN_STATUSES: AssetStatus[] = ['active', 'near-due', 'expired'];
+
+export const ASSET_STATUS_TRANSITIONS: Record<AssetStatus, AssetStatus[]> = {
+  'active': ['near-due', 'expired', 'in-testing', 'quarantined', 'failed'],
+  'near-due': ['active', 'expired', 'in-testing', 'quarantined', 'failed'],
+  'expired': ['active', 'near-due', 'in-testing', 'quarantined', 'failed'],
+  'in-testing': ['active', 'near-due', 'expired', 'quarantined', 'failed'],
+  // Only a recall resolution returns a quarantined asset to service
+  'quarantined': ['active', 'near-due', 'expired', 'failed'],
+  'failed': ['retired'],
+  'retired': [],
+};
+
+/**
+ * Statuses ordered from most to least in need of attention
+ */
+export const STATUS_URGENCY: AssetStatus[] = ['quarantined', 'failed', 'expired', 'near-due', 'in-testing', 'active', 'retired'];
+
+/**
+ * Picks the status that needs attention first, e.g. to summarize a group of assets
+ * @param statuses - Statuses to compare
+ * @returns AssetStatus | undefined - Most urgent status, or undefined when there are none
+ */
+export const getMostUrgentStatus = (statuses: AssetStatus[]): AssetStatus | undefined => {
+  return STATUS_URGENCY.find(status => statuses.includes(status));
+};
+
+/**
+ * Checks whether a status is recomputed from certification dates
+ * @param status - Asset status
+ * @returns boolean - True for active, near-due and expired
+ */
+export const isDateDrivenStatus = (status: AssetStatus): boolean => {
+  return DATE_DRIVEN_STATUSES.includes(status);
+};
+
+/**
+ * Checks whether an asset may move from one status to another
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns boolean - True when the transition is allowed (or the status is unchanged)
+ */
+export const canTransitionAssetStatus = (from: AssetStatus, to: AssetStatus): boolean => {
+  return from === to || ASSET_STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Builds the message shown when a status change is rejected
+ * @param serialNumber - Serial number of the asset
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns string - Readable error, matching the database trigger
+ */
+export const getAssetStatusTransitionError = (
+  serialNumber: string,
+  from: AssetStatus,
+  to: AssetStatus
+): string => {
+  const message = `Asset ${serialNumber} cannot move from ${ASSET_STATUS_LABELS[from]} to ${ASSET_STATUS_LABELS[to]}.`;
+  return from === 'failed' || from === 'retired'
+    ? `${message} ${ASSET_STATUS_LABELS[from]} assets cannot be returned to service.`
+    : message;
+};
+
+/**
+ * Throws when an asset may not move to the requested status
+ * @param asset - Asset with its serial number and current status
+ * @param to - Requested status
+ */
+export const assertAssetStatusTransition = (
+  asset: { serialNumber: string; status: AssetStatus },
+  to: AssetStatus
+): void => {
+  if (!canTransitionAssetStatus(asset.status, to)) {
+    throw new Error(getAssetStatusTransitionError(asset.serialNumber, asset.status, to));
+  }
+};
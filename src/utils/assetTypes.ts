@@ -0,0 +1,173 @@
+import { AssetAttributes, AssetType } from '../types';
+
+/**
+ * Asset Types
+ *
+ * What differs between the kinds of insulating equipment we track: which
+ * attributes they carry and whether (and how often) they are dielectric tested.
+ * The database mirrors the test requirement in `asset_type_requires_dielectric_test`
+ * and the default intervals in `default_retest_interval_months`.
+ */
+
+/**
+ * A type-specific attribute stored in `Asset.attributes`
+ */
+export interface AssetAttributeField {
+  key: string;
+  label: string;
+  options: string[];
+}
+
+export interface AssetTypeConfig {
+  label: string;
+  pluralLabel: string;
+  /** Retest interval in months when the organization has no rule, or null when never tested */
+  defaultRetestIntervalMonths: number | null;
+  /** Uses the `gloveSize` field */
+  hasGloveSize: boolean;
+  /** Uses the `gloveColor` field */
+  hasGloveColor: boolean;
+  attributes: AssetAttributeField[];
+}
+
+/**
+ * Default intervals follow OSHA 1910.137 Table I-6; line hose is retested with blankets
+ */
+export const ASSET_TYPES: Record<AssetType, AssetTypeConfig> = {
+  'glove': {
+    label: 'Rubber Glove',
+    pluralLabel: 'Rubber Gloves',
+    defaultRetestIntervalMonths: 6,
+    hasGloveSize: true,
+    hasGloveColor: true,
+    attributes: [],
+  },
+  'sleeve': {
+    label: 'Sleeve',
+    pluralLabel: 'Sleeves',
+    defaultRetestIntervalMonths: 12,
+    hasGloveSize: false,
+    hasGloveColor: false,
+    attributes: [
+      { key: 'size', label: 'Size', options: ['Regular', 'Large', 'Extra Large'] },
+      { key: 'style', label: 'Style', options: ['Straight', 'Curved Elbow'] },
+    ],
+  },
+  'blanket': {
+    label: 'Blanket',
+    pluralLabel: 'Blankets',
+    defaultRetestIntervalMonths: 12,
+    hasGloveSize: false,
+    hasGloveColor: false,
+    attributes: [
+      { key: 'size', label: 'Size', options: ['22 x 22 in', '36 x 36 in', '36 x 72 in', '48 x 48 in'] },
+      { key: 'style', label: 'Style', options: ['Solid', 'Slotted'] },
+    ],
+  },
+  'line-hose': {
+    label: 'Line Hose',
+    pluralLabel: 'Line Hose',
+    defaultRetestIntervalMonths: 12,
+    hasGloveSize: false,
+    hasGloveColor: false,
+    attributes: [
+      { key: 'length', label: 'Length', options: ['3 ft', '4.5 ft', '6 ft'] },
+      { key: 'connector', label: 'Connector', options: ['Molded', 'Non-molded'] },
+    ],
+  },
+  'protector': {
+    label: 'Leather Protector',
+    pluralLabel: 'Leather Protectors',
+    defaultRetestIntervalMonths: null,
+    hasGloveSize: true,
+    hasGloveColor: false,
+    attributes: [],
+  },
+};
+
+export const ASSET_TYPE_OPTIONS = Object.keys(ASSET_TYPES) as AssetType[];
+
+/**
+ * Asset types that go to the lab for dielectric retests
+ */
+export const TESTED_ASSET_TYPES = ASSET_TYPE_OPTIONS.filter(
+  type => ASSET_TYPES[type].defaultRetestIntervalMonths !== null
+);
+
+/**
+ * Checks whether an asset type is dielectric tested and so has certification dates
+ * @param assetType - Asset type
+ * @returns boolean - False for leather protectors
+ */
+export const requiresDielectricTest = (assetType: AssetType): boolean => {
+  return ASSET_TYPES[assetType].defaultRetestIntervalMonths !== null;
+};
+
+/**
+ * Parses an asset type from free text such as a CSV cell, accepting the key or the label
+ * @param value - Raw value, e.g. "sleeve", "Line Hose" or "Leather Protector"
+ * @returns AssetType | undefined - Matching type, or undefined when unrecognised
+ */
+export const toAssetType = (value: string): AssetType | undefined => {
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, '-');
+  return ASSET_TYPE_OPTIONS.find(type =>
+    type === normalized ||
+    ASSET_TYPES[type].label.toLowerCase().replace(/\s+/g, '-') === normalized
+  );
+};
+
+/**
+ * Lists the filled-in type-specific attributes of an asset in display order
+ * @param assetType - Asset type
+ * @param attributes - Stored attribute values
+ * @returns Array of label/value pairs
+ */
+export const getAssetAttributeEntries = (
+  assetType: AssetType,
+  attributes: AssetAttributes
+): { label: string; value: string }[] => {
+  return ASSET_TYPES[assetType].attributes
+    .filter(field => attributes[field.key])
+    .map(field => ({ label: field.label, value: attributes[field.key] }));
+};
+
+/**
+ * Keeps only the attributes defined for an asset type, dropping values that belong to other types
+ * @param assetType - Asset type
+ * @param attributes - Attribute values to clean
+ * @returns AssetAttributes - Non-empty values for the type's fields
+ */
+export const pickAssetAttributes = (
+  assetType: AssetType,
+  attributes: AssetAttributes = {}
+): AssetAttributes => {
+  return ASSET_TYPES[assetType].attributes.reduce<AssetAttributes>((acc, field) => {
+    const value = attributes[field.key]?.trim();
+    if (value) acc[field.key] = value;
+    return acc;
+  }, {});
+};
+
+/**
+ * Writes attributes as a single CSV cell, e.g. "size=Large; style=Straight"
+ * @param attributes - Attribute values
+ * @returns string - Semicolon-separated key=value pairs
+ */
+export const formatAssetAttributes = (attributes: AssetAttributes): string => {
+  return Object.entries(attributes)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('; ');
+};
+
+/**
+ * Reads attributes written by formatAssetAttributes
+ * @param value - Semicolon-separated key=value pairs
+ * @returns AssetAttributes - Parsed values; malformed pairs are skipped
+ */
+export const parseAssetAttributes = (value: string): AssetAttributes => {
+  return value.split(';').reduce<AssetAttributes>((acc, pair) => {
+    const [key, ...rest] = pair.split('=');
+    if (key?.trim() && rest.length > 0) acc[key.trim()] = rest.join('=').trim();
+    return acc;
+  }, {});
+};
@@ -1,13 +1,16 @@
 import { format, addMonths } from 'date-fns';
-import { Asset, AssetStatus } from '../types';
+import { Asset, AssetClass, AssetStatus, AssetType, RetestIntervalRule } from '../types';
 import { Database } from '../lib/database.types';
+import { ASSET_TYPES } from './assetTypes';
 
 /**
  * Calculates asset status based on next certification date
- * @param nextCertificationDate - The next certification date in string format
+ * @param nextCertificationDate - The next certification date in string format, absent for untested types
  * @returns AssetStatus - The calculated status
  */
-export const calculateAssetStatus = (nextCertificationDate: string): AssetStatus => {
+export const calculateAssetStatus = (nextCertificationDate?: string): AssetStatus => {
+  if (!nextCertificationDate) return 'active';
+
   const now = new Date();
   const certDate = new Date(nextCertificationDate);
   const daysUntilExpiration = Math.floor((certDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
@@ -30,25 +33,116 @@ export const mapDatabaseAssetToAsset = (dbAsset: Database['public']['Tables']['a
   id: dbAsset.id,
   orgId: dbAsset.org_id,
   serialNumber: dbAsset.serial_number,
+  assetType: dbAsset.asset_type as Asset['assetType'],
   assetClass: dbAsset.asset_class as Asset['assetClass'],
   gloveSize: dbAsset.glove_size as Asset['gloveSize'],
   gloveColor: dbAsset.glove_color as Asset['gloveColor'],
   issueDate: dbAsset.issue_date,
-  lastCertificationDate: dbAsset.last_certification_date,
-  nextCertificationDate: dbAsset.next_certification_date,
+  manufactureDate: dbAsset.manufacture_date || undefined,
+  lastCertificationDate: dbAsset.last_certification_date || undefined,
+  nextCertificationDate: dbAsset.next_certification_date || undefined,
+  inStock: dbAsset.in_stock || undefined,
+  inServiceDate: dbAsset.in_service_date || undefined,
   status: dbAsset.status as AssetStatus,
   failureDate: dbAsset.failure_date || undefined,
   failureReason: dbAsset.failure_reason || undefined,
+  failureDefectCode: dbAsset.failure_defect_code || undefined,
+  failureLocation: (dbAsset.failure_location || undefined) as Asset['failureLocation'],
+  failureNotes: dbAsset.failure_notes || undefined,
+  failureReportedBy: dbAsset.failure_reported_by || undefined,
+  failureCertificationId: dbAsset.failure_certification_id || undefined,
+  failureInspectionId: dbAsset.failure_inspection_id || undefined,
+  retiredDate: dbAsset.retired_date || undefined,
+  disposalMethod: (dbAsset.disposal_method || undefined) as Asset['disposalMethod'],
+  disposalWitness: dbAsset.disposal_witness || undefined,
+  retiredBy: dbAsset.retired_by || undefined,
+  destructionDocumentId: dbAsset.destruction_document_id || undefined,
   testingStartDate: dbAsset.testing_start_date || undefined,
   assignedUserId: dbAsset.assigned_user_id || null,
+  attributes: (dbAsset.attributes || {}) as Asset['attributes'],
+  pairId: dbAsset.pair_id || undefined,
+  hand: (dbAsset.hand || undefined) as Asset['hand'],
+  kitId: dbAsset.kit_id || undefined,
+  locationId: dbAsset.location_id || undefined,
+  serialConflict: dbAsset.serial_conflict || undefined,
+  manufacturerId: dbAsset.manufacturer_id || undefined,
+  model: dbAsset.model || undefined,
+  lotNumber: dbAsset.lot_number || undefined,
+  vendorId: dbAsset.vendor_id || undefined,
+  purchaseOrder: dbAsset.purchase_order || undefined,
+  unitCost: dbAsset.unit_cost ?? undefined,
   certificationDocuments: [],
+  certifications: [],
 });
 
 /**
- * Calculates the next certification date (6 months from last certification)
+ * Retest interval used when neither a rule nor the asset type provides one
+ */
+export const DEFAULT_RETEST_INTERVAL_MONTHS = 6;
+
+/**
+ * Resolves the retest interval for an asset type and class from the organization's rules
+ * @param rules - Retest interval rules configured for the organization
+ * @param assetType - The asset type to look up
+ * @param assetClass - The asset class to look up
+ * @returns Interval in months, falling back to the type's default interval
+ */
+export const getRetestIntervalMonths = (
+  rules: RetestIntervalRule[],
+  assetType: AssetType,
+  assetClass: AssetClass
+): number => {
+  const rule = rules.find(r => r.assetType === assetType && r.assetClass === assetClass);
+  if (rule) return rule.intervalMonths;
+  return ASSET_TYPES[assetType].defaultRetestIntervalMonths ?? DEFAULT_RETEST_INTERVAL_MONTHS;
+};
+
+/**
+ * Calculates the next certification date from the last certification
  * @param lastCertificationDate - The last certification date
+ * @param intervalMonths - Retest interval in months (defaults to 6)
  * @returns Next certification date in YYYY-MM-DD format
  */
-export const calculateNextCertificationDate = (lastCertificationDate: string): string => {
-  return format(addMonths(new Date(lastCertificationDate), 6), 'yyyy-MM-dd');
-};
\ No newline at end of file
+export const calculateNextCertificationDate = (
+  lastCertificationDate: string,
+  intervalMonths: number = DEFAULT_RETEST_INTERVAL_MONTHS
+): string => {
+  return format(addMonths(new Date(lastCertificationDate), intervalMonths), 'yyyy-MM-dd');
+};
+/**
+ * Months a tested asset may wait in stock; OSHA 1910.137 Table I-5 requires a retest
+ * before issuing equipment whose last test is older
+ */
+export const STOCK_RETEST_MONTHS = 12;
+
+/**
+ * Calculates when a tested asset is next due, mirroring `certification_due_date`
+ * @param lastCertificationDate - The last certification date
+ * @param intervalMonths - Retest interval in months for the asset's type and class
+ * @param inServiceDate - Date the asset was issued after that test, unset while in stock
+ * @returns Next certification date in YYYY-MM-DD format: 12 months after the test while in
+ * stock, one retest interval after the issue once issued
+ */
+export const calculateCertificationDueDate = (
+  lastCertificationDate: string,
+  intervalMonths: number,
+  inServiceDate?: string
+): string => {
+  if (!inServiceDate) return calculateNextCertificationDate(lastCertificationDate, STOCK_RETEST_MONTHS);
+
+  const startDate = inServiceDate > lastCertificationDate ? inServiceDate : lastCertificationDate;
+  return calculateNextCertificationDate(startDate, intervalMonths);
+};
+
+/**
+ * Tells whether stock has waited too long since its last test to be issued
+ * @param lastCertificationDate - The last certification date
+ * @param issueDate - Date the asset would be issued, in YYYY-MM-DD format (defaults to today)
+ * @returns boolean - True when the test is more than 12 months older than the issue
+ */
+export const mustRetestBeforeIssue = (
+  lastCertificationDate: string,
+  issueDate: string = format(new Date(), 'yyyy-MM-dd')
+): boolean => {
+  return calculateNextCertificationDate(lastCertificationDate, STOCK_RETEST_MONTHS) < issueDate;
+};
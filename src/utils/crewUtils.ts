@@ -0,0 +1,73 @@
+import { Asset, Crew, OrganizationMember } from '../types';
+
+/**
+ * Lists the crews a user supervises
+ * @param crews - Crews to search
+ * @param userId - User ID of the supervisor
+ * @returns Crew[] - Crews supervised by the user
+ */
+export const getSupervisedCrews = (crews: Crew[], userId: string | undefined): Crew[] => {
+  if (!userId) return [];
+  return crews.filter(crew => crew.supervisorUserId === userId);
+};
+
+/**
+ * Lists the assets assigned to a crew's technicians
+ * @param crew - Crew to look up
+ * @param assets - Assets to search
+ * @returns Asset[] - Assets held by the crew
+ */
+export const getCrewAssets = (crew: Crew, assets: Asset[]): Asset[] => {
+  return assets.filter(asset => !!asset.assignedUserId && crew.memberIds.includes(asset.assignedUserId));
+};
+
+/**
+ * Checks whether gear held by an assignee is the user's own or their crew's.
+ * Mirrors the RLS policies for non-admins.
+ * @param assigneeId - User ID the gear is assigned to
+ * @param userId - User ID of the current user
+ * @param crews - Crews of the organization
+ * @returns boolean - True if the user can view and act on the assignee's gear
+ */
+export const isAssigneeInUserScope = (
+  assigneeId: string | null | undefined,
+  userId: string | undefined,
+  crews: Crew[]
+): boolean => {
+  if (!userId || !assigneeId) return false;
+  if (assigneeId === userId) return true;
+  return getSupervisedCrews(crews, userId).some(crew => crew.memberIds.includes(assigneeId));
+};
+
+/**
+ * Checks whether an asset is held by the user or by a technician on a crew they supervise
+ * @param asset - Asset to check
+ * @param userId - User ID of the current user
+ * @param crews - Crews of the organization
+ * @returns boolean - True if the user can view and act on the asset
+ */
+export const isAssetInUserScope = (asset: Asset, userId: string | undefined, crews: Crew[]): boolean => {
+  return isAssigneeInUserScope(asset.assignedUserId, userId, crews);
+};
+
+/**
+ * Finds the crew a technician is on
+ * @param crews - Crews to search
+ * @param userId - User ID of the technician
+ * @returns Crew | undefined - The technician's crew, if any
+ */
+export const getMemberCrew = (crews: Crew[], userId: string): Crew | undefined => {
+  return crews.find(crew => crew.memberIds.includes(userId));
+};
+
+/**
+ * Resolves a crew's technicians to organization members
+ * @param crew - Crew to look up
+ * @param members - Organization members
+ * @returns OrganizationMember[] - Crew members, sorted by name
+ */
+export const getCrewMembers = (crew: Crew, members: OrganizationMember[]): OrganizationMember[] => {
+  return members
+    .filter(member => crew.memberIds.includes(member.id))
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -0,0 +1,86 @@
+import { AssetClass } from '../types';
+
+/**
+ * Dielectric ratings for one rubber insulating glove class
+ */
+export interface DielectricRating {
+  /** Maximum use voltage (AC rms, volts) */
+  maxUseVoltage: number;
+  /** AC proof-test voltage (rms, volts) */
+  proofTestVoltage: number;
+  /** Maximum AC proof-test leakage current (milliamps) */
+  maxLeakageCurrentMa: number;
+}
+
+/**
+ * ASTM D120 / IEC 60903 ratings by glove class.
+ * Leakage limits are the values for a 14 in (356 mm) glove.
+ */
+export const ASTM_D120_RATINGS: Record<AssetClass, DielectricRating> = {
+  'Class 00': { maxUseVoltage: 500, proofTestVoltage: 2500, maxLeakageCurrentMa: 12 },
+  'Class 0': { maxUseVoltage: 1000, proofTestVoltage: 5000, maxLeakageCurrentMa: 16 },
+  'Class 1': { maxUseVoltage: 7500, proofTestVoltage: 10000, maxLeakageCurrentMa: 18 },
+  'Class 2': { maxUseVoltage: 17000, proofTestVoltage: 20000, maxLeakageCurrentMa: 20 },
+  'Class 3': { maxUseVoltage: 26500, proofTestVoltage: 30000, maxLeakageCurrentMa: 22 },
+  'Class 4': { maxUseVoltage: 36000, proofTestVoltage: 40000, maxLeakageCurrentMa: 24 },
+};
+
+export interface DielectricTestValues {
+  proofTestVoltage?: number;
+  leakageCurrentMa?: number;
+}
+
+export interface DielectricTestIssue {
+  field: keyof DielectricTestValues;
+  message: string;
+}
+
+/**
+ * Formats a voltage for display, e.g. 17000 -> "17,000 V"
+ * @param volts - Voltage in volts
+ * @returns string - Formatted voltage
+ */
+export const formatVoltage = (volts: number): string => {
+  return `${volts.toLocaleString('en-US')} V`;
+};
+
+/**
+ * Parses a measurement typed into a form, treating an empty field as not entered
+ * @param value - Raw input value
+ * @returns number | undefined - Parsed value, or undefined when empty or not a number
+ */
+export const parseMeasurement = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Checks measured proof-test values against the ratings for a class
+ * @param assetClass - Class of the tested glove
+ * @param values - Measured proof-test voltage and leakage current
+ * @returns DielectricTestIssue[] - One entry per out-of-range value, empty when all are within limits
+ */
+export const checkDielectricTestValues = (
+  assetClass: AssetClass,
+  values: DielectricTestValues
+): DielectricTestIssue[] => {
+  const rating = ASTM_D120_RATINGS[assetClass];
+  const issues: DielectricTestIssue[] = [];
+
+  if (values.proofTestVoltage !== undefined && values.proofTestVoltage < rating.proofTestVoltage) {
+    issues.push({
+      field: 'proofTestVoltage',
+      message: `Below the ${formatVoltage(rating.proofTestVoltage)} proof-test voltage for ${assetClass}`,
+    });
+  }
+
+  if (values.leakageCurrentMa !== undefined && values.leakageCurrentMa > rating.maxLeakageCurrentMa) {
+    issues.push({
+      field: 'leakageCurrentMa',
+      message: `Above the ${rating.maxLeakageCurrentMa} mA leakage limit for ${assetClass}`,
+    });
+  }
+
+  return issues;
+};
@@ -0,0 +1,33 @@
+import { DefectCode, FailureLocation } from '../types';
+
+export const FAILURE_LOCATION_LABELS: Record<FailureLocation, string> = {
+  fingers: 'Fingers',
+  thumb: 'Thumb',
+  palm: 'Palm',
+  back: 'Back',
+  cuff: 'Cuff',
+};
+
+/**
+ * Looks up the display label of a defect code, preferring an organization's own code
+ * @param defectCodes - Built-in and organization defect codes
+ * @param code - Defect code to look up
+ * @returns string - Label, or the code itself when it is no longer in the list
+ */
+export const getDefectCodeLabel = (defectCodes: DefectCode[], code: string): string => {
+  const matches = defectCodes.filter(defectCode => defectCode.code === code);
+  const match = matches.find(defectCode => defectCode.orgId !== null) || matches[0];
+  return match ? match.label : code;
+};
+
+/**
+ * Turns a label into a defect code, e.g. "Finger crotch wear" -> "finger-crotch-wear"
+ * @param label - Display label
+ * @returns string - Lowercase code with words separated by hyphens
+ */
+export const toDefectCode = (label: string): string => {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
@@ -0,0 +1,99 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Asset, Inspection, OrganizationMember } from '../types';
+import { isDateDrivenStatus } from './assetLifecycle';
+
+export interface InspectionChecklistItem {
+  key: string;
+  label: string;
+}
+
+/**
+ * Pre-use checks from ASTM F496 / OSHA 1910.137; every item must be OK for a pass
+ */
+export const INSPECTION_CHECKLIST: InspectionChecklistItem[] = [
+  { key: 'air-test', label: 'Air test: holds air with no leaks' },
+  { key: 'no-cuts-or-punctures', label: 'No cuts, punctures or tears' },
+  { key: 'no-ozone-cracking', label: 'No ozone cracking or UV checking' },
+  { key: 'no-swelling', label: 'No swelling, softening or hardening' },
+  { key: 'no-embedded-objects', label: 'No embedded objects or contamination' },
+  { key: 'protectors-ok', label: 'Leather protectors in good condition' },
+];
+
+/**
+ * Days an inspection counts towards a technician's compliance
+ */
+export const INSPECTION_COMPLIANCE_DAYS = 7;
+
+/**
+ * Days of inspection history loaded with the organization's assets
+ */
+export const INSPECTION_HISTORY_DAYS = 90;
+
+export interface InspectionCompliance {
+  member: OrganizationMember;
+  assignedAssets: number;
+  inspectedAssets: number;
+  lastInspectedAt?: string;
+  failedInspections: number;
+}
+
+/**
+ * Checks whether every checklist item was marked OK
+ * @param checklist - Checklist item keys mapped to whether the item was OK
+ * @returns boolean - True when the checklist supports a pass
+ */
+export const isChecklistComplete = (checklist: Record<string, boolean>): boolean => {
+  return INSPECTION_CHECKLIST.every(item => checklist[item.key]);
+};
+
+/**
+ * Finds the most recent inspection of an asset
+ * @param inspections - Inspections, newest first
+ * @param assetId - Asset ID
+ * @returns Inspection | undefined - Latest inspection, if any
+ */
+export const getLatestInspection = (
+  inspections: Inspection[],
+  assetId: string
+): Inspection | undefined => {
+  return inspections.find(inspection => inspection.assetId === assetId);
+};
+
+/**
+ * Summarizes inspection compliance per technician: how many of their in-service
+ * assets were inspected within the compliance window
+ * @param members - Organization members
+ * @param assets - Organization assets
+ * @param inspections - Inspections, newest first
+ * @param asOf - Date to measure from (defaults to now)
+ * @returns InspectionCompliance[] - One row per member with assigned in-service assets
+ */
+export const getInspectionCompliance = (
+  members: OrganizationMember[],
+  assets: Asset[],
+  inspections: Inspection[],
+  asOf: Date = new Date()
+): InspectionCompliance[] => {
+  const isRecent = (inspection: Inspection) =>
+    differenceInCalendarDays(asOf, parseISO(inspection.inspectedAt)) < INSPECTION_COMPLIANCE_DAYS;
+
+  return members
+    .map(member => {
+      const assignedAssets = assets.filter(asset =>
+        asset.assignedUserId === member.id && isDateDrivenStatus(asset.status)
+      );
+      const memberInspections = inspections.filter(inspection => inspection.inspectedBy === member.id);
+      const recentInspections = memberInspections.filter(isRecent);
+
+      return {
+        member,
+        assignedAssets: assignedAssets.length,
+        inspectedAssets: assignedAssets.filter(asset =>
+          recentInspections.some(inspection => inspection.assetId === asset.id)
+        ).length,
+        lastInspectedAt: memberInspections[0]?.inspectedAt,
+        failedInspections: recentInspections.filter(inspection => inspection.result === 'fail').length,
+      };
+    })
+    .filter(row => row.assignedAssets > 0 || row.lastInspectedAt);
+};
@@ -0,0 +1,51 @@
+import { Asset, AssetStatus, Kit } from '../types';
+import { getMostUrgentStatus } from './assetLifecycle';
+import { getMate } from './pairUtils';
+
+/**
+ * Lists the assets in a kit
+ * @param kit - Kit to look up
+ * @param assets - Assets to search
+ * @returns Asset[] - Members of the kit, sorted by serial number
+ */
+export const getKitMembers = (kit: Kit, assets: Asset[]): Asset[] => {
+  return assets
+    .filter(asset => asset.kitId === kit.id)
+    .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+};
+
+/**
+ * Rolls a kit's compliance up from its worst member
+ * @param members - Assets in the kit
+ * @returns AssetStatus | undefined - Most urgent member status, or undefined for an empty kit
+ */
+export const getKitStatus = (members: Asset[]): AssetStatus | undefined => {
+  return getMostUrgentStatus(members.map(member => member.status));
+};
+
+/**
+ * Lists the assets that can be added to a kit
+ * @param assets - Assets to search
+ * @returns Asset[] - Assets in no kit that have not been retired, sorted by serial number
+ */
+export const getKittableAssets = (assets: Asset[]): Asset[] => {
+  return assets
+    .filter(asset => !asset.kitId && asset.status !== 'retired')
+    .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+};
+
+/**
+ * Adds the mates of any paired gloves, since a pair goes into a kit together
+ * @param assetIds - Selected asset IDs
+ * @param assets - Every asset, used to find mates
+ * @returns string[] - Selected IDs plus their mates, without duplicates
+ */
+export const withPairedMates = (assetIds: string[], assets: Asset[]): string[] => {
+  const ids = new Set(assetIds);
+  assetIds.forEach(id => {
+    const asset = assets.find(candidate => candidate.id === id);
+    const mate = asset && getMate(asset, assets);
+    if (mate) ids.add(mate.id);
+  });
+  return Array.from(ids);
+};
@@ -0,0 +1,235 @@
+import { create as createQRCode } from 'qrcode';
+import { Asset, LabelQrContent } from '../types';
+import { ASSET_TYPES } from './assetTypes';
+import { formatDate } from './dateHelpers';
+
+/**
+ * Asset Labels
+ *
+ * Builds printable label sheets as SVG, entirely in the browser. Each label
+ * carries a QR code plus the serial number, class and next due date. Sizes are
+ * in inches on US Letter paper, matching the Avery templates they are named after.
+ */
+
+export type LabelLayoutId = 'avery-5160' | 'avery-5163' | 'avery-5164';
+
+export interface LabelLayout {
+  label: string;
+  columns: number;
+  rows: number;
+  /** Label width and height */
+  width: number;
+  height: number;
+  /** Distance from the page edge to the first label */
+  marginLeft: number;
+  marginTop: number;
+  /** Distance from the start of one label to the start of the next */
+  pitchX: number;
+  pitchY: number;
+}
+
+export const PAGE_WIDTH_IN = 8.5;
+export const PAGE_HEIGHT_IN = 11;
+
+export const LABEL_LAYOUTS: Record<LabelLayoutId, LabelLayout> = {
+  'avery-5160': {
+    label: 'Avery 5160 (1" x 2-5/8", 30 per sheet)',
+    columns: 3,
+    rows: 10,
+    width: 2.625,
+    height: 1,
+    marginLeft: 0.1875,
+    marginTop: 0.5,
+    pitchX: 2.75,
+    pitchY: 1,
+  },
+  'avery-5163': {
+    label: 'Avery 5163 (2" x 4", 10 per sheet)',
+    columns: 2,
+    rows: 5,
+    width: 4,
+    height: 2,
+    marginLeft: 0.15625,
+    marginTop: 0.5,
+    pitchX: 4.1875,
+    pitchY: 2,
+  },
+  'avery-5164': {
+    label: 'Avery 5164 (3-1/3" x 4", 6 per sheet)',
+    columns: 2,
+    rows: 3,
+    width: 4,
+    height: 3.3333,
+    marginLeft: 0.15625,
+    marginTop: 0.5,
+    pitchX: 4.1875,
+    pitchY: 3.3333,
+  },
+};
+
+export const LABEL_LAYOUT_OPTIONS = Object.keys(LABEL_LAYOUTS) as LabelLayoutId[];
+
+export interface LabelSheetOptions {
+  layout: LabelLayoutId;
+  qrContent: LabelQrContent;
+  /** Origin of asset links, e.g. window.location.origin */
+  origin: string;
+  /** Labels to leave blank at the start of the first sheet, for partly used sheets */
+  skip?: number;
+}
+
+export const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Builds the stable link encoded on an asset's label
+ * @param asset - Labelled asset
+ * @param origin - Origin of the app, e.g. https://app.example.com
+ * @returns string - URL of the asset's details page
+ */
+export const getAssetLabelUrl = (asset: Asset, origin: string): string => {
+  return `${origin}/assets/${asset.id}`;
+};
+
+/**
+ * Picks the text a label's QR code encodes
+ * @param asset - Labelled asset
+ * @param qrContent - Link or serial number
+ * @param origin - Origin of the app, used for links
+ * @returns string - Text to encode
+ */
+export const getAssetQrText = (asset: Asset, qrContent: LabelQrContent, origin: string): string => {
+  return qrContent === 'url' ? getAssetLabelUrl(asset, origin) : asset.serialNumber;
+};
+
+/**
+ * Draws a QR code as a single SVG path
+ * @param text - Text to encode
+ * @param x - Left edge
+ * @param y - Top edge
+ * @param size - Width and height of the code, quiet zone excluded
+ * @returns string - SVG path element
+ */
+export const renderQrCode = (text: string, x: number, y: number, size: number): string => {
+  const { modules } = createQRCode(text, { errorCorrectionLevel: 'M' });
+  const moduleSize = size / modules.size;
+  let path = '';
+
+  for (let row = 0; row < modules.size; row++) {
+    for (let col = 0; col < modules.size; col++) {
+      if (modules.get(row, col)) {
+        path += `M${(x + col * moduleSize).toFixed(4)} ${(y + row * moduleSize).toFixed(4)}h${moduleSize.toFixed(4)}v${moduleSize.toFixed(4)}h-${moduleSize.toFixed(4)}z`;
+      }
+    }
+  }
+
+  return `<path d="${path}" fill="#000"/>`;
+};
+
+/**
+ * Draws one label: the QR code on the left, the asset details on the right
+ */
+const renderLabel = (asset: Asset, x: number, y: number, layout: LabelLayout, options: LabelSheetOptions): string => {
+  const padding = Math.min(0.08, layout.height * 0.08);
+  const qrSize = layout.height - padding * 2;
+  const textX = x + padding * 2 + qrSize;
+  const lineHeight = Math.min(layout.height / 4.5, 0.3);
+  const qrText = getAssetQrText(asset, options.qrContent, options.origin);
+
+  const lines = [
+    { text: asset.serialNumber, size: lineHeight * 0.9, weight: 'bold' },
+    { text: `${asset.assetClass} ${ASSET_TYPES[asset.assetType].label}`, size: lineHeight * 0.65, weight: 'normal' },
+    {
+      text: asset.nextCertificationDate ? `Next due ${formatDate(asset.nextCertificationDate)}` : 'No retest required',
+      size: lineHeight * 0.65,
+      weight: 'normal',
+    },
+  ];
+  const textTop = y + (layout.height - lineHeight * lines.length) / 2;
+
+  return [
+    renderQrCode(qrText, x + padding, y + padding, qrSize),
+    ...lines.map((line, index) =>
+      `<text x="${textX.toFixed(4)}" y="${(textTop + lineHeight * (index + 0.8)).toFixed(4)}" font-family="Helvetica, Arial, sans-serif" font-size="${line.size.toFixed(4)}" font-weight="${line.weight}">${escapeXml(line.text)}</text>`
+    ),
+  ].join('');
+};
+
+/**
+ * Lays assets out on label sheets
+ * @param assets - Assets to label, in print order
+ * @param options - Layout, QR content and labels to skip
+ * @returns string[] - One standalone SVG document per sheet
+ */
+export const buildLabelSheets = (assets: Asset[], options: LabelSheetOptions): string[] => {
+  const layout = LABEL_LAYOUTS[options.layout];
+  const perSheet = layout.columns * layout.rows;
+  const skip = Math.max(0, Math.min(options.skip || 0, perSheet - 1));
+  const slots: (Asset | null)[] = [...Array(skip).fill(null), ...assets];
+  const sheets: string[] = [];
+
+  for (let start = 0; start < slots.length; start += perSheet) {
+    const labels = slots.slice(start, start + perSheet).map((asset, index) => {
+      if (!asset) return '';
+      const x = layout.marginLeft + (index % layout.columns) * layout.pitchX;
+      const y = layout.marginTop + Math.floor(index / layout.columns) * layout.pitchY;
+      return renderLabel(asset, x, y, layout, options);
+    });
+
+    sheets.push(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH_IN}in" height="${PAGE_HEIGHT_IN}in" viewBox="0 0 ${PAGE_WIDTH_IN} ${PAGE_HEIGHT_IN}">${labels.join('')}</svg>`
+    );
+  }
+
+  return sheets;
+};
+
+/**
+ * Opens the sheets in a print window; choose "Save as PDF" there for a PDF
+ * @param sheets - SVG documents from buildLabelSheets
+ */
+export const printLabelSheets = (sheets: string[]): void => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('Allow pop-ups for this site to print labels');
+  }
+
+  printWindow.document.write(`<!DOCTYPE html>
+<html>
+<head>
+<title>Asset Labels</title>
+<style>
+  @page { size: letter; margin: 0; }
+  html, body { margin: 0; padding: 0; }
+  .sheet { width: ${PAGE_WIDTH_IN}in; height: ${PAGE_HEIGHT_IN}in; page-break-after: always; }
+  .sheet:last-child { page-break-after: auto; }
+  .sheet svg { display: block; }
+</style>
+</head>
+<body>${sheets.map(sheet => `<div class="sheet">${sheet}</div>`).join('')}</body>
+</html>`);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
+
+/**
+ * Downloads each sheet as an SVG file
+ * @param sheets - SVG documents from buildLabelSheets
+ */
+export const downloadLabelSheets = (sheets: string[]): void => {
+  sheets.forEach((sheet, index) => {
+    const url = URL.createObjectURL(new Blob([sheet], { type: 'image/svg+xml' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = sheets.length === 1 ? 'asset-labels.svg' : `asset-labels-${index + 1}.svg`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  });
+};
@@ -0,0 +1,86 @@
+import { Asset, AssetClass, AssetType, Location, LocationType } from '../types';
+import { ASSET_TYPES } from './assetTypes';
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+  'yard': 'Yard',
+  'truck': 'Truck',
+  'crib': 'Tool Crib',
+  'lab': 'At Lab',
+};
+
+export const LOCATION_TYPE_OPTIONS = Object.keys(LOCATION_TYPE_LABELS) as LocationType[];
+
+/**
+ * One line of a location's inventory: how many usable spares of a type, class and size are on hand
+ */
+export interface InventoryLine {
+  assetType: AssetType;
+  assetClass: AssetClass;
+  size: string;
+  count: number;
+}
+
+/**
+ * Lists the assets stored at a location
+ * @param location - Location to look up
+ * @param assets - Assets to search
+ * @returns Asset[] - Assets at the location, sorted by serial number
+ */
+export const getLocationAssets = (location: Location, assets: Asset[]): Asset[] => {
+  return assets
+    .filter(asset => asset.locationId === location.id)
+    .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+};
+
+/**
+ * Lists the assets that can be moved to a location. Kit members travel with their kit
+ * and are left out.
+ * @param location - Destination location
+ * @param assets - Assets to search
+ * @returns Asset[] - Assets elsewhere that are in no kit and have not been retired, sorted by serial number
+ */
+export const getStockableAssets = (location: Location, assets: Asset[]): Asset[] => {
+  return assets
+    .filter(asset => asset.locationId !== location.id && !asset.kitId && asset.status !== 'retired')
+    .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+};
+
+/**
+ * Describes an asset's size the way the crew asks for it: glove size, or the size
+ * or length attribute for sleeves, blankets and line hose
+ * @param asset - Asset to describe
+ * @returns string - Size, or an empty string when the asset has none recorded
+ */
+export const getAssetSizeLabel = (asset: Asset): string => {
+  if (ASSET_TYPES[asset.assetType].hasGloveSize) return asset.gloveSize || '';
+  return asset.attributes.size || asset.attributes.length || '';
+};
+
+/**
+ * Counts the spares at a location by type, class and size. Failed, retired and
+ * out-for-testing assets are not spares and are left out.
+ * @param assets - Assets stored at the location
+ * @returns InventoryLine[] - Counts sorted by type, class and size
+ */
+export const getLocationInventory = (assets: Asset[]): InventoryLine[] => {
+  const lines = new Map<string, InventoryLine>();
+
+  assets
+    .filter(asset => asset.status === 'active' || asset.status === 'near-due')
+    .forEach(asset => {
+      const size = getAssetSizeLabel(asset);
+      const key = [asset.assetType, asset.assetClass, size].join('|');
+      const line = lines.get(key);
+      if (line) {
+        line.count += 1;
+      } else {
+        lines.set(key, { assetType: asset.assetType, assetClass: asset.assetClass, size, count: 1 });
+      }
+    });
+
+  return Array.from(lines.values()).sort((a, b) =>
+    a.assetType.localeCompare(b.assetType) ||
+    a.assetClass.localeCompare(b.assetClass) ||
+    a.size.localeCompare(b.size, undefined, { numeric: true })
+  );
+};
@@ -0,0 +1,127 @@
+import { Asset, AssetStatus, GloveHand, MateAction } from '../types';
+import { canTransitionAssetStatus, getMostUrgentStatus, isDateDrivenStatus } from './assetLifecycle';
+
+/**
+ * Glove Pairs
+ *
+ * Gloves are issued and sent to the lab as left/right pairs. The database keeps
+ * the pair's assignment and lab shipments in step (`sync_glove_pair`); these
+ * helpers group and describe pairs for the UI.
+ */
+
+export const GLOVE_HAND_LABELS: Record<GloveHand, string> = {
+  'left': 'Left',
+  'right': 'Right',
+};
+
+export const MATE_ACTION_LABELS: Record<MateAction, string> = {
+  'fail': 'Fail it too and keep the pair together',
+  'send-to-testing': 'Unpair it and send it to the lab for testing',
+  'keep': 'Unpair it and leave its status unchanged',
+};
+
+/**
+ * Finds the other glove of a paired glove
+ * @param asset - Glove to look up
+ * @param assets - Assets to search
+ * @returns Asset | undefined - The mate, or undefined when the glove is not paired
+ */
+export const getMate = (asset: Asset, assets: Asset[]): Asset | undefined => {
+  if (!asset.pairId) return undefined;
+  return assets.find(other => other.pairId === asset.pairId && other.id !== asset.id);
+};
+
+/**
+ * Checks whether a glove can be put into a new pair
+ * @param asset - Asset to check
+ * @returns boolean - True for unpaired gloves that have not failed or been retired
+ */
+export const canPairGlove = (asset: Asset): boolean => {
+  return asset.assetType === 'glove' &&
+    !asset.pairId &&
+    asset.status !== 'failed' &&
+    asset.status !== 'retired';
+};
+
+/**
+ * Lists the gloves a glove could be paired with, matching the database checks
+ * @param asset - Glove looking for a mate
+ * @param assets - Assets to search
+ * @returns Asset[] - Pairable gloves of the same class, sorted by serial number
+ */
+export const getPairCandidates = (asset: Asset, assets: Asset[]): Asset[] => {
+  return assets
+    .filter(other =>
+      other.id !== asset.id &&
+      canPairGlove(other) &&
+      other.assetClass === asset.assetClass &&
+      (!asset.assignedUserId || !other.assignedUserId || other.assignedUserId === asset.assignedUserId)
+    )
+    .sort((a, b) => a.serialNumber.localeCompare(b.serialNumber));
+};
+
+/**
+ * Lists what can be done with the mate of a glove that has just failed
+ * @param mate - The other glove of the pair
+ * @returns MateAction[] - Actions the mate's status allows; empty when it has already failed
+ */
+export const getMateActions = (mate: Asset): MateAction[] => {
+  if (mate.status === 'failed' || mate.status === 'retired') return [];
+
+  const actions: MateAction[] = [];
+  if (canTransitionAssetStatus(mate.status, 'failed')) actions.push('fail');
+  if (isDateDrivenStatus(mate.status)) actions.push('send-to-testing');
+  actions.push('keep');
+  return actions;
+};
+
+/**
+ * Orders the gloves of a pair left then right
+ * @param asset - One glove
+ * @param mate - The other glove
+ * @returns [Asset, Asset] - Left glove first
+ */
+export const orderPair = (asset: Asset, mate: Asset): [Asset, Asset] => {
+  return asset.hand === 'right' ? [mate, asset] : [asset, mate];
+};
+
+/**
+ * Picks the status that best summarizes a pair, favouring the glove that needs attention
+ * @param gloves - Gloves of the pair
+ * @returns AssetStatus - Most urgent status among the gloves
+ */
+export const getPairStatus = (gloves: Asset[]): AssetStatus => {
+  return getMostUrgentStatus(gloves.map(glove => glove.status)) || gloves[0].status;
+};
+
+/**
+ * Groups assets so each pair is listed once, in the position of its first glove
+ * @param assets - Assets to list
+ * @param allAssets - Every asset, used to find mates filtered out of the list
+ * @returns Array of { asset, mate } entries; mate is set for pairs
+ */
+export const groupPairs = (
+  assets: Asset[],
+  allAssets: Asset[] = assets
+): { asset: Asset; mate?: Asset }[] => {
+  const seenPairs = new Set<string>();
+
+  return assets.reduce<{ asset: Asset; mate?: Asset }[]>((groups, asset) => {
+    if (!asset.pairId) {
+      groups.push({ asset });
+      return groups;
+    }
+    if (seenPairs.has(asset.pairId)) return groups;
+    seenPairs.add(asset.pairId);
+
+    const mate = getMate(asset, allAssets);
+    if (!mate) {
+      groups.push({ asset });
+      return groups;
+    }
+
+    const [left, right] = orderPair(asset, mate);
+    groups.push({ asset: left, mate: right });
+    return groups;
+  }, []);
+};
@@ -0,0 +1,103 @@
+import { Asset, Recall, RecallAsset, RecallResolution } from '../types';
+
+/**
+ * Manufacturer Recalls
+ *
+ * A recall names a manufacturer and a lot or an inclusive range of lots. The
+ * database quarantines the matching assets with `lot_in_range`; the helpers here
+ * mirror it so the recall form can preview what a notice will catch.
+ */
+
+export const RECALL_RESOLUTION_LABELS: Record<RecallResolution, string> = {
+  'cleared': 'Returned to service',
+  'removed': 'Removed from service',
+};
+
+/**
+ * Normalizes a lot number for comparison, ignoring case and surrounding whitespace
+ * @param lotNumber - Lot number as entered or printed
+ * @returns string - Comparable lot number
+ */
+export const normalizeLotNumber = (lotNumber: string): string => lotNumber.trim().toUpperCase();
+
+/**
+ * Checks whether a lot falls in a recall's range. Numeric lots compare as numbers;
+ * other lots compare character by character and only match bounds of the same length.
+ * @param lotNumber - Lot number of the asset, if recorded
+ * @param lotFrom - First recalled lot
+ * @param lotTo - Last recalled lot, unset for a single lot
+ * @returns boolean - True when the lot is recalled
+ */
+export const isLotInRange = (lotNumber: string | undefined, lotFrom: string, lotTo?: string): boolean => {
+  const lot = normalizeLotNumber(lotNumber || '');
+  const from = normalizeLotNumber(lotFrom);
+  const to = normalizeLotNumber(lotTo?.trim() ? lotTo : lotFrom);
+  if (!lot) return false;
+
+  const isNumeric = (value: string) => /^[0-9]+$/.test(value);
+  if (isNumeric(lot) && isNumeric(from) && isNumeric(to)) {
+    return Number(lot) >= Number(from) && Number(lot) <= Number(to);
+  }
+
+  return lot.length === from.length && lot.length === to.length && lot >= from && lot <= to;
+};
+
+/**
+ * Finds the assets a recall notice would quarantine
+ * @param assets - Assets of the organization
+ * @param manufacturerId - Manufacturer issuing the recall
+ * @param lotFrom - First recalled lot
+ * @param lotTo - Last recalled lot, unset for a single lot
+ * @returns Asset[] - Matching assets still in service or at the lab
+ */
+export const findRecalledAssets = (
+  assets: Asset[],
+  manufacturerId: string,
+  lotFrom: string,
+  lotTo?: string
+): Asset[] => {
+  if (!manufacturerId || !lotFrom.trim()) return [];
+  return assets.filter(asset =>
+    asset.manufacturerId === manufacturerId &&
+    asset.status !== 'failed' &&
+    asset.status !== 'retired' &&
+    isLotInRange(asset.lotNumber, lotFrom, lotTo)
+  );
+};
+
+/**
+ * Formats the lots covered by a recall
+ * @param recall - Recall with its lot bounds
+ * @returns string - e.g. "Lot L2304" or "Lots L2304 to L2309"
+ */
+export const formatLotRange = (recall: Pick<Recall, 'lotFrom' | 'lotTo'>): string => {
+  return recall.lotTo ? `Lots ${recall.lotFrom} to ${recall.lotTo}` : `Lot ${recall.lotFrom}`;
+};
+
+/**
+ * Lists the affected assets of a recall that still await a resolution
+ * @param recall - Recall with its affected assets
+ * @returns RecallAsset[] - Unresolved entries
+ */
+export const getOpenRecallAssets = (recall: Recall): RecallAsset[] => {
+  return recall.assets.filter(entry => !entry.resolution);
+};
+
+/**
+ * Checks whether a recall still has assets to resolve
+ * @param recall - Recall with its affected assets
+ * @returns boolean - True while any affected asset is unresolved
+ */
+export const isRecallOpen = (recall: Recall): boolean => getOpenRecallAssets(recall).length > 0;
+
+/**
+ * Finds the open recalls that hold an asset in quarantine
+ * @param recalls - Recalls of the organization
+ * @param assetId - Asset to look up
+ * @returns Recall[] - Recalls with an unresolved entry for the asset
+ */
+export const getOpenRecallsForAsset = (recalls: Recall[], assetId: string): Recall[] => {
+  return recalls.filter(recall =>
+    recall.assets.some(entry => entry.assetId === assetId && !entry.resolution)
+  );
+};
@@ -0,0 +1,40 @@
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { Asset, DisposalMethod } from '../types';
+
+export const DISPOSAL_METHOD_LABELS: Record<DisposalMethod, string> = {
+  'cut-and-discarded': 'Cut and discarded',
+  'incinerated': 'Incinerated',
+  'returned-to-manufacturer': 'Returned to manufacturer',
+  'recycled': 'Recycled',
+};
+
+/**
+ * Days a failed asset may wait for destruction when an organization has not set its own deadline
+ */
+export const DEFAULT_FAILED_DISPOSAL_DAYS = 30;
+
+/**
+ * Counts the days since a failed asset failed
+ * @param asset - Failed asset
+ * @param asOf - Date to count to (defaults to today)
+ * @returns number - Days since the failure date, or 0 when there is none
+ */
+export const getDaysSinceFailure = (asset: Asset, asOf: Date = new Date()): number => {
+  if (!asset.failureDate) return 0;
+  return differenceInCalendarDays(asOf, parseISO(asset.failureDate));
+};
+
+/**
+ * Checks whether a failed asset has waited longer than the disposal deadline
+ * @param asset - Asset to check
+ * @param failedDisposalDays - Organization's disposal deadline in days
+ * @param asOf - Date to check against (defaults to today)
+ * @returns boolean - True for failed assets past the deadline
+ */
+export const isDisposalOverdue = (
+  asset: Asset,
+  failedDisposalDays: number,
+  asOf: Date = new Date()
+): boolean => {
+  return asset.status === 'failed' && getDaysSinceFailure(asset, asOf) > failedDisposalDays;
+};
@@ -0,0 +1,33 @@
+/**
+ * Scanned Codes
+ *
+ * Labels carry either a link to the asset's page or its bare serial number
+ * (see labelUtils). A keyboard-wedge scanner types the same text, so camera
+ * and wedge input go through the same parser.
+ */
+
+export type ScannedCode =
+  | { kind: 'asset-id'; assetId: string }
+  | { kind: 'serial'; serialNumber: string };
+
+const ASSET_PATH_PATTERN = /\/assets\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\/?$/i;
+
+/**
+ * Works out what a scanned or typed code refers to
+ * @param text - Raw text from the camera or scanner
+ * @returns ScannedCode | null - The asset link or serial number, or null for blank input
+ */
+export const parseScannedCode = (text: string): ScannedCode | null => {
+  const code = text.trim();
+  if (!code) return null;
+
+  try {
+    const url = new URL(code);
+    const match = url.pathname.match(ASSET_PATH_PATTERN);
+    if (match) return { kind: 'asset-id', assetId: match[1].toLowerCase() };
+  } catch {
+    // Not a URL, so it is a serial number
+  }
+
+  return { kind: 'serial', serialNumber: code };
+};
@@ -0,0 +1,214 @@
+import { Asset, AssetMergeField, AssetType } from '../types';
+import { ASSET_TYPES } from './assetTypes';
+import { calculateAssetStatus } from './assetUtils';
+import { isDateDrivenStatus } from './assetLifecycle';
+
+/**
+ * Serial Numbers
+ *
+ * Serials are unique per organization once normalized: case and whitespace
+ * are ignored, so `gl 0012` and `GL0012` are the same serial. The database
+ * enforces this with `normalize_serial_number`; these helpers let forms and
+ * imports catch a collision before submitting, and plan the merge of records
+ * that were duplicated before the rule existed.
+ */
+
+/**
+ * A set of assets sharing one normalized serial, with the record proposed to keep
+ */
+export interface DuplicateSerialGroup {
+  serialNumberKey: string;
+  assets: Asset[];
+  proposedSurvivor: Asset;
+}
+
+/**
+ * Normalizes a serial number for comparison, matching the database
+ * @param serialNumber - Serial as entered
+ * @returns string - Uppercased serial without whitespace
+ */
+export const normalizeSerialNumber = (serialNumber: string): string => {
+  return serialNumber.replace(/\s/g, '').toUpperCase();
+};
+
+/**
+ * Finds the asset already using a serial number
+ * @param serialNumber - Serial to check
+ * @param assets - Assets of the organization
+ * @param excludeId - Asset being edited, which may keep its own serial
+ * @returns Asset | undefined - The asset holding the serial, if any
+ */
+export const findSerialCollision = (
+  serialNumber: string,
+  assets: Asset[],
+  excludeId?: string
+): Asset | undefined => {
+  const key = normalizeSerialNumber(serialNumber);
+  if (!key) return undefined;
+  return assets.find(asset => asset.id !== excludeId && normalizeSerialNumber(asset.serialNumber) === key);
+};
+
+/**
+ * Picks the record to keep from a duplicate group: the one the database kept
+ * unflagged, then the one with the longest history, then the oldest issue
+ */
+const proposeSurvivor = (assets: Asset[]): Asset => {
+  const historySize = (asset: Asset) => asset.certifications.length + asset.certificationDocuments.length;
+
+  return [...assets].sort((a, b) =>
+    Number(!!a.serialConflict) - Number(!!b.serialConflict) ||
+    historySize(b) - historySize(a) ||
+    a.issueDate.localeCompare(b.issueDate)
+  )[0];
+};
+
+/**
+ * Groups assets whose serial numbers collide once normalized
+ * @param assets - Assets of the organization
+ * @returns DuplicateSerialGroup[] - Groups of two or more assets, sorted by serial
+ */
+export const findDuplicateSerialGroups = (assets: Asset[]): DuplicateSerialGroup[] => {
+  const groups = new Map<string, Asset[]>();
+
+  assets.forEach(asset => {
+    const key = normalizeSerialNumber(asset.serialNumber);
+    groups.set(key, [...(groups.get(key) || []), asset]);
+  });
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length > 1)
+    .map(([serialNumberKey, group]) => ({
+      serialNumberKey,
+      assets: group,
+      proposedSurvivor: proposeSurvivor(group),
+    }))
+    .sort((a, b) => a.serialNumberKey.localeCompare(b.serialNumberKey));
+};
+
+/**
+ * Display names of the values an admin can take from the record being merged away
+ */
+export const MERGE_FIELD_LABELS: Record<AssetMergeField, string> = {
+  serialNumber: 'Serial Number',
+  assetClass: 'Class',
+  issueDate: 'Issue Date',
+  manufactureDate: 'Manufacture Date',
+  gloveSize: 'Size',
+  gloveColor: 'Color',
+  attributes: 'Details',
+  placement: 'Holder / Location',
+  manufacturerId: 'Manufacturer',
+  model: 'Model',
+  lotNumber: 'Lot',
+  vendorId: 'Vendor',
+  purchaseOrder: 'Purchase Order',
+  unitCost: 'Unit Cost',
+};
+
+// Provenance the survivor lacks is taken from the duplicate even when not picked, as `merge_assets` does
+const PROVENANCE_MERGE_FIELDS: Extract<AssetMergeField, keyof Asset>[] = [
+  'manufacturerId',
+  'model',
+  'lotNumber',
+  'vendorId',
+  'purchaseOrder',
+  'unitCost',
+];
+
+/**
+ * Lists the merge fields that apply to an asset type
+ * @param assetType - Type shared by both records
+ * @returns AssetMergeField[] - Fields in display order
+ */
+export const getMergeFields = (assetType: AssetType): AssetMergeField[] => {
+  const typeConfig = ASSET_TYPES[assetType];
+  return (Object.keys(MERGE_FIELD_LABELS) as AssetMergeField[]).filter(field =>
+    (field !== 'gloveSize' || typeConfig.hasGloveSize) &&
+    (field !== 'gloveColor' || typeConfig.hasGloveColor) &&
+    (field !== 'attributes' || typeConfig.attributes.length > 0)
+  );
+};
+
+/**
+ * Copies the chosen field values of the duplicate onto the survivor
+ */
+const applyMergeFields = (survivor: Asset, duplicate: Asset, fields: AssetMergeField[]): Asset => {
+  const merged = { ...survivor };
+  fields.forEach(field => {
+    if (field === 'placement') {
+      merged.assignedUserId = duplicate.assignedUserId;
+      merged.locationId = duplicate.locationId;
+      merged.kitId = duplicate.kitId;
+    } else {
+      Object.assign(merged, { [field]: duplicate[field] });
+    }
+  });
+  PROVENANCE_MERGE_FIELDS.forEach(field => {
+    if (!fields.includes(field) && merged[field] === undefined) {
+      Object.assign(merged, { [field]: duplicate[field] });
+    }
+  });
+  // The manufacture date drives the end of service life; it is taken only if it fits the issue date
+  if (
+    !fields.includes('manufactureDate') &&
+    !merged.manufactureDate &&
+    duplicate.manufactureDate &&
+    duplicate.manufactureDate <= merged.issueDate
+  ) {
+    merged.manufactureDate = duplicate.manufactureDate;
+  }
+  return merged;
+};
+
+/**
+ * Shows what a merge will produce before it is run: the survivor with the chosen
+ * fields and both records' history. Certification dates, and the status they drive,
+ * follow the latest passing test as `merge_assets` does.
+ * @param survivor - Record being kept
+ * @param duplicate - Record being merged away
+ * @param fields - Values taken from the duplicate
+ * @returns Asset - The survivor as it will be after the merge
+ */
+export const previewMergedAsset = (survivor: Asset, duplicate: Asset, fields: AssetMergeField[]): Asset => {
+  const merged = applyMergeFields(survivor, duplicate, fields);
+  merged.certificationDocuments = [...survivor.certificationDocuments, ...duplicate.certificationDocuments];
+  merged.certifications = [...survivor.certifications, ...duplicate.certifications].sort((a, b) =>
+    b.certificationDate.localeCompare(a.certificationDate) || b.createdAt.localeCompare(a.createdAt)
+  );
+
+  const latestPass = merged.certifications.find(certification => certification.result === 'pass');
+  if (latestPass) {
+    merged.lastCertificationDate = latestPass.certificationDate;
+    merged.nextCertificationDate = latestPass.nextCertificationDate;
+    if (isDateDrivenStatus(merged.status)) {
+      merged.status = calculateAssetStatus(merged.nextCertificationDate);
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Explains why two records cannot be merged this way round, mirroring `merge_assets`
+ * @param survivor - Record being kept
+ * @param duplicate - Record being merged away
+ * @returns string | undefined - Reason the merge would be rejected, if any
+ */
+export const getMergeBlocker = (survivor: Asset, duplicate: Asset): string | undefined => {
+  if (normalizeSerialNumber(survivor.serialNumber) !== normalizeSerialNumber(duplicate.serialNumber)) {
+    return 'Only records with the same serial number can be merged.';
+  }
+  if (survivor.assetType !== duplicate.assetType) {
+    return 'Only records of the same asset type can be merged.';
+  }
+
+  const isOutOfService = (asset: Asset) => asset.status === 'failed' || asset.status === 'retired';
+  if (isOutOfService(duplicate) && !isOutOfService(survivor)) {
+    return `${duplicate.serialNumber} is ${duplicate.status}; keep that record and merge the other into it.`;
+  }
+  if (duplicate.status === 'quarantined') {
+    return `${duplicate.serialNumber} is quarantined by a recall; resolve the recall before merging it away.`;
+  }
+
+  return undefined;
+};
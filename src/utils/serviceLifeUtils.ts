@@ -0,0 +1,143 @@
+import { addMonths, format, parseISO, startOfMonth } from 'date-fns';
+import { Asset, ServiceLifeBasis, ServiceLifeRule } from '../types';
+
+/**
+ * Maximum Service Life
+ *
+ * An organization can cap the age of an asset type and class, counted from the
+ * manufacture date (or the issue date when it was not recorded) or from the issue
+ * date. The database turns assets `near-due` and then `expired` as they reach the
+ * cap; the helpers here mirror `service_life_end_date` to show and forecast it, and
+ * tell an asset at its end of life from one that only missed a retest.
+ */
+
+// Months ahead the dashboard forecasts forced retirements
+export const SERVICE_LIFE_FORECAST_MONTHS = 12;
+
+export const SERVICE_LIFE_BASIS_LABELS: Record<ServiceLifeBasis, string> = {
+  'manufacture': 'Manufacture date',
+  'issue': 'Issue date',
+};
+
+/**
+ * Assets reaching their maximum age in one month
+ */
+export interface ServiceLifeForecastMonth {
+  /** First day of the month, YYYY-MM-DD */
+  month: string;
+  assets: Asset[];
+}
+
+/**
+ * Finds the service life rule for an asset type and class
+ * @param rules - Service life rules of the organization
+ * @param asset - Asset whose type and class to match
+ * @returns ServiceLifeRule | undefined - The rule, unset when the age is not limited
+ */
+export const getServiceLifeRule = (
+  rules: ServiceLifeRule[],
+  asset: Pick<Asset, 'assetType' | 'assetClass'>
+): ServiceLifeRule | undefined => {
+  return rules.find(rule => rule.assetType === asset.assetType && rule.assetClass === asset.assetClass);
+};
+
+/**
+ * Calculates the date an asset reaches its maximum age
+ * @param asset - Asset with its manufacture and issue dates
+ * @param rules - Service life rules of the organization
+ * @returns string | undefined - End of service life in YYYY-MM-DD format, unset without a rule
+ */
+export const getServiceLifeEndDate = (asset: Asset, rules: ServiceLifeRule[]): string | undefined => {
+  const rule = getServiceLifeRule(rules, asset);
+  if (!rule) return undefined;
+
+  const startDate = rule.measuredFrom === 'manufacture'
+    ? asset.manufactureDate || asset.issueDate
+    : asset.issueDate;
+  return format(addMonths(parseISO(startDate), rule.maxAgeMonths), 'yyyy-MM-dd');
+};
+
+/**
+ * Tells whether an end of service life has passed
+ * @param endDate - End of service life in YYYY-MM-DD format
+ * @param asOf - Date to compare with (defaults to today)
+ * @returns boolean - True once the asset is past its maximum age
+ */
+export const isPastServiceLife = (endDate: string, asOf: Date = new Date()): boolean => {
+  return endDate < format(asOf, 'yyyy-MM-dd');
+};
+
+/**
+ * Tells whether an asset still counts toward forced retirements
+ * @param asset - Asset to check
+ * @returns boolean - False once it has failed or been retired
+ */
+const isInService = (asset: Asset): boolean => asset.status !== 'failed' && asset.status !== 'retired';
+
+/**
+ * Tells whether an asset in service is past its maximum age; it then stays `expired`
+ * whatever its tests say and must be removed from service
+ * @param asset - Asset to check
+ * @param rules - Service life rules of the organization
+ * @param asOf - Date to compare with (defaults to today)
+ * @returns boolean - True when the asset has reached its end of life
+ */
+export const isAssetPastServiceLife = (
+  asset: Asset,
+  rules: ServiceLifeRule[],
+  asOf: Date = new Date()
+): boolean => {
+  if (!isInService(asset)) return false;
+  const endDate = getServiceLifeEndDate(asset, rules);
+  return endDate !== undefined && isPastServiceLife(endDate, asOf);
+};
+
+/**
+ * Lists the assets in service already past their maximum age
+ * @param assets - Assets of the organization
+ * @param rules - Service life rules of the organization
+ * @param asOf - Date to compare with (defaults to today)
+ * @returns Asset[] - Assets to remove from service, oldest end of life first
+ */
+export const getAssetsPastServiceLife = (
+  assets: Asset[],
+  rules: ServiceLifeRule[],
+  asOf: Date = new Date()
+): Asset[] => {
+  return assets
+    .filter(isInService)
+    .map(asset => ({ asset, endDate: getServiceLifeEndDate(asset, rules) }))
+    .filter(({ endDate }) => endDate !== undefined && isPastServiceLife(endDate, asOf))
+    .sort((a, b) => a.endDate!.localeCompare(b.endDate!))
+    .map(({ asset }) => asset);
+};
+
+/**
+ * Groups the assets in service that reach their maximum age in the coming months
+ * @param assets - Assets of the organization
+ * @param rules - Service life rules of the organization
+ * @param months - Number of months to forecast, the current one included
+ * @param asOf - Date the forecast starts from (defaults to today)
+ * @returns ServiceLifeForecastMonth[] - One entry per month, empty months included
+ */
+export const getServiceLifeForecast = (
+  assets: Asset[],
+  rules: ServiceLifeRule[],
+  months: number = SERVICE_LIFE_FORECAST_MONTHS,
+  asOf: Date = new Date()
+): ServiceLifeForecastMonth[] => {
+  const forecast: ServiceLifeForecastMonth[] = Array.from({ length: months }, (_, index) => ({
+    month: format(addMonths(startOfMonth(asOf), index), 'yyyy-MM-dd'),
+    assets: [],
+  }));
+
+  assets.filter(isInService).forEach(asset => {
+    const endDate = getServiceLifeEndDate(asset, rules);
+    if (!endDate || isPastServiceLife(endDate, asOf)) return;
+
+    const entry = forecast.find(candidate => candidate.month === `${endDate.slice(0, 7)}-01`);
+    entry?.assets.push(asset);
+  });
+
+  return forecast;
+};
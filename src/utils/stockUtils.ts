@@ -0,0 +1,128 @@
+import { Asset, AssetClass, GloveSize, StockMinimum } from '../types';
+
+/**
+ * Spare Glove Stock
+ *
+ * Spares are gloves nobody holds that can be issued today: in service and not
+ * assigned to a person, wherever they are stored. Gloves at the lab that nobody
+ * holds come back as spares, so they are counted as incoming.
+ */
+
+/**
+ * Stock of one glove class and size against the organization's minimum
+ */
+export interface StockLevel {
+  assetClass: AssetClass;
+  gloveSize: GloveSize;
+  onHand: number;
+  incoming: number;
+  /** Unset when the organization does not track this class and size */
+  minimumOnHand?: number;
+  /** Gloves to order so that on-hand plus incoming stock reaches the minimum */
+  reorderQuantity: number;
+}
+
+/**
+ * Tells whether a glove is a spare that can be issued now
+ * @param asset - Asset to check
+ * @returns boolean - True for unassigned gloves that are active or due soon
+ */
+export const isSpareGlove = (asset: Asset): boolean => {
+  return asset.assetType === 'glove' &&
+    !asset.assignedUserId &&
+    (asset.status === 'active' || asset.status === 'near-due');
+};
+
+/**
+ * Tells whether a glove will become a spare once it is back from the lab
+ * @param asset - Asset to check
+ * @returns boolean - True for unassigned gloves out for testing
+ */
+export const isIncomingGlove = (asset: Asset): boolean => {
+  return asset.assetType === 'glove' && !asset.assignedUserId && asset.status === 'in-testing';
+};
+
+/**
+ * Counts spare and incoming gloves by class and size and compares them with the minimums.
+ * Gloves without a recorded size cannot be matched to a minimum and are left out.
+ * @param assets - Assets of the organization
+ * @param minimums - Minimum stock levels of the organization
+ * @returns StockLevel[] - One level per tracked or stocked class and size, sorted by class and size
+ */
+export const getStockLevels = (assets: Asset[], minimums: StockMinimum[]): StockLevel[] => {
+  const levels = new Map<string, StockLevel>();
+
+  const getLevel = (assetClass: AssetClass, gloveSize: GloveSize): StockLevel => {
+    const key = `${assetClass}|${gloveSize}`;
+    let level = levels.get(key);
+    if (!level) {
+      level = { assetClass, gloveSize, onHand: 0, incoming: 0, reorderQuantity: 0 };
+      levels.set(key, level);
+    }
+    return level;
+  };
+
+  minimums.forEach(minimum => {
+    getLevel(minimum.assetClass, minimum.gloveSize).minimumOnHand = minimum.minimumOnHand;
+  });
+
+  assets.forEach(asset => {
+    if (!asset.gloveSize) return;
+    if (isSpareGlove(asset)) getLevel(asset.assetClass, asset.gloveSize).onHand += 1;
+    if (isIncomingGlove(asset)) getLevel(asset.assetClass, asset.gloveSize).incoming += 1;
+  });
+
+  return Array.from(levels.values())
+    .map(level => ({
+      ...level,
+      reorderQuantity: Math.max(0, (level.minimumOnHand ?? 0) - level.onHand - level.incoming),
+    }))
+    .sort((a, b) =>
+      a.assetClass.localeCompare(b.assetClass) ||
+      a.gloveSize.localeCompare(b.gloveSize, undefined, { numeric: true })
+    );
+};
+
+/**
+ * Lists the stock levels below their minimum
+ * @param levels - Stock levels from getStockLevels
+ * @returns StockLevel[] - Levels with fewer spares on hand than the minimum
+ */
+export const getLowStockLevels = (levels: StockLevel[]): StockLevel[] => {
+  return levels.filter(level => level.minimumOnHand !== undefined && level.onHand < level.minimumOnHand);
+};
+
+/**
+ * Writes a reorder list for the stock levels below their minimum
+ * @param levels - Stock levels from getStockLevels
+ * @returns CSV string with the quantity to order per class and size
+ */
+export const exportReorderListToCSV = (levels: StockLevel[]): string => {
+  const headers = ['assetClass', 'gloveSize', 'minimumOnHand', 'onHand', 'incoming', 'reorderQuantity'].join(',');
+
+  const rows = getLowStockLevels(levels).map(level => [
+    level.assetClass,
+    level.gloveSize,
+    level.minimumOnHand,
+    level.onHand,
+    level.incoming,
+    level.reorderQuantity,
+  ].join(','));
+
+  return [headers, ...rows].join('\n');
+};
+
+/**
+ * Downloads a reorder list as a CSV file
+ * @param csv - CSV from exportReorderListToCSV
+ */
+export const downloadReorderList = (csv: string): void => {
+  const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8;' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `glove-reorder-list-${new Date().toISOString().split('T')[0]}.csv`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,197 @@
+import { create as createQRCode } from 'qrcode';
+import { Asset, ZplLabelField, ZplLabelLayout } from '../types';
+import { ASSET_TYPES } from './assetTypes';
+import { formatDate } from './dateHelpers';
+import { getAssetSizeLabel } from './locationUtils';
+import { escapeXml, getAssetQrText, renderQrCode } from './labelUtils';
+
+/**
+ * Thermal Labels
+ *
+ * Builds ZPL for Zebra thermal label printers, one label per asset, from the
+ * organization's label layout. The browser preview is drawn from the same
+ * geometry, so what is shown is what the printer lays out. All positions are
+ * in printer dots.
+ */
+
+export const ZPL_LABEL_FIELD_LABELS: Record<ZplLabelField, string> = {
+  'serialNumber': 'Serial number',
+  'assetClass': 'Class',
+  'assetType': 'Asset type',
+  'size': 'Size',
+  'nextCertificationDate': 'Next due date',
+};
+
+export const ZPL_LABEL_FIELD_OPTIONS = Object.keys(ZPL_LABEL_FIELD_LABELS) as ZplLabelField[];
+
+export const ZPL_DPI_OPTIONS: ZplLabelLayout['dpi'][] = [203, 300, 600];
+
+/** Label sizes a desktop Zebra printer can handle, in inches */
+export const ZPL_LABEL_WIDTH_RANGE = { min: 0.75, max: 4.1 };
+export const ZPL_LABEL_HEIGHT_RANGE = { min: 0.5, max: 6 };
+
+export const DEFAULT_ZPL_LABEL_LAYOUT: ZplLabelLayout = {
+  widthIn: 2,
+  heightIn: 1,
+  dpi: 203,
+  qrContent: 'url',
+  qrPosition: 'left',
+  fields: ['serialNumber', 'assetClass', 'assetType', 'nextCertificationDate'],
+};
+
+/**
+ * Reads a stored label layout, falling back to the default for anything missing or invalid
+ * @param value - Layout as stored in org settings
+ * @returns ZplLabelLayout - Complete layout
+ */
+export const normalizeZplLabelLayout = (value: unknown): ZplLabelLayout => {
+  const stored = (value && typeof value === 'object' ? value : {}) as Partial<ZplLabelLayout>;
+  const inRange = (size: unknown, range: { min: number; max: number }): size is number =>
+    typeof size === 'number' && size >= range.min && size <= range.max;
+
+  return {
+    widthIn: inRange(stored.widthIn, ZPL_LABEL_WIDTH_RANGE) ? stored.widthIn : DEFAULT_ZPL_LABEL_LAYOUT.widthIn,
+    heightIn: inRange(stored.heightIn, ZPL_LABEL_HEIGHT_RANGE) ? stored.heightIn : DEFAULT_ZPL_LABEL_LAYOUT.heightIn,
+    dpi: stored.dpi && ZPL_DPI_OPTIONS.includes(stored.dpi) ? stored.dpi : DEFAULT_ZPL_LABEL_LAYOUT.dpi,
+    qrContent: stored.qrContent === 'serial' ? 'serial' : 'url',
+    qrPosition: stored.qrPosition === 'right' ? 'right' : 'left',
+    fields: Array.isArray(stored.fields)
+      ? stored.fields.filter((field, index, fields) =>
+          ZPL_LABEL_FIELD_OPTIONS.includes(field) && fields.indexOf(field) === index)
+      : DEFAULT_ZPL_LABEL_LAYOUT.fields,
+  };
+};
+
+/**
+ * Text printed for one label field
+ */
+const getFieldText = (asset: Asset, field: ZplLabelField): string => {
+  switch (field) {
+    case 'serialNumber':
+      return asset.serialNumber;
+    case 'assetClass':
+      return asset.assetClass;
+    case 'assetType':
+      return ASSET_TYPES[asset.assetType].label;
+    case 'size': {
+      const size = getAssetSizeLabel(asset);
+      return size ? `Size ${size}` : '';
+    }
+    case 'nextCertificationDate':
+      return asset.nextCertificationDate ? `Next due ${formatDate(asset.nextCertificationDate)}` : 'No retest required';
+  }
+};
+
+interface LabelGeometry {
+  width: number;
+  height: number;
+  qr: { text: string; x: number; y: number; magnification: number; size: number };
+  lines: { text: string; x: number; y: number; fontHeight: number; width: number }[];
+}
+
+/**
+ * Lays out one label: the QR code on one side, the fields stacked on the other
+ */
+const getLabelGeometry = (asset: Asset, layout: ZplLabelLayout, origin: string): LabelGeometry => {
+  const width = Math.round(layout.widthIn * layout.dpi);
+  const height = Math.round(layout.heightIn * layout.dpi);
+  const padding = Math.round(layout.dpi * 0.06);
+
+  // ZPL scales a QR code by whole dots per module, from 1 to 10
+  const qrText = getAssetQrText(asset, layout.qrContent, origin);
+  const modules = createQRCode(qrText, { errorCorrectionLevel: 'M' }).modules.size;
+  const qrArea = Math.min(height - padding * 2, width / 2);
+  const magnification = Math.max(1, Math.min(10, Math.floor(qrArea / modules)));
+  const qrSize = modules * magnification;
+  const qrX = layout.qrPosition === 'left' ? padding : width - padding - qrSize;
+
+  const texts = layout.fields.map(field => ({ field, text: getFieldText(asset, field) })).filter(line => line.text);
+  const textX = layout.qrPosition === 'left' ? qrX + qrSize + padding : padding;
+  const textWidth = Math.max(0, width - qrSize - padding * 3);
+  const lineHeight = Math.min(Math.floor((height - padding * 2) / Math.max(texts.length, 1)), Math.round(layout.dpi * 0.3));
+  const textTop = Math.round((height - lineHeight * texts.length) / 2);
+
+  return {
+    width,
+    height,
+    qr: { text: qrText, x: qrX, y: Math.round((height - qrSize) / 2), magnification, size: qrSize },
+    lines: texts.map((line, index) => {
+      const fontHeight = Math.round(lineHeight * (line.field === 'serialNumber' ? 0.85 : 0.65));
+      return {
+        text: line.text,
+        x: textX,
+        y: textTop + index * lineHeight + Math.round((lineHeight - fontHeight) / 2),
+        fontHeight,
+        width: textWidth,
+      };
+    }),
+  };
+};
+
+/**
+ * Escapes field data for ^FH, which reads \XX as a hex byte; ^ and ~ would otherwise start a command
+ */
+const escapeZplField = (value: string): string =>
+  value.replace(/[\\^~]/g, match => `\\${match.charCodeAt(0).toString(16).toUpperCase()}`);
+
+/**
+ * Builds the ZPL for a run of labels
+ * @param assets - Assets to label, in print order
+ * @param layout - Organization's label layout
+ * @param origin - Origin of asset links, e.g. window.location.origin
+ * @returns string - One ^XA...^XZ label format per asset
+ */
+export const buildZplLabels = (assets: Asset[], layout: ZplLabelLayout, origin: string): string => {
+  return assets.map(asset => {
+    const { width, height, qr, lines } = getLabelGeometry(asset, layout, origin);
+
+    return [
+      '^XA',
+      '^CI28',
+      `^PW${width}`,
+      `^LL${height}`,
+      `^FO${qr.x},${qr.y}^BQN,2,${qr.magnification}^FH\\^FDMA,${escapeZplField(qr.text)}^FS`,
+      ...lines.map(line =>
+        `^FO${line.x},${line.y}^A0N,${line.fontHeight},${line.fontHeight}^FB${line.width},1,0,L,0^FH\\^FD${escapeZplField(line.text)}^FS`
+      ),
+      '^XZ',
+    ].join('\n');
+  }).join('\n');
+};
+
+/**
+ * Draws a label as SVG for previewing in the browser
+ * @param asset - Labelled asset
+ * @param layout - Organization's label layout
+ * @param origin - Origin of asset links
+ * @returns string - Standalone SVG document at the label's real size
+ */
+export const renderZplLabelPreview = (asset: Asset, layout: ZplLabelLayout, origin: string): string => {
+  const { width, height, qr, lines } = getLabelGeometry(asset, layout, origin);
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.widthIn}in" height="${layout.heightIn}in" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="#fff"/>`,
+    renderQrCode(qr.text, qr.x, qr.y, qr.size),
+    `<defs><clipPath id="zpl-text-${asset.id}"><rect x="${lines[0]?.x || 0}" y="0" width="${lines[0]?.width || 0}" height="${height}"/></clipPath></defs>`,
+    ...lines.map(line =>
+      `<text x="${line.x}" y="${line.y + Math.round(line.fontHeight * 0.8)}" clip-path="url(#zpl-text-${asset.id})" font-family="Helvetica, Arial, sans-serif" font-size="${line.fontHeight}">${escapeXml(line.text)}</text>`
+    ),
+    '</svg>',
+  ].join('');
+};
+
+/**
+ * Downloads ZPL as a file, e.g. to send with the printer's own utility
+ * @param zpl - ZPL from buildZplLabels
+ */
+export const downloadZpl = (zpl: string): void => {
+  const url = URL.createObjectURL(new Blob([zpl], { type: 'text/plain' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = 'asset-labels.zpl';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
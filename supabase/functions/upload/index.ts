@@ -33,6 +33,8 @@ serve(async (req: Request) => {
     const assetId = formData.get('assetId') as string;
     const orgId = formData.get('orgId') as string;
     const userId = formData.get('userId') as string;
+    // Callers that write the document row in their own transaction only need the stored file
+    const recordDocument = formData.get('recordDocument') !== 'false';
 
     if (!file || !assetId || !orgId || !userId) {
       return new Response(
@@ -65,6 +67,24 @@ serve(async (req: Request) => {
       .from('certifications')
       .getPublicUrl(filePath);
 
+    if (!recordDocument) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          data: {
+            file_name: file.name,
+            file_url: publicUrl,
+          },
+        }),
+        {
+          headers: {
+            'Content-Type': 'application/json',
+            ...corsHeaders,
+          },
+        }
+      );
+    }
+
     // Create certification document record
     const { data: docData, error: docError } = await supabase
       .from('certification_documents')
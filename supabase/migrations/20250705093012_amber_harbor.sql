@@ -0,0 +1,135 @@
+/*
+  # Configurable retest interval rules
+
+  1. New Tables
+    - `retest_interval_rules`: Retest interval in months per asset class, per organization
+      (classes without a rule fall back to the default 6 months)
+
+  2. Functions & Triggers
+    - `retest_interval_months(org_id, asset_class)`: Resolves the interval for an asset
+    - `recalculate_certification_dates(org_id, asset_class)`: Recomputes next certification
+      dates and date-driven statuses for every asset of a class
+    - Trigger on `retest_interval_rules` recomputes affected assets when a rule changes;
+      the recalculation itself cannot be called directly
+
+  3. Security
+    - Enable RLS on `retest_interval_rules`
+    - Organization members can read rules, only admins can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS retest_interval_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  asset_class text NOT NULL,
+  interval_months integer NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_rule_asset_class CHECK (asset_class = ANY(ARRAY['Class 0', 'Class 00', 'Class 1', 'Class 2', 'Class 3', 'Class 4'])),
+  CONSTRAINT valid_interval_months CHECK (interval_months BETWEEN 1 AND 60),
+  CONSTRAINT unique_retest_rule_per_class UNIQUE (org_id, asset_class)
+);
+
+CREATE INDEX IF NOT EXISTS idx_retest_interval_rules_org_id ON retest_interval_rules(org_id);
+
+-- Resolve the retest interval for an asset class, defaulting to 6 months
+CREATE OR REPLACE FUNCTION retest_interval_months(p_org_id text, p_asset_class text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT interval_months
+      FROM retest_interval_rules
+      WHERE org_id = p_org_id AND asset_class = p_asset_class
+    ),
+    6
+  );
+$$;
+
+-- Recompute next certification dates (and date-driven statuses) for one asset class
+CREATE OR REPLACE FUNCTION recalculate_certification_dates(p_org_id text, p_asset_class text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE assets
+  SET next_certification_date = (
+    last_certification_date + make_interval(months => retest_interval_months(org_id, asset_class))
+  )::date
+  WHERE org_id = p_org_id
+    AND asset_class = p_asset_class;
+
+  -- Failed and in-testing assets keep their status
+  UPDATE assets
+  SET status = CASE
+    WHEN next_certification_date < current_date THEN 'expired'
+    WHEN next_certification_date <= current_date + 30 THEN 'near-due'
+    ELSE 'active'
+  END
+  WHERE org_id = p_org_id
+    AND asset_class = p_asset_class
+    AND status = ANY(ARRAY['active', 'near-due', 'expired']);
+END;
+$$;
+
+-- Only the rule trigger recalculates; callers could otherwise rewrite another organization's dates
+REVOKE EXECUTE ON FUNCTION recalculate_certification_dates(text, text) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION handle_retest_rule_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM recalculate_certification_dates(OLD.org_id, OLD.asset_class);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM recalculate_certification_dates(NEW.org_id, NEW.asset_class);
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS retest_rule_changed ON retest_interval_rules;
+CREATE TRIGGER retest_rule_changed
+  AFTER INSERT OR UPDATE OR DELETE ON retest_interval_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_retest_rule_change();
+
+-- Enable Row Level Security
+ALTER TABLE retest_interval_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view retest rules in their organization"
+  ON retest_interval_rules
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Admins can manage retest rules in their organization"
+  ON retest_interval_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all retest rules"
+  ON retest_interval_rules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,145 @@
+/*
+  # Scheduled asset status refresh
+
+  Stored `status` values were only written when an asset was inserted or edited, so
+  date-driven statuses went stale. This migration adds a daily database job that
+  recomputes them for every organization.
+
+  1. New Tables
+    - `asset_status_transitions`: Log of every status change made by the refresh job
+      (and by retest rule recalculation)
+
+  2. Functions
+    - `calculate_asset_status(next_certification_date, as_of)`: Server-side mirror of
+      `calculateAssetStatus` in `src/utils/assetUtils.ts`
+    - `refresh_asset_statuses(as_of, org_id)`: Recomputes `active` / `near-due` / `expired`
+      for all assets (optionally one organization), leaving `failed` and `in-testing` alone,
+      and records each transition. Returns the number of assets changed.
+    - `recalculate_certification_dates` now delegates status changes to the refresh function
+
+  3. Scheduling
+    - Runs daily at 05:15 UTC through pg_cron when the extension is available.
+      Without pg_cron (e.g. a plain local Postgres) the migration still applies and the job
+      can be exercised directly: `SELECT refresh_asset_statuses('2025-09-01');`
+
+  4. Security
+    - Enable RLS on `asset_status_transitions`
+    - Organization members can read transitions, writes happen only through the job
+*/
+
+CREATE TABLE IF NOT EXISTS asset_status_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  asset_id uuid NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  source text NOT NULL DEFAULT 'scheduled-refresh',
+  changed_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_status_transitions_asset_id ON asset_status_transitions(asset_id);
+CREATE INDEX IF NOT EXISTS idx_asset_status_transitions_org_id ON asset_status_transitions(org_id);
+
+-- Mirror of calculateAssetStatus: expired when overdue, near-due within 30 days
+CREATE OR REPLACE FUNCTION calculate_asset_status(
+  p_next_certification_date date,
+  p_as_of date DEFAULT current_date
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_next_certification_date < p_as_of THEN 'expired'
+    WHEN p_next_certification_date <= p_as_of + 30 THEN 'near-due'
+    ELSE 'active'
+  END;
+$$;
+
+-- Recompute date-driven statuses and log each transition
+CREATE OR REPLACE FUNCTION refresh_asset_statuses(
+  p_as_of date DEFAULT current_date,
+  p_org_id text DEFAULT NULL,
+  p_source text DEFAULT 'scheduled-refresh'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  changed_count integer;
+BEGIN
+  WITH stale AS (
+    SELECT id, status AS from_status
+    FROM assets
+    WHERE status = ANY(ARRAY['active', 'near-due', 'expired'])
+      AND status <> calculate_asset_status(next_certification_date, p_as_of)
+      AND (p_org_id IS NULL OR org_id = p_org_id)
+    FOR UPDATE
+  ),
+  updated AS (
+    UPDATE assets
+    SET status = calculate_asset_status(assets.next_certification_date, p_as_of)
+    FROM stale
+    WHERE assets.id = stale.id
+    RETURNING assets.id, assets.org_id, stale.from_status, assets.status AS to_status
+  )
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  SELECT org_id, id, from_status, to_status, p_source
+  FROM updated;
+
+  GET DIAGNOSTICS changed_count = ROW_COUNT;
+  RETURN changed_count;
+END;
+$$;
+
+-- Retest rule changes reuse the refresh so their status changes are logged too
+CREATE OR REPLACE FUNCTION recalculate_certification_dates(p_org_id text, p_asset_class text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE assets
+  SET next_certification_date = (
+    last_certification_date + make_interval(months => retest_interval_months(org_id, asset_class))
+  )::date
+  WHERE org_id = p_org_id
+    AND asset_class = p_asset_class;
+
+  PERFORM refresh_asset_statuses(current_date, p_org_id, 'retest-rule-change');
+END;
+$$;
+
+-- Schedule the daily refresh when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'pg_cron') THEN
+    CREATE EXTENSION IF NOT EXISTS pg_cron;
+    PERFORM cron.schedule('refresh-asset-statuses', '15 5 * * *', 'SELECT refresh_asset_statuses()');
+  ELSE
+    RAISE NOTICE 'pg_cron is not available; schedule refresh_asset_statuses() externally';
+  END IF;
+END
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE asset_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view status transitions in their organization"
+  ON asset_status_transitions
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Service role can manage all status transitions"
+  ON asset_status_transitions
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE EXECUTE ON FUNCTION refresh_asset_statuses(date, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION refresh_asset_statuses(date, text, text) TO service_role;
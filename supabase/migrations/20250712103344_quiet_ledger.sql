@@ -0,0 +1,168 @@
+/*
+  # Certification history
+
+  Recertifying an asset used to overwrite `last_certification_date`, losing every prior
+  test date. Each test is now its own row and the asset's dates follow the latest one.
+
+  1. New Tables
+    - `certifications`: One row per test of an asset, with the test date, lab, result,
+      the next due date computed at the time and an optional link to the uploaded
+      certificate in `certification_documents`
+
+  2. Functions & Triggers
+    - `sync_asset_certification_dates(asset_id)`: Copies the latest passing certification's
+      dates onto the asset and refreshes its date-driven status
+    - Trigger on `certifications` keeps the asset in sync on insert, update and delete
+    - Trigger on `assets` seeds the first certification row for newly created assets
+
+  3. Data
+    - Backfill one certification row per existing asset from `last_certification_date`
+
+  4. Security
+    - Enable RLS on `certifications`
+    - Admins manage certifications, members can view those of their assigned assets
+*/
+
+CREATE TABLE IF NOT EXISTS certifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  asset_id uuid NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  document_id uuid REFERENCES certification_documents(id) ON DELETE SET NULL,
+  certification_date date NOT NULL,
+  lab_name text,
+  result text NOT NULL DEFAULT 'pass',
+  next_certification_date date NOT NULL,
+  recorded_by text,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_certification_result CHECK (result = ANY(ARRAY['pass', 'fail']))
+);
+
+CREATE INDEX IF NOT EXISTS idx_certifications_asset_id ON certifications(asset_id);
+CREATE INDEX IF NOT EXISTS idx_certifications_org_id ON certifications(org_id);
+
+-- Copy the latest passing certification onto the asset
+CREATE OR REPLACE FUNCTION sync_asset_certification_dates(p_asset_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  latest certifications%ROWTYPE;
+BEGIN
+  SELECT * INTO latest
+  FROM certifications
+  WHERE asset_id = p_asset_id
+    AND result = 'pass'
+  ORDER BY certification_date DESC, created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE assets
+  SET last_certification_date = latest.certification_date,
+      next_certification_date = latest.next_certification_date,
+      status = CASE
+        WHEN status = ANY(ARRAY['active', 'near-due', 'expired'])
+          THEN calculate_asset_status(latest.next_certification_date)
+        ELSE status
+      END
+  WHERE id = p_asset_id
+    AND (
+      last_certification_date IS DISTINCT FROM latest.certification_date OR
+      next_certification_date IS DISTINCT FROM latest.next_certification_date
+    );
+END;
+$$;
+
+-- Only the certification trigger syncs; callers could otherwise touch another organization's assets
+REVOKE EXECUTE ON FUNCTION sync_asset_certification_dates(uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION handle_certification_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM sync_asset_certification_dates(OLD.asset_id);
+    RETURN OLD;
+  END IF;
+
+  PERFORM sync_asset_certification_dates(NEW.asset_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS certification_changed ON certifications;
+CREATE TRIGGER certification_changed
+  AFTER INSERT OR UPDATE OR DELETE ON certifications
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_certification_change();
+
+-- New assets start their history with the certification they were created with
+CREATE OR REPLACE FUNCTION seed_initial_certification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  INSERT INTO certifications (org_id, asset_id, certification_date, next_certification_date, recorded_by)
+  VALUES (NEW.org_id, NEW.id, NEW.last_certification_date, NEW.next_certification_date, auth.jwt() ->> 'user_id');
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS asset_created_seed_certification ON assets;
+CREATE TRIGGER asset_created_seed_certification
+  AFTER INSERT ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION seed_initial_certification();
+
+-- Backfill history for existing assets
+INSERT INTO certifications (org_id, asset_id, certification_date, next_certification_date)
+SELECT a.org_id, a.id, a.last_certification_date, a.next_certification_date
+FROM assets a
+WHERE NOT EXISTS (
+  SELECT 1 FROM certifications c WHERE c.asset_id = a.id
+);
+
+-- Enable Row Level Security
+ALTER TABLE certifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view certifications based on role and assignment"
+  ON certifications
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND (
+      (auth.jwt() ->> 'org_role') = 'org:admin' OR
+      EXISTS (
+        SELECT 1 FROM assets
+        WHERE assets.id = certifications.asset_id
+        AND assets.assigned_user_id = (auth.jwt() ->> 'user_id')
+      )
+    )
+  );
+
+CREATE POLICY "Admins can manage certifications in their organization"
+  ON certifications
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all certifications"
+  ON certifications
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,75 @@
+/*
+  # Dielectric test results
+
+  Certifications only recorded a date and a pass/fail flag, and a failed glove only kept a
+  free-text `failure_reason`. Each certification now stores the ASTM D120 proof-test
+  measurements, and a failed test fails the asset with a reference back to that test.
+
+  1. Changes to `certifications`
+    - `proof_test_voltage` (integer, volts): AC voltage the lab applied
+    - `leakage_current_ma` (numeric, milliamps): Measured AC leakage current
+
+  2. Changes to `assets`
+    - `failure_certification_id`: The failed certification that took the asset out of service
+
+  3. Triggers
+    - Recording a failed certification marks the asset as failed, using the test date as the
+      failure date and the measurements as the failure reason
+
+  4. Notes
+    - Voltage and current limits per class live in `src/utils/dielectricTestUtils.ts`; values
+      outside them are flagged in the form but still stored, since the lab report is the record
+*/
+
+ALTER TABLE certifications
+  ADD COLUMN IF NOT EXISTS proof_test_voltage integer,
+  ADD COLUMN IF NOT EXISTS leakage_current_ma numeric(6,2);
+
+ALTER TABLE certifications
+  ADD CONSTRAINT valid_proof_test_voltage CHECK (proof_test_voltage IS NULL OR proof_test_voltage > 0),
+  ADD CONSTRAINT valid_leakage_current CHECK (leakage_current_ma IS NULL OR leakage_current_ma >= 0);
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS failure_certification_id uuid REFERENCES certifications(id) ON DELETE SET NULL;
+
+-- A failed dielectric test takes the asset out of service
+CREATE OR REPLACE FUNCTION fail_asset_on_failed_certification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  reason text := 'Failed dielectric proof test';
+BEGIN
+  IF NEW.result <> 'fail' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.proof_test_voltage IS NOT NULL THEN
+    reason := reason || format(' at %s V', NEW.proof_test_voltage);
+  END IF;
+
+  IF NEW.leakage_current_ma IS NOT NULL THEN
+    reason := reason || format(' (leakage %s mA)', NEW.leakage_current_ma);
+  END IF;
+
+  IF NEW.lab_name IS NOT NULL THEN
+    reason := reason || format(' - %s', NEW.lab_name);
+  END IF;
+
+  UPDATE assets
+  SET status = 'failed',
+      failure_date = NEW.certification_date,
+      failure_reason = reason,
+      failure_certification_id = NEW.id
+  WHERE id = NEW.asset_id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS certification_failed ON certifications;
+CREATE TRIGGER certification_failed
+  AFTER INSERT ON certifications
+  FOR EACH ROW
+  EXECUTE FUNCTION fail_asset_on_failed_certification();
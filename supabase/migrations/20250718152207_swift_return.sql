@@ -0,0 +1,121 @@
+/*
+  # Return from lab
+
+  `markAsInTesting` sent an asset to the lab but nothing brought it back; admins had to edit
+  dates by hand and the status stayed `in-testing`. This adds one server-side operation that
+  closes out a lab visit.
+
+  1. Functions
+    - `complete_lab_return(...)`: For an `in-testing` asset, in one transaction:
+      - stores the lab certificate in `certification_documents` (required for a pass)
+      - records the test in `certifications`, linked to the certificate
+      - pass: applies the new certification dates and puts the asset back in service
+      - fail: marks the asset failed with the given reason
+      - clears `testing_start_date` and logs the status change with source `lab-return`
+      Returns the new certification row.
+
+  2. Security
+    - Runs as definer so it can write the transition log; checks that the caller is an
+      admin of the asset's organization before changing anything
+*/
+
+CREATE OR REPLACE FUNCTION complete_lab_return(
+  p_asset_id uuid,
+  p_result text,
+  p_certification_date date,
+  p_lab_name text DEFAULT NULL,
+  p_proof_test_voltage integer DEFAULT NULL,
+  p_leakage_current_ma numeric DEFAULT NULL,
+  p_file_name text DEFAULT NULL,
+  p_file_url text DEFAULT NULL,
+  p_failure_reason text DEFAULT NULL
+)
+RETURNS certifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target assets%ROWTYPE;
+  new_document_id uuid;
+  next_date date;
+  new_status text;
+  certification certifications%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM assets
+  WHERE id = p_asset_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can complete a lab return';
+  END IF;
+
+  IF target.status <> 'in-testing' THEN
+    RAISE EXCEPTION 'Asset % is not in testing', target.serial_number;
+  END IF;
+
+  IF p_result NOT IN ('pass', 'fail') THEN
+    RAISE EXCEPTION 'Result must be pass or fail';
+  END IF;
+
+  IF p_result = 'pass' AND p_file_url IS NULL THEN
+    RAISE EXCEPTION 'A certificate is required to return an asset to service';
+  END IF;
+
+  IF p_result = 'fail' AND coalesce(trim(p_failure_reason), '') = '' THEN
+    RAISE EXCEPTION 'A failure reason is required';
+  END IF;
+
+  IF p_file_url IS NOT NULL THEN
+    INSERT INTO certification_documents (asset_id, file_name, file_url, uploaded_by, org_id)
+    VALUES (target.id, coalesce(p_file_name, 'certificate'), p_file_url, auth.jwt() ->> 'user_id', target.org_id)
+    RETURNING id INTO new_document_id;
+  END IF;
+
+  next_date := (
+    p_certification_date + make_interval(months => retest_interval_months(target.org_id, target.asset_class))
+  )::date;
+
+  -- A failed result also fails the asset through the certification_failed trigger
+  INSERT INTO certifications (
+    org_id, asset_id, document_id, certification_date, lab_name, result,
+    proof_test_voltage, leakage_current_ma, next_certification_date, recorded_by
+  )
+  VALUES (
+    target.org_id, target.id, new_document_id, p_certification_date, p_lab_name, p_result,
+    p_proof_test_voltage, p_leakage_current_ma, next_date, auth.jwt() ->> 'user_id'
+  )
+  RETURNING * INTO certification;
+
+  IF p_result = 'pass' THEN
+    new_status := calculate_asset_status(next_date);
+
+    UPDATE assets
+    SET status = new_status,
+        last_certification_date = p_certification_date,
+        next_certification_date = next_date,
+        testing_start_date = NULL
+    WHERE id = target.id;
+  ELSE
+    new_status := 'failed';
+
+    UPDATE assets
+    SET failure_reason = trim(p_failure_reason),
+        testing_start_date = NULL
+    WHERE id = target.id;
+  END IF;
+
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  VALUES (target.org_id, target.id, target.status, new_status, 'lab-return');
+
+  RETURN certification;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_lab_return(uuid, text, date, text, integer, numeric, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION complete_lab_return(uuid, text, date, text, integer, numeric, text, text, text) TO authenticated, service_role;
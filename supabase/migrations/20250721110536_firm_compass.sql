@@ -0,0 +1,72 @@
+/*
+  # Asset lifecycle state machine
+
+  Any status could be written to `assets` by any update that passed RLS, so a failed glove
+  could be edited straight back into service. Status changes now follow a fixed transition
+  graph, mirrored in `src/utils/assetLifecycle.ts`.
+
+  1. Transition graph
+    - `active`, `near-due`, `expired` (date-driven) move freely between each other and can go
+      to `in-testing` or `failed`
+    - `in-testing` goes back to a date-driven status (lab pass) or to `failed`
+    - `failed` is terminal: a failed asset never returns to service
+
+  2. Functions & Triggers
+    - `asset_status_label(status)`: Display name used in error messages
+    - `is_valid_asset_status_transition(from, to)`: The graph above
+    - Trigger on `assets` rejects any other status change with a readable message
+*/
+
+CREATE OR REPLACE FUNCTION asset_status_label(p_status text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'active' THEN 'Active'
+    WHEN 'near-due' THEN 'Due Soon'
+    WHEN 'expired' THEN 'Expired'
+    WHEN 'failed' THEN 'Failed'
+    WHEN 'in-testing' THEN 'In Testing'
+    ELSE p_status
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_valid_asset_status_transition(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_from = p_to OR CASE p_from
+    WHEN 'active' THEN p_to = ANY(ARRAY['near-due', 'expired', 'in-testing', 'failed'])
+    WHEN 'near-due' THEN p_to = ANY(ARRAY['active', 'expired', 'in-testing', 'failed'])
+    WHEN 'expired' THEN p_to = ANY(ARRAY['active', 'near-due', 'in-testing', 'failed'])
+    WHEN 'in-testing' THEN p_to = ANY(ARRAY['active', 'near-due', 'expired', 'failed'])
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_asset_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT is_valid_asset_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION '%', format(
+      'Asset %s cannot move from %s to %s.%s',
+      OLD.serial_number,
+      asset_status_label(OLD.status),
+      asset_status_label(NEW.status),
+      CASE WHEN OLD.status = 'failed' THEN ' Failed assets cannot be returned to service.' ELSE '' END
+    ) USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS asset_status_transition ON assets;
+CREATE TRIGGER asset_status_transition
+  BEFORE UPDATE OF status ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_asset_status_transition();
@@ -0,0 +1,303 @@
+/*
+  # Structured failure reports
+
+  `failure_reason` was a single free-text field, so the same defect was written a dozen
+  different ways. Failures now record a defect code, where on the glove it was found, an
+  optional note and who reported it. `failure_reason` is kept as a readable summary that the
+  database fills in from those columns.
+
+  1. New Tables
+    - `defect_codes`: Defect codes available when failing an asset. Rows without an
+      `org_id` are the built-in list shared by every organization; organizations can add
+      their own codes alongside them
+
+  2. Changes to `assets`
+    - `failure_defect_code`: Code from `defect_codes`
+    - `failure_location`: `fingers`, `thumb`, `palm`, `back` or `cuff`
+    - `failure_notes`: Optional note from the reporter
+    - `failure_reported_by`: User ID of the reporter
+
+  3. Functions & Triggers
+    - `describe_asset_failure(...)`: Builds the summary, e.g. "Puncture - Palm: near seam"
+    - Trigger on `assets` keeps `failure_reason` in sync with the structured columns
+    - `fail_asset_on_failed_certification` now files failed tests under
+      `dielectric-test-failure`, with the measurements as the note
+    - `complete_lab_return` takes a defect code, location and note instead of a free-text reason
+
+  4. Data
+    - Existing failures keep their text as the note, under the `other` code
+
+  5. Security
+    - Enable RLS on `defect_codes`
+    - Everyone in an organization can read the built-in and organization codes;
+      admins manage their organization's codes
+*/
+
+CREATE TABLE IF NOT EXISTS defect_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text,
+  code text NOT NULL,
+  label text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_defect_code CHECK (code ~ '^[a-z0-9]+(-[a-z0-9]+)*$')
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_defect_codes_org_code ON defect_codes(coalesce(org_id, ''), code);
+
+INSERT INTO defect_codes (org_id, code, label)
+SELECT NULL, code, label
+FROM (VALUES
+  ('ozone-cracking', 'Ozone cracking'),
+  ('uv-checking', 'UV checking'),
+  ('puncture', 'Puncture'),
+  ('cut', 'Cut'),
+  ('tear', 'Tear'),
+  ('embedded-object', 'Embedded object'),
+  ('swelling', 'Swelling'),
+  ('chemical-damage', 'Chemical damage'),
+  ('contamination', 'Contamination'),
+  ('dielectric-test-failure', 'Dielectric test failure'),
+  ('other', 'Other')
+) AS built_in(code, label)
+WHERE NOT EXISTS (
+  SELECT 1 FROM defect_codes d WHERE d.org_id IS NULL AND d.code = built_in.code
+);
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS failure_defect_code text,
+  ADD COLUMN IF NOT EXISTS failure_location text,
+  ADD COLUMN IF NOT EXISTS failure_notes text,
+  ADD COLUMN IF NOT EXISTS failure_reported_by text;
+
+ALTER TABLE assets
+  ADD CONSTRAINT valid_failure_location CHECK (
+    failure_location IS NULL OR failure_location = ANY(ARRAY['fingers', 'thumb', 'palm', 'back', 'cuff'])
+  );
+
+-- Readable summary of a structured failure report
+CREATE OR REPLACE FUNCTION describe_asset_failure(
+  p_org_id text,
+  p_defect_code text,
+  p_location text,
+  p_notes text
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT concat_ws(': ',
+    concat_ws(' - ',
+      coalesce(
+        (SELECT label FROM defect_codes
+         WHERE code = p_defect_code AND (org_id = p_org_id OR org_id IS NULL)
+         ORDER BY org_id NULLS LAST
+         LIMIT 1),
+        p_defect_code
+      ),
+      initcap(p_location)
+    ),
+    nullif(trim(p_notes), '')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION sync_asset_failure_reason()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.failure_defect_code IS NOT NULL AND (
+    TG_OP = 'INSERT' OR
+    NEW.failure_defect_code IS DISTINCT FROM OLD.failure_defect_code OR
+    NEW.failure_location IS DISTINCT FROM OLD.failure_location OR
+    NEW.failure_notes IS DISTINCT FROM OLD.failure_notes
+  ) THEN
+    NEW.failure_reason := describe_asset_failure(NEW.org_id, NEW.failure_defect_code, NEW.failure_location, NEW.failure_notes);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS asset_failure_reason ON assets;
+CREATE TRIGGER asset_failure_reason
+  BEFORE INSERT OR UPDATE ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_asset_failure_reason();
+
+-- Failed dielectric tests are filed under their own defect code
+CREATE OR REPLACE FUNCTION fail_asset_on_failed_certification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.result <> 'fail' THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE assets
+  SET status = 'failed',
+      failure_date = NEW.certification_date,
+      failure_defect_code = 'dielectric-test-failure',
+      failure_location = NULL,
+      failure_notes = nullif(concat_ws(', ',
+        CASE WHEN NEW.proof_test_voltage IS NOT NULL THEN format('proof test at %s V', NEW.proof_test_voltage) END,
+        CASE WHEN NEW.leakage_current_ma IS NOT NULL THEN format('leakage %s mA', NEW.leakage_current_ma) END,
+        NEW.lab_name
+      ), ''),
+      failure_reported_by = NEW.recorded_by,
+      failure_certification_id = NEW.id
+  WHERE id = NEW.asset_id;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Lab returns take a structured failure report
+DROP FUNCTION IF EXISTS complete_lab_return(uuid, text, date, text, integer, numeric, text, text, text);
+
+CREATE OR REPLACE FUNCTION complete_lab_return(
+  p_asset_id uuid,
+  p_result text,
+  p_certification_date date,
+  p_lab_name text DEFAULT NULL,
+  p_proof_test_voltage integer DEFAULT NULL,
+  p_leakage_current_ma numeric DEFAULT NULL,
+  p_file_name text DEFAULT NULL,
+  p_file_url text DEFAULT NULL,
+  p_failure_defect_code text DEFAULT NULL,
+  p_failure_location text DEFAULT NULL,
+  p_failure_notes text DEFAULT NULL
+)
+RETURNS certifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target assets%ROWTYPE;
+  new_document_id uuid;
+  next_date date;
+  new_status text;
+  certification certifications%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM assets
+  WHERE id = p_asset_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can complete a lab return';
+  END IF;
+
+  IF target.status <> 'in-testing' THEN
+    RAISE EXCEPTION 'Asset % is not in testing', target.serial_number;
+  END IF;
+
+  IF p_result NOT IN ('pass', 'fail') THEN
+    RAISE EXCEPTION 'Result must be pass or fail';
+  END IF;
+
+  IF p_result = 'pass' AND p_file_url IS NULL THEN
+    RAISE EXCEPTION 'A certificate is required to return an asset to service';
+  END IF;
+
+  IF p_result = 'fail' AND p_failure_defect_code IS NULL THEN
+    RAISE EXCEPTION 'A defect code is required';
+  END IF;
+
+  IF p_file_url IS NOT NULL THEN
+    INSERT INTO certification_documents (asset_id, file_name, file_url, uploaded_by, org_id)
+    VALUES (target.id, coalesce(p_file_name, 'certificate'), p_file_url, auth.jwt() ->> 'user_id', target.org_id)
+    RETURNING id INTO new_document_id;
+  END IF;
+
+  next_date := (
+    p_certification_date + make_interval(months => retest_interval_months(target.org_id, target.asset_class))
+  )::date;
+
+  -- A failed result also fails the asset through the certification_failed trigger
+  INSERT INTO certifications (
+    org_id, asset_id, document_id, certification_date, lab_name, result,
+    proof_test_voltage, leakage_current_ma, next_certification_date, recorded_by
+  )
+  VALUES (
+    target.org_id, target.id, new_document_id, p_certification_date, p_lab_name, p_result,
+    p_proof_test_voltage, p_leakage_current_ma, next_date, auth.jwt() ->> 'user_id'
+  )
+  RETURNING * INTO certification;
+
+  IF p_result = 'pass' THEN
+    new_status := calculate_asset_status(next_date);
+
+    UPDATE assets
+    SET status = new_status,
+        last_certification_date = p_certification_date,
+        next_certification_date = next_date,
+        testing_start_date = NULL
+    WHERE id = target.id;
+  ELSE
+    new_status := 'failed';
+
+    UPDATE assets
+    SET failure_defect_code = p_failure_defect_code,
+        failure_location = p_failure_location,
+        failure_notes = nullif(trim(p_failure_notes), ''),
+        testing_start_date = NULL
+    WHERE id = target.id;
+  END IF;
+
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  VALUES (target.org_id, target.id, target.status, new_status, 'lab-return');
+
+  RETURN certification;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_lab_return(uuid, text, date, text, integer, numeric, text, text, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION complete_lab_return(uuid, text, date, text, integer, numeric, text, text, text, text, text) TO authenticated, service_role;
+
+-- Keep existing free-text failures as notes
+UPDATE assets
+SET failure_defect_code = 'other',
+    failure_notes = failure_reason
+WHERE status = 'failed'
+  AND failure_defect_code IS NULL
+  AND failure_reason IS NOT NULL;
+
+-- Enable Row Level Security
+ALTER TABLE defect_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view built-in and organization defect codes"
+  ON defect_codes
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id IS NULL OR
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Admins can manage defect codes in their organization"
+  ON defect_codes
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all defect codes"
+  ON defect_codes
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
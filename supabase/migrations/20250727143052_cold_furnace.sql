@@ -0,0 +1,219 @@
+/*
+  # Retirement and destruction of failed assets
+
+  Failed gloves stayed `failed` forever. Once a failed asset has been destroyed it is now
+  retired: the disposal is recorded and the asset is kept for audit but hidden from default
+  views. Failed assets that have not been destroyed within an organization's disposal
+  deadline are surfaced on the dashboard.
+
+  1. Transition graph
+    - New terminal status `retired`, reachable only from `failed`
+
+  2. Changes to `assets`
+    - `retired_date`: Date the asset was destroyed
+    - `disposal_method`: `cut-and-discarded`, `incinerated`, `returned-to-manufacturer` or `recycled`
+    - `disposal_witness`: Name of the person who witnessed the destruction
+    - `retired_by`: User ID of the admin who recorded it
+    - `destruction_document_id`: Optional destruction certificate in `certification_documents`
+    - Retired assets must have a date, method and witness
+
+  3. New Tables
+    - `org_settings`: Per-organization settings; `failed_disposal_days` is the number of days
+      a failed asset may wait for destruction (default 30)
+
+  4. Functions
+    - `retire_asset(...)`: Stores the destruction certificate, records the disposal and
+      retires the asset in one transaction; logs a transition with source `retirement`
+
+  5. Security
+    - Enable RLS on `org_settings`
+    - Organization members can read settings, only admins can manage them
+*/
+
+ALTER TABLE assets DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE assets
+  ADD CONSTRAINT valid_status CHECK (
+    status = ANY(ARRAY['active', 'near-due', 'expired', 'in-testing', 'failed', 'retired'])
+  );
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS retired_date date,
+  ADD COLUMN IF NOT EXISTS disposal_method text,
+  ADD COLUMN IF NOT EXISTS disposal_witness text,
+  ADD COLUMN IF NOT EXISTS retired_by text,
+  ADD COLUMN IF NOT EXISTS destruction_document_id uuid REFERENCES certification_documents(id) ON DELETE SET NULL;
+
+ALTER TABLE assets
+  ADD CONSTRAINT valid_disposal_method CHECK (
+    disposal_method IS NULL OR
+    disposal_method = ANY(ARRAY['cut-and-discarded', 'incinerated', 'returned-to-manufacturer', 'recycled'])
+  );
+
+ALTER TABLE assets
+  ADD CONSTRAINT retired_assets_have_disposal CHECK (
+    status <> 'retired' OR (
+      retired_date IS NOT NULL AND
+      disposal_method IS NOT NULL AND
+      disposal_witness IS NOT NULL
+    )
+  );
+
+CREATE TABLE IF NOT EXISTS org_settings (
+  org_id text PRIMARY KEY,
+  failed_disposal_days integer NOT NULL DEFAULT 30,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_failed_disposal_days CHECK (failed_disposal_days BETWEEN 1 AND 365)
+);
+
+-- Lifecycle graph from 20250721110536_firm_compass.sql, extended with `retired`
+CREATE OR REPLACE FUNCTION asset_status_label(p_status text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'active' THEN 'Active'
+    WHEN 'near-due' THEN 'Due Soon'
+    WHEN 'expired' THEN 'Expired'
+    WHEN 'failed' THEN 'Failed'
+    WHEN 'in-testing' THEN 'In Testing'
+    WHEN 'retired' THEN 'Retired'
+    ELSE p_status
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_valid_asset_status_transition(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_from = p_to OR CASE p_from
+    WHEN 'active' THEN p_to = ANY(ARRAY['near-due', 'expired', 'in-testing', 'failed'])
+    WHEN 'near-due' THEN p_to = ANY(ARRAY['active', 'expired', 'in-testing', 'failed'])
+    WHEN 'expired' THEN p_to = ANY(ARRAY['active', 'near-due', 'in-testing', 'failed'])
+    WHEN 'in-testing' THEN p_to = ANY(ARRAY['active', 'near-due', 'expired', 'failed'])
+    WHEN 'failed' THEN p_to = 'retired'
+    ELSE false
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_asset_status_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT is_valid_asset_status_transition(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION '%', format(
+      'Asset %s cannot move from %s to %s.%s',
+      OLD.serial_number,
+      asset_status_label(OLD.status),
+      asset_status_label(NEW.status),
+      CASE
+        WHEN OLD.status IN ('failed', 'retired')
+          THEN format(' %s assets cannot be returned to service.', asset_status_label(OLD.status))
+        ELSE ''
+      END
+    ) USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION retire_asset(
+  p_asset_id uuid,
+  p_disposal_method text,
+  p_retired_date date,
+  p_disposal_witness text,
+  p_file_name text DEFAULT NULL,
+  p_file_url text DEFAULT NULL
+)
+RETURNS assets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target assets%ROWTYPE;
+  new_document_id uuid;
+  retired assets%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM assets
+  WHERE id = p_asset_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can retire assets';
+  END IF;
+
+  IF target.status <> 'failed' THEN
+    RAISE EXCEPTION 'Only failed assets can be retired';
+  END IF;
+
+  IF nullif(trim(p_disposal_witness), '') IS NULL THEN
+    RAISE EXCEPTION 'A witness is required';
+  END IF;
+
+  IF p_file_url IS NOT NULL THEN
+    INSERT INTO certification_documents (asset_id, file_name, file_url, uploaded_by, org_id)
+    VALUES (target.id, coalesce(p_file_name, 'destruction-certificate'), p_file_url, auth.jwt() ->> 'user_id', target.org_id)
+    RETURNING id INTO new_document_id;
+  END IF;
+
+  UPDATE assets
+  SET status = 'retired',
+      retired_date = p_retired_date,
+      disposal_method = p_disposal_method,
+      disposal_witness = trim(p_disposal_witness),
+      retired_by = auth.jwt() ->> 'user_id',
+      destruction_document_id = new_document_id
+  WHERE id = target.id
+  RETURNING * INTO retired;
+
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  VALUES (target.org_id, target.id, target.status, 'retired', 'retirement');
+
+  RETURN retired;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION retire_asset(uuid, text, date, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION retire_asset(uuid, text, date, text, text, text) TO authenticated, service_role;
+
+-- Enable Row Level Security
+ALTER TABLE org_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view settings in their organization"
+  ON org_settings
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Admins can manage settings in their organization"
+  ON org_settings
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all settings"
+  ON org_settings
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
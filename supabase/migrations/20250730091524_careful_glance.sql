@@ -0,0 +1,174 @@
+/*
+  # Pre-use inspections
+
+  NFPA 70E and OSHA 1910.137 require a visual inspection and air test before each use.
+  Technicians now log each inspection against the asset; a failed inspection takes the
+  asset out of service straight away.
+
+  1. New Tables
+    - `inspections`: One row per pre-use inspection
+      - `result`: `pass` or `fail`
+      - `checklist`: Checklist item keys mapped to whether the item was OK
+      - `photo_url`: Optional photo of the glove
+      - `failure_defect_code`, `failure_location`: Required when the inspection fails
+
+  2. Changes to `assets`
+    - `failure_inspection_id`: Inspection that failed the asset, if any
+
+  3. Functions & Triggers
+    - Inspections can only be recorded for assets in service (active, due soon or expired)
+    - `fail_asset_on_failed_inspection`: A failed inspection fails the asset with the
+      inspector as reporter and logs a transition with source `inspection`
+
+  4. Security
+    - Enable RLS on `inspections`
+    - Technicians record and view inspections of assets assigned to them;
+      admins view and manage every inspection in their organization
+*/
+
+CREATE TABLE IF NOT EXISTS inspections (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  asset_id uuid NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  inspected_by text NOT NULL,
+  inspected_at timestamptz NOT NULL DEFAULT now(),
+  result text NOT NULL,
+  checklist jsonb NOT NULL DEFAULT '{}'::jsonb,
+  photo_url text,
+  notes text,
+  failure_defect_code text,
+  failure_location text,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_inspection_result CHECK (result = ANY(ARRAY['pass', 'fail'])),
+  CONSTRAINT valid_inspection_failure_location CHECK (
+    failure_location IS NULL OR failure_location = ANY(ARRAY['fingers', 'thumb', 'palm', 'back', 'cuff'])
+  ),
+  CONSTRAINT failed_inspection_has_defect CHECK (result = 'pass' OR failure_defect_code IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_inspections_org_id ON inspections(org_id);
+CREATE INDEX IF NOT EXISTS idx_inspections_asset_id ON inspections(asset_id, inspected_at DESC);
+CREATE INDEX IF NOT EXISTS idx_inspections_inspected_by ON inspections(inspected_by, inspected_at DESC);
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS failure_inspection_id uuid REFERENCES inspections(id) ON DELETE SET NULL;
+
+CREATE OR REPLACE FUNCTION check_inspection_asset()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target assets%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM assets
+  WHERE id = NEW.asset_id
+    AND org_id = NEW.org_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF target.status <> ALL(ARRAY['active', 'near-due', 'expired']) THEN
+    RAISE EXCEPTION 'Asset % is % and cannot be inspected for use', target.serial_number, lower(asset_status_label(target.status));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inspection_asset_in_service ON inspections;
+CREATE TRIGGER inspection_asset_in_service
+  BEFORE INSERT ON inspections
+  FOR EACH ROW
+  EXECUTE FUNCTION check_inspection_asset();
+
+-- Technicians cannot update assets themselves, so this runs as the owner
+CREATE OR REPLACE FUNCTION fail_asset_on_failed_inspection()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  previous_status text;
+BEGIN
+  IF NEW.result <> 'fail' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO previous_status FROM assets WHERE id = NEW.asset_id;
+
+  UPDATE assets
+  SET status = 'failed',
+      failure_date = NEW.inspected_at::date,
+      failure_defect_code = NEW.failure_defect_code,
+      failure_location = NEW.failure_location,
+      failure_notes = nullif(trim(NEW.notes), ''),
+      failure_reported_by = NEW.inspected_by,
+      failure_inspection_id = NEW.id
+  WHERE id = NEW.asset_id;
+
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  VALUES (NEW.org_id, NEW.asset_id, previous_status, 'failed', 'inspection');
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS inspection_failed ON inspections;
+CREATE TRIGGER inspection_failed
+  AFTER INSERT ON inspections
+  FOR EACH ROW
+  EXECUTE FUNCTION fail_asset_on_failed_inspection();
+
+-- Enable Row Level Security
+ALTER TABLE inspections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view inspections based on role"
+  ON inspections
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND (
+      (auth.jwt() ->> 'org_role') = 'org:admin' OR
+      inspected_by = (auth.jwt() ->> 'user_id')
+    )
+  );
+
+CREATE POLICY "Users can record inspections of their assets"
+  ON inspections
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    inspected_by = (auth.jwt() ->> 'user_id') AND (
+      (auth.jwt() ->> 'org_role') = 'org:admin' OR
+      EXISTS (
+        SELECT 1 FROM assets
+        WHERE assets.id = inspections.asset_id
+          AND assets.assigned_user_id = (auth.jwt() ->> 'user_id')
+      )
+    )
+  );
+
+CREATE POLICY "Admins can manage inspections in their organization"
+  ON inspections
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all inspections"
+  ON inspections
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,275 @@
+/*
+  # Asset types
+
+  Assets were rubber insulating gloves only. Crews also carry insulating sleeves, blankets
+  and line hose, which are retested on their own intervals, and leather protectors, which
+  are never dielectric tested.
+
+  1. Changes to `assets`
+    - `asset_type`: `glove` (default for existing rows), `sleeve`, `blanket`, `line-hose`
+      or `protector`
+    - `attributes`: Type-specific details (e.g. sleeve style, blanket size, hose length)
+    - `last_certification_date`, `next_certification_date`: Now nullable; set for every
+      dielectric-tested type and empty for protectors
+    - `glove_color` is only kept for gloves, `glove_size` for gloves and protectors
+    - Protectors cannot be sent for testing
+
+  2. Changes to `retest_interval_rules`
+    - `asset_type`: Rules now apply per asset type and class
+    - Types without a rule use their default interval: 6 months for gloves, 12 months
+      for sleeves, blankets and line hose
+
+  3. Functions & Triggers
+    - `asset_type_requires_dielectric_test(asset_type)`
+    - `retest_interval_months(org_id, asset_type, asset_class)` replaces the class-only version
+    - `recalculate_certification_dates(org_id, asset_type, asset_class)` replaces the
+      class-only version; the rule trigger passes the type through
+    - `complete_lab_return` uses the interval for the asset's type
+    - New protectors start without a seeded certification
+*/
+
+CREATE OR REPLACE FUNCTION asset_type_requires_dielectric_test(p_asset_type text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_asset_type <> 'protector';
+$$;
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS asset_type text NOT NULL DEFAULT 'glove',
+  ADD COLUMN IF NOT EXISTS attributes jsonb NOT NULL DEFAULT '{}'::jsonb,
+  ALTER COLUMN last_certification_date DROP NOT NULL,
+  ALTER COLUMN next_certification_date DROP NOT NULL;
+
+ALTER TABLE assets
+  ADD CONSTRAINT valid_asset_type CHECK (
+    asset_type = ANY(ARRAY['glove', 'sleeve', 'blanket', 'line-hose', 'protector'])
+  ),
+  ADD CONSTRAINT valid_asset_attributes CHECK (jsonb_typeof(attributes) = 'object'),
+  ADD CONSTRAINT certification_dates_match_asset_type CHECK (
+    asset_type_requires_dielectric_test(asset_type) =
+      (last_certification_date IS NOT NULL AND next_certification_date IS NOT NULL)
+  ),
+  ADD CONSTRAINT glove_color_only_for_gloves CHECK (glove_color IS NULL OR asset_type = 'glove'),
+  ADD CONSTRAINT glove_size_only_for_hand_protection CHECK (
+    glove_size IS NULL OR asset_type = ANY(ARRAY['glove', 'protector'])
+  ),
+  ADD CONSTRAINT untested_assets_not_in_testing CHECK (
+    asset_type_requires_dielectric_test(asset_type) OR status <> 'in-testing'
+  );
+
+CREATE INDEX IF NOT EXISTS idx_assets_asset_type ON assets(org_id, asset_type);
+
+-- Rules are now keyed by type and class
+ALTER TABLE retest_interval_rules
+  ADD COLUMN IF NOT EXISTS asset_type text NOT NULL DEFAULT 'glove';
+
+ALTER TABLE retest_interval_rules
+  DROP CONSTRAINT IF EXISTS unique_retest_rule_per_class,
+  ADD CONSTRAINT valid_rule_asset_type CHECK (
+    asset_type = ANY(ARRAY['glove', 'sleeve', 'blanket', 'line-hose'])
+  ),
+  ADD CONSTRAINT unique_retest_rule_per_type_and_class UNIQUE (org_id, asset_type, asset_class);
+
+-- Default intervals per OSHA 1910.137 Table I-6 (line hose follows blankets)
+CREATE OR REPLACE FUNCTION default_retest_interval_months(p_asset_type text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_asset_type
+    WHEN 'glove' THEN 6
+    WHEN 'sleeve' THEN 12
+    WHEN 'blanket' THEN 12
+    WHEN 'line-hose' THEN 12
+  END;
+$$;
+
+DROP TRIGGER IF EXISTS retest_rule_changed ON retest_interval_rules;
+DROP FUNCTION IF EXISTS recalculate_certification_dates(text, text);
+DROP FUNCTION IF EXISTS retest_interval_months(text, text);
+
+CREATE OR REPLACE FUNCTION retest_interval_months(p_org_id text, p_asset_type text, p_asset_class text)
+RETURNS integer
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT interval_months
+      FROM retest_interval_rules
+      WHERE org_id = p_org_id
+        AND asset_type = p_asset_type
+        AND asset_class = p_asset_class
+    ),
+    default_retest_interval_months(p_asset_type)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION recalculate_certification_dates(p_org_id text, p_asset_type text, p_asset_class text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE assets
+  SET next_certification_date = (
+    last_certification_date + make_interval(months => retest_interval_months(org_id, asset_type, asset_class))
+  )::date
+  WHERE org_id = p_org_id
+    AND asset_type = p_asset_type
+    AND asset_class = p_asset_class
+    AND last_certification_date IS NOT NULL;
+
+  PERFORM refresh_asset_statuses(current_date, p_org_id, 'retest-rule-change');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION recalculate_certification_dates(text, text, text) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION handle_retest_rule_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM recalculate_certification_dates(OLD.org_id, OLD.asset_type, OLD.asset_class);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM recalculate_certification_dates(NEW.org_id, NEW.asset_type, NEW.asset_class);
+    RETURN NEW;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER retest_rule_changed
+  AFTER INSERT OR UPDATE OR DELETE ON retest_interval_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_retest_rule_change();
+
+-- Protectors have no certification to start their history with
+CREATE OR REPLACE FUNCTION seed_initial_certification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.last_certification_date IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO certifications (org_id, asset_id, certification_date, next_certification_date, recorded_by)
+  VALUES (NEW.org_id, NEW.id, NEW.last_certification_date, NEW.next_certification_date, auth.jwt() ->> 'user_id');
+  RETURN NEW;
+END;
+$$;
+
+-- Lab returns use the retest interval for the asset's type
+CREATE OR REPLACE FUNCTION complete_lab_return(
+  p_asset_id uuid,
+  p_result text,
+  p_certification_date date,
+  p_lab_name text DEFAULT NULL,
+  p_proof_test_voltage integer DEFAULT NULL,
+  p_leakage_current_ma numeric DEFAULT NULL,
+  p_file_name text DEFAULT NULL,
+  p_file_url text DEFAULT NULL,
+  p_failure_defect_code text DEFAULT NULL,
+  p_failure_location text DEFAULT NULL,
+  p_failure_notes text DEFAULT NULL
+)
+RETURNS certifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target assets%ROWTYPE;
+  new_document_id uuid;
+  next_date date;
+  new_status text;
+  certification certifications%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM assets
+  WHERE id = p_asset_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can complete a lab return';
+  END IF;
+
+  IF target.status <> 'in-testing' THEN
+    RAISE EXCEPTION 'Asset % is not in testing', target.serial_number;
+  END IF;
+
+  IF p_result NOT IN ('pass', 'fail') THEN
+    RAISE EXCEPTION 'Result must be pass or fail';
+  END IF;
+
+  IF p_result = 'pass' AND p_file_url IS NULL THEN
+    RAISE EXCEPTION 'A certificate is required to return an asset to service';
+  END IF;
+
+  IF p_result = 'fail' AND p_failure_defect_code IS NULL THEN
+    RAISE EXCEPTION 'A defect code is required';
+  END IF;
+
+  IF p_file_url IS NOT NULL THEN
+    INSERT INTO certification_documents (asset_id, file_name, file_url, uploaded_by, org_id)
+    VALUES (target.id, coalesce(p_file_name, 'certificate'), p_file_url, auth.jwt() ->> 'user_id', target.org_id)
+    RETURNING id INTO new_document_id;
+  END IF;
+
+  next_date := (
+    p_certification_date + make_interval(
+      months => retest_interval_months(target.org_id, target.asset_type, target.asset_class)
+    )
+  )::date;
+
+  -- A failed result also fails the asset through the certification_failed trigger
+  INSERT INTO certifications (
+    org_id, asset_id, document_id, certification_date, lab_name, result,
+    proof_test_voltage, leakage_current_ma, next_certification_date, recorded_by
+  )
+  VALUES (
+    target.org_id, target.id, new_document_id, p_certification_date, p_lab_name, p_result,
+    p_proof_test_voltage, p_leakage_current_ma, next_date, auth.jwt() ->> 'user_id'
+  )
+  RETURNING * INTO certification;
+
+  IF p_result = 'pass' THEN
+    new_status := calculate_asset_status(next_date);
+
+    UPDATE assets
+    SET status = new_status,
+        last_certification_date = p_certification_date,
+        next_certification_date = next_date,
+        testing_start_date = NULL
+    WHERE id = target.id;
+  ELSE
+    new_status := 'failed';
+
+    UPDATE assets
+    SET failure_defect_code = p_failure_defect_code,
+        failure_location = p_failure_location,
+        failure_notes = nullif(trim(p_failure_notes), ''),
+        testing_start_date = NULL
+    WHERE id = target.id;
+  END IF;
+
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  VALUES (target.org_id, target.id, target.status, new_status, 'lab-return');
+
+  RETURN certification;
+END;
+$$;
@@ -0,0 +1,253 @@
+/*
+  # Glove pairs
+
+  Gloves are issued, worn and sent to the lab as left/right pairs, but every glove was
+  tracked as an unrelated asset. A pair now links two gloves so that assignment and lab
+  shipments follow both of them.
+
+  1. New Tables
+    - `glove_pairs`: One row per matched pair of gloves
+
+  2. Changes to `assets`
+    - `pair_id`: Pair the glove belongs to, if any
+    - `hand`: `left` or `right`; set exactly when the glove is paired
+    - Only gloves can be paired, and a pair holds at most one glove per hand
+
+  3. Functions & Triggers
+    - `pair_gloves(left_asset_id, right_asset_id)`: Links two unpaired gloves of the same
+      class that are still in service or at the lab
+    - `unpair_gloves(pair_id)`: Splits a pair, e.g. once one glove has failed
+    - `sync_glove_pair`: Reassigning one glove reassigns its mate, and sending one glove
+      to the lab sends its mate too, logging a transition with source `pair`
+    - Deleting a paired glove dissolves its pair
+
+  4. Security
+    - Enable RLS on `glove_pairs`
+    - Members view pairs in their organization; admins manage them
+*/
+
+CREATE TABLE IF NOT EXISTS glove_pairs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  created_by text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_glove_pairs_org_id ON glove_pairs(org_id);
+
+-- Pairs are dissolved through unpair_gloves, which clears both gloves first
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS pair_id uuid REFERENCES glove_pairs(id),
+  ADD COLUMN IF NOT EXISTS hand text;
+
+ALTER TABLE assets
+  ADD CONSTRAINT valid_glove_hand CHECK (hand IS NULL OR hand = ANY(ARRAY['left', 'right'])),
+  ADD CONSTRAINT paired_gloves_have_hand CHECK ((pair_id IS NULL) = (hand IS NULL)),
+  ADD CONSTRAINT only_gloves_are_paired CHECK (pair_id IS NULL OR asset_type = 'glove'),
+  ADD CONSTRAINT unique_hand_per_pair UNIQUE (pair_id, hand);
+
+CREATE OR REPLACE FUNCTION pair_gloves(p_left_asset_id uuid, p_right_asset_id uuid)
+RETURNS glove_pairs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  left_glove assets%ROWTYPE;
+  right_glove assets%ROWTYPE;
+  glove assets%ROWTYPE;
+  pair glove_pairs%ROWTYPE;
+BEGIN
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can pair gloves';
+  END IF;
+
+  IF p_left_asset_id = p_right_asset_id THEN
+    RAISE EXCEPTION 'A glove cannot be paired with itself';
+  END IF;
+
+  SELECT * INTO left_glove
+  FROM assets
+  WHERE id = p_left_asset_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  SELECT * INTO right_glove
+  FROM assets
+  WHERE id = p_right_asset_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF left_glove.id IS NULL OR right_glove.id IS NULL THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  FOREACH glove IN ARRAY ARRAY[left_glove, right_glove] LOOP
+    IF glove.asset_type <> 'glove' THEN
+      RAISE EXCEPTION 'Asset % is not a glove', glove.serial_number;
+    END IF;
+
+    IF glove.pair_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Glove % is already paired', glove.serial_number;
+    END IF;
+
+    IF glove.status IN ('failed', 'retired') THEN
+      RAISE EXCEPTION 'Glove % is % and cannot be paired', glove.serial_number, lower(asset_status_label(glove.status));
+    END IF;
+  END LOOP;
+
+  IF left_glove.asset_class <> right_glove.asset_class THEN
+    RAISE EXCEPTION 'Gloves % and % are different classes', left_glove.serial_number, right_glove.serial_number;
+  END IF;
+
+  IF left_glove.assigned_user_id IS NOT NULL
+    AND right_glove.assigned_user_id IS NOT NULL
+    AND left_glove.assigned_user_id <> right_glove.assigned_user_id THEN
+    RAISE EXCEPTION 'Gloves % and % are assigned to different users', left_glove.serial_number, right_glove.serial_number;
+  END IF;
+
+  INSERT INTO glove_pairs (org_id, created_by)
+  VALUES (left_glove.org_id, auth.jwt() ->> 'user_id')
+  RETURNING * INTO pair;
+
+  -- Whichever glove is assigned brings its mate along
+  UPDATE assets
+  SET pair_id = pair.id,
+      hand = CASE WHEN id = left_glove.id THEN 'left' ELSE 'right' END,
+      assigned_user_id = coalesce(left_glove.assigned_user_id, right_glove.assigned_user_id)
+  WHERE id IN (left_glove.id, right_glove.id);
+
+  RETURN pair;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION unpair_gloves(p_pair_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can unpair gloves';
+  END IF;
+
+  PERFORM 1
+  FROM glove_pairs
+  WHERE id = p_pair_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pair not found';
+  END IF;
+
+  UPDATE assets
+  SET pair_id = NULL,
+      hand = NULL
+  WHERE pair_id = p_pair_id;
+
+  DELETE FROM glove_pairs WHERE id = p_pair_id;
+END;
+$$;
+
+-- Runs as the owner so a technician-visible change never stalls on the mate's RLS
+CREATE OR REPLACE FUNCTION sync_glove_pair()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  mate assets%ROWTYPE;
+BEGIN
+  SELECT * INTO mate
+  FROM assets
+  WHERE pair_id = NEW.pair_id
+    AND id <> NEW.id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_user_id IS DISTINCT FROM OLD.assigned_user_id
+    AND mate.assigned_user_id IS DISTINCT FROM NEW.assigned_user_id THEN
+    UPDATE assets
+    SET assigned_user_id = NEW.assigned_user_id
+    WHERE id = mate.id;
+  END IF;
+
+  -- The mate's own update re-enters here but finds this glove already in testing
+  IF NEW.status = 'in-testing'
+    AND OLD.status <> 'in-testing'
+    AND mate.status IN ('active', 'near-due', 'expired') THEN
+    UPDATE assets
+    SET status = 'in-testing',
+        testing_start_date = coalesce(NEW.testing_start_date, now())
+    WHERE id = mate.id;
+
+    INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+    VALUES (mate.org_id, mate.id, mate.status, 'in-testing', 'pair');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS glove_pair_synced ON assets;
+CREATE TRIGGER glove_pair_synced
+  AFTER UPDATE OF assigned_user_id, status ON assets
+  FOR EACH ROW
+  WHEN (NEW.pair_id IS NOT NULL)
+  EXECUTE FUNCTION sync_glove_pair();
+
+CREATE OR REPLACE FUNCTION dissolve_glove_pair()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE assets
+  SET pair_id = NULL,
+      hand = NULL
+  WHERE pair_id = OLD.pair_id;
+
+  DELETE FROM glove_pairs WHERE id = OLD.pair_id;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS paired_glove_deleted ON assets;
+CREATE TRIGGER paired_glove_deleted
+  AFTER DELETE ON assets
+  FOR EACH ROW
+  WHEN (OLD.pair_id IS NOT NULL)
+  EXECUTE FUNCTION dissolve_glove_pair();
+
+-- Enable Row Level Security
+ALTER TABLE glove_pairs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view glove pairs in their organization"
+  ON glove_pairs
+  FOR SELECT
+  TO authenticated
+  USING (org_id = (auth.jwt() ->> 'org_id'));
+
+CREATE POLICY "Admins can manage glove pairs in their organization"
+  ON glove_pairs
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all glove pairs"
+  ON glove_pairs
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
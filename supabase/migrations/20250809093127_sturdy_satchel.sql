@@ -0,0 +1,148 @@
+/*
+  # Kits
+
+  A lineman's PPE kit (gloves, protectors, sleeves and a bag) is handed out as one
+  unit. Kits group existing assets so the whole kit can be assigned or returned at once.
+
+  1. New Tables
+    - `kits`: A named set of assets
+      - `assigned_user_id`: Technician holding the kit; members follow it
+      - `notes`: Free text, e.g. bag number or truck
+
+  2. Changes to `assets`
+    - `kit_id`: Kit the asset belongs to, if any; an asset is in at most one kit
+
+  3. Functions & Triggers
+    - `assign_kit(kit_id, user_id)`: Assigns (or, with no user, unassigns) a kit and
+      every asset in it in one transaction
+    - `maintain_kit_membership`: An asset added to a kit takes the kit's assignee, and a
+      retired asset leaves its kit
+
+  4. Security
+    - Enable RLS on `kits`
+    - Technicians view kits assigned to them; admins manage every kit in their organization
+*/
+
+CREATE TABLE IF NOT EXISTS kits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  name text NOT NULL,
+  assigned_user_id text,
+  notes text,
+  created_by text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT kit_name_not_blank CHECK (length(trim(name)) > 0),
+  CONSTRAINT unique_kit_name_per_org UNIQUE (org_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_kits_org_id ON kits(org_id);
+CREATE INDEX IF NOT EXISTS idx_kits_assigned_user_id ON kits(assigned_user_id);
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS kit_id uuid REFERENCES kits(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_assets_kit_id ON assets(kit_id);
+
+CREATE OR REPLACE FUNCTION maintain_kit_membership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  kit kits%ROWTYPE;
+BEGIN
+  IF NEW.status = 'retired' THEN
+    NEW.kit_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.kit_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.kit_id IS DISTINCT FROM OLD.kit_id) THEN
+    SELECT * INTO kit
+    FROM kits
+    WHERE id = NEW.kit_id
+      AND org_id = NEW.org_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Kit not found';
+    END IF;
+
+    NEW.assigned_user_id := kit.assigned_user_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS kit_membership_maintained ON assets;
+CREATE TRIGGER kit_membership_maintained
+  BEFORE INSERT OR UPDATE OF kit_id, status ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION maintain_kit_membership();
+
+CREATE OR REPLACE FUNCTION assign_kit(p_kit_id uuid, p_user_id text DEFAULT NULL)
+RETURNS kits
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  kit kits%ROWTYPE;
+BEGIN
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can assign kits';
+  END IF;
+
+  UPDATE kits
+  SET assigned_user_id = p_user_id,
+      updated_at = now()
+  WHERE id = p_kit_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  RETURNING * INTO kit;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Kit not found';
+  END IF;
+
+  UPDATE assets
+  SET assigned_user_id = p_user_id
+  WHERE kit_id = kit.id
+    AND assigned_user_id IS DISTINCT FROM p_user_id;
+
+  RETURN kit;
+END;
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE kits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view kits based on role"
+  ON kits
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND (
+      (auth.jwt() ->> 'org_role') = 'org:admin' OR
+      assigned_user_id = (auth.jwt() ->> 'user_id')
+    )
+  );
+
+CREATE POLICY "Admins can manage kits in their organization"
+  ON kits
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all kits"
+  ON kits
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
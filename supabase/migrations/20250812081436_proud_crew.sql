@@ -0,0 +1,212 @@
+/*
+  # Crews and supervisors
+
+  Until now there were two scopes: admins see every asset and technicians see their own.
+  Foremen need to see and act on their crew's gear without full admin rights. Crews group
+  technicians under a supervisor, and the supervisor gets the same access to the crew's
+  assets that each technician has to their own.
+
+  1. New Tables
+    - `crews`: A named crew
+      - `supervisor_user_id`: Foreman responsible for the crew
+    - `crew_members`: Technicians on a crew; a technician is on at most one crew
+
+  2. Functions
+    - `supervises_user(user_id)`: Whether the current user supervises a crew the given
+      technician is on
+
+  3. Security
+    - Enable RLS on `crews` and `crew_members`
+    - Everyone in an organization can view its crews; admins manage them
+    - Supervisors can view and update assets assigned to their crew, view those assets'
+      certifications, documents, inspections and kits, and record inspections of them
+*/
+
+CREATE TABLE IF NOT EXISTS crews (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  name text NOT NULL,
+  supervisor_user_id text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT crew_name_not_blank CHECK (length(trim(name)) > 0),
+  CONSTRAINT unique_crew_name_per_org UNIQUE (org_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crews_org_id ON crews(org_id);
+CREATE INDEX IF NOT EXISTS idx_crews_supervisor_user_id ON crews(supervisor_user_id);
+
+CREATE TABLE IF NOT EXISTS crew_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  crew_id uuid NOT NULL REFERENCES crews(id) ON DELETE CASCADE,
+  user_id text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT one_crew_per_member UNIQUE (org_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_crew_members_crew_id ON crew_members(crew_id);
+
+-- SECURITY DEFINER so the asset policies can consult crews without going through their RLS
+CREATE OR REPLACE FUNCTION supervises_user(p_user_id text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM crew_members m
+    JOIN crews c ON c.id = m.crew_id
+    WHERE m.user_id = p_user_id
+      AND c.org_id = (auth.jwt() ->> 'org_id')
+      AND c.supervisor_user_id = (auth.jwt() ->> 'user_id')
+  );
+$$;
+
+-- Enable Row Level Security
+ALTER TABLE crews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE crew_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view crews in their organization"
+  ON crews
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Admins can manage crews in their organization"
+  ON crews
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all crews"
+  ON crews
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view crew members in their organization"
+  ON crew_members
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Admins can manage crew members in their organization"
+  ON crew_members
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all crew members"
+  ON crew_members
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Supervisor scope over the crew's assets and their records
+CREATE POLICY "Supervisors can view their crew's assets"
+  ON assets
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    supervises_user(assigned_user_id)
+  );
+
+CREATE POLICY "Supervisors can update their crew's assets"
+  ON assets
+  FOR UPDATE
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    supervises_user(assigned_user_id)
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    supervises_user(assigned_user_id)
+  );
+
+CREATE POLICY "Supervisors can view their crew's certifications"
+  ON certifications
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    EXISTS (
+      SELECT 1 FROM assets
+      WHERE assets.id = certifications.asset_id
+        AND supervises_user(assets.assigned_user_id)
+    )
+  );
+
+CREATE POLICY "Supervisors can view their crew's certification documents"
+  ON certification_documents
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    EXISTS (
+      SELECT 1 FROM assets
+      WHERE assets.id = certification_documents.asset_id
+        AND supervises_user(assets.assigned_user_id)
+    )
+  );
+
+CREATE POLICY "Supervisors can view their crew's inspections"
+  ON inspections
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    EXISTS (
+      SELECT 1 FROM assets
+      WHERE assets.id = inspections.asset_id
+        AND supervises_user(assets.assigned_user_id)
+    )
+  );
+
+CREATE POLICY "Supervisors can record inspections of their crew's assets"
+  ON inspections
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    inspected_by = (auth.jwt() ->> 'user_id') AND
+    EXISTS (
+      SELECT 1 FROM assets
+      WHERE assets.id = inspections.asset_id
+        AND supervises_user(assets.assigned_user_id)
+    )
+  );
+
+CREATE POLICY "Supervisors can view their crew's kits"
+  ON kits
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    supervises_user(assigned_user_id)
+  );
@@ -0,0 +1,207 @@
+/*
+  # Locations and asset movements
+
+  An unassigned asset had no whereabouts at all. Assets are now either assigned to a
+  person or stored at a location (a yard, a truck, a tool crib or a testing lab), and
+  every move between people and locations is recorded.
+
+  1. New Tables
+    - `locations`: Where unassigned stock is kept
+      - `location_type`: `yard`, `truck`, `crib` or `lab`
+      - `notes`: Free text, e.g. an address or the truck's usual crew
+    - `asset_movements`: One row per change of holder or location
+
+  2. Changes to `assets`
+    - `location_id`: Location the asset is stored at; never set together with
+      `assigned_user_id`
+
+  3. Functions & Triggers
+    - `keep_asset_placement_exclusive`: Assigning a stored asset to a person takes it off
+      the shelf, storing an assigned asset unassigns it, and a retired asset leaves its
+      location
+    - `log_asset_movement`: Records each change of holder or location in `asset_movements`
+
+  4. Security
+    - Enable RLS on `locations` and `asset_movements`
+    - Everyone in an organization can view its locations; admins manage them
+    - Everyone in an organization can view the stock stored at its locations, so a crew
+      can check what spares are on the truck
+    - Movements are visible to whoever can see the asset
+*/
+
+CREATE TABLE IF NOT EXISTS locations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  name text NOT NULL,
+  location_type text NOT NULL DEFAULT 'yard',
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_location_type CHECK (location_type IN ('yard', 'truck', 'crib', 'lab')),
+  CONSTRAINT location_name_not_blank CHECK (length(trim(name)) > 0),
+  CONSTRAINT unique_location_name_per_org UNIQUE (org_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_locations_org_id ON locations(org_id);
+
+-- A location holding stock cannot be deleted; move its assets out first
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS location_id uuid REFERENCES locations(id);
+
+CREATE INDEX IF NOT EXISTS idx_assets_location_id ON assets(location_id);
+
+ALTER TABLE assets
+  ADD CONSTRAINT assigned_or_stored CHECK (assigned_user_id IS NULL OR location_id IS NULL);
+
+CREATE TABLE IF NOT EXISTS asset_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  asset_id uuid NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  from_user_id text,
+  to_user_id text,
+  from_location_id uuid REFERENCES locations(id) ON DELETE SET NULL,
+  to_location_id uuid REFERENCES locations(id) ON DELETE SET NULL,
+  moved_by text,
+  moved_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_movements_asset_id ON asset_movements(asset_id, moved_at DESC);
+
+-- Runs after maintain_kit_membership (triggers fire in name order), which may set the assignee
+CREATE OR REPLACE FUNCTION keep_asset_placement_exclusive()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'retired' THEN
+    NEW.location_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_user_id IS NULL OR NEW.location_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.location_id IS NOT DISTINCT FROM OLD.location_id THEN
+    -- Issued to a person: it leaves the shelf
+    NEW.location_id := NULL;
+  ELSIF TG_OP = 'UPDATE' AND NEW.assigned_user_id IS NOT DISTINCT FROM OLD.assigned_user_id THEN
+    -- Put back on the shelf: nobody holds it any more
+    NEW.assigned_user_id := NULL;
+  ELSE
+    RAISE EXCEPTION 'Asset % cannot be assigned to a person and stored at a location at the same time', NEW.serial_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS placement_kept_exclusive ON assets;
+CREATE TRIGGER placement_kept_exclusive
+  BEFORE INSERT OR UPDATE OF assigned_user_id, location_id, status, kit_id ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_asset_placement_exclusive();
+
+CREATE OR REPLACE FUNCTION log_asset_movement()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.assigned_user_id IS NULL AND NEW.location_id IS NULL THEN
+      RETURN NEW;
+    END IF;
+
+    INSERT INTO asset_movements (org_id, asset_id, to_user_id, to_location_id, moved_by)
+    VALUES (NEW.org_id, NEW.id, NEW.assigned_user_id, NEW.location_id, auth.jwt() ->> 'user_id');
+
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_user_id IS NOT DISTINCT FROM OLD.assigned_user_id
+    AND NEW.location_id IS NOT DISTINCT FROM OLD.location_id THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO asset_movements (
+    org_id, asset_id, from_user_id, to_user_id, from_location_id, to_location_id, moved_by
+  )
+  VALUES (
+    NEW.org_id, NEW.id, OLD.assigned_user_id, NEW.assigned_user_id, OLD.location_id, NEW.location_id,
+    auth.jwt() ->> 'user_id'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS asset_moved ON assets;
+CREATE TRIGGER asset_moved
+  AFTER INSERT OR UPDATE OF assigned_user_id, location_id ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION log_asset_movement();
+
+-- Enable Row Level Security
+ALTER TABLE locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE asset_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view locations in their organization"
+  ON locations
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Admins can manage locations in their organization"
+  ON locations
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all locations"
+  ON locations
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Spares on the shelf are shared stock; assets held by a person stay private to them
+CREATE POLICY "Users can view stock stored at locations"
+  ON assets
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    location_id IS NOT NULL
+  );
+
+-- The assets policies decide which assets the user can see
+CREATE POLICY "Users can view movements of assets they can see"
+  ON asset_movements
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    EXISTS (
+      SELECT 1 FROM assets
+      WHERE assets.id = asset_movements.asset_id
+    )
+  );
+
+CREATE POLICY "Service role can manage all asset movements"
+  ON asset_movements
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
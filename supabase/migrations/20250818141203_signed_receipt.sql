@@ -0,0 +1,185 @@
+/*
+  # Asset custody chain
+
+  Reassigning an asset overwrote the previous holder, so after an incident there was no
+  way to prove who had which gloves on a given day. Every period a person holds an asset
+  is now recorded, along with who handed it over and who took it back, and the holder
+  acknowledges receipt with a typed name or a drawn signature.
+
+  1. New Tables
+    - `asset_custody`: One row per person per period of holding an asset
+      - `checked_out_at` / `checked_out_by`: When and by whom it was handed over
+      - `checked_in_at` / `checked_in_by`: When and by whom it was taken back; null while held
+      - `acknowledged_at`, `acknowledged_name`, `signature_url`: The holder's receipt
+
+  2. Functions & Triggers
+    - `track_asset_custody`: Checks the asset in from its previous holder and out to the
+      new one whenever `assigned_user_id` changes
+    - `acknowledge_custody(custody_id, name, signature_url)`: Lets the holder sign for an
+      asset they currently hold
+
+  3. Data
+    - Assets already assigned get an open custody row starting now; their earlier
+      history was never recorded
+
+  4. Security
+    - Enable RLS on `asset_custody`
+    - Admins see every custody record in their organization, users their own, and
+      supervisors their crew's
+    - Records are written only by the trigger and `acknowledge_custody`
+*/
+
+CREATE TABLE IF NOT EXISTS asset_custody (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  asset_id uuid NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  user_id text NOT NULL,
+  checked_out_at timestamptz NOT NULL DEFAULT now(),
+  checked_out_by text,
+  checked_in_at timestamptz,
+  checked_in_by text,
+  acknowledged_at timestamptz,
+  acknowledged_name text,
+  signature_url text,
+
+  CONSTRAINT custody_period_valid CHECK (checked_in_at IS NULL OR checked_in_at >= checked_out_at),
+  CONSTRAINT acknowledgement_complete CHECK (
+    acknowledged_at IS NULL OR length(trim(coalesce(acknowledged_name, ''))) > 0
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_custody_asset_id ON asset_custody(asset_id, checked_out_at DESC);
+CREATE INDEX IF NOT EXISTS idx_asset_custody_user_id ON asset_custody(org_id, user_id, checked_out_at);
+
+-- An asset has at most one holder at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_asset_custody_open
+  ON asset_custody(asset_id)
+  WHERE checked_in_at IS NULL;
+
+INSERT INTO asset_custody (org_id, asset_id, user_id)
+SELECT org_id, id, assigned_user_id
+FROM assets
+WHERE assigned_user_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION track_asset_custody()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.assigned_user_id IS NOT DISTINCT FROM OLD.assigned_user_id THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE asset_custody
+  SET checked_in_at = now(),
+      checked_in_by = auth.jwt() ->> 'user_id'
+  WHERE asset_id = NEW.id
+    AND checked_in_at IS NULL;
+
+  IF NEW.assigned_user_id IS NOT NULL THEN
+    INSERT INTO asset_custody (org_id, asset_id, user_id, checked_out_by)
+    VALUES (NEW.org_id, NEW.id, NEW.assigned_user_id, auth.jwt() ->> 'user_id');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS custody_tracked ON assets;
+CREATE TRIGGER custody_tracked
+  AFTER INSERT OR UPDATE OF assigned_user_id ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION track_asset_custody();
+
+CREATE OR REPLACE FUNCTION acknowledge_custody(
+  p_custody_id uuid,
+  p_name text,
+  p_signature_url text DEFAULT NULL
+)
+RETURNS asset_custody
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target asset_custody%ROWTYPE;
+  acknowledged asset_custody%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM asset_custody
+  WHERE id = p_custody_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Custody record not found';
+  END IF;
+
+  IF target.user_id IS DISTINCT FROM (auth.jwt() ->> 'user_id') THEN
+    RAISE EXCEPTION 'Only the holder can acknowledge receipt';
+  END IF;
+
+  IF target.checked_in_at IS NOT NULL THEN
+    RAISE EXCEPTION 'This asset has already been checked in';
+  END IF;
+
+  IF target.acknowledged_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Receipt has already been acknowledged';
+  END IF;
+
+  IF nullif(trim(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Type your name to acknowledge receipt';
+  END IF;
+
+  UPDATE asset_custody
+  SET acknowledged_at = now(),
+      acknowledged_name = trim(p_name),
+      signature_url = p_signature_url
+  WHERE id = target.id
+  RETURNING * INTO acknowledged;
+
+  RETURN acknowledged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION acknowledge_custody(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION acknowledge_custody(uuid, text, text) TO authenticated, service_role;
+
+-- Enable Row Level Security
+ALTER TABLE asset_custody ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view custody in their organization"
+  ON asset_custody
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+-- Holders keep seeing their records after the asset has moved on
+CREATE POLICY "Users can view their own custody"
+  ON asset_custody
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    user_id = (auth.jwt() ->> 'user_id')
+  );
+
+CREATE POLICY "Supervisors can view their crew's custody"
+  ON asset_custody
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    supervises_user(user_id)
+  );
+
+CREATE POLICY "Service role can manage all asset custody"
+  ON asset_custody
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,28 @@
+/*
+  # Thermal label settings
+
+  Tool cribs print asset labels on Zebra thermal printers. Each organization keeps
+  its own label layout, and the address of the local print bridge that forwards raw
+  ZPL to the crib's printer.
+
+  1. Changes to `org_settings`
+    - `zpl_label_layout`: Label size, printer resolution, QR code content and position,
+      and the text fields printed, top to bottom; null uses the app's default layout
+    - `print_bridge_url`: Base URL of the print bridge, e.g. `http://localhost:9101`;
+      null hides "Send to Printer"
+
+  2. Security
+    - Unchanged: everyone in an organization can view its settings, admins manage them
+*/
+
+ALTER TABLE org_settings
+  ADD COLUMN IF NOT EXISTS zpl_label_layout jsonb,
+  ADD COLUMN IF NOT EXISTS print_bridge_url text;
+
+ALTER TABLE org_settings
+  ADD CONSTRAINT valid_zpl_label_layout CHECK (
+    zpl_label_layout IS NULL OR jsonb_typeof(zpl_label_layout) = 'object'
+  ),
+  ADD CONSTRAINT valid_print_bridge_url CHECK (
+    print_bridge_url IS NULL OR print_bridge_url ~ '^https?://'
+  );
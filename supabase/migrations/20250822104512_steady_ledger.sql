@@ -0,0 +1,105 @@
+/*
+  # Unique serial numbers per organization
+
+  Serial numbers were never unique, and imports invented random `SN-` serials for
+  rows without one, so organizations hold records whose serials differ only by case
+  or whitespace. Serials are now compared in a normalized form and must be unique
+  within an organization. Existing duplicates are flagged rather than changed, so an
+  admin can review and merge them.
+
+  1. Functions
+    - `normalize_serial_number`: Uppercases a serial and drops all whitespace, so
+      `gl 0012` and `GL0012` compare equal
+
+  2. Changes to `assets`
+    - `serial_number_key`: Normalized serial, generated from `serial_number`
+    - `serial_conflict`: Set on records that shared a normalized serial with an older
+      record when this migration ran; cleared when the serial is changed
+    - Serials are trimmed and may not be blank
+    - Unique index on `(org_id, serial_number_key)` for unflagged records
+
+  3. Triggers
+    - `serial_number_normalized`: Trims the serial and rejects a collision with a
+      readable message before the unique index does
+*/
+
+CREATE OR REPLACE FUNCTION normalize_serial_number(p_serial_number text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT upper(regexp_replace(p_serial_number, '\s', '', 'g'));
+$$;
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS serial_number_key text
+    GENERATED ALWAYS AS (normalize_serial_number(serial_number)) STORED,
+  ADD COLUMN IF NOT EXISTS serial_conflict boolean NOT NULL DEFAULT false;
+
+UPDATE assets
+SET serial_number = btrim(serial_number)
+WHERE serial_number <> btrim(serial_number);
+
+-- Keep the oldest record of each duplicate group unflagged
+UPDATE assets
+SET serial_conflict = true
+FROM (
+  SELECT id,
+    row_number() OVER (
+      PARTITION BY org_id, serial_number_key
+      ORDER BY created_at, id
+    ) AS position
+  FROM assets
+) ranked
+WHERE assets.id = ranked.id
+  AND ranked.position > 1;
+
+ALTER TABLE assets
+  ADD CONSTRAINT serial_number_present CHECK (serial_number_key <> '');
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_assets_org_serial_number_key
+  ON assets(org_id, serial_number_key)
+  WHERE NOT serial_conflict;
+
+CREATE OR REPLACE FUNCTION normalize_asset_serial_number()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_existing text;
+BEGIN
+  NEW.serial_number := btrim(NEW.serial_number);
+
+  IF TG_OP = 'UPDATE' THEN
+    IF normalize_serial_number(NEW.serial_number) IS NOT DISTINCT FROM OLD.serial_number_key THEN
+      RETURN NEW;
+    END IF;
+
+    -- A flagged duplicate given a serial of its own is no longer a duplicate
+    NEW.serial_conflict := false;
+  END IF;
+
+  -- Looked up across the whole organization, not just what the caller may see
+  SELECT serial_number INTO v_existing
+  FROM assets
+  WHERE org_id = NEW.org_id
+    AND serial_number_key = normalize_serial_number(NEW.serial_number)
+    AND id <> NEW.id
+    AND NOT serial_conflict
+  LIMIT 1;
+
+  IF v_existing IS NOT NULL THEN
+    RAISE EXCEPTION 'Serial number % is already used by asset %', NEW.serial_number, v_existing
+      USING ERRCODE = 'unique_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS serial_number_normalized ON assets;
+CREATE TRIGGER serial_number_normalized
+  BEFORE INSERT OR UPDATE OF serial_number ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION normalize_asset_serial_number();
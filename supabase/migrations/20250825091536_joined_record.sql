@@ -0,0 +1,230 @@
+/*
+  # Merging duplicate asset records
+
+  Duplicate records flagged by `serial_conflict` could only be cleaned up by deleting
+  one of them, which cascaded away its certificates, test history and inspections. Two
+  records of the same asset can now be merged: everything recorded against the duplicate
+  moves to the record being kept, the admin picks which field values win, and the merge
+  is audited.
+
+  1. New Tables
+    - `asset_merges`: One row per merge, with both records as they were beforehand, the
+      fields taken from the duplicate and how many related records were moved
+
+  2. Functions
+    - `merge_assets(survivor_id, duplicate_id, fields)`: Re-points certificates,
+      certifications, inspections, status transitions, movements and custody from the
+      duplicate to the survivor, copies the chosen fields, then deletes the duplicate
+      - `fields` names the values taken from the duplicate: `serial_number`,
+        `asset_class`, `issue_date`, `glove_size`, `glove_color`, `attributes` and
+        `placement` (holder, location and kit together); the rest stay as they are
+      - Both records must share a serial number and asset type
+      - A failed or retired record can be kept but not merged into one still in service
+      - The duplicate's open custody is checked in; its glove pair moves to the survivor
+        if the survivor is unpaired, otherwise it is dissolved
+      - Certification dates follow the combined history
+
+  3. Security
+    - Enable RLS on `asset_merges`
+    - Admins view merges in their organization; rows are written only by `merge_assets`
+*/
+
+CREATE TABLE IF NOT EXISTS asset_merges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  survivor_id uuid REFERENCES assets(id) ON DELETE SET NULL,
+  merged_asset_id uuid NOT NULL,
+  serial_number text NOT NULL,
+  fields text[] NOT NULL DEFAULT '{}',
+  survivor_before jsonb NOT NULL,
+  merged_before jsonb NOT NULL,
+  moved_records jsonb NOT NULL DEFAULT '{}',
+  merged_by text,
+  merged_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_asset_merges_org_id ON asset_merges(org_id, merged_at DESC);
+CREATE INDEX IF NOT EXISTS idx_asset_merges_survivor_id ON asset_merges(survivor_id);
+
+CREATE OR REPLACE FUNCTION merge_assets(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_fields text[] DEFAULT '{}'
+)
+RETURNS assets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  survivor assets%ROWTYPE;
+  duplicate assets%ROWTYPE;
+  merged assets%ROWTYPE;
+  unknown_field text;
+  moved jsonb := '{}';
+  moved_count integer;
+BEGIN
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can merge assets';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'An asset cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor
+  FROM assets
+  WHERE id = p_survivor_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  SELECT * INTO duplicate
+  FROM assets
+  WHERE id = p_duplicate_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF survivor.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  SELECT field INTO unknown_field
+  FROM unnest(coalesce(p_fields, '{}')) AS field
+  WHERE field <> ALL(ARRAY['serial_number', 'asset_class', 'issue_date', 'glove_size', 'glove_color', 'attributes', 'placement'])
+  LIMIT 1;
+
+  IF unknown_field IS NOT NULL THEN
+    RAISE EXCEPTION 'Field % cannot be merged', unknown_field;
+  END IF;
+
+  IF survivor.serial_number_key IS DISTINCT FROM duplicate.serial_number_key THEN
+    RAISE EXCEPTION 'Only records with the same serial number can be merged';
+  END IF;
+
+  IF survivor.asset_type <> duplicate.asset_type THEN
+    RAISE EXCEPTION 'Only records of the same asset type can be merged';
+  END IF;
+
+  IF duplicate.status IN ('failed', 'retired') AND survivor.status NOT IN ('failed', 'retired') THEN
+    RAISE EXCEPTION 'Asset % is %; keep that record and merge the other into it',
+      duplicate.serial_number, lower(asset_status_label(duplicate.status));
+  END IF;
+
+  -- Only one holder at a time: the survivor's custody carries on
+  UPDATE asset_custody
+  SET checked_in_at = now(),
+      checked_in_by = auth.jwt() ->> 'user_id'
+  WHERE asset_id = duplicate.id
+    AND checked_in_at IS NULL;
+
+  UPDATE certification_documents SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('certification_documents', moved_count);
+
+  -- Each moved row re-syncs the survivor's certification dates
+  UPDATE certifications SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('certifications', moved_count);
+
+  UPDATE inspections SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('inspections', moved_count);
+
+  UPDATE asset_status_transitions SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_status_transitions', moved_count);
+
+  UPDATE asset_movements SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_movements', moved_count);
+
+  UPDATE asset_custody SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_custody', moved_count);
+
+  -- Earlier merges into the duplicate now point at the survivor
+  UPDATE asset_merges SET survivor_id = survivor.id WHERE survivor_id = duplicate.id;
+
+  IF duplicate.pair_id IS NOT NULL AND survivor.pair_id IS NULL THEN
+    UPDATE assets
+    SET pair_id = NULL,
+        hand = NULL
+    WHERE id = duplicate.id;
+
+    UPDATE assets
+    SET pair_id = duplicate.pair_id,
+        hand = duplicate.hand
+    WHERE id = survivor.id;
+  END IF;
+
+  UPDATE assets
+  SET serial_number = CASE WHEN 'serial_number' = ANY(p_fields) THEN duplicate.serial_number ELSE serial_number END,
+      asset_class = CASE WHEN 'asset_class' = ANY(p_fields) THEN duplicate.asset_class ELSE asset_class END,
+      issue_date = CASE WHEN 'issue_date' = ANY(p_fields) THEN duplicate.issue_date ELSE issue_date END,
+      glove_size = CASE WHEN 'glove_size' = ANY(p_fields) THEN duplicate.glove_size ELSE glove_size END,
+      glove_color = CASE WHEN 'glove_color' = ANY(p_fields) THEN duplicate.glove_color ELSE glove_color END,
+      attributes = CASE WHEN 'attributes' = ANY(p_fields) THEN duplicate.attributes ELSE attributes END
+  WHERE id = survivor.id;
+
+  IF 'placement' = ANY(p_fields) THEN
+    UPDATE assets
+    SET assigned_user_id = duplicate.assigned_user_id,
+        location_id = duplicate.location_id,
+        kit_id = duplicate.kit_id
+    WHERE id = survivor.id
+      AND (
+        assigned_user_id IS DISTINCT FROM duplicate.assigned_user_id OR
+        location_id IS DISTINCT FROM duplicate.location_id OR
+        kit_id IS DISTINCT FROM duplicate.kit_id
+      );
+  END IF;
+
+  DELETE FROM assets WHERE id = duplicate.id;
+
+  -- The survivor stays flagged only while another unflagged record holds the serial
+  UPDATE assets
+  SET serial_conflict = EXISTS (
+    SELECT 1 FROM assets other
+    WHERE other.org_id = survivor.org_id
+      AND other.serial_number_key = survivor.serial_number_key
+      AND other.id <> survivor.id
+      AND NOT other.serial_conflict
+  )
+  WHERE id = survivor.id
+    AND serial_conflict;
+
+  INSERT INTO asset_merges (
+    org_id, survivor_id, merged_asset_id, serial_number, fields,
+    survivor_before, merged_before, moved_records, merged_by
+  )
+  VALUES (
+    survivor.org_id, survivor.id, duplicate.id, duplicate.serial_number, coalesce(p_fields, '{}'),
+    to_jsonb(survivor), to_jsonb(duplicate), moved, auth.jwt() ->> 'user_id'
+  );
+
+  SELECT * INTO merged FROM assets WHERE id = survivor.id;
+
+  RETURN merged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_assets(uuid, uuid, text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_assets(uuid, uuid, text[]) TO authenticated, service_role;
+
+-- Enable Row Level Security
+ALTER TABLE asset_merges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view merges in their organization"
+  ON asset_merges
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all asset merges"
+  ON asset_merges
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,64 @@
+/*
+  # Minimum stock levels for spare gloves
+
+  Admins had no way to tell they were running low on spare gloves until a lineman
+  needed a pair that was not on the shelf. Each organization can now set the number of
+  spare gloves it wants on hand for every class and size; the app compares it with the
+  unassigned, in-service gloves it holds and the gloves on their way back from the lab.
+
+  1. New Tables
+    - `stock_minimums`: Minimum number of spare gloves on hand per class and size,
+      per organization (classes and sizes without a row are not tracked)
+
+  2. Security
+    - Enable RLS on `stock_minimums`
+    - Organization members can read minimums, only admins can manage them
+*/
+
+CREATE TABLE IF NOT EXISTS stock_minimums (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  asset_class text NOT NULL,
+  glove_size text NOT NULL,
+  minimum_on_hand integer NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_stock_asset_class CHECK (asset_class = ANY(ARRAY['Class 0', 'Class 00', 'Class 1', 'Class 2', 'Class 3', 'Class 4'])),
+  CONSTRAINT valid_stock_glove_size CHECK (glove_size = ANY(ARRAY['7', '8', '9', '10', '11', '12'])),
+  CONSTRAINT valid_minimum_on_hand CHECK (minimum_on_hand BETWEEN 1 AND 999),
+  CONSTRAINT unique_stock_minimum_per_class_and_size UNIQUE (org_id, asset_class, glove_size)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_minimums_org_id ON stock_minimums(org_id);
+
+-- Enable Row Level Security
+ALTER TABLE stock_minimums ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view stock minimums in their organization"
+  ON stock_minimums
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Admins can manage stock minimums in their organization"
+  ON stock_minimums
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all stock minimums"
+  ON stock_minimums
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
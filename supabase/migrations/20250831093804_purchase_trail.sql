@@ -0,0 +1,306 @@
+/*
+  # Procurement records
+
+  An asset row said nothing about where it came from, so a defect could not be traced
+  back to the batch it was made in and nobody could report what the equipment cost.
+  Assets now carry their manufacturer, model, lot, vendor, purchase order and unit
+  cost, and each organization keeps a catalog of the manufacturers and vendors it
+  buys from.
+
+  1. New Tables
+    - `suppliers`: Manufacturers and vendors an organization buys from
+      - `supplier_type`: `manufacturer` or `vendor`; a company that both makes and
+        sells equipment is listed once as each
+
+  2. Changes to `assets`
+    - `manufacturer_id`: Supplier that made the asset
+    - `model`: Manufacturer's model or catalog number
+    - `lot_number`: Manufacturing lot or batch, as printed on the asset
+    - `vendor_id`: Supplier the asset was bought from
+    - `purchase_order`: Purchase order number
+    - `unit_cost`: Price paid for the asset
+
+  3. Functions & Triggers
+    - `check_asset_suppliers`: The manufacturer and vendor must be suppliers of the
+      asset's organization listed as such
+    - `merge_assets(...)`: The procurement fields can be taken from the duplicate; any the
+      survivor lacks are taken from it regardless, so the merge does not lose them
+
+  4. Security
+    - Enable RLS on `suppliers`
+    - Organization members can read the catalog, only admins can manage it
+*/
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  name text NOT NULL,
+  supplier_type text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_supplier_type CHECK (supplier_type IN ('manufacturer', 'vendor')),
+  CONSTRAINT supplier_name_not_blank CHECK (length(trim(name)) > 0),
+  CONSTRAINT unique_supplier_name_per_org UNIQUE (org_id, supplier_type, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_suppliers_org_id ON suppliers(org_id);
+
+-- A supplier named on an asset cannot be deleted; the purchase trail must stay intact
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS manufacturer_id uuid REFERENCES suppliers(id),
+  ADD COLUMN IF NOT EXISTS model text,
+  ADD COLUMN IF NOT EXISTS lot_number text,
+  ADD COLUMN IF NOT EXISTS vendor_id uuid REFERENCES suppliers(id),
+  ADD COLUMN IF NOT EXISTS purchase_order text,
+  ADD COLUMN IF NOT EXISTS unit_cost numeric(10, 2);
+
+ALTER TABLE assets
+  ADD CONSTRAINT valid_unit_cost CHECK (unit_cost IS NULL OR unit_cost >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_assets_manufacturer_id ON assets(manufacturer_id);
+CREATE INDEX IF NOT EXISTS idx_assets_vendor_id ON assets(vendor_id);
+-- Defect tracing looks up every asset of a lot
+CREATE INDEX IF NOT EXISTS idx_assets_lot_number ON assets(org_id, lot_number);
+
+CREATE OR REPLACE FUNCTION check_asset_suppliers()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.manufacturer_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM suppliers
+    WHERE id = NEW.manufacturer_id
+      AND org_id = NEW.org_id
+      AND supplier_type = 'manufacturer'
+  ) THEN
+    RAISE EXCEPTION 'Manufacturer not found';
+  END IF;
+
+  IF NEW.vendor_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1
+    FROM suppliers
+    WHERE id = NEW.vendor_id
+      AND org_id = NEW.org_id
+      AND supplier_type = 'vendor'
+  ) THEN
+    RAISE EXCEPTION 'Vendor not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS suppliers_checked ON assets;
+CREATE TRIGGER suppliers_checked
+  BEFORE INSERT OR UPDATE OF manufacturer_id, vendor_id ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION check_asset_suppliers();
+
+-- merge_assets from 20250825091536_joined_record.sql, also merging the procurement fields
+CREATE OR REPLACE FUNCTION merge_assets(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_fields text[] DEFAULT '{}'
+)
+RETURNS assets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  survivor assets%ROWTYPE;
+  duplicate assets%ROWTYPE;
+  merged assets%ROWTYPE;
+  unknown_field text;
+  moved jsonb := '{}';
+  moved_count integer;
+BEGIN
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can merge assets';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'An asset cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor
+  FROM assets
+  WHERE id = p_survivor_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  SELECT * INTO duplicate
+  FROM assets
+  WHERE id = p_duplicate_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF survivor.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  SELECT field INTO unknown_field
+  FROM unnest(coalesce(p_fields, '{}')) AS field
+  WHERE field <> ALL(ARRAY[
+    'serial_number', 'asset_class', 'issue_date', 'glove_size', 'glove_color', 'attributes', 'placement',
+    'manufacturer_id', 'model', 'lot_number', 'vendor_id', 'purchase_order', 'unit_cost'
+  ])
+  LIMIT 1;
+
+  IF unknown_field IS NOT NULL THEN
+    RAISE EXCEPTION 'Field % cannot be merged', unknown_field;
+  END IF;
+
+  IF survivor.serial_number_key IS DISTINCT FROM duplicate.serial_number_key THEN
+    RAISE EXCEPTION 'Only records with the same serial number can be merged';
+  END IF;
+
+  IF survivor.asset_type <> duplicate.asset_type THEN
+    RAISE EXCEPTION 'Only records of the same asset type can be merged';
+  END IF;
+
+  IF duplicate.status IN ('failed', 'retired') AND survivor.status NOT IN ('failed', 'retired') THEN
+    RAISE EXCEPTION 'Asset % is %; keep that record and merge the other into it',
+      duplicate.serial_number, lower(asset_status_label(duplicate.status));
+  END IF;
+
+  -- Only one holder at a time: the survivor's custody carries on
+  UPDATE asset_custody
+  SET checked_in_at = now(),
+      checked_in_by = auth.jwt() ->> 'user_id'
+  WHERE asset_id = duplicate.id
+    AND checked_in_at IS NULL;
+
+  UPDATE certification_documents SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('certification_documents', moved_count);
+
+  -- Each moved row re-syncs the survivor's certification dates
+  UPDATE certifications SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('certifications', moved_count);
+
+  UPDATE inspections SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('inspections', moved_count);
+
+  UPDATE asset_status_transitions SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_status_transitions', moved_count);
+
+  UPDATE asset_movements SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_movements', moved_count);
+
+  UPDATE asset_custody SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_custody', moved_count);
+
+  -- Earlier merges into the duplicate now point at the survivor
+  UPDATE asset_merges SET survivor_id = survivor.id WHERE survivor_id = duplicate.id;
+
+  IF duplicate.pair_id IS NOT NULL AND survivor.pair_id IS NULL THEN
+    UPDATE assets
+    SET pair_id = NULL,
+        hand = NULL
+    WHERE id = duplicate.id;
+
+    UPDATE assets
+    SET pair_id = duplicate.pair_id,
+        hand = duplicate.hand
+    WHERE id = survivor.id;
+  END IF;
+
+  UPDATE assets
+  SET serial_number = CASE WHEN 'serial_number' = ANY(p_fields) THEN duplicate.serial_number ELSE serial_number END,
+      asset_class = CASE WHEN 'asset_class' = ANY(p_fields) THEN duplicate.asset_class ELSE asset_class END,
+      issue_date = CASE WHEN 'issue_date' = ANY(p_fields) THEN duplicate.issue_date ELSE issue_date END,
+      glove_size = CASE WHEN 'glove_size' = ANY(p_fields) THEN duplicate.glove_size ELSE glove_size END,
+      glove_color = CASE WHEN 'glove_color' = ANY(p_fields) THEN duplicate.glove_color ELSE glove_color END,
+      attributes = CASE WHEN 'attributes' = ANY(p_fields) THEN duplicate.attributes ELSE attributes END,
+      -- Provenance the survivor lacks comes from the duplicate, so lot recalls still find the asset
+      manufacturer_id = CASE WHEN 'manufacturer_id' = ANY(p_fields) THEN duplicate.manufacturer_id ELSE coalesce(manufacturer_id, duplicate.manufacturer_id) END,
+      model = CASE WHEN 'model' = ANY(p_fields) THEN duplicate.model ELSE coalesce(model, duplicate.model) END,
+      lot_number = CASE WHEN 'lot_number' = ANY(p_fields) THEN duplicate.lot_number ELSE coalesce(lot_number, duplicate.lot_number) END,
+      vendor_id = CASE WHEN 'vendor_id' = ANY(p_fields) THEN duplicate.vendor_id ELSE coalesce(vendor_id, duplicate.vendor_id) END,
+      purchase_order = CASE WHEN 'purchase_order' = ANY(p_fields) THEN duplicate.purchase_order ELSE coalesce(purchase_order, duplicate.purchase_order) END,
+      unit_cost = CASE WHEN 'unit_cost' = ANY(p_fields) THEN duplicate.unit_cost ELSE coalesce(unit_cost, duplicate.unit_cost) END
+  WHERE id = survivor.id;
+
+  IF 'placement' = ANY(p_fields) THEN
+    UPDATE assets
+    SET assigned_user_id = duplicate.assigned_user_id,
+        location_id = duplicate.location_id,
+        kit_id = duplicate.kit_id
+    WHERE id = survivor.id
+      AND (
+        assigned_user_id IS DISTINCT FROM duplicate.assigned_user_id OR
+        location_id IS DISTINCT FROM duplicate.location_id OR
+        kit_id IS DISTINCT FROM duplicate.kit_id
+      );
+  END IF;
+
+  DELETE FROM assets WHERE id = duplicate.id;
+
+  -- The survivor stays flagged only while another unflagged record holds the serial
+  UPDATE assets
+  SET serial_conflict = EXISTS (
+    SELECT 1 FROM assets other
+    WHERE other.org_id = survivor.org_id
+      AND other.serial_number_key = survivor.serial_number_key
+      AND other.id <> survivor.id
+      AND NOT other.serial_conflict
+  )
+  WHERE id = survivor.id
+    AND serial_conflict;
+
+  INSERT INTO asset_merges (
+    org_id, survivor_id, merged_asset_id, serial_number, fields,
+    survivor_before, merged_before, moved_records, merged_by
+  )
+  VALUES (
+    survivor.org_id, survivor.id, duplicate.id, duplicate.serial_number, coalesce(p_fields, '{}'),
+    to_jsonb(survivor), to_jsonb(duplicate), moved, auth.jwt() ->> 'user_id'
+  );
+
+  SELECT * INTO merged FROM assets WHERE id = survivor.id;
+
+  RETURN merged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_assets(uuid, uuid, text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_assets(uuid, uuid, text[]) TO authenticated, service_role;
+
+-- Enable Row Level Security
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view suppliers in their organization"
+  ON suppliers
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Admins can manage suppliers in their organization"
+  ON suppliers
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all suppliers"
+  ON suppliers
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,701 @@
+/*
+  # Manufacturer lot recalls
+
+  When a manufacturer recalled a production lot there was no way to find the affected
+  equipment other than reading serials off a spreadsheet. Admins now enter the recall
+  notice against a manufacturer and a lot range; every matching asset is pulled out of
+  service into the new `quarantined` status, its holder is notified, and the recall stays
+  open until each affected asset has been cleared or removed from service.
+
+  1. Transition graph
+    - New status `quarantined`, reachable from every in-service status and `in-testing`
+    - A quarantined asset goes back to a date-driven status when the recall clears it, or
+      to `failed` when it is removed from service
+
+  2. New Tables
+    - `recalls`: Recall notices; `lot_to` is unset for a single lot
+    - `recall_assets`: Assets matched by a recall and how each was resolved
+      - `status_before`: Status the asset had when it was quarantined
+      - `resolution`: `cleared` (back in service) or `removed` (failed); unset while open
+    - `notifications`: Messages for one user about one of their assets
+
+  3. Changes to `defect_codes`
+    - Built-in `manufacturer-recall` code for assets removed from service by a recall
+
+  4. Functions & Triggers
+    - `lot_in_range(lot, from, to)`: Whether a lot number falls in a recall's range,
+      mirrored in `src/utils/recallUtils.ts`. Numeric lots compare as numbers; other lots
+      compare character by character and only match bounds of the same length
+    - `issue_recall(...)`: Records the notice, quarantines the matching assets, logs their
+      transitions with source `recall` and notifies whoever holds them
+    - `resolve_recalled_asset(...)`: Clears an asset (it returns to service once no other
+      open recall holds it) or removes it from service under `manufacturer-recall`
+    - `resolve_recall_on_status_change`: An asset leaving quarantine any other way, e.g.
+      failed from its page, resolves its open recall entries
+    - `keep_quarantined_assets_unissued`: A quarantined asset cannot be issued to a person
+    - `keep_recalled_assets`: An asset with an open recall cannot be deleted or merged
+      away, so the recall cannot lose track of it
+    - `merge_assets(...)`: Also moves the duplicate's resolved recall entries and its
+      notifications to the survivor, which would otherwise be deleted with it
+    - `mark_notifications_read(ids)`: Marks the caller's own notifications as read
+
+  5. Security
+    - Enable RLS on `recalls`, `recall_assets` and `notifications`
+    - Organization members can view recalls, written only through the functions above
+    - Users can view their own notifications
+*/
+
+ALTER TABLE assets DROP CONSTRAINT IF EXISTS valid_status;
+ALTER TABLE assets
+  ADD CONSTRAINT valid_status CHECK (
+    status = ANY(ARRAY['active', 'near-due', 'expired', 'in-testing', 'quarantined', 'failed', 'retired'])
+  );
+
+-- Lifecycle graph from 20250727143052_cold_furnace.sql, extended with `quarantined`
+CREATE OR REPLACE FUNCTION asset_status_label(p_status text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_status
+    WHEN 'active' THEN 'Active'
+    WHEN 'near-due' THEN 'Due Soon'
+    WHEN 'expired' THEN 'Expired'
+    WHEN 'failed' THEN 'Failed'
+    WHEN 'in-testing' THEN 'In Testing'
+    WHEN 'quarantined' THEN 'Quarantined'
+    WHEN 'retired' THEN 'Retired'
+    ELSE p_status
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION is_valid_asset_status_transition(p_from text, p_to text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_from = p_to OR CASE p_from
+    WHEN 'active' THEN p_to = ANY(ARRAY['near-due', 'expired', 'in-testing', 'quarantined', 'failed'])
+    WHEN 'near-due' THEN p_to = ANY(ARRAY['active', 'expired', 'in-testing', 'quarantined', 'failed'])
+    WHEN 'expired' THEN p_to = ANY(ARRAY['active', 'near-due', 'in-testing', 'quarantined', 'failed'])
+    WHEN 'in-testing' THEN p_to = ANY(ARRAY['active', 'near-due', 'expired', 'quarantined', 'failed'])
+    WHEN 'quarantined' THEN p_to = ANY(ARRAY['active', 'near-due', 'expired', 'failed'])
+    WHEN 'failed' THEN p_to = 'retired'
+    ELSE false
+  END;
+$$;
+
+INSERT INTO defect_codes (org_id, code, label)
+SELECT NULL, 'manufacturer-recall', 'Manufacturer recall'
+WHERE NOT EXISTS (
+  SELECT 1 FROM defect_codes WHERE org_id IS NULL AND code = 'manufacturer-recall'
+);
+
+CREATE TABLE IF NOT EXISTS recalls (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  manufacturer_id uuid NOT NULL REFERENCES suppliers(id),
+  lot_from text NOT NULL,
+  lot_to text,
+  reference text NOT NULL,
+  description text,
+  issued_by text,
+  issued_at timestamptz DEFAULT now(),
+
+  CONSTRAINT recall_lot_not_blank CHECK (length(trim(lot_from)) > 0),
+  CONSTRAINT recall_reference_not_blank CHECK (length(trim(reference)) > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recalls_org_id ON recalls(org_id, issued_at DESC);
+
+CREATE TABLE IF NOT EXISTS recall_assets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  recall_id uuid NOT NULL REFERENCES recalls(id) ON DELETE CASCADE,
+  asset_id uuid NOT NULL REFERENCES assets(id) ON DELETE CASCADE,
+  status_before text NOT NULL,
+  resolution text,
+  resolved_at timestamptz,
+  resolved_by text,
+  notes text,
+
+  CONSTRAINT valid_recall_resolution CHECK (resolution IS NULL OR resolution IN ('cleared', 'removed')),
+  CONSTRAINT resolved_recall_assets_have_date CHECK ((resolution IS NULL) = (resolved_at IS NULL)),
+  CONSTRAINT unique_asset_per_recall UNIQUE (recall_id, asset_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_recall_assets_org_id ON recall_assets(org_id);
+CREATE INDEX IF NOT EXISTS idx_recall_assets_asset_id ON recall_assets(asset_id);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  user_id text NOT NULL,
+  asset_id uuid REFERENCES assets(id) ON DELETE CASCADE,
+  message text NOT NULL,
+  notification_type text NOT NULL DEFAULT 'info',
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_notification_type CHECK (notification_type IN ('warning', 'urgent', 'info'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id ON notifications(org_id, user_id, created_at DESC);
+
+-- Mirror of isLotInRange in src/utils/recallUtils.ts
+CREATE OR REPLACE FUNCTION lot_in_range(p_lot text, p_lot_from text, p_lot_to text DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  WITH lots AS (
+    SELECT
+      upper(trim(p_lot)) AS lot,
+      upper(trim(p_lot_from)) AS lot_from,
+      upper(trim(coalesce(nullif(trim(p_lot_to), ''), p_lot_from))) AS lot_to
+  )
+  SELECT coalesce(CASE
+    WHEN lot = '' THEN false
+    WHEN lot ~ '^[0-9]+$' AND lot_from ~ '^[0-9]+$' AND lot_to ~ '^[0-9]+$'
+      THEN lot::numeric BETWEEN lot_from::numeric AND lot_to::numeric
+    ELSE length(lot) = length(lot_from) AND length(lot) = length(lot_to)
+      AND lot COLLATE "C" >= lot_from COLLATE "C"
+      AND lot COLLATE "C" <= lot_to COLLATE "C"
+  END, false)
+  FROM lots;
+$$;
+
+CREATE OR REPLACE FUNCTION issue_recall(
+  p_manufacturer_id uuid,
+  p_lot_from text,
+  p_lot_to text DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_description text DEFAULT NULL
+)
+RETURNS recalls
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  manufacturer suppliers%ROWTYPE;
+  recall recalls%ROWTYPE;
+BEGIN
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can issue recalls';
+  END IF;
+
+  SELECT * INTO manufacturer
+  FROM suppliers
+  WHERE id = p_manufacturer_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+    AND supplier_type = 'manufacturer';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Manufacturer not found';
+  END IF;
+
+  IF nullif(trim(p_lot_from), '') IS NULL THEN
+    RAISE EXCEPTION 'A lot number is required';
+  END IF;
+
+  IF nullif(trim(p_reference), '') IS NULL THEN
+    RAISE EXCEPTION 'The recall notice reference is required';
+  END IF;
+
+  IF nullif(trim(p_lot_to), '') IS NOT NULL AND NOT lot_in_range(p_lot_from, p_lot_from, p_lot_to) THEN
+    RAISE EXCEPTION 'Lots % to % do not form a range', trim(p_lot_from), trim(p_lot_to);
+  END IF;
+
+  INSERT INTO recalls (org_id, manufacturer_id, lot_from, lot_to, reference, description, issued_by)
+  VALUES (
+    manufacturer.org_id,
+    manufacturer.id,
+    trim(p_lot_from),
+    nullif(trim(p_lot_to), ''),
+    trim(p_reference),
+    nullif(trim(p_description), ''),
+    auth.jwt() ->> 'user_id'
+  )
+  RETURNING * INTO recall;
+
+  -- Failed and retired assets are already out of service
+  INSERT INTO recall_assets (org_id, recall_id, asset_id, status_before)
+  SELECT org_id, recall.id, id, status
+  FROM assets
+  WHERE org_id = recall.org_id
+    AND manufacturer_id = recall.manufacturer_id
+    AND lot_in_range(lot_number, recall.lot_from, recall.lot_to)
+    AND status NOT IN ('failed', 'retired');
+
+  UPDATE assets
+  SET status = 'quarantined'
+  FROM recall_assets
+  WHERE recall_assets.recall_id = recall.id
+    AND assets.id = recall_assets.asset_id
+    AND assets.status <> 'quarantined';
+
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  SELECT org_id, asset_id, status_before, 'quarantined', 'recall'
+  FROM recall_assets
+  WHERE recall_id = recall.id
+    AND status_before <> 'quarantined';
+
+  INSERT INTO notifications (org_id, user_id, asset_id, message, notification_type)
+  SELECT
+    assets.org_id,
+    assets.assigned_user_id,
+    assets.id,
+    format(
+      '%s recalled lot %s (%s). Stop using %s and hand it in.',
+      manufacturer.name, assets.lot_number, recall.reference, assets.serial_number
+    ),
+    'urgent'
+  FROM recall_assets
+  JOIN assets ON assets.id = recall_assets.asset_id
+  WHERE recall_assets.recall_id = recall.id
+    AND assets.assigned_user_id IS NOT NULL;
+
+  RETURN recall;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_recall(uuid, text, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION issue_recall(uuid, text, text, text, text) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION resolve_recalled_asset(
+  p_recall_asset_id uuid,
+  p_resolution text,
+  p_notes text DEFAULT NULL
+)
+RETURNS assets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  entry recall_assets%ROWTYPE;
+  recall recalls%ROWTYPE;
+  target assets%ROWTYPE;
+  new_status text;
+BEGIN
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can resolve recalled assets';
+  END IF;
+
+  SELECT * INTO entry
+  FROM recall_assets
+  WHERE id = p_recall_asset_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Recalled asset not found';
+  END IF;
+
+  IF entry.resolution IS NOT NULL THEN
+    RAISE EXCEPTION 'This asset has already been resolved';
+  END IF;
+
+  IF p_resolution NOT IN ('cleared', 'removed') THEN
+    RAISE EXCEPTION 'Resolution must be cleared or removed';
+  END IF;
+
+  SELECT * INTO recall FROM recalls WHERE id = entry.recall_id;
+
+  SELECT * INTO target
+  FROM assets
+  WHERE id = entry.asset_id
+  FOR UPDATE;
+
+  -- Resolve this entry first so the status trigger only touches other recalls
+  UPDATE recall_assets
+  SET resolution = p_resolution,
+      resolved_at = now(),
+      resolved_by = auth.jwt() ->> 'user_id',
+      notes = nullif(trim(p_notes), '')
+  WHERE id = entry.id;
+
+  IF target.status <> 'quarantined' THEN
+    RETURN target;
+  END IF;
+
+  IF p_resolution = 'removed' THEN
+    new_status := 'failed';
+
+    UPDATE assets
+    SET status = new_status,
+        failure_date = current_date,
+        failure_defect_code = 'manufacturer-recall',
+        failure_location = NULL,
+        failure_notes = format('%s, lot %s', recall.reference, target.lot_number),
+        failure_reported_by = auth.jwt() ->> 'user_id'
+    WHERE id = target.id
+    RETURNING * INTO target;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM recall_assets
+    WHERE asset_id = target.id
+      AND resolution IS NULL
+  ) THEN
+    new_status := calculate_asset_status(target.next_certification_date);
+
+    UPDATE assets
+    SET status = new_status
+    WHERE id = target.id
+    RETURNING * INTO target;
+  ELSE
+    -- Still held by another open recall
+    RETURN target;
+  END IF;
+
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  VALUES (target.org_id, target.id, 'quarantined', new_status, 'recall');
+
+  RETURN target;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION resolve_recalled_asset(uuid, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION resolve_recalled_asset(uuid, text, text) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION resolve_recall_on_status_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  UPDATE recall_assets
+  SET resolution = CASE WHEN NEW.status IN ('failed', 'retired') THEN 'removed' ELSE 'cleared' END,
+      resolved_at = now(),
+      resolved_by = auth.jwt() ->> 'user_id'
+  WHERE asset_id = NEW.id
+    AND resolution IS NULL;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS recall_resolved_on_status_change ON assets;
+CREATE TRIGGER recall_resolved_on_status_change
+  AFTER UPDATE OF status ON assets
+  FOR EACH ROW
+  WHEN (OLD.status = 'quarantined' AND NEW.status <> 'quarantined')
+  EXECUTE FUNCTION resolve_recall_on_status_change();
+
+CREATE OR REPLACE FUNCTION keep_quarantined_assets_unissued()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'quarantined'
+    AND NEW.assigned_user_id IS NOT NULL
+    AND NEW.assigned_user_id IS DISTINCT FROM OLD.assigned_user_id THEN
+    RAISE EXCEPTION 'Asset % is quarantined by a recall and cannot be issued', NEW.serial_number
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after the kit and placement triggers, which may set the assignee
+DROP TRIGGER IF EXISTS quarantined_kept_unissued ON assets;
+CREATE TRIGGER quarantined_kept_unissued
+  BEFORE UPDATE OF assigned_user_id, kit_id, status ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_quarantined_assets_unissued();
+
+CREATE OR REPLACE FUNCTION keep_recalled_assets()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM recall_assets
+    WHERE asset_id = OLD.id
+      AND resolution IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Asset % is quarantined by an open recall; resolve it first', OLD.serial_number;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS recalled_assets_kept ON assets;
+CREATE TRIGGER recalled_assets_kept
+  BEFORE DELETE ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION keep_recalled_assets();
+
+-- merge_assets from 20250831093804_purchase_trail.sql, also moving recall entries and notifications
+CREATE OR REPLACE FUNCTION merge_assets(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_fields text[] DEFAULT '{}'
+)
+RETURNS assets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  survivor assets%ROWTYPE;
+  duplicate assets%ROWTYPE;
+  merged assets%ROWTYPE;
+  unknown_field text;
+  moved jsonb := '{}';
+  moved_count integer;
+BEGIN
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can merge assets';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'An asset cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor
+  FROM assets
+  WHERE id = p_survivor_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  SELECT * INTO duplicate
+  FROM assets
+  WHERE id = p_duplicate_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF survivor.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  SELECT field INTO unknown_field
+  FROM unnest(coalesce(p_fields, '{}')) AS field
+  WHERE field <> ALL(ARRAY[
+    'serial_number', 'asset_class', 'issue_date', 'glove_size', 'glove_color', 'attributes', 'placement',
+    'manufacturer_id', 'model', 'lot_number', 'vendor_id', 'purchase_order', 'unit_cost'
+  ])
+  LIMIT 1;
+
+  IF unknown_field IS NOT NULL THEN
+    RAISE EXCEPTION 'Field % cannot be merged', unknown_field;
+  END IF;
+
+  IF survivor.serial_number_key IS DISTINCT FROM duplicate.serial_number_key THEN
+    RAISE EXCEPTION 'Only records with the same serial number can be merged';
+  END IF;
+
+  IF survivor.asset_type <> duplicate.asset_type THEN
+    RAISE EXCEPTION 'Only records of the same asset type can be merged';
+  END IF;
+
+  IF duplicate.status IN ('failed', 'retired') AND survivor.status NOT IN ('failed', 'retired') THEN
+    RAISE EXCEPTION 'Asset % is %; keep that record and merge the other into it',
+      duplicate.serial_number, lower(asset_status_label(duplicate.status));
+  END IF;
+
+  -- Checked before its recall entries move, which would hide them from keep_recalled_assets
+  IF EXISTS (
+    SELECT 1 FROM recall_assets
+    WHERE asset_id = duplicate.id
+      AND resolution IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Asset % is quarantined by an open recall; resolve it first', duplicate.serial_number;
+  END IF;
+
+  -- Only one holder at a time: the survivor's custody carries on
+  UPDATE asset_custody
+  SET checked_in_at = now(),
+      checked_in_by = auth.jwt() ->> 'user_id'
+  WHERE asset_id = duplicate.id
+    AND checked_in_at IS NULL;
+
+  UPDATE certification_documents SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('certification_documents', moved_count);
+
+  -- Each moved row re-syncs the survivor's certification dates
+  UPDATE certifications SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('certifications', moved_count);
+
+  UPDATE inspections SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('inspections', moved_count);
+
+  UPDATE asset_status_transitions SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_status_transitions', moved_count);
+
+  UPDATE asset_movements SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_movements', moved_count);
+
+  UPDATE asset_custody SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_custody', moved_count);
+
+  -- A recall that matched both records keeps the survivor's entry
+  UPDATE recall_assets
+  SET asset_id = survivor.id
+  WHERE asset_id = duplicate.id
+    AND NOT EXISTS (
+      SELECT 1 FROM recall_assets kept
+      WHERE kept.recall_id = recall_assets.recall_id
+        AND kept.asset_id = survivor.id
+    );
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('recall_assets', moved_count);
+
+  UPDATE notifications SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('notifications', moved_count);
+
+  -- Earlier merges into the duplicate now point at the survivor
+  UPDATE asset_merges SET survivor_id = survivor.id WHERE survivor_id = duplicate.id;
+
+  IF duplicate.pair_id IS NOT NULL AND survivor.pair_id IS NULL THEN
+    UPDATE assets
+    SET pair_id = NULL,
+        hand = NULL
+    WHERE id = duplicate.id;
+
+    UPDATE assets
+    SET pair_id = duplicate.pair_id,
+        hand = duplicate.hand
+    WHERE id = survivor.id;
+  END IF;
+
+  UPDATE assets
+  SET serial_number = CASE WHEN 'serial_number' = ANY(p_fields) THEN duplicate.serial_number ELSE serial_number END,
+      asset_class = CASE WHEN 'asset_class' = ANY(p_fields) THEN duplicate.asset_class ELSE asset_class END,
+      issue_date = CASE WHEN 'issue_date' = ANY(p_fields) THEN duplicate.issue_date ELSE issue_date END,
+      glove_size = CASE WHEN 'glove_size' = ANY(p_fields) THEN duplicate.glove_size ELSE glove_size END,
+      glove_color = CASE WHEN 'glove_color' = ANY(p_fields) THEN duplicate.glove_color ELSE glove_color END,
+      attributes = CASE WHEN 'attributes' = ANY(p_fields) THEN duplicate.attributes ELSE attributes END,
+      -- Provenance the survivor lacks comes from the duplicate, so lot recalls still find the asset
+      manufacturer_id = CASE WHEN 'manufacturer_id' = ANY(p_fields) THEN duplicate.manufacturer_id ELSE coalesce(manufacturer_id, duplicate.manufacturer_id) END,
+      model = CASE WHEN 'model' = ANY(p_fields) THEN duplicate.model ELSE coalesce(model, duplicate.model) END,
+      lot_number = CASE WHEN 'lot_number' = ANY(p_fields) THEN duplicate.lot_number ELSE coalesce(lot_number, duplicate.lot_number) END,
+      vendor_id = CASE WHEN 'vendor_id' = ANY(p_fields) THEN duplicate.vendor_id ELSE coalesce(vendor_id, duplicate.vendor_id) END,
+      purchase_order = CASE WHEN 'purchase_order' = ANY(p_fields) THEN duplicate.purchase_order ELSE coalesce(purchase_order, duplicate.purchase_order) END,
+      unit_cost = CASE WHEN 'unit_cost' = ANY(p_fields) THEN duplicate.unit_cost ELSE coalesce(unit_cost, duplicate.unit_cost) END
+  WHERE id = survivor.id;
+
+  IF 'placement' = ANY(p_fields) THEN
+    UPDATE assets
+    SET assigned_user_id = duplicate.assigned_user_id,
+        location_id = duplicate.location_id,
+        kit_id = duplicate.kit_id
+    WHERE id = survivor.id
+      AND (
+        assigned_user_id IS DISTINCT FROM duplicate.assigned_user_id OR
+        location_id IS DISTINCT FROM duplicate.location_id OR
+        kit_id IS DISTINCT FROM duplicate.kit_id
+      );
+  END IF;
+
+  DELETE FROM assets WHERE id = duplicate.id;
+
+  -- The survivor stays flagged only while another unflagged record holds the serial
+  UPDATE assets
+  SET serial_conflict = EXISTS (
+    SELECT 1 FROM assets other
+    WHERE other.org_id = survivor.org_id
+      AND other.serial_number_key = survivor.serial_number_key
+      AND other.id <> survivor.id
+      AND NOT other.serial_conflict
+  )
+  WHERE id = survivor.id
+    AND serial_conflict;
+
+  INSERT INTO asset_merges (
+    org_id, survivor_id, merged_asset_id, serial_number, fields,
+    survivor_before, merged_before, moved_records, merged_by
+  )
+  VALUES (
+    survivor.org_id, survivor.id, duplicate.id, duplicate.serial_number, coalesce(p_fields, '{}'),
+    to_jsonb(survivor), to_jsonb(duplicate), moved, auth.jwt() ->> 'user_id'
+  );
+
+  SELECT * INTO merged FROM assets WHERE id = survivor.id;
+
+  RETURN merged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_assets(uuid, uuid, text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_assets(uuid, uuid, text[]) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_notification_ids uuid[])
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  marked_count integer;
+BEGIN
+  UPDATE notifications
+  SET read_at = now()
+  WHERE id = ANY(p_notification_ids)
+    AND org_id = (auth.jwt() ->> 'org_id')
+    AND user_id = (auth.jwt() ->> 'user_id')
+    AND read_at IS NULL;
+
+  GET DIAGNOSTICS marked_count = ROW_COUNT;
+  RETURN marked_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_notifications_read(uuid[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid[]) TO authenticated, service_role;
+
+-- Enable Row Level Security
+ALTER TABLE recalls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE recall_assets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view recalls in their organization"
+  ON recalls
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Service role can manage all recalls"
+  ON recalls
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view recalled assets in their organization"
+  ON recall_assets
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Service role can manage all recalled assets"
+  ON recall_assets
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    user_id = (auth.jwt() ->> 'user_id')
+  );
+
+CREATE POLICY "Service role can manage all notifications"
+  ON notifications
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
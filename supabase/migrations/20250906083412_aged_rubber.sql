@@ -0,0 +1,587 @@
+/*
+  # Maximum service life
+
+  Rubber degrades with age even when it passes every dielectric test, and many
+  organizations retire equipment a set number of years after it was made regardless of
+  its test results. Each organization can now set a maximum age per asset type and class;
+  assets approaching it turn `near-due` and assets past it turn `expired`, just as for an
+  upcoming or missed retest, until they are removed from service. The client tells an
+  asset past its maximum age from one that missed a retest by its end of service life.
+
+  1. Changes to `assets`
+    - `manufacture_date`: Date the asset was made, as printed on it; on or before the issue date
+
+  2. New Tables
+    - `service_life_rules`: Maximum age in months per asset type and class, per organization
+      (types and classes without a rule have no age limit)
+      - `measured_from`: `manufacture` (the manufacture date, or the issue date when it was
+        not recorded) or `issue`
+
+  3. Changes to `defect_codes`
+    - Built-in `service-life-exceeded` code for assets removed from service for their age
+
+  4. Functions & Triggers
+    - `service_life_end_date(...)`: Date an asset reaches its maximum age, mirrored in
+      `src/utils/serviceLifeUtils.ts`; unset when no rule applies
+    - `apply_service_life_status`: A date-driven status is never less urgent than the one the
+      end of service life calls for, and is recomputed when the dates it depends on change
+    - `refresh_asset_statuses` counts the end of service life like a retest due date
+    - Saving or removing a rule refreshes the statuses of the organization, logged with
+      source `service-life-rule-change`
+    - `complete_lab_return` refuses a pass for an asset past its maximum age, which must be
+      recorded as failed instead
+    - `merge_assets(...)`: The manufacture date can be taken from the duplicate, and is when
+      the survivor has none, so a merge does not drop the asset from the service life forecast
+
+  5. Security
+    - Enable RLS on `service_life_rules`
+    - Organization members can read rules, only admins can manage them
+*/
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS manufacture_date date;
+
+ALTER TABLE assets
+  ADD CONSTRAINT manufactured_before_issue CHECK (
+    manufacture_date IS NULL OR manufacture_date <= issue_date
+  );
+
+CREATE TABLE IF NOT EXISTS service_life_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id text NOT NULL,
+  asset_type text NOT NULL,
+  asset_class text NOT NULL,
+  max_age_months integer NOT NULL,
+  measured_from text NOT NULL DEFAULT 'manufacture',
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+
+  CONSTRAINT valid_service_life_asset_type CHECK (
+    asset_type = ANY(ARRAY['glove', 'sleeve', 'blanket', 'line-hose', 'protector'])
+  ),
+  CONSTRAINT valid_service_life_asset_class CHECK (
+    asset_class = ANY(ARRAY['Class 0', 'Class 00', 'Class 1', 'Class 2', 'Class 3', 'Class 4'])
+  ),
+  CONSTRAINT valid_max_age_months CHECK (max_age_months BETWEEN 1 AND 600),
+  CONSTRAINT valid_service_life_measured_from CHECK (measured_from IN ('manufacture', 'issue')),
+  CONSTRAINT unique_service_life_rule_per_type_and_class UNIQUE (org_id, asset_type, asset_class)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_life_rules_org_id ON service_life_rules(org_id);
+
+INSERT INTO defect_codes (org_id, code, label)
+SELECT NULL, 'service-life-exceeded', 'Service life exceeded'
+WHERE NOT EXISTS (
+  SELECT 1 FROM defect_codes WHERE org_id IS NULL AND code = 'service-life-exceeded'
+);
+
+-- Mirror of getServiceLifeEndDate in src/utils/serviceLifeUtils.ts
+CREATE OR REPLACE FUNCTION service_life_end_date(
+  p_org_id text,
+  p_asset_type text,
+  p_asset_class text,
+  p_manufacture_date date,
+  p_issue_date date
+)
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (
+    CASE measured_from
+      WHEN 'manufacture' THEN coalesce(p_manufacture_date, p_issue_date)
+      ELSE p_issue_date
+    END + make_interval(months => max_age_months)
+  )::date
+  FROM service_life_rules
+  WHERE org_id = p_org_id
+    AND asset_type = p_asset_type
+    AND asset_class = p_asset_class;
+$$;
+
+-- Status for whichever comes first: the retest due date or the end of service life
+CREATE OR REPLACE FUNCTION calculate_asset_status_with_service_life(
+  p_next_certification_date date,
+  p_end_of_life_date date,
+  p_as_of date DEFAULT current_date
+)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT calculate_asset_status(least(p_next_certification_date, p_end_of_life_date), p_as_of);
+$$;
+
+-- Writers compute date-driven statuses from the retest date alone; the end of service life
+-- can only make them more urgent, except when the dates it depends on change
+CREATE OR REPLACE FUNCTION apply_service_life_status()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  end_of_life date;
+  service_life_status text;
+BEGIN
+  IF NEW.status <> ALL(ARRAY['active', 'near-due', 'expired']) THEN
+    RETURN NEW;
+  END IF;
+
+  end_of_life := service_life_end_date(
+    NEW.org_id, NEW.asset_type, NEW.asset_class, NEW.manufacture_date, NEW.issue_date
+  );
+
+  IF TG_OP = 'UPDATE' AND (NEW.manufacture_date, NEW.issue_date, NEW.asset_type, NEW.asset_class)
+    IS DISTINCT FROM (OLD.manufacture_date, OLD.issue_date, OLD.asset_type, OLD.asset_class) THEN
+    NEW.status := calculate_asset_status_with_service_life(NEW.next_certification_date, end_of_life);
+    RETURN NEW;
+  END IF;
+
+  IF end_of_life IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  service_life_status := calculate_asset_status(end_of_life);
+  IF service_life_status = 'expired' OR (service_life_status = 'near-due' AND NEW.status = 'active') THEN
+    NEW.status := service_life_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS asset_service_life_applied ON assets;
+CREATE TRIGGER asset_service_life_applied
+  BEFORE INSERT OR UPDATE OF status, next_certification_date, manufacture_date, issue_date, asset_type, asset_class
+  ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_service_life_status();
+
+-- From 20250708141530_steady_lantern.sql, with the end of service life counted as a due date
+CREATE OR REPLACE FUNCTION refresh_asset_statuses(
+  p_as_of date DEFAULT current_date,
+  p_org_id text DEFAULT NULL,
+  p_source text DEFAULT 'scheduled-refresh'
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  changed_count integer;
+BEGIN
+  WITH stale AS (
+    SELECT
+      id,
+      status AS from_status,
+      calculate_asset_status_with_service_life(
+        next_certification_date,
+        service_life_end_date(org_id, asset_type, asset_class, manufacture_date, issue_date),
+        p_as_of
+      ) AS to_status
+    FROM assets
+    WHERE status = ANY(ARRAY['active', 'near-due', 'expired'])
+      AND status <> calculate_asset_status_with_service_life(
+        next_certification_date,
+        service_life_end_date(org_id, asset_type, asset_class, manufacture_date, issue_date),
+        p_as_of
+      )
+      AND (p_org_id IS NULL OR org_id = p_org_id)
+    FOR UPDATE
+  ),
+  updated AS (
+    UPDATE assets
+    SET status = stale.to_status
+    FROM stale
+    WHERE assets.id = stale.id
+    RETURNING assets.id, assets.org_id, stale.from_status, assets.status AS to_status
+  )
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  SELECT org_id, id, from_status, to_status, p_source
+  FROM updated;
+
+  GET DIAGNOSTICS changed_count = ROW_COUNT;
+  RETURN changed_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION handle_service_life_rule_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  PERFORM refresh_asset_statuses(
+    current_date,
+    CASE WHEN TG_OP = 'DELETE' THEN OLD.org_id ELSE NEW.org_id END,
+    'service-life-rule-change'
+  );
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS service_life_rule_changed ON service_life_rules;
+CREATE TRIGGER service_life_rule_changed
+  AFTER INSERT OR UPDATE OR DELETE ON service_life_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_service_life_rule_change();
+
+-- complete_lab_return from 20250803140922_wide_shelf.sql, refusing a pass past the maximum age
+CREATE OR REPLACE FUNCTION complete_lab_return(
+  p_asset_id uuid,
+  p_result text,
+  p_certification_date date,
+  p_lab_name text DEFAULT NULL,
+  p_proof_test_voltage integer DEFAULT NULL,
+  p_leakage_current_ma numeric DEFAULT NULL,
+  p_file_name text DEFAULT NULL,
+  p_file_url text DEFAULT NULL,
+  p_failure_defect_code text DEFAULT NULL,
+  p_failure_location text DEFAULT NULL,
+  p_failure_notes text DEFAULT NULL
+)
+RETURNS certifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target assets%ROWTYPE;
+  new_document_id uuid;
+  next_date date;
+  new_status text;
+  end_of_life date;
+  certification certifications%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM assets
+  WHERE id = p_asset_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can complete a lab return';
+  END IF;
+
+  IF target.status <> 'in-testing' THEN
+    RAISE EXCEPTION 'Asset % is not in testing', target.serial_number;
+  END IF;
+
+  IF p_result NOT IN ('pass', 'fail') THEN
+    RAISE EXCEPTION 'Result must be pass or fail';
+  END IF;
+
+  IF p_result = 'pass' AND p_file_url IS NULL THEN
+    RAISE EXCEPTION 'A certificate is required to return an asset to service';
+  END IF;
+
+  IF p_result = 'fail' AND p_failure_defect_code IS NULL THEN
+    RAISE EXCEPTION 'A defect code is required';
+  END IF;
+
+  -- A passing test does not extend the maximum age
+  end_of_life := service_life_end_date(
+    target.org_id, target.asset_type, target.asset_class, target.manufacture_date, target.issue_date
+  );
+  IF p_result = 'pass' AND end_of_life < current_date THEN
+    RAISE EXCEPTION 'Asset % reached the end of its service life on % and cannot return to service; record it as failed',
+      target.serial_number, end_of_life
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_file_url IS NOT NULL THEN
+    INSERT INTO certification_documents (asset_id, file_name, file_url, uploaded_by, org_id)
+    VALUES (target.id, coalesce(p_file_name, 'certificate'), p_file_url, auth.jwt() ->> 'user_id', target.org_id)
+    RETURNING id INTO new_document_id;
+  END IF;
+
+  next_date := (
+    p_certification_date + make_interval(
+      months => retest_interval_months(target.org_id, target.asset_type, target.asset_class)
+    )
+  )::date;
+
+  -- A failed result also fails the asset through the certification_failed trigger
+  INSERT INTO certifications (
+    org_id, asset_id, document_id, certification_date, lab_name, result,
+    proof_test_voltage, leakage_current_ma, next_certification_date, recorded_by
+  )
+  VALUES (
+    target.org_id, target.id, new_document_id, p_certification_date, p_lab_name, p_result,
+    p_proof_test_voltage, p_leakage_current_ma, next_date, auth.jwt() ->> 'user_id'
+  )
+  RETURNING * INTO certification;
+
+  IF p_result = 'pass' THEN
+    -- Logged as stored: the end of service life may make the status more urgent
+    UPDATE assets
+    SET status = calculate_asset_status(next_date),
+        last_certification_date = p_certification_date,
+        next_certification_date = next_date,
+        testing_start_date = NULL
+    WHERE id = target.id
+    RETURNING status INTO new_status;
+  ELSE
+    new_status := 'failed';
+
+    UPDATE assets
+    SET failure_defect_code = p_failure_defect_code,
+        failure_location = p_failure_location,
+        failure_notes = nullif(trim(p_failure_notes), ''),
+        testing_start_date = NULL
+    WHERE id = target.id;
+  END IF;
+
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  VALUES (target.org_id, target.id, target.status, new_status, 'lab-return');
+
+  RETURN certification;
+END;
+$$;
+
+-- merge_assets from 20250903101522_recalled_lot.sql, also merging the manufacture date
+CREATE OR REPLACE FUNCTION merge_assets(
+  p_survivor_id uuid,
+  p_duplicate_id uuid,
+  p_fields text[] DEFAULT '{}'
+)
+RETURNS assets
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  survivor assets%ROWTYPE;
+  duplicate assets%ROWTYPE;
+  merged assets%ROWTYPE;
+  unknown_field text;
+  moved jsonb := '{}';
+  moved_count integer;
+BEGIN
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can merge assets';
+  END IF;
+
+  IF p_survivor_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'An asset cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO survivor
+  FROM assets
+  WHERE id = p_survivor_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  SELECT * INTO duplicate
+  FROM assets
+  WHERE id = p_duplicate_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF survivor.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  SELECT field INTO unknown_field
+  FROM unnest(coalesce(p_fields, '{}')) AS field
+  WHERE field <> ALL(ARRAY[
+    'serial_number', 'asset_class', 'issue_date', 'glove_size', 'glove_color', 'attributes', 'placement',
+    'manufacturer_id', 'model', 'lot_number', 'vendor_id', 'purchase_order', 'unit_cost', 'manufacture_date'
+  ])
+  LIMIT 1;
+
+  IF unknown_field IS NOT NULL THEN
+    RAISE EXCEPTION 'Field % cannot be merged', unknown_field;
+  END IF;
+
+  IF survivor.serial_number_key IS DISTINCT FROM duplicate.serial_number_key THEN
+    RAISE EXCEPTION 'Only records with the same serial number can be merged';
+  END IF;
+
+  IF survivor.asset_type <> duplicate.asset_type THEN
+    RAISE EXCEPTION 'Only records of the same asset type can be merged';
+  END IF;
+
+  IF duplicate.status IN ('failed', 'retired') AND survivor.status NOT IN ('failed', 'retired') THEN
+    RAISE EXCEPTION 'Asset % is %; keep that record and merge the other into it',
+      duplicate.serial_number, lower(asset_status_label(duplicate.status));
+  END IF;
+
+  -- Checked before its recall entries move, which would hide them from keep_recalled_assets
+  IF EXISTS (
+    SELECT 1 FROM recall_assets
+    WHERE asset_id = duplicate.id
+      AND resolution IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Asset % is quarantined by an open recall; resolve it first', duplicate.serial_number;
+  END IF;
+
+  -- Only one holder at a time: the survivor's custody carries on
+  UPDATE asset_custody
+  SET checked_in_at = now(),
+      checked_in_by = auth.jwt() ->> 'user_id'
+  WHERE asset_id = duplicate.id
+    AND checked_in_at IS NULL;
+
+  UPDATE certification_documents SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('certification_documents', moved_count);
+
+  -- Each moved row re-syncs the survivor's certification dates
+  UPDATE certifications SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('certifications', moved_count);
+
+  UPDATE inspections SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('inspections', moved_count);
+
+  UPDATE asset_status_transitions SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_status_transitions', moved_count);
+
+  UPDATE asset_movements SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_movements', moved_count);
+
+  UPDATE asset_custody SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('asset_custody', moved_count);
+
+  -- A recall that matched both records keeps the survivor's entry
+  UPDATE recall_assets
+  SET asset_id = survivor.id
+  WHERE asset_id = duplicate.id
+    AND NOT EXISTS (
+      SELECT 1 FROM recall_assets kept
+      WHERE kept.recall_id = recall_assets.recall_id
+        AND kept.asset_id = survivor.id
+    );
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('recall_assets', moved_count);
+
+  UPDATE notifications SET asset_id = survivor.id WHERE asset_id = duplicate.id;
+  GET DIAGNOSTICS moved_count = ROW_COUNT;
+  moved := moved || jsonb_build_object('notifications', moved_count);
+
+  -- Earlier merges into the duplicate now point at the survivor
+  UPDATE asset_merges SET survivor_id = survivor.id WHERE survivor_id = duplicate.id;
+
+  IF duplicate.pair_id IS NOT NULL AND survivor.pair_id IS NULL THEN
+    UPDATE assets
+    SET pair_id = NULL,
+        hand = NULL
+    WHERE id = duplicate.id;
+
+    UPDATE assets
+    SET pair_id = duplicate.pair_id,
+        hand = duplicate.hand
+    WHERE id = survivor.id;
+  END IF;
+
+  UPDATE assets
+  SET serial_number = CASE WHEN 'serial_number' = ANY(p_fields) THEN duplicate.serial_number ELSE serial_number END,
+      asset_class = CASE WHEN 'asset_class' = ANY(p_fields) THEN duplicate.asset_class ELSE asset_class END,
+      issue_date = CASE WHEN 'issue_date' = ANY(p_fields) THEN duplicate.issue_date ELSE issue_date END,
+      glove_size = CASE WHEN 'glove_size' = ANY(p_fields) THEN duplicate.glove_size ELSE glove_size END,
+      glove_color = CASE WHEN 'glove_color' = ANY(p_fields) THEN duplicate.glove_color ELSE glove_color END,
+      attributes = CASE WHEN 'attributes' = ANY(p_fields) THEN duplicate.attributes ELSE attributes END,
+      -- Provenance the survivor lacks comes from the duplicate, so lot recalls still find the asset
+      manufacturer_id = CASE WHEN 'manufacturer_id' = ANY(p_fields) THEN duplicate.manufacturer_id ELSE coalesce(manufacturer_id, duplicate.manufacturer_id) END,
+      model = CASE WHEN 'model' = ANY(p_fields) THEN duplicate.model ELSE coalesce(model, duplicate.model) END,
+      lot_number = CASE WHEN 'lot_number' = ANY(p_fields) THEN duplicate.lot_number ELSE coalesce(lot_number, duplicate.lot_number) END,
+      vendor_id = CASE WHEN 'vendor_id' = ANY(p_fields) THEN duplicate.vendor_id ELSE coalesce(vendor_id, duplicate.vendor_id) END,
+      purchase_order = CASE WHEN 'purchase_order' = ANY(p_fields) THEN duplicate.purchase_order ELSE coalesce(purchase_order, duplicate.purchase_order) END,
+      unit_cost = CASE WHEN 'unit_cost' = ANY(p_fields) THEN duplicate.unit_cost ELSE coalesce(unit_cost, duplicate.unit_cost) END
+  WHERE id = survivor.id;
+
+  -- The end of service life runs from the manufacture date; a survivor without one takes the
+  -- duplicate's when it fits the merged issue date
+  UPDATE assets
+  SET manufacture_date = CASE
+    WHEN 'manufacture_date' = ANY(p_fields) THEN duplicate.manufacture_date
+    WHEN manufacture_date IS NULL AND duplicate.manufacture_date <= issue_date THEN duplicate.manufacture_date
+    ELSE manufacture_date
+  END
+  WHERE id = survivor.id;
+
+  IF 'placement' = ANY(p_fields) THEN
+    UPDATE assets
+    SET assigned_user_id = duplicate.assigned_user_id,
+        location_id = duplicate.location_id,
+        kit_id = duplicate.kit_id
+    WHERE id = survivor.id
+      AND (
+        assigned_user_id IS DISTINCT FROM duplicate.assigned_user_id OR
+        location_id IS DISTINCT FROM duplicate.location_id OR
+        kit_id IS DISTINCT FROM duplicate.kit_id
+      );
+  END IF;
+
+  DELETE FROM assets WHERE id = duplicate.id;
+
+  -- The survivor stays flagged only while another unflagged record holds the serial
+  UPDATE assets
+  SET serial_conflict = EXISTS (
+    SELECT 1 FROM assets other
+    WHERE other.org_id = survivor.org_id
+      AND other.serial_number_key = survivor.serial_number_key
+      AND other.id <> survivor.id
+      AND NOT other.serial_conflict
+  )
+  WHERE id = survivor.id
+    AND serial_conflict;
+
+  INSERT INTO asset_merges (
+    org_id, survivor_id, merged_asset_id, serial_number, fields,
+    survivor_before, merged_before, moved_records, merged_by
+  )
+  VALUES (
+    survivor.org_id, survivor.id, duplicate.id, duplicate.serial_number, coalesce(p_fields, '{}'),
+    to_jsonb(survivor), to_jsonb(duplicate), moved, auth.jwt() ->> 'user_id'
+  );
+
+  SELECT * INTO merged FROM assets WHERE id = survivor.id;
+
+  RETURN merged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION merge_assets(uuid, uuid, text[]) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION merge_assets(uuid, uuid, text[]) TO authenticated, service_role;
+
+-- Enable Row Level Security
+ALTER TABLE service_life_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view service life rules in their organization"
+  ON service_life_rules
+  FOR SELECT
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id')
+  );
+
+CREATE POLICY "Admins can manage service life rules in their organization"
+  ON service_life_rules
+  FOR ALL
+  TO authenticated
+  USING (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  )
+  WITH CHECK (
+    org_id = (auth.jwt() ->> 'org_id') AND
+    (auth.jwt() ->> 'org_role') = 'org:admin'
+  );
+
+CREATE POLICY "Service role can manage all service life rules"
+  ON service_life_rules
+  FOR ALL
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,261 @@
+/*
+  # Stock shelf rule
+
+  Every tested asset was due one retest interval after its last test, whether it had been
+  handed out or was still sitting in the crib. OSHA 1910.137 (Table I-5, note 2) counts
+  differently: equipment tested but not yet issued for service may not be issued unless it
+  was tested within the previous 12 months, and the retest interval runs from the day it is
+  issued. Assets now record whether they are in stock, and their due date follows that.
+
+  1. Changes to `assets`
+    - `in_stock`: Tested but not issued to a person since; set by every passing test of an
+      asset nobody holds
+    - `in_service_date`: Date the asset was issued after its last test; unset while in stock
+    - Existing assets are treated as in service since their last test, which keeps their due
+      dates; unassigned ones enter stock with their next test
+
+  2. Functions & Triggers
+    - `certification_due_date(...)`: 12 months after the last test while in stock, one retest
+      interval after the issue date once issued; mirrored in `src/utils/assetUtils.ts`
+    - `apply_stock_shelf_rule`: Keeps `in_stock`, `in_service_date` and
+      `next_certification_date` in step with tests and issues, and refuses to issue stock
+      whose last test is more than 12 months old
+    - `seed_initial_certification` and `complete_lab_return` record the same due date on the
+      certification row as the asset gets, so the history matches the asset
+*/
+
+ALTER TABLE assets
+  ADD COLUMN IF NOT EXISTS in_stock boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS in_service_date date;
+
+UPDATE assets
+SET in_service_date = last_certification_date
+WHERE last_certification_date IS NOT NULL;
+
+ALTER TABLE assets
+  ADD CONSTRAINT stock_is_tested CHECK (NOT in_stock OR last_certification_date IS NOT NULL),
+  ADD CONSTRAINT stock_not_in_service CHECK (NOT in_stock OR in_service_date IS NULL);
+
+-- Mirror of calculateCertificationDueDate in src/utils/assetUtils.ts
+CREATE OR REPLACE FUNCTION certification_due_date(
+  p_org_id text,
+  p_asset_type text,
+  p_asset_class text,
+  p_last_certification_date date,
+  p_in_service_date date
+)
+RETURNS date
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_in_service_date IS NULL THEN p_last_certification_date + make_interval(months => 12)
+    ELSE greatest(p_last_certification_date, p_in_service_date)
+      + make_interval(months => retest_interval_months(p_org_id, p_asset_type, p_asset_class))
+  END::date;
+$$;
+
+CREATE OR REPLACE FUNCTION apply_stock_shelf_rule()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  due_date date;
+BEGIN
+  IF NEW.last_certification_date IS NULL THEN
+    NEW.in_stock := false;
+    NEW.in_service_date := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.in_stock := NEW.assigned_user_id IS NULL;
+    NEW.in_service_date := CASE
+      WHEN NEW.in_stock THEN NULL
+      ELSE greatest(NEW.issue_date, NEW.last_certification_date)
+    END;
+  ELSIF NEW.last_certification_date IS DISTINCT FROM OLD.last_certification_date THEN
+    -- A new test: whoever holds the asset keeps it in service, otherwise it goes back to stock
+    NEW.in_stock := NEW.assigned_user_id IS NULL;
+    NEW.in_service_date := CASE WHEN NEW.in_stock THEN NULL ELSE NEW.last_certification_date END;
+  ELSIF OLD.in_stock AND NEW.assigned_user_id IS NOT NULL THEN
+    NEW.in_stock := false;
+    NEW.in_service_date := current_date;
+  ELSE
+    NEW.in_stock := OLD.in_stock;
+    NEW.in_service_date := OLD.in_service_date;
+  END IF;
+
+  IF NEW.in_service_date > NEW.last_certification_date + make_interval(months => 12) THEN
+    RAISE EXCEPTION 'Asset % was last tested on % and must be retested before it is issued',
+      NEW.serial_number, NEW.last_certification_date
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  due_date := certification_due_date(
+    NEW.org_id, NEW.asset_type, NEW.asset_class, NEW.last_certification_date, NEW.in_service_date
+  );
+
+  -- Writers compute the due date from the last test alone; follow the corrected date
+  IF due_date IS DISTINCT FROM NEW.next_certification_date THEN
+    NEW.next_certification_date := due_date;
+
+    IF NEW.status = ANY(ARRAY['active', 'near-due', 'expired']) THEN
+      NEW.status := calculate_asset_status_with_service_life(
+        due_date,
+        service_life_end_date(NEW.org_id, NEW.asset_type, NEW.asset_class, NEW.manufacture_date, NEW.issue_date)
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Named to run after the kit and placement triggers, which may set the assignee
+DROP TRIGGER IF EXISTS stock_shelf_rule_applied ON assets;
+CREATE TRIGGER stock_shelf_rule_applied
+  BEFORE INSERT OR UPDATE ON assets
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_stock_shelf_rule();
+
+-- seed_initial_certification from 20250803140922_wide_shelf.sql, recording the shelf rule's due date
+CREATE OR REPLACE FUNCTION seed_initial_certification()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.last_certification_date IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO certifications (org_id, asset_id, certification_date, next_certification_date, recorded_by)
+  VALUES (
+    NEW.org_id,
+    NEW.id,
+    NEW.last_certification_date,
+    certification_due_date(
+      NEW.org_id, NEW.asset_type, NEW.asset_class, NEW.last_certification_date, NEW.in_service_date
+    ),
+    auth.jwt() ->> 'user_id'
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- complete_lab_return from 20250906083412_aged_rubber.sql, recording the shelf rule's due date
+CREATE OR REPLACE FUNCTION complete_lab_return(
+  p_asset_id uuid,
+  p_result text,
+  p_certification_date date,
+  p_lab_name text DEFAULT NULL,
+  p_proof_test_voltage integer DEFAULT NULL,
+  p_leakage_current_ma numeric DEFAULT NULL,
+  p_file_name text DEFAULT NULL,
+  p_file_url text DEFAULT NULL,
+  p_failure_defect_code text DEFAULT NULL,
+  p_failure_location text DEFAULT NULL,
+  p_failure_notes text DEFAULT NULL
+)
+RETURNS certifications
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  target assets%ROWTYPE;
+  new_document_id uuid;
+  next_date date;
+  new_status text;
+  end_of_life date;
+  certification certifications%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM assets
+  WHERE id = p_asset_id
+    AND org_id = (auth.jwt() ->> 'org_id')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Asset not found';
+  END IF;
+
+  IF (auth.jwt() ->> 'org_role') IS DISTINCT FROM 'org:admin' THEN
+    RAISE EXCEPTION 'Only admins can complete a lab return';
+  END IF;
+
+  IF target.status <> 'in-testing' THEN
+    RAISE EXCEPTION 'Asset % is not in testing', target.serial_number;
+  END IF;
+
+  IF p_result NOT IN ('pass', 'fail') THEN
+    RAISE EXCEPTION 'Result must be pass or fail';
+  END IF;
+
+  IF p_result = 'pass' AND p_file_url IS NULL THEN
+    RAISE EXCEPTION 'A certificate is required to return an asset to service';
+  END IF;
+
+  IF p_result = 'fail' AND p_failure_defect_code IS NULL THEN
+    RAISE EXCEPTION 'A defect code is required';
+  END IF;
+
+  -- A passing test does not extend the maximum age
+  end_of_life := service_life_end_date(
+    target.org_id, target.asset_type, target.asset_class, target.manufacture_date, target.issue_date
+  );
+  IF p_result = 'pass' AND end_of_life < current_date THEN
+    RAISE EXCEPTION 'Asset % reached the end of its service life on % and cannot return to service; record it as failed',
+      target.serial_number, end_of_life
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF p_file_url IS NOT NULL THEN
+    INSERT INTO certification_documents (asset_id, file_name, file_url, uploaded_by, org_id)
+    VALUES (target.id, coalesce(p_file_name, 'certificate'), p_file_url, auth.jwt() ->> 'user_id', target.org_id)
+    RETURNING id INTO new_document_id;
+  END IF;
+
+  -- As apply_stock_shelf_rule will store it: whoever holds the asset keeps it in service
+  next_date := certification_due_date(
+    target.org_id, target.asset_type, target.asset_class, p_certification_date,
+    CASE WHEN target.assigned_user_id IS NULL THEN NULL ELSE p_certification_date END
+  );
+
+  -- A failed result also fails the asset through the certification_failed trigger
+  INSERT INTO certifications (
+    org_id, asset_id, document_id, certification_date, lab_name, result,
+    proof_test_voltage, leakage_current_ma, next_certification_date, recorded_by
+  )
+  VALUES (
+    target.org_id, target.id, new_document_id, p_certification_date, p_lab_name, p_result,
+    p_proof_test_voltage, p_leakage_current_ma, next_date, auth.jwt() ->> 'user_id'
+  )
+  RETURNING * INTO certification;
+
+  IF p_result = 'pass' THEN
+    -- Logged as stored: the end of service life may make the status more urgent
+    UPDATE assets
+    SET status = calculate_asset_status(next_date),
+        last_certification_date = p_certification_date,
+        next_certification_date = next_date,
+        testing_start_date = NULL
+    WHERE id = target.id
+    RETURNING status INTO new_status;
+  ELSE
+    new_status := 'failed';
+
+    UPDATE assets
+    SET failure_defect_code = p_failure_defect_code,
+        failure_location = p_failure_location,
+        failure_notes = nullif(trim(p_failure_notes), ''),
+        testing_start_date = NULL
+    WHERE id = target.id;
+  END IF;
+
+  INSERT INTO asset_status_transitions (org_id, asset_id, from_status, to_status, source)
+  VALUES (target.org_id, target.id, target.status, new_status, 'lab-return');
+
+  RETURN certification;
+END;
+$$;
@@ -0,0 +1,85 @@
+/*
+  # merge_assets followed by a lot recall
+
+  Merges two pairs of duplicate records and then recalls the lot the duplicates were made
+  in. The merged-away records carried the lot: one survivor had none and inherits it, the
+  other had a different lot and takes the duplicate's because the admin picked it. The
+  recall must quarantine both survivors and link them to the recall.
+
+  Runs against a local database with every migration applied and rolls back its data:
+    psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f supabase/tests/merge_assets_recall.sql
+  A failed assertion raises an exception.
+*/
+
+BEGIN;
+
+SELECT set_config('request.jwt.claims', '{"org_id":"test-org","org_role":"org:admin","user_id":"test-admin"}', true);
+
+INSERT INTO suppliers (id, org_id, name, supplier_type)
+VALUES ('00000000-0000-0000-0000-00000000b001', 'test-org', 'Test Manufacturer', 'manufacturer');
+
+-- Duplicates predate the unique serial rule, so they are seeded around it
+ALTER TABLE assets DISABLE TRIGGER serial_number_normalized;
+
+INSERT INTO assets (
+  id, org_id, serial_number, asset_type, asset_class, assigned_user_id, issue_date,
+  last_certification_date, next_certification_date, status,
+  manufacturer_id, lot_number, serial_conflict
+)
+VALUES
+  -- Survivor without provenance, and its duplicate from lot L100
+  ('00000000-0000-0000-0000-00000000c001', 'test-org', 'T-MERGE-NO-LOT', 'glove', 'Class 1', 'test-user',
+   '2025-06-01', '2025-06-01', '2025-12-01', 'active', NULL, NULL, false),
+  ('00000000-0000-0000-0000-00000000c002', 'test-org', 'T-MERGE-NO-LOT', 'glove', 'Class 1', 'test-user',
+   '2025-06-01', '2025-06-01', '2025-12-01', 'active', '00000000-0000-0000-0000-00000000b001', 'L100', true),
+  -- Survivor with a mistyped lot, and its duplicate from lot L100
+  ('00000000-0000-0000-0000-00000000c003', 'test-org', 'T-MERGE-WRONG-LOT', 'glove', 'Class 1', 'test-user',
+   '2025-06-01', '2025-06-01', '2025-12-01', 'active', '00000000-0000-0000-0000-00000000b001', 'L900', false),
+  ('00000000-0000-0000-0000-00000000c004', 'test-org', 'T-MERGE-WRONG-LOT', 'glove', 'Class 1', 'test-user',
+   '2025-06-01', '2025-06-01', '2025-12-01', 'active', '00000000-0000-0000-0000-00000000b001', 'L100', true);
+
+ALTER TABLE assets ENABLE TRIGGER serial_number_normalized;
+
+DO $$
+DECLARE
+  recall recalls%ROWTYPE;
+  mismatch text;
+BEGIN
+  PERFORM merge_assets('00000000-0000-0000-0000-00000000c001', '00000000-0000-0000-0000-00000000c002', '{}');
+  PERFORM merge_assets('00000000-0000-0000-0000-00000000c003', '00000000-0000-0000-0000-00000000c004', '{lot_number}');
+
+  SELECT string_agg(format('%s has lot %s', serial_number, coalesce(lot_number, 'none')), '; ')
+  INTO mismatch
+  FROM assets
+  WHERE org_id = 'test-org'
+    AND (
+      lot_number IS DISTINCT FROM 'L100' OR
+      manufacturer_id IS DISTINCT FROM '00000000-0000-0000-0000-00000000b001'
+    );
+
+  IF mismatch IS NOT NULL THEN
+    RAISE EXCEPTION 'Survivors lost the duplicates'' provenance: %', mismatch;
+  END IF;
+
+  recall := issue_recall('00000000-0000-0000-0000-00000000b001', 'L100', NULL, 'T-RECALL');
+
+  SELECT string_agg(format('%s is %s', a.serial_number, a.status), '; ')
+  INTO mismatch
+  FROM assets a
+  LEFT JOIN recall_assets ra ON ra.asset_id = a.id AND ra.recall_id = recall.id
+  WHERE a.org_id = 'test-org'
+    AND (ra.id IS NULL OR a.status <> 'quarantined');
+
+  IF mismatch IS NOT NULL THEN
+    RAISE EXCEPTION 'The recall missed merged assets: %', mismatch;
+  END IF;
+
+  IF (SELECT count(*) FROM recall_assets WHERE recall_id = recall.id) <> 2 THEN
+    RAISE EXCEPTION 'Expected the recall to match the 2 survivors';
+  END IF;
+
+  RAISE NOTICE 'merge_assets followed by a recall: ok';
+END;
+$$;
+
+ROLLBACK;
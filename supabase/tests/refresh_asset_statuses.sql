@@ -0,0 +1,106 @@
+/*
+  # refresh_asset_statuses
+
+  Seeds one asset in every status, with stored statuses that are stale for the chosen
+  date, and runs the refresh for that date. Only `active`, `near-due` and `expired`
+  assets may change, and each change must be logged once in `asset_status_transitions`.
+
+  Runs against a local database with every migration applied and rolls back its data:
+    psql "$DATABASE_URL" -v ON_ERROR_STOP=1 -f supabase/tests/refresh_asset_statuses.sql
+  A failed assertion raises an exception.
+*/
+
+BEGIN;
+
+-- Gloves on the default 6-month interval, held so their due date runs from the last test
+INSERT INTO assets (
+  id, org_id, serial_number, asset_type, asset_class, assigned_user_id, issue_date,
+  last_certification_date, next_certification_date, status,
+  retired_date, disposal_method, disposal_witness
+)
+VALUES
+  -- Stale: overdue on 2025-08-01
+  ('00000000-0000-0000-0000-00000000a001', 'test-org', 'T-ACTIVE-OVERDUE', 'glove', 'Class 1', 'test-user',
+   '2025-01-01', '2025-01-01', '2025-07-01', 'active', NULL, NULL, NULL),
+  -- Stale: retested since and not due until December
+  ('00000000-0000-0000-0000-00000000a002', 'test-org', 'T-EXPIRED-RETESTED', 'glove', 'Class 1', 'test-user',
+   '2025-06-01', '2025-06-01', '2025-12-01', 'expired', NULL, NULL, NULL),
+  -- Stale: due within 30 days
+  ('00000000-0000-0000-0000-00000000a003', 'test-org', 'T-ACTIVE-DUE-SOON', 'glove', 'Class 1', 'test-user',
+   '2025-02-15', '2025-02-15', '2025-08-15', 'active', NULL, NULL, NULL),
+  -- Already correct
+  ('00000000-0000-0000-0000-00000000a004', 'test-org', 'T-NEAR-DUE', 'glove', 'Class 1', 'test-user',
+   '2025-02-15', '2025-02-15', '2025-08-15', 'near-due', NULL, NULL, NULL),
+  -- Overdue, but their status does not follow the dates
+  ('00000000-0000-0000-0000-00000000a005', 'test-org', 'T-IN-TESTING', 'glove', 'Class 1', 'test-user',
+   '2025-01-01', '2025-01-01', '2025-07-01', 'in-testing', NULL, NULL, NULL),
+  ('00000000-0000-0000-0000-00000000a006', 'test-org', 'T-QUARANTINED', 'glove', 'Class 1', 'test-user',
+   '2025-01-01', '2025-01-01', '2025-07-01', 'quarantined', NULL, NULL, NULL),
+  ('00000000-0000-0000-0000-00000000a007', 'test-org', 'T-FAILED', 'glove', 'Class 1', 'test-user',
+   '2025-01-01', '2025-01-01', '2025-07-01', 'failed', NULL, NULL, NULL),
+  ('00000000-0000-0000-0000-00000000a008', 'test-org', 'T-RETIRED', 'glove', 'Class 1', 'test-user',
+   '2025-01-01', '2025-01-01', '2025-07-01', 'retired', '2025-07-15', 'cut-and-discarded', 'Test Witness');
+
+DO $$
+DECLARE
+  changed integer;
+  mismatch text;
+BEGIN
+  changed := refresh_asset_statuses(p_as_of => '2025-08-01', p_org_id => 'test-org');
+
+  IF changed <> 3 THEN
+    RAISE EXCEPTION 'Expected 3 assets to change, got %', changed;
+  END IF;
+
+  SELECT string_agg(format('%s is %s, expected %s', a.serial_number, a.status, expected.status), '; ')
+  INTO mismatch
+  FROM assets a
+  JOIN (VALUES
+    ('T-ACTIVE-OVERDUE', 'expired'),
+    ('T-EXPIRED-RETESTED', 'active'),
+    ('T-ACTIVE-DUE-SOON', 'near-due'),
+    ('T-NEAR-DUE', 'near-due'),
+    ('T-IN-TESTING', 'in-testing'),
+    ('T-QUARANTINED', 'quarantined'),
+    ('T-FAILED', 'failed'),
+    ('T-RETIRED', 'retired')
+  ) AS expected (serial_number, status) ON expected.serial_number = a.serial_number
+  WHERE a.org_id = 'test-org'
+    AND a.status <> expected.status;
+
+  IF mismatch IS NOT NULL THEN
+    RAISE EXCEPTION 'Unexpected statuses after refresh: %', mismatch;
+  END IF;
+
+  SELECT string_agg(format('%s: %s', coalesce(a.serial_number, expected.serial_number), coalesce(t.logged, 'no transition')), '; ')
+  INTO mismatch
+  FROM (VALUES
+    ('T-ACTIVE-OVERDUE', 'active -> expired'),
+    ('T-EXPIRED-RETESTED', 'expired -> active'),
+    ('T-ACTIVE-DUE-SOON', 'active -> near-due')
+  ) AS expected (serial_number, logged)
+  FULL JOIN (
+    SELECT asset_id, from_status || ' -> ' || to_status AS logged
+    FROM asset_status_transitions
+    WHERE org_id = 'test-org'
+      AND source = 'scheduled-refresh'
+  ) t ON t.asset_id = (SELECT id FROM assets WHERE serial_number = expected.serial_number AND org_id = 'test-org')
+  LEFT JOIN assets a ON a.id = t.asset_id
+  WHERE t.logged IS DISTINCT FROM expected.logged;
+
+  IF mismatch IS NOT NULL THEN
+    RAISE EXCEPTION 'Unexpected status transitions: %', mismatch;
+  END IF;
+
+  -- Nothing is stale any more, so a second run changes and logs nothing
+  changed := refresh_asset_statuses(p_as_of => '2025-08-01', p_org_id => 'test-org');
+
+  IF changed <> 0 OR (SELECT count(*) FROM asset_status_transitions WHERE org_id = 'test-org') <> 3 THEN
+    RAISE EXCEPTION 'A second refresh changed % assets', changed;
+  END IF;
+
+  RAISE NOTICE 'refresh_asset_statuses: ok';
+END;
+$$;
+
+ROLLBACK;